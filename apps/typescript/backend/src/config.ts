@@ -0,0 +1,111 @@
+import { Effect } from "effect";
+import {
+  parsePluginReference,
+  type DocumentProcessingError,
+  type PluginRegistry,
+} from "ndoctrinate-core";
+import {
+  buildPipelines,
+  createBuiltinRegistry,
+  createProjectRegistry,
+  findConfigFile,
+  loadConfig,
+  type ComponentReference,
+  type ConfiguredPipeline,
+  type ProjectConfig,
+} from "ndoctrinate-tools";
+
+/**
+ * The project configuration the server was started with
+ */
+export interface ProjectContext {
+  /** Config file path, if one was found */
+  path?: string;
+  config: ProjectConfig;
+  /** Built-in plugins and those the configuration lists */
+  registry: PluginRegistry;
+  pipelines: Record<string, ConfiguredPipeline>;
+  /** Directory AsciiDoc includes may read from; without one they are off */
+  includeRoot?: string;
+}
+
+/**
+ * A parser reference with the options that keep uploaded documents from
+ * reading files on the server: AsciiDoc includes are confined to the
+ * include root, or turned off
+ */
+export function confineParser(
+  reference: ComponentReference,
+  includeRoot: string | undefined
+): ComponentReference {
+  const { name, version, options } = parsePluginReference(reference);
+  if (name !== "asciidoc") {
+    return reference;
+  }
+  return {
+    name,
+    ...(version !== undefined ? { version } : {}),
+    options: {
+      ...(options as Record<string, unknown> | undefined),
+      ...(includeRoot !== undefined ? { includeRoot } : { includes: false }),
+    },
+  };
+}
+
+/**
+ * Where the project configuration is and what AsciiDoc includes may read
+ */
+export interface ProjectOptions {
+  /** Config file; searched for in the working directory when omitted */
+  path?: string;
+  /** Directory AsciiDoc includes may read from */
+  includeRoot?: string;
+}
+
+/**
+ * Load the project configuration and build its pipelines
+ * By default the file is taken from `NDOCTRINATE_CONFIG`, or searched for in
+ * the working directory; without one the server runs with no pipelines.
+ * `NDOCTRINATE_INCLUDE_ROOT` names the directory AsciiDoc includes may read
+ * from, in configured pipelines as in ad hoc ones
+ */
+export function loadProject(
+  options: ProjectOptions = {
+    path: process.env.NDOCTRINATE_CONFIG,
+    includeRoot: process.env.NDOCTRINATE_INCLUDE_ROOT || undefined,
+  }
+): Effect.Effect<ProjectContext, DocumentProcessingError> {
+  return Effect.gen(function* () {
+    const { includeRoot } = options;
+    const path = options.path ?? (yield* findConfigFile());
+    if (path === undefined) {
+      return {
+        config: { pipelines: {} },
+        registry: createBuiltinRegistry(),
+        pipelines: {},
+        includeRoot,
+      };
+    }
+
+    const loaded = yield* loadConfig(path);
+    const config: ProjectConfig = {
+      ...loaded,
+      pipelines: Object.fromEntries(
+        Object.entries(loaded.pipelines).map(([name, pipeline]) => [
+          name,
+          { ...pipeline, parser: confineParser(pipeline.parser, includeRoot) },
+        ])
+      ),
+    };
+    const { registry, pipelines } = yield* Effect.mapError(
+      Effect.flatMap(createProjectRegistry(config, path), (registry) =>
+        Effect.map(buildPipelines(config, registry), (pipelines) => ({
+          registry,
+          pipelines,
+        }))
+      ),
+      (error) => ({ ...error, path })
+    );
+    return { path, config, registry, pipelines, includeRoot };
+  });
+}
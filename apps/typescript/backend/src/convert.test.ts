@@ -0,0 +1,88 @@
+/**
+ * Tests for converting uploaded documents
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { Effect } from "effect";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createBuiltinRegistry } from "ndoctrinate-tools";
+import type { ProjectContext } from "./config.js";
+import { convertDocument, type ConversionRequest } from "./convert.js";
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+function project(includeRoot?: string): ProjectContext {
+  return {
+    config: { pipelines: {} },
+    registry: createBuiltinRegistry(),
+    pipelines: {},
+    includeRoot,
+  };
+}
+
+describe("convertDocument", () => {
+  let root: string;
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), "backend-convert-"));
+    await writeFile(join(root, "part.adoc"), "Included text.\n");
+  });
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  const adoc = (text: string): ConversionRequest => ({
+    bytes: encode(text),
+    filename: "../../guide.adoc",
+    to: "text",
+  });
+
+  it("should name the output after the uploaded file", async () => {
+    const conversion = await Effect.runPromise(
+      convertDocument(project(), {
+        bytes: encode("# Title\n\nSome *text*.\n"),
+        filename: "notes.md",
+        to: "markdown",
+      })
+    );
+
+    expect(conversion).toMatchObject({
+      content: "# Title\n\nSome *text*.\n",
+      mediaType: "text/markdown; charset=utf-8",
+      filename: "notes.md",
+    });
+  });
+
+  it("should not read AsciiDoc includes without an include root", async () => {
+    const error = await Effect.runPromise(
+      Effect.flip(
+        convertDocument(project(), adoc("Intro.\n\ninclude::/etc/hostname[]\n"))
+      )
+    );
+
+    expect(error).toMatchObject({
+      _tag: "ParseError",
+      message: "Includes are disabled: /etc/hostname",
+    });
+  });
+
+  it("should resolve includes from the include root, not the filename", async () => {
+    const conversion = await Effect.runPromise(
+      convertDocument(project(root), adoc("include::part.adoc[]\n"))
+    );
+    expect(conversion.content).toBe("Included text.");
+
+    const error = await Effect.runPromise(
+      Effect.flip(
+        convertDocument(project(root), adoc("include::/etc/hostname[]\n"))
+      )
+    );
+    expect(error).toMatchObject({
+      _tag: "ParseError",
+      message: "Include outside the include root: /etc/hostname",
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import { Effect } from "effect";
+import { basename, extname } from "node:path";
+import {
+  createUnsupportedFormatError,
+  createValidationError,
+  createVFile,
+  type DocumentProcessingError,
+  type TreeSnapshot,
+} from "ndoctrinate-core";
+import {
+  buildPipeline,
+  detectFormat,
+  runPipeline,
+  tracePipeline,
+  type ConfiguredPipeline,
+} from "ndoctrinate-tools";
+import { confineParser, type ProjectContext } from "./config.js";
+
+/**
+ * A document to convert and how to convert it
+ */
+export interface ConversionRequest {
+  bytes: Uint8Array;
+  /** Name of the uploaded file, used for detection and the output name */
+  filename?: string;
+  /** Media type the document was sent with */
+  mediaType?: string;
+  /** Parser to read with; detected from the document when omitted */
+  from?: string;
+  /** Compiler to write with; needed unless `pipeline` is given */
+  to?: string;
+  /** Pipeline from the project configuration; overrides `from` and `to` */
+  pipeline?: string;
+}
+
+export interface Conversion {
+  content: string | Uint8Array;
+  pipeline: ConfiguredPipeline;
+  /** Media type of the content */
+  mediaType: string;
+  /** The input's name with the compiler's extension, when both are known */
+  filename?: string;
+  /** Warnings reported by the parser, transformers and compiler */
+  messages: ReturnType<typeof createVFile>["messages"];
+  /** The tree after parsing and after each transformer, when traced */
+  snapshots?: readonly TreeSnapshot[];
+}
+
+/**
+ * Media types of the built-in compilers' output, and of an `html` plugin
+ * compiler's, which the client renders
+ */
+const mediaTypes: Record<string, string> = {
+  markdown: "text/markdown; charset=utf-8",
+  text: "text/plain; charset=utf-8",
+  html: "text/html; charset=utf-8",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+};
+
+function mediaTypeOf(pipeline: ConfiguredPipeline): string {
+  if (Object.hasOwn(mediaTypes, pipeline.to)) {
+    return mediaTypes[pipeline.to];
+  }
+  return pipeline.binaryOutput
+    ? "application/octet-stream"
+    : "text/plain; charset=utf-8";
+}
+
+function outputName(
+  pipeline: ConfiguredPipeline,
+  filename: string | undefined
+): string | undefined {
+  if (filename === undefined || pipeline.extension === "") {
+    return undefined;
+  }
+  const name = basename(filename);
+  return name.slice(0, name.length - extname(name).length) + pipeline.extension;
+}
+
+/**
+ * Pick the parser for a document from its content, name and media type:
+ * the first detected format some registered parser reads, or an
+ * UnsupportedFormatError when no parser reads any of them
+ */
+function detectParser(
+  project: ProjectContext,
+  request: ConversionRequest
+): Effect.Effect<string, DocumentProcessingError> {
+  const parsers = project.registry.list({ kind: "parser" });
+  const candidates = detectFormat(request.bytes, {
+    path: request.filename,
+    mimeType: request.mediaType,
+  });
+  for (const { format } of candidates) {
+    const parser = parsers.find((manifest) =>
+      manifest.inputFormats?.includes(format)
+    );
+    if (parser) {
+      return Effect.succeed(parser.name);
+    }
+  }
+  return Effect.fail(
+    createUnsupportedFormatError(
+      candidates[0]?.format,
+      parsers.flatMap((manifest) => manifest.inputFormats ?? []),
+      request.filename !== undefined ? { path: request.filename } : {}
+    )
+  );
+}
+
+/**
+ * The named pipeline, or one built from the given or detected parser and
+ * the given compiler
+ */
+function resolvePipeline(
+  project: ProjectContext,
+  request: ConversionRequest
+): Effect.Effect<ConfiguredPipeline, DocumentProcessingError> {
+  if (request.pipeline !== undefined) {
+    return Object.hasOwn(project.pipelines, request.pipeline)
+      ? Effect.succeed(project.pipelines[request.pipeline])
+      : Effect.fail(
+          createValidationError(
+            `Unknown pipeline "${request.pipeline}"`,
+            Object.keys(project.pipelines).map((name) => `available: ${name}`)
+          )
+        );
+  }
+
+  return Effect.gen(function* () {
+    const { to } = request;
+    if (to === undefined) {
+      return yield* Effect.fail(
+        createValidationError("Pass to, or the name of a pipeline")
+      );
+    }
+    const from = request.from ?? (yield* detectParser(project, request));
+    return yield* buildPipeline(
+      `${from}-to-${to}`,
+      { parser: confineParser(from, project.includeRoot), compiler: to },
+      project.registry
+    );
+  });
+}
+
+/**
+ * Convert a document with a configured or ad hoc pipeline
+ *
+ * @param project - Pipelines and plugins the server was started with
+ * @param request - The document and the formats or pipeline to use
+ * @param options - `trace` keeps the tree after each step
+ * @returns The output with its media type, or the error that stopped it
+ */
+export function convertDocument(
+  project: ProjectContext,
+  request: ConversionRequest,
+  options: { trace?: boolean } = {}
+): Effect.Effect<Conversion, DocumentProcessingError> {
+  return Effect.gen(function* () {
+    const pipeline = yield* resolvePipeline(project, request);
+    // Only the name is kept, so includes resolve from the include root
+    // rather than a directory the client picks
+    const name = request.filename && basename(request.filename);
+    const file = createVFile(request.bytes, {
+      cwd: project.includeRoot ?? process.cwd(),
+      ...(name ? { path: name } : {}),
+    });
+    const { output: content, snapshots } = options.trace
+      ? yield* tracePipeline(pipeline, request.bytes, file)
+      : { output: yield* runPipeline(pipeline, request.bytes, file) };
+    return {
+      content,
+      pipeline,
+      mediaType: mediaTypeOf(pipeline),
+      filename: outputName(pipeline, request.filename),
+      messages: file.messages,
+      ...(snapshots ? { snapshots } : {}),
+    };
+  });
+}
@@ -0,0 +1,41 @@
+import {
+  formatPipelineError,
+  type DocumentProcessingError,
+} from "ndoctrinate-core";
+
+/**
+ * HTTP status for each kind of failure: problems with the request are 4xx,
+ * failures the caller cannot fix are 5xx
+ */
+const statuses: Record<DocumentProcessingError["_tag"], number> = {
+  ValidationError: 400,
+  PluginError: 400,
+  UnsupportedSourceError: 415,
+  UnsupportedFormatError: 415,
+  DecodeError: 422,
+  ParseError: 422,
+  TransformError: 422,
+  CompileError: 500,
+  IoError: 500,
+};
+
+export function errorStatus(error: DocumentProcessingError): number {
+  return statuses[error._tag];
+}
+
+/**
+ * JSON body for a failed request: the error's tag, message and context,
+ * with the diagnostic the CLI prints for it
+ * The cause stays on the server, since it may hold stack traces and paths
+ */
+export function errorBody(error: DocumentProcessingError) {
+  const fields = Object.fromEntries(
+    Object.entries(error).filter(([key]) => key !== "cause")
+  );
+  return {
+    error: {
+      ...(fields as Omit<DocumentProcessingError, "cause">),
+      formatted: formatPipelineError(error),
+    },
+  };
+}
@@ -2,8 +2,55 @@ import { Elysia } from "elysia";
 import { swagger } from "@elysiajs/swagger";
 import { cors } from "@elysiajs/cors";
 import { Effect } from "effect";
+import { availableParallelism } from "node:os";
+import { formatPipelineError } from "ndoctrinate-core";
+import { loadProject } from "./config.js";
+import { JobQueue } from "./jobs/queue.js";
+import { createWorkerRunner } from "./jobs/runner.js";
+import { JobStore } from "./jobs/store.js";
+import { createConvertRoutes } from "./routes/convert.js";
+import { exampleRoutes } from "./routes/example.js";
+import { createFormatRoutes } from "./routes/formats.js";
+import { createInspectRoutes } from "./routes/inspect.js";
+import { createJobRoutes } from "./routes/jobs.js";
+import { maxDocumentBytes } from "./routes/documents.js";
+import { createPipelineRoutes } from "./routes/pipelines.js";
 
-const app = new Elysia()
+// An invalid configuration stops the server rather than leaving it running
+// without the pipelines it was expected to serve
+const project = await Effect.runPromise(
+  Effect.catchAll(loadProject(), (error) =>
+    Effect.sync(() => {
+      console.error(formatPipelineError(error));
+      process.exit(1);
+    })
+  )
+);
+
+// Jobs are kept in SQLite so queued and interrupted jobs run again after a
+// restart
+const jobs = new JobStore(
+  process.env.NDOCTRINATE_JOBS_DB ?? "ndoctrinate-jobs.sqlite"
+);
+// Finished jobs are deleted with their documents once they are older than
+// the retention period
+const jobRetention =
+  (Number(process.env.NDOCTRINATE_JOB_RETENTION_HOURS) || 24) * 60 * 60 * 1000;
+const purgeJobs = () => jobs.purge(new Date(Date.now() - jobRetention));
+purgeJobs();
+setInterval(purgeJobs, Math.min(jobRetention, 60 * 60 * 1000));
+// Jobs convert in worker threads, leaving the main thread to answer requests
+const queue = new JobQueue(
+  jobs,
+  createWorkerRunner(project),
+  Number(process.env.NDOCTRINATE_JOB_WORKERS) || availableParallelism()
+);
+
+// Bodies well over the document limit are refused before they are read; a
+// base64 or multipart body is larger than the document it carries
+const app = new Elysia({
+  serve: { maxRequestBodySize: 2 * maxDocumentBytes },
+})
   .use(
     swagger({
       documentation: {
@@ -17,6 +64,22 @@ const app = new Elysia()
             name: "Health",
             description: "Health check endpoints",
           },
+          {
+            name: "Pipelines",
+            description: "Pipelines from the project configuration",
+          },
+          {
+            name: "Conversion",
+            description: "Document conversion",
+          },
+          {
+            name: "Jobs",
+            description: "Conversions running in the background",
+          },
+          {
+            name: "Examples",
+            description: "Example endpoints",
+          },
         ],
       },
     })
@@ -45,11 +108,22 @@ const app = new Elysia()
       },
     }
   )
+  .use(exampleRoutes)
+  .use(createPipelineRoutes(project))
+  .use(createFormatRoutes(project))
+  .use(createConvertRoutes(project))
+  .use(createInspectRoutes(project))
+  .use(createJobRoutes(jobs, queue))
   .listen(3000);
 
 console.log(
   `🦊 Elysia is running at ${app.server?.hostname}:${app.server?.port}`
 );
+if (project.path) {
+  console.log(
+    `📄 Loaded ${Object.keys(project.pipelines).length} pipeline(s) from ${project.path}`
+  );
+}
 console.log(
   `📚 Swagger documentation available at http://localhost:3000/swagger`
 );
@@ -0,0 +1,111 @@
+/**
+ * Tests for the job queue
+ */
+
+import { describe, it, expect } from "bun:test";
+import { Effect } from "effect";
+import { createBuiltinRegistry } from "ndoctrinate-tools";
+import { gatedProject } from "../testing.js";
+import { JobQueue, type JobEvent } from "./queue.js";
+import { createProcessRunner } from "./runner.js";
+import { isFinished, JobStore, type Job } from "./store.js";
+
+const markdown = new TextEncoder().encode("# Title\n\nSome *text*.\n");
+
+/**
+ * The job once it has finished
+ */
+async function settled(store: JobStore, id: string): Promise<Job> {
+  for (let attempt = 0; attempt < 400; attempt++) {
+    const job = store.get(id)!;
+    if (isFinished(job.status)) {
+      return job;
+    }
+    await Bun.sleep(5);
+  }
+  throw new Error(`Job ${id} did not finish`);
+}
+
+describe("JobQueue", () => {
+  it("should convert queued jobs and tell subscribers how they went", async () => {
+    const { project, open } = gatedProject();
+    const store = new JobStore(":memory:");
+    const queue = new JobQueue(store, createProcessRunner(project), 1);
+    const job = queue.enqueue({ bytes: markdown, pipeline: "gated" });
+    const events: JobEvent[] = [];
+    queue.subscribe(job.id, (event) => events.push(event));
+
+    open();
+    const finished = await settled(store, job.id);
+
+    expect(finished).toMatchObject({ status: "succeeded", progress: 1 });
+    expect(new TextDecoder().decode(store.result(job.id)?.content)).toBe(
+      "Title\n\nSome text."
+    );
+    expect(events.map((event) => event.type)).toContain("compile-end");
+    expect(events.at(-1)).toMatchObject({
+      type: "job",
+      job: { status: "succeeded" },
+    });
+  });
+
+  it("should record why a job failed", async () => {
+    const store = new JobStore(":memory:");
+    const queue = new JobQueue(
+      store,
+      createProcessRunner({
+        config: { pipelines: {} },
+        registry: createBuiltinRegistry(),
+        pipelines: {},
+      }),
+      1
+    );
+    const { id } = queue.enqueue({ bytes: markdown, to: "pdf" });
+
+    expect(await settled(store, id)).toMatchObject({
+      status: "failed",
+      error: { _tag: "PluginError", plugin: "pdf" },
+    });
+  });
+
+  it("should cancel queued jobs and interrupt running ones", async () => {
+    const { project } = gatedProject();
+    const store = new JobStore(":memory:");
+    const queue = new JobQueue(store, createProcessRunner(project), 1);
+    const running = queue.enqueue({ bytes: markdown, pipeline: "gated" });
+    const queued = queue.enqueue({ bytes: markdown, pipeline: "gated" });
+    // The only worker waits in the first job's conversion
+    while (store.get(running.id)!.status !== "running") {
+      await Bun.sleep(5);
+    }
+
+    const events: JobEvent[] = [];
+    queue.subscribe(queued.id, (event) => events.push(event));
+    expect(await Effect.runPromise(queue.cancel(queued.id))).toMatchObject({
+      status: "cancelled",
+    });
+    expect(events).toMatchObject([
+      { type: "job", job: { status: "cancelled" } },
+    ]);
+
+    await Effect.runPromise(queue.cancel(running.id));
+    expect(await settled(store, running.id)).toMatchObject({
+      status: "cancelled",
+    });
+    expect(store.result(running.id)).toBeUndefined();
+    expect(await Effect.runPromise(queue.cancel("missing"))).toBeUndefined();
+  });
+
+  it("should run jobs left running by a previous process", async () => {
+    const { project, open } = gatedProject();
+    const store = new JobStore(":memory:");
+    const { id } = store.create({ bytes: markdown, pipeline: "gated" });
+    store.start(id);
+
+    // Starting the queue stands in for restarting the server
+    new JobQueue(store, createProcessRunner(project), 1);
+    open();
+
+    expect(await settled(store, id)).toMatchObject({ status: "succeeded" });
+  });
+});
@@ -0,0 +1,172 @@
+import { Cause, Effect, Exit, Fiber, Queue } from "effect";
+import type { ConversionRequest } from "../convert.js";
+import { jobError, type ConversionEvent, type JobRunner } from "./runner.js";
+import type { Job, JobStore } from "./store.js";
+
+/**
+ * What a job's subscribers are told: the job whenever its status changes,
+ * and the events of its conversion as they happen
+ */
+export type JobEvent = { type: "job"; job: Job } | ConversionEvent;
+
+/**
+ * How far a conversion has got after an event: parsing and transforming
+ * take most of the time, compiling the rest
+ */
+function progressAfter(event: ConversionEvent): number | undefined {
+  switch (event.type) {
+    case "parse-end":
+      return 0.4;
+    case "transform-end":
+      return 0.4 + (0.4 * (event.index + 1)) / event.count;
+    case "compile-end":
+      return 0.95;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Runs queued jobs on a fixed number of worker fibers
+ *
+ * Each conversion runs in a fiber of its own through the queue's runner, so
+ * cancelling a job interrupts the fiber and with it the conversion; the
+ * server's runner converts in worker threads, which stop at once.
+ * Jobs left queued or running by a previous process are picked up again
+ * when the queue starts.
+ */
+export class JobQueue {
+  private readonly queue = Effect.runSync(Queue.unbounded<string>());
+  private readonly running = new Map<
+    string,
+    Fiber.RuntimeFiber<unknown, unknown>
+  >();
+  private readonly subscribers = new Map<
+    string,
+    Set<(event: JobEvent) => void>
+  >();
+
+  /**
+   * @param store - Where jobs and their documents are kept
+   * @param runner - Runs each job's conversion
+   * @param workers - How many jobs run at once
+   */
+  constructor(
+    private readonly store: JobStore,
+    private readonly runner: JobRunner,
+    workers: number
+  ) {
+    Effect.runSync(Queue.offerAll(this.queue, store.recover()));
+    for (let worker = 0; worker < workers; worker++) {
+      Effect.runFork(
+        Effect.forever(
+          Effect.flatMap(Queue.take(this.queue), (id) =>
+            // A broken job must not take its worker down with it
+            Effect.catchAllCause(this.run(id), (cause) =>
+              Effect.sync(() => console.error(Cause.pretty(cause)))
+            )
+          )
+        )
+      );
+    }
+  }
+
+  /**
+   * Store a job and queue it to run
+   */
+  enqueue(request: ConversionRequest): Job {
+    const job = this.store.create(request);
+    Effect.runSync(Queue.offer(this.queue, job.id));
+    return job;
+  }
+
+  /**
+   * Listen to a job's events
+   *
+   * @returns A function that stops listening
+   */
+  subscribe(id: string, listener: (event: JobEvent) => void): () => void {
+    let listeners = this.subscribers.get(id);
+    if (!listeners) {
+      listeners = new Set();
+      this.subscribers.set(id, listeners);
+    }
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0 && this.subscribers.get(id) === listeners) {
+        this.subscribers.delete(id);
+      }
+    };
+  }
+
+  private publish(id: string, event: JobEvent): void {
+    for (const listener of this.subscribers.get(id) ?? []) {
+      listener(event);
+    }
+  }
+
+  /**
+   * Tell subscribers the job's current state
+   */
+  private publishJob(id: string): void {
+    const job = this.store.get(id);
+    if (job) {
+      this.publish(id, { type: "job", job });
+    }
+  }
+
+  /**
+   * Cancel a job that has not finished, interrupting its conversion
+   *
+   * @returns The job as it now is, or undefined for an unknown job
+   */
+  cancel(id: string): Effect.Effect<Job | undefined> {
+    return Effect.gen(this, function* () {
+      const cancelled = this.store.cancel(id);
+      const fiber = this.running.get(id);
+      if (fiber) {
+        yield* Fiber.interrupt(fiber);
+      }
+      if (cancelled) {
+        this.publishJob(id);
+      }
+      return this.store.get(id);
+    });
+  }
+
+  private run(id: string): Effect.Effect<void> {
+    return Effect.gen(this, function* () {
+      // Cancelled while it waited
+      if (!this.store.start(id)) {
+        return;
+      }
+      const job = this.store.get(id)!;
+      const bytes = this.store.input(id)!;
+      this.publishJob(id);
+
+      const fiber = yield* Effect.fork(
+        this.runner({ ...job.request, bytes }, (event) => {
+          const progress = progressAfter(event);
+          if (progress !== undefined) {
+            this.store.progress(id, progress);
+          }
+          this.publish(id, event);
+        })
+      );
+      this.running.set(id, fiber);
+      const exit = yield* Fiber.await(fiber);
+      this.running.delete(id);
+
+      if (Exit.isSuccess(exit)) {
+        const { messages, ...result } = exit.value;
+        this.store.succeed(id, result, messages);
+      } else if (Cause.isInterruptedOnly(exit.cause)) {
+        this.store.cancel(id);
+      } else {
+        this.store.fail(id, jobError(exit.cause));
+      }
+      this.publishJob(id);
+    });
+  }
+}
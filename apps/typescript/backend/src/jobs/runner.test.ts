@@ -0,0 +1,105 @@
+/**
+ * Tests for the runners that convert jobs' documents
+ */
+
+import { describe, it, expect, afterEach } from "bun:test";
+import { Effect } from "effect";
+import * as fs from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createBuiltinRegistry } from "ndoctrinate-tools";
+import { loadProject } from "../config.js";
+import { JobQueue, type JobEvent } from "./queue.js";
+import { createWorkerRunner, type ConversionEvent } from "./runner.js";
+import { JobStore } from "./store.js";
+
+const markdown = new TextEncoder().encode("# Title\n\nSome *text*.\n");
+
+const builtins = {
+  config: { pipelines: {} },
+  registry: createBuiltinRegistry(),
+  pipelines: {},
+};
+
+let dir: string | undefined;
+
+afterEach(async () => {
+  if (dir) {
+    await fs.rm(dir, { recursive: true, force: true });
+    dir = undefined;
+  }
+});
+
+describe("createWorkerRunner", () => {
+  it("should convert in a worker and pass its events on", async () => {
+    const events: ConversionEvent[] = [];
+    const outcome = await Effect.runPromise(
+      createWorkerRunner(builtins)({ bytes: markdown, to: "text" }, (event) =>
+        events.push(event)
+      )
+    );
+
+    expect(outcome).toMatchObject({
+      content: "Title\n\nSome text.",
+      mediaType: "text/plain; charset=utf-8",
+      messages: [],
+    });
+    expect(events.map((event) => event.type)).toContain("compile-end");
+  });
+
+  it("should fail with the error the job records", async () => {
+    const error = await Effect.runPromise(
+      Effect.flip(
+        createWorkerRunner(builtins)({ bytes: markdown, to: "pdf" }, () => {})
+      )
+    );
+
+    expect(error).toMatchObject({ _tag: "PluginError", plugin: "pdf" });
+  });
+
+  it("should stop a conversion that never yields when its job is cancelled", async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), "ndoctrinate-jobs-"));
+    await fs.writeFile(
+      join(dir, "spin.js"),
+      `export default {
+  manifest: {
+    name: "spin", version: "1.0.0", kind: "transformer",
+    treeType: "ndoctrinate", core: "^0.1.0",
+  },
+  create: () => ({ transform: () => { for (;;) {} } }),
+};
+`
+    );
+    const path = join(dir, "ndoctrinate.config.json");
+    await fs.writeFile(
+      path,
+      JSON.stringify({
+        plugins: ["./spin.js"],
+        pipelines: {
+          spin: {
+            parser: "markdown",
+            transformers: ["spin"],
+            compiler: "text",
+          },
+        },
+      })
+    );
+    const project = await Effect.runPromise(loadProject({ path }));
+    const store = new JobStore(":memory:");
+    const queue = new JobQueue(store, createWorkerRunner(project), 1);
+    const { id } = queue.enqueue({ bytes: markdown, pipeline: "spin" });
+    const spinning = Promise.withResolvers<void>();
+    queue.subscribe(id, (event: JobEvent) => {
+      if (event.type === "parse-end") {
+        spinning.resolve();
+      }
+    });
+
+    // The transformer spins once the document is parsed, while the server's
+    // thread goes on
+    await spinning.promise;
+    await Effect.runPromise(queue.cancel(id));
+
+    expect(store.get(id)).toMatchObject({ status: "cancelled" });
+  });
+});
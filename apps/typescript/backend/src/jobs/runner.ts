@@ -0,0 +1,143 @@
+import { Cause, Effect, Option } from "effect";
+import { ProcessorEventsService, type ProcessorEvent } from "ndoctrinate-core";
+import type { ProjectContext, ProjectOptions } from "../config.js";
+import { convertDocument, type ConversionRequest } from "../convert.js";
+import { errorBody } from "../errors.js";
+import { jobMessage, type JobError, type JobMessage } from "./store.js";
+
+/**
+ * An event of a job's conversion, with its warnings as jobs record them
+ */
+export type ConversionEvent =
+  | Exclude<ProcessorEvent, { type: "message" }>
+  | { type: "message"; message: JobMessage };
+
+/**
+ * A job's converted document and the warnings reported converting it
+ */
+export interface JobOutcome {
+  content: string | Uint8Array;
+  mediaType: string;
+  filename?: string;
+  messages: JobMessage[];
+}
+
+/**
+ * Runs a job's conversion, telling `publish` about its events as they
+ * happen; interrupting the Effect stops the conversion
+ */
+export type JobRunner = (
+  request: ConversionRequest,
+  publish: (event: ConversionEvent) => void
+) => Effect.Effect<JobOutcome, JobError>;
+
+/**
+ * The error a job records for the cause of its failure
+ */
+export function jobError(cause: Cause.Cause<JobError>): JobError {
+  const failure = Cause.failureOption(cause);
+  if (Option.isSome(failure)) {
+    return failure.value;
+  }
+  const error = Cause.squash(cause);
+  return {
+    message: `Conversion failed unexpectedly: ${error instanceof Error ? error.message : String(error)}`,
+  };
+}
+
+/**
+ * Convert a job's document with a project's pipelines
+ */
+export function convertJob(
+  project: ProjectContext,
+  request: ConversionRequest,
+  publish: (event: ConversionEvent) => void
+): Effect.Effect<JobOutcome, JobError> {
+  return convertDocument(project, request).pipe(
+    Effect.map(({ content, mediaType, filename, messages }) => ({
+      content,
+      mediaType,
+      ...(filename !== undefined ? { filename } : {}),
+      messages: messages.map(jobMessage),
+    })),
+    Effect.mapError((error) => errorBody(error).error),
+    Effect.provideService(ProcessorEventsService, {
+      emit: (event) =>
+        publish(
+          event.type === "message"
+            ? { type: "message", message: jobMessage(event.message) }
+            : event
+        ),
+    })
+  );
+}
+
+/**
+ * Run conversions in the server's process
+ *
+ * They share the main thread with requests, and are interrupted only at the
+ * points the Effect runtime yields.
+ */
+export function createProcessRunner(project: ProjectContext): JobRunner {
+  return (request, publish) => convertJob(project, request, publish);
+}
+
+/**
+ * What a conversion worker is sent: the project to load and the document
+ * to convert with it
+ */
+export interface WorkerRequest {
+  project: ProjectOptions;
+  request: ConversionRequest;
+}
+
+/**
+ * What a conversion worker posts back: its events, then how it went
+ */
+export type WorkerMessage =
+  | { type: "event"; event: ConversionEvent }
+  | { type: "succeeded"; outcome: JobOutcome }
+  | { type: "failed"; error: JobError };
+
+/**
+ * Run each conversion in a worker thread of its own
+ *
+ * The worker loads the project's configuration again, so plugins are
+ * imported in the thread that runs them. A conversion cannot hold up the
+ * server's requests, and interrupting it terminates the worker, stopping
+ * even a conversion that never yields.
+ */
+export function createWorkerRunner(project: ProjectContext): JobRunner {
+  return (request, publish) =>
+    Effect.async<JobOutcome, JobError>((resume) => {
+      const worker = new Worker(new URL("./worker.js", import.meta.url));
+      const finish = (result: Effect.Effect<JobOutcome, JobError>) => {
+        worker.terminate();
+        resume(result);
+      };
+      worker.onmessage = ({ data }: MessageEvent<WorkerMessage>) => {
+        switch (data.type) {
+          case "event":
+            publish(data.event);
+            break;
+          case "succeeded":
+            finish(Effect.succeed(data.outcome));
+            break;
+          case "failed":
+            finish(Effect.fail(data.error));
+            break;
+        }
+      };
+      worker.onerror = (event) =>
+        finish(
+          Effect.fail({
+            message: `Conversion failed unexpectedly: ${event.message}`,
+          })
+        );
+      worker.postMessage({
+        project: { path: project.path, includeRoot: project.includeRoot },
+        request,
+      } satisfies WorkerRequest);
+      return Effect.sync(() => worker.terminate());
+    });
+}
@@ -0,0 +1,112 @@
+/**
+ * Tests for the SQLite job store
+ */
+
+import { describe, it, expect } from "bun:test";
+import { JobStore } from "./store.js";
+
+const request = {
+  bytes: new TextEncoder().encode("# Title\n"),
+  filename: "notes.md",
+  to: "text",
+};
+
+describe("JobStore", () => {
+  it("should keep a created job queued with its document", () => {
+    const store = new JobStore(":memory:");
+    const job = store.create(request);
+
+    expect(job).toMatchObject({
+      status: "queued",
+      progress: 0,
+      request: { filename: "notes.md", to: "text" },
+      messages: [],
+    });
+    expect(job.request).not.toHaveProperty("bytes");
+    expect(store.get(job.id)).toEqual(job);
+    expect(store.input(job.id)).toEqual(request.bytes);
+    expect(store.get("missing")).toBeUndefined();
+  });
+
+  it("should keep the result and messages of a job that succeeded", () => {
+    const store = new JobStore(":memory:");
+    const { id } = store.create(request);
+
+    expect(
+      store.succeed(id, { content: "Title", mediaType: "text/plain" }, [])
+    ).toBe(false);
+    expect(store.start(id)).toBe(true);
+    expect(store.start(id)).toBe(false);
+    store.succeed(
+      id,
+      { content: "Title", mediaType: "text/plain", filename: "notes.txt" },
+      [{ reason: "Unused definition", line: 3, column: 1 }]
+    );
+
+    expect(store.get(id)).toMatchObject({
+      status: "succeeded",
+      progress: 1,
+      messages: [{ reason: "Unused definition", line: 3, column: 1 }],
+      result: { mediaType: "text/plain", filename: "notes.txt", size: 5 },
+    });
+    expect(store.result(id)).toEqual({
+      content: new TextEncoder().encode("Title"),
+      mediaType: "text/plain",
+      filename: "notes.txt",
+    });
+  });
+
+  it("should cancel only jobs that have not finished", () => {
+    const store = new JobStore(":memory:");
+    const queued = store.create(request).id;
+    const running = store.create(request).id;
+    const failed = store.create(request).id;
+    store.start(running);
+    store.start(failed);
+    store.fail(failed, { message: "Broken" });
+
+    expect(store.cancel(queued)).toBe(true);
+    expect(store.cancel(running)).toBe(true);
+    expect(store.cancel(failed)).toBe(false);
+    expect(store.get(failed)).toMatchObject({
+      status: "failed",
+      error: { message: "Broken" },
+    });
+
+    // A conversion that finishes after its job was cancelled changes nothing
+    expect(store.start(queued)).toBe(false);
+    expect(
+      store.succeed(running, { content: "x", mediaType: "text/plain" }, [])
+    ).toBe(false);
+    expect(store.get(running)).toMatchObject({ status: "cancelled" });
+    expect(store.result(running)).toBeUndefined();
+  });
+
+  it("should purge finished jobs older than a time", () => {
+    const store = new JobStore(":memory:");
+    const queued = store.create(request).id;
+    const done = store.create(request).id;
+    store.start(done);
+    store.succeed(done, { content: "x", mediaType: "text/plain" }, []);
+
+    expect(store.purge(new Date(0))).toBe(0);
+    expect(store.purge(new Date(Date.now() + 1000))).toBe(1);
+    expect(store.get(done)).toBeUndefined();
+    expect(store.get(queued)).toMatchObject({ status: "queued" });
+  });
+
+  it("should requeue jobs that were running when the process stopped", () => {
+    const store = new JobStore(":memory:");
+    const first = store.create(request).id;
+    const second = store.create(request).id;
+    const done = store.create(request).id;
+    store.start(first);
+    store.progress(first, 0.4);
+    store.start(done);
+    store.succeed(done, { content: "x", mediaType: "text/plain" }, []);
+
+    expect(store.recover()).toEqual([first, second]);
+    expect(store.get(first)).toMatchObject({ status: "queued", progress: 0 });
+    expect(store.get(done)).toMatchObject({ status: "succeeded" });
+  });
+});
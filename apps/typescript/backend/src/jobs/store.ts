@@ -0,0 +1,315 @@
+import { Database } from "bun:sqlite";
+import type { Conversion, ConversionRequest } from "../convert.js";
+
+export type JobStatus =
+  | "queued"
+  | "running"
+  | "succeeded"
+  | "failed"
+  | "cancelled";
+
+/**
+ * Whether a job has stopped for good
+ */
+export function isFinished(status: JobStatus): boolean {
+  return (
+    status === "succeeded" || status === "failed" || status === "cancelled"
+  );
+}
+
+/**
+ * How a job converts its document, without the document itself
+ */
+export type JobRequest = Omit<ConversionRequest, "bytes">;
+
+/**
+ * A warning reported while converting
+ */
+export interface JobMessage {
+  reason: string;
+  line?: number;
+  column?: number;
+  ruleId?: string;
+  source?: string;
+}
+
+/**
+ * A warning as clients see it
+ */
+export function jobMessage(
+  message: Conversion["messages"][number]
+): JobMessage {
+  return {
+    reason: message.reason,
+    ...(message.line !== undefined
+      ? { line: message.line, column: message.column }
+      : {}),
+    ...(message.ruleId ? { ruleId: message.ruleId } : {}),
+    ...(message.source ? { source: message.source } : {}),
+  };
+}
+
+/**
+ * Why a job failed: the fields of `errorBody` for a processing error, or
+ * just a message for an unexpected failure
+ */
+export type JobError = { message: string } & Record<string, unknown>;
+
+/**
+ * A job as clients see it
+ */
+export interface Job {
+  id: string;
+  status: JobStatus;
+  /** From 0 when queued to 1 when finished */
+  progress: number;
+  request: JobRequest;
+  messages: JobMessage[];
+  error?: JobError;
+  /** The converted document, once the job succeeded */
+  result?: { mediaType: string; filename?: string; size: number };
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface JobRow {
+  id: string;
+  status: JobStatus;
+  progress: number;
+  request: string;
+  messages: string;
+  error: string | null;
+  result_type: string | null;
+  result_name: string | null;
+  result_size: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Columns clients see, leaving out the input and result documents
+const columns =
+  "id, status, progress, request, messages, error, result_type, result_name, result_size, created_at, updated_at";
+
+function toJob(row: JobRow): Job {
+  return {
+    id: row.id,
+    status: row.status,
+    progress: row.progress,
+    request: JSON.parse(row.request) as JobRequest,
+    messages: JSON.parse(row.messages) as JobMessage[],
+    ...(row.error !== null ? { error: JSON.parse(row.error) as JobError } : {}),
+    ...(row.result_type !== null
+      ? {
+          result: {
+            mediaType: row.result_type,
+            ...(row.result_name !== null ? { filename: row.result_name } : {}),
+            size: row.result_size ?? 0,
+          },
+        }
+      : {}),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Jobs kept in a SQLite file, with their input and result documents
+ *
+ * Every change of status is conditional on the status it leaves, so a job
+ * cancelled while it runs stays cancelled when its conversion finishes.
+ */
+export class JobStore {
+  private readonly db: Database;
+
+  /**
+   * @param path - SQLite file, created if missing; `:memory:` keeps jobs
+   * for the life of the process only
+   */
+  constructor(path: string) {
+    this.db = new Database(path, { create: true });
+    this.db.exec("PRAGMA journal_mode = WAL");
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS jobs (
+        id TEXT PRIMARY KEY,
+        status TEXT NOT NULL,
+        progress REAL NOT NULL DEFAULT 0,
+        request TEXT NOT NULL,
+        input BLOB NOT NULL,
+        messages TEXT NOT NULL DEFAULT '[]',
+        error TEXT,
+        result BLOB,
+        result_type TEXT,
+        result_name TEXT,
+        result_size INTEGER,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+  }
+
+  /**
+   * Add a queued job
+   */
+  create(request: ConversionRequest): Job {
+    const { bytes, ...options } = request;
+    const now = new Date().toISOString();
+    const id = crypto.randomUUID();
+    this.db
+      .query(
+        "INSERT INTO jobs (id, status, request, input, created_at, updated_at) VALUES (?, 'queued', ?, ?, ?, ?)"
+      )
+      .run(id, JSON.stringify(options), bytes, now, now);
+    return this.get(id)!;
+  }
+
+  get(id: string): Job | undefined {
+    const row = this.db
+      .query(`SELECT ${columns} FROM jobs WHERE id = ?`)
+      .get(id) as JobRow | null;
+    return row ? toJob(row) : undefined;
+  }
+
+  /**
+   * The document a job converts
+   */
+  input(id: string): Uint8Array | undefined {
+    const row = this.db
+      .query("SELECT input FROM jobs WHERE id = ?")
+      .get(id) as {
+      input: Uint8Array;
+    } | null;
+    return row?.input;
+  }
+
+  /**
+   * The converted document of a job that succeeded
+   */
+  result(
+    id: string
+  ): { content: Uint8Array; mediaType: string; filename?: string } | undefined {
+    const row = this.db
+      .query(
+        "SELECT result, result_type, result_name FROM jobs WHERE id = ? AND status = 'succeeded'"
+      )
+      .get(id) as {
+      result: Uint8Array;
+      result_type: string;
+      result_name: string | null;
+    } | null;
+    return row
+      ? {
+          content: row.result,
+          mediaType: row.result_type,
+          ...(row.result_name !== null ? { filename: row.result_name } : {}),
+        }
+      : undefined;
+  }
+
+  private transition(
+    id: string,
+    from: readonly JobStatus[],
+    changes: Record<string, string | number | Uint8Array | null>
+  ): boolean {
+    const fields = Object.keys(changes);
+    const { changes: updated } = this.db
+      .query(
+        `UPDATE jobs SET ${fields.map((field) => `${field} = ?`).join(", ")}, updated_at = ? WHERE id = ? AND status IN (${from.map(() => "?").join(", ")})`
+      )
+      .run(...Object.values(changes), new Date().toISOString(), id, ...from);
+    return updated > 0;
+  }
+
+  /**
+   * Mark a queued job as running
+   *
+   * @returns Whether the job was still queued
+   */
+  start(id: string): boolean {
+    return this.transition(id, ["queued"], { status: "running" });
+  }
+
+  /**
+   * Record how far a running job has got
+   */
+  progress(id: string, progress: number): boolean {
+    return this.transition(id, ["running"], { progress });
+  }
+
+  succeed(
+    id: string,
+    result: {
+      content: string | Uint8Array;
+      mediaType: string;
+      filename?: string;
+    },
+    messages: readonly JobMessage[]
+  ): boolean {
+    const content =
+      typeof result.content === "string"
+        ? new TextEncoder().encode(result.content)
+        : result.content;
+    return this.transition(id, ["running"], {
+      status: "succeeded",
+      progress: 1,
+      messages: JSON.stringify(messages),
+      result: content,
+      result_type: result.mediaType,
+      result_name: result.filename ?? null,
+      result_size: content.byteLength,
+    });
+  }
+
+  fail(id: string, error: JobError): boolean {
+    return this.transition(id, ["running"], {
+      status: "failed",
+      progress: 1,
+      error: JSON.stringify(error),
+    });
+  }
+
+  /**
+   * Cancel a job that has not finished
+   *
+   * @returns Whether the job was queued or running
+   */
+  cancel(id: string): boolean {
+    return this.transition(id, ["queued", "running"], {
+      status: "cancelled",
+      progress: 1,
+    });
+  }
+
+  /**
+   * Delete finished jobs, with their documents, last changed before a time
+   *
+   * @returns How many jobs were deleted
+   */
+  purge(before: Date): number {
+    const { changes } = this.db
+      .query(
+        "DELETE FROM jobs WHERE status IN ('succeeded', 'failed', 'cancelled') AND updated_at < ?"
+      )
+      .run(before.toISOString());
+    return changes;
+  }
+
+  /**
+   * Requeue jobs that were running when the process stopped, to run again
+   * from the start
+   *
+   * @returns Ids of the jobs waiting to run, oldest first
+   */
+  recover(): string[] {
+    this.db
+      .query(
+        "UPDATE jobs SET status = 'queued', progress = 0, updated_at = ? WHERE status = 'running'"
+      )
+      .run(new Date().toISOString());
+    const rows = this.db
+      .query(
+        "SELECT id FROM jobs WHERE status = 'queued' ORDER BY created_at, rowid"
+      )
+      .all() as { id: string }[];
+    return rows.map(({ id }) => id);
+  }
+}
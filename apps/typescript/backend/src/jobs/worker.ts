@@ -0,0 +1,40 @@
+/**
+ * Converts one job's document off the server's main thread
+ *
+ * Started by `createWorkerRunner`, which sends the project and the request
+ * and terminates the worker once it has posted how the conversion went.
+ */
+
+import { Effect, Exit } from "effect";
+import { loadProject } from "../config.js";
+import { errorBody } from "../errors.js";
+import {
+  convertJob,
+  jobError,
+  type WorkerMessage,
+  type WorkerRequest,
+} from "./runner.js";
+
+declare const self: Worker;
+
+const post = (message: WorkerMessage) => self.postMessage(message);
+
+self.onmessage = async ({ data }: MessageEvent<WorkerRequest>) => {
+  const exit = await Effect.runPromiseExit(
+    Effect.flatMap(
+      Effect.mapError(
+        loadProject(data.project),
+        (error) => errorBody(error).error
+      ),
+      (project) =>
+        convertJob(project, data.request, (event) =>
+          post({ type: "event", event })
+        )
+    )
+  );
+  post(
+    Exit.isSuccess(exit)
+      ? { type: "succeeded", outcome: exit.value }
+      : { type: "failed", error: jobError(exit.cause) }
+  );
+};
@@ -0,0 +1,95 @@
+/**
+ * Tests for the conversion route
+ */
+
+import { describe, it, expect } from "bun:test";
+import { createBuiltinRegistry } from "ndoctrinate-tools";
+import { createConvertRoutes } from "./convert.js";
+
+const app = createConvertRoutes(
+  {
+    config: { pipelines: {} },
+    registry: createBuiltinRegistry(),
+    pipelines: {},
+  },
+  64
+);
+
+const post = (body: FormData | Record<string, string>) =>
+  app.handle(
+    new Request("http://localhost/api/convert", {
+      method: "POST",
+      ...(body instanceof FormData
+        ? { body }
+        : {
+            headers: { "content-type": "application/json" },
+            body: JSON.stringify(body),
+          }),
+    })
+  );
+
+describe("POST /api/convert", () => {
+  it("should return an upload converted, named after the file", async () => {
+    const form = new FormData();
+    form.set("file", new File(["# Title\n\nSome *text*.\n"], "notes.md"));
+    form.set("to", "text");
+
+    const response = await post(form);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe(
+      "text/plain; charset=utf-8"
+    );
+    expect(response.headers.get("content-disposition")).toBe(
+      `attachment; filename="notes.txt"; filename*=UTF-8''notes.txt`
+    );
+    expect(await response.text()).toBe("Title\n\nSome text.");
+  });
+
+  it("should convert JSON content with the given parser", async () => {
+    const response = await post({
+      content: "= Guide\n\nHello.\n",
+      from: "asciidoc",
+      to: "markdown",
+    });
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe("# Guide\n\nHello.\n");
+  });
+
+  it("should refuse documents in formats no parser reads", async () => {
+    const form = new FormData();
+    form.set("file", new File([new Uint8Array([0, 1, 2])], "data.bin"));
+    form.set("to", "text");
+
+    const undetected = await post(form);
+    expect(undetected.status).toBe(415);
+    expect(await undetected.json()).toMatchObject({
+      error: { _tag: "UnsupportedFormatError", path: "data.bin" },
+    });
+
+    const unknown = await post({ content: "x", from: "pdf", to: "text" });
+    expect(unknown.status).toBe(400);
+    expect(await unknown.json()).toMatchObject({
+      error: { _tag: "PluginError", plugin: "pdf" },
+    });
+  });
+
+  it("should refuse documents over the size limit", async () => {
+    const form = new FormData();
+    form.set("file", new File(["x".repeat(65)], "large.md"));
+    form.set("to", "text");
+
+    const upload = await post(form);
+    expect(upload.status).toBe(400);
+    expect(await upload.json()).toMatchObject({
+      error: { _tag: "ValidationError", message: "Invalid conversion request" },
+    });
+
+    const content = await post({ content: "x".repeat(100), to: "text" });
+    expect(content.status).toBe(400);
+    expect(await content.json()).toMatchObject({
+      error: { issues: [expect.stringContaining("/content")] },
+    });
+  });
+});
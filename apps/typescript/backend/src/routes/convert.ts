@@ -0,0 +1,59 @@
+import { Elysia } from "elysia";
+import { Effect, Either } from "effect";
+import type { ProjectContext } from "../config.js";
+import { convertDocument } from "../convert.js";
+import { errorBody, errorStatus } from "../errors.js";
+import {
+  conversionBody,
+  documentResponse,
+  invalidBody,
+  readConversionRequest,
+} from "./documents.js";
+
+/**
+ * Routes converting documents with the core pipeline
+ * Documents larger than `maxBytes`, by default `maxDocumentBytes`, are
+ * refused as invalid requests
+ */
+export function createConvertRoutes(
+  project: ProjectContext,
+  maxBytes?: number
+) {
+  return new Elysia({ prefix: "/api/convert" })
+    .onError(({ code, error, set }) => {
+      if (code === "VALIDATION") {
+        const invalid = invalidBody(error);
+        set.status = errorStatus(invalid);
+        return errorBody(invalid);
+      }
+    })
+    .post(
+      "/",
+      async ({ body, set }) => {
+        const request = await readConversionRequest(body);
+        if ("_tag" in request) {
+          set.status = errorStatus(request);
+          return errorBody(request);
+        }
+
+        const result = await Effect.runPromise(
+          Effect.either(convertDocument(project, request))
+        );
+        if (Either.isLeft(result)) {
+          set.status = errorStatus(result.left);
+          return errorBody(result.left);
+        }
+        const { content, mediaType, filename } = result.right;
+        return documentResponse(content, mediaType, filename);
+      },
+      {
+        body: conversionBody(maxBytes),
+        detail: {
+          tags: ["Conversion"],
+          summary: "Convert a document",
+          description:
+            "Converts a document uploaded as multipart form data, or sent as JSON with `content`, using the parser and compiler given by `from` and `to` or a named pipeline. Returns the converted document with its media type; failures return `{ error }` with the error's tag, message and context",
+        },
+      }
+    );
+}
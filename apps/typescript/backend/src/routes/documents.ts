@@ -0,0 +1,142 @@
+import { t, type ValidationError as BodyError } from "elysia";
+import { createValidationError, type ValidationError } from "ndoctrinate-core";
+import type { ConversionRequest } from "../convert.js";
+
+/**
+ * Largest document a request may carry, in bytes:
+ * `NDOCTRINATE_MAX_DOCUMENT_BYTES`, or 50 MiB
+ */
+export const maxDocumentBytes =
+  Number(process.env.NDOCTRINATE_MAX_DOCUMENT_BYTES) || 50 * 1024 * 1024;
+
+/**
+ * Body of a conversion request: the document as a multipart upload or as
+ * JSON, with the formats or pipeline to convert it with
+ *
+ * @param maxBytes - Largest document accepted; `content` may be longer by
+ * its base64 encoding
+ */
+export function conversionBody(maxBytes = maxDocumentBytes) {
+  return t.Object({
+    file: t.Optional(
+      t.File({
+        description: "Document to convert, in a multipart upload",
+        maxSize: maxBytes,
+      })
+    ),
+    content: t.Optional(
+      t.String({
+        description: "Document to convert, in a JSON body",
+        maxLength: Math.ceil(maxBytes / 3) * 4,
+      })
+    ),
+    encoding: t.Optional(
+      t.Union([t.Literal("utf-8"), t.Literal("base64")], {
+        description: "How `content` is encoded; base64 for binary documents",
+        default: "utf-8",
+      })
+    ),
+    filename: t.Optional(
+      t.String({ description: "Name of the document in a JSON body" })
+    ),
+    from: t.Optional(
+      t.String({ description: "Parser; detected from the document if omitted" })
+    ),
+    to: t.Optional(
+      t.String({ description: "Compiler; required unless pipeline is given" })
+    ),
+    pipeline: t.Optional(
+      t.String({ description: "Pipeline from the project configuration" })
+    ),
+  });
+}
+
+export type ConversionBody = ReturnType<typeof conversionBody>["static"];
+
+/**
+ * Read the document and options out of a conversion request body
+ *
+ * @returns The request, or a ValidationError when it holds no document
+ */
+export async function readConversionRequest(
+  body: ConversionBody
+): Promise<ConversionRequest | ValidationError> {
+  const { file } = body;
+  const bytes = file
+    ? new Uint8Array(await file.arrayBuffer())
+    : body.content !== undefined
+      ? body.encoding === "base64"
+        ? new Uint8Array(Buffer.from(body.content, "base64"))
+        : new TextEncoder().encode(body.content)
+      : undefined;
+  if (bytes === undefined) {
+    return createValidationError(
+      "Send the document as a file upload or as content"
+    );
+  }
+  return {
+    bytes,
+    filename: file?.name || body.filename,
+    mediaType: file?.type || undefined,
+    from: body.from,
+    to: body.to,
+    pipeline: body.pipeline,
+  };
+}
+
+/**
+ * What a body error reports about each value; read without narrowing, as
+ * the declared type of `all` differs between Elysia versions
+ */
+interface BodyIssue {
+  path?: string;
+  message?: string;
+  summary?: string;
+}
+
+/**
+ * Report a body that does not match its schema like any other invalid
+ * request
+ */
+export function invalidBody(error: Pick<BodyError, "all">): ValidationError {
+  return createValidationError(
+    "Invalid conversion request",
+    error.all.map(({ path, message, summary }: BodyIssue) =>
+      path !== undefined
+        ? `${path}: ${message}`
+        : (summary ?? "Invalid request body")
+    )
+  );
+}
+
+/**
+ * Content-Disposition for a download: a plain ASCII name for old clients,
+ * with quotes, backslashes and control characters replaced, and the exact
+ * name percent-encoded
+ */
+export function contentDisposition(filename: string): string {
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, "_");
+  const encoded = encodeURIComponent(filename).replace(
+    /['()*]/g,
+    (character) => `%${character.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
+
+/**
+ * A converted document as a download
+ */
+export function documentResponse(
+  content: string | Uint8Array,
+  mediaType: string,
+  filename: string | undefined
+): Response {
+  return new Response(content, {
+    headers: {
+      "content-type": mediaType,
+      ...(filename !== undefined
+        ? { "content-disposition": contentDisposition(filename) }
+        : {}),
+    },
+  });
+}
@@ -0,0 +1,45 @@
+import { Elysia } from "elysia";
+import type { PluginManifest } from "ndoctrinate-core";
+import type { ProjectContext } from "../config.js";
+
+function describeFormat(manifest: PluginManifest) {
+  return {
+    name: manifest.name,
+    description: manifest.description,
+    formats: (manifest.kind === "parser"
+      ? manifest.inputFormats
+      : manifest.outputFormats) ?? [manifest.name],
+    extensions: manifest.extensions ?? [],
+    binary: manifest.binary ?? false,
+  };
+}
+
+/**
+ * Routes describing the parsers and compilers documents can be converted
+ * between, built-in and from configured plugins
+ */
+export function createFormatRoutes(project: ProjectContext) {
+  return new Elysia({ prefix: "/api/formats" }).get(
+    "/",
+    () => {
+      // The registry lists the newest version of a plugin first
+      const latest = (kind: "parser" | "compiler") =>
+        project.registry
+          .list({ kind })
+          .filter(
+            (manifest, index, all) =>
+              all.findIndex(({ name }) => name === manifest.name) === index
+          )
+          .map(describeFormat);
+      return { parsers: latest("parser"), compilers: latest("compiler") };
+    },
+    {
+      detail: {
+        tags: ["Conversion"],
+        summary: "List formats",
+        description:
+          "Returns the parsers `from` and compilers `to` may name, with the formats and file extensions they read or write",
+      },
+    }
+  );
+}
@@ -0,0 +1,63 @@
+import { Elysia } from "elysia";
+import { Effect, Either } from "effect";
+import type { ProjectContext } from "../config.js";
+import { convertDocument } from "../convert.js";
+import { errorBody, errorStatus } from "../errors.js";
+import { jobMessage } from "../jobs/store.js";
+import {
+  conversionBody,
+  invalidBody,
+  readConversionRequest,
+} from "./documents.js";
+
+/**
+ * Routes showing how a pipeline builds a document's syntax tree
+ * Documents larger than `maxBytes`, by default `maxDocumentBytes`, are
+ * refused as invalid requests
+ */
+export function createInspectRoutes(
+  project: ProjectContext,
+  maxBytes?: number
+) {
+  return new Elysia({ prefix: "/api/inspect" })
+    .onError(({ code, error, set }) => {
+      if (code === "VALIDATION") {
+        const invalid = invalidBody(error);
+        set.status = errorStatus(invalid);
+        return errorBody(invalid);
+      }
+    })
+    .post(
+      "/",
+      async ({ body, set }) => {
+        const request = await readConversionRequest(body);
+        if ("_tag" in request) {
+          set.status = errorStatus(request);
+          return errorBody(request);
+        }
+
+        const result = await Effect.runPromise(
+          Effect.either(convertDocument(project, request, { trace: true }))
+        );
+        if (Either.isLeft(result)) {
+          set.status = errorStatus(result.left);
+          return errorBody(result.left);
+        }
+        const { pipeline, snapshots, messages } = result.right;
+        return {
+          pipeline: pipeline.name,
+          snapshots,
+          messages: messages.map(jobMessage),
+        };
+      },
+      {
+        body: conversionBody(maxBytes),
+        detail: {
+          tags: ["Conversion"],
+          summary: "Inspect a conversion",
+          description:
+            "Takes the same body as `POST /api/convert` and converts the document, returning the syntax tree after parsing and after each transformer as `snapshots`, each with the `step` that produced it, instead of the converted document",
+        },
+      }
+    );
+}
@@ -0,0 +1,90 @@
+/**
+ * Tests for the job routes and their event stream
+ */
+
+import { describe, it, expect } from "bun:test";
+import { JobQueue, type JobEvent } from "../jobs/queue.js";
+import { createProcessRunner } from "../jobs/runner.js";
+import { JobStore, type Job } from "../jobs/store.js";
+import { gatedProject } from "../testing.js";
+import { createJobRoutes } from "./jobs.js";
+
+/**
+ * The events of a server-sent event stream, as they arrive
+ */
+async function* events(response: Response): AsyncGenerator<JobEvent> {
+  const reader = response
+    .body!.pipeThrough(new TextDecoderStream())
+    .getReader();
+  let buffer = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return;
+    }
+    buffer += value;
+    for (let end = buffer.indexOf("\n\n"); end !== -1; ) {
+      yield JSON.parse(buffer.slice("data: ".length, end)) as JobEvent;
+      buffer = buffer.slice(end + 2);
+      end = buffer.indexOf("\n\n");
+    }
+  }
+}
+
+describe("job routes", () => {
+  const setup = () => {
+    const { project, open } = gatedProject();
+    const store = new JobStore(":memory:");
+    const app = createJobRoutes(
+      store,
+      new JobQueue(store, createProcessRunner(project), 1)
+    );
+    const request = (path: string, init?: RequestInit) =>
+      app.handle(new Request(`http://localhost/api/jobs${path}`, init));
+    return { open, request };
+  };
+
+  it("should stream a job's progress until it finishes", async () => {
+    const { open, request } = setup();
+    const queued = await request("", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ content: "# Title\n", pipeline: "gated" }),
+    });
+    expect(queued.status).toBe(202);
+    const { id } = (await queued.json()) as Job;
+
+    const response = await request(`/${id}/events`);
+    expect(response.headers.get("content-type")).toBe("text/event-stream");
+    const received: JobEvent[] = [];
+    for await (const event of events(response)) {
+      received.push(event);
+      // The job waits before its transformer ends until the stream is open
+      open();
+    }
+
+    expect(received[0]).toMatchObject({ type: "job", job: { id } });
+    expect(
+      received
+        .map((event) => event.type)
+        .filter((type) => type !== "job" && type !== "message")
+        .slice(-3)
+    ).toEqual(["transform-end", "compile-start", "compile-end"]);
+    expect(received.at(-1)).toMatchObject({
+      type: "job",
+      job: { status: "succeeded", progress: 1 },
+    });
+
+    const result = await request(`/${id}/result`);
+    expect(await result.text()).toBe("Title");
+  });
+
+  it("should answer 404 for the events of an unknown job", async () => {
+    const response = await setup().request("/missing/events");
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toMatchObject({
+      error: { _tag: "ValidationError", message: 'Unknown job "missing"' },
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import { Elysia } from "elysia";
+import { Effect } from "effect";
+import { createValidationError } from "ndoctrinate-core";
+import { errorBody, errorStatus } from "../errors.js";
+import type { JobEvent, JobQueue } from "../jobs/queue.js";
+import { isFinished, type JobStore } from "../jobs/store.js";
+import {
+  conversionBody,
+  documentResponse,
+  invalidBody,
+  readConversionRequest,
+} from "./documents.js";
+
+function unknownJob(id: string) {
+  return errorBody(createValidationError(`Unknown job "${id}"`));
+}
+
+/**
+ * A job's events as a stream of server-sent events, starting with the job
+ * as it is now and ending once it has finished
+ */
+function eventStream(store: JobStore, queue: JobQueue, id: string) {
+  const encoder = new TextEncoder();
+  let unsubscribe = () => {};
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (event: JobEvent) => {
+        controller.enqueue(
+          encoder.encode(`data: ${JSON.stringify(event)}\n\n`)
+        );
+        if (event.type === "job" && isFinished(event.job.status)) {
+          unsubscribe();
+          controller.close();
+        }
+      };
+      // Subscribe before reading the job, so no change falls in between
+      unsubscribe = queue.subscribe(id, send);
+      send({ type: "job", job: store.get(id)! });
+    },
+    cancel() {
+      unsubscribe();
+    },
+  });
+}
+
+/**
+ * Routes queueing conversions to run in the background, for documents too
+ * large to convert within one request
+ * Documents larger than `maxBytes`, by default `maxDocumentBytes`, are
+ * refused as invalid requests
+ */
+export function createJobRoutes(
+  store: JobStore,
+  queue: JobQueue,
+  maxBytes?: number
+) {
+  return new Elysia({ prefix: "/api/jobs" })
+    .onError(({ code, error, set }) => {
+      if (code === "VALIDATION") {
+        const invalid = invalidBody(error);
+        set.status = errorStatus(invalid);
+        return errorBody(invalid);
+      }
+    })
+    .post(
+      "/",
+      async ({ body, set }) => {
+        const request = await readConversionRequest(body);
+        if ("_tag" in request) {
+          set.status = errorStatus(request);
+          return errorBody(request);
+        }
+        set.status = 202;
+        return queue.enqueue(request);
+      },
+      {
+        body: conversionBody(maxBytes),
+        detail: {
+          tags: ["Jobs"],
+          summary: "Queue a conversion",
+          description:
+            "Takes the same body as `POST /api/convert` and returns the queued job at once; poll `GET /api/jobs/:id` or follow `GET /api/jobs/:id/events` for its status",
+        },
+      }
+    )
+    .get(
+      "/:id",
+      ({ params: { id }, set }) => {
+        const job = store.get(id);
+        if (!job) {
+          set.status = 404;
+          return unknownJob(id);
+        }
+        return job;
+      },
+      {
+        detail: {
+          tags: ["Jobs"],
+          summary: "Get a job",
+          description:
+            "Returns the job's status, progress, warnings and, for a failed job, the error",
+        },
+      }
+    )
+    .get(
+      "/:id/events",
+      ({ params: { id }, set }) => {
+        if (!store.get(id)) {
+          set.status = 404;
+          return unknownJob(id);
+        }
+        return new Response(eventStream(store, queue, id), {
+          headers: {
+            "content-type": "text/event-stream",
+            "cache-control": "no-cache",
+          },
+        });
+      },
+      {
+        detail: {
+          tags: ["Jobs"],
+          summary: "Follow a job",
+          description:
+            "Streams the job's events as server-sent events: the job whenever its status changes, starting with its current state, and the parse, transform, compile and message events of its conversion as they happen. The stream ends when the job has finished",
+        },
+      }
+    )
+    .get(
+      "/:id/result",
+      ({ params: { id }, set }) => {
+        const job = store.get(id);
+        if (!job) {
+          set.status = 404;
+          return unknownJob(id);
+        }
+        const result = store.result(id);
+        if (!result) {
+          set.status = 409;
+          return errorBody(
+            createValidationError(
+              `Job "${id}" has no result: it is ${job.status}`
+            )
+          );
+        }
+        return documentResponse(
+          result.content,
+          result.mediaType,
+          result.filename
+        );
+      },
+      {
+        detail: {
+          tags: ["Jobs"],
+          summary: "Download a job's result",
+          description:
+            "Returns the converted document of a job that succeeded, with its media type",
+        },
+      }
+    )
+    .delete(
+      "/:id",
+      async ({ params: { id }, set }) => {
+        const job = await Effect.runPromise(queue.cancel(id));
+        if (!job) {
+          set.status = 404;
+          return unknownJob(id);
+        }
+        return job;
+      },
+      {
+        detail: {
+          tags: ["Jobs"],
+          summary: "Cancel a job",
+          description:
+            "Cancels a queued job, or interrupts a running one, and returns the job; finished jobs are left as they are",
+        },
+      }
+    );
+}
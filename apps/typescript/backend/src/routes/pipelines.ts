@@ -0,0 +1,59 @@
+import { Elysia } from "elysia";
+import { createValidationError } from "ndoctrinate-core";
+import type { ConfiguredPipeline } from "ndoctrinate-tools";
+import type { ProjectContext } from "../config.js";
+import { errorBody } from "../errors.js";
+
+function describePipeline(pipeline: ConfiguredPipeline) {
+  const { config } = pipeline;
+  return {
+    name: pipeline.name,
+    description: config.description,
+    parser: pipeline.from,
+    transformers: (config.transformers ?? []).map((reference) =>
+      typeof reference === "string" ? reference : reference.name
+    ),
+    compiler: pipeline.to,
+    extension: pipeline.extension,
+  };
+}
+
+/**
+ * Routes describing the pipelines declared in the project configuration
+ */
+export function createPipelineRoutes(project: ProjectContext) {
+  return new Elysia({ prefix: "/api/pipelines" })
+    .get(
+      "/",
+      () => ({
+        defaultPipeline: project.config.defaults?.pipeline,
+        pipelines: Object.values(project.pipelines).map(describePipeline),
+      }),
+      {
+        detail: {
+          tags: ["Pipelines"],
+          summary: "List pipelines",
+          description:
+            "Returns the named pipelines declared in the project configuration",
+        },
+      }
+    )
+    .get(
+      "/:name",
+      ({ params: { name }, set }) => {
+        if (!Object.hasOwn(project.pipelines, name)) {
+          set.status = 404;
+          return errorBody(createValidationError(`Unknown pipeline "${name}"`));
+        }
+        return describePipeline(project.pipelines[name]);
+      },
+      {
+        detail: {
+          tags: ["Pipelines"],
+          summary: "Get pipeline by name",
+          description:
+            "Returns the parser, transformers and compiler of a pipeline",
+        },
+      }
+    );
+}
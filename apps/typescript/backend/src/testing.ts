@@ -0,0 +1,57 @@
+/**
+ * Projects for the backend's tests
+ */
+
+import { Effect } from "effect";
+import {
+  documentTreeType,
+  type DocumentRoot,
+  type Transformer,
+} from "ndoctrinate-core";
+import { buildPipeline, createBuiltinRegistry } from "ndoctrinate-tools";
+import type { ProjectContext } from "./config.js";
+
+/**
+ * A project with the built-in plugins and a `gated` pipeline, Markdown to
+ * text, whose conversions wait after parsing until `open` is called
+ */
+export function gatedProject(): { project: ProjectContext; open: () => void } {
+  let open = () => {};
+  const gate = new Promise<void>((resolve) => {
+    open = resolve;
+  });
+
+  const registry = createBuiltinRegistry();
+  registry.register({
+    manifest: {
+      name: "wait",
+      version: "1.0.0",
+      kind: "transformer",
+      treeType: documentTreeType,
+      core: "^0.1.0",
+    },
+    create: (): Transformer<DocumentRoot> => ({
+      transform: (tree) =>
+        Effect.as(
+          Effect.promise(() => gate),
+          tree
+        ),
+    }),
+  });
+  const gated = Effect.runSync(
+    buildPipeline(
+      "gated",
+      { parser: "markdown", transformers: ["wait"], compiler: "text" },
+      registry
+    )
+  );
+
+  return {
+    project: {
+      config: { pipelines: {} },
+      registry,
+      pipelines: { gated },
+    },
+    open,
+  };
+}
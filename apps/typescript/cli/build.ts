@@ -30,7 +30,9 @@ const buildResult = await spawn(
     "--target",
     "bun",
     "--compile",
-    "--minify",
+    // Identifiers are kept: trpc-cli recognises commander's classes by name
+    "--minify-syntax",
+    "--minify-whitespace",
   ],
   {
     stdout: "inherit",
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import * as fs from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { runCli } from "./cli.js";
+
+let dir: string;
+let previousExitCode: typeof process.exitCode;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(join(tmpdir(), "ndoctrinate-cli-"));
+  await fs.writeFile(join(dir, "doc.md"), "# Title\n\nSome *text*.\n");
+  previousExitCode = process.exitCode;
+});
+
+afterEach(async () => {
+  process.exitCode = previousExitCode ?? 0;
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+/**
+ * Run a command line and return the code it exits with
+ */
+async function run(...argv: string[]): Promise<number> {
+  let exitCode: number | undefined;
+  await runCli(argv, (code) => {
+    exitCode = code;
+    throw new Error(`Exited with ${code}`);
+  }).catch(() => {});
+  if (exitCode === undefined) {
+    throw new Error(`${argv.join(" ")} did not exit`);
+  }
+  return exitCode;
+}
+
+describe("command line", () => {
+  it("should convert a file with the convert command", async () => {
+    const output = join(dir, "doc.txt");
+
+    const code = await run(
+      "convert",
+      "--input",
+      join(dir, "doc.md"),
+      "--output",
+      output,
+      "--concurrency",
+      "1"
+    );
+
+    expect(code).toBe(0);
+    expect(await fs.readFile(output, "utf-8")).toBe("Title\n\nSome text.");
+  });
+
+  it("should exit with 1 when a conversion fails", async () => {
+    const code = await run(
+      "convert",
+      "--input",
+      join(dir, "missing.md"),
+      "--output",
+      join(dir, "out.docx")
+    );
+
+    expect(code).toBe(1);
+  });
+
+  it("should convert with a compiler the project configuration registers", async () => {
+    await fs.writeFile(
+      join(dir, "shout.ts"),
+      `import { Effect } from ${JSON.stringify(Bun.resolveSync("effect", import.meta.dir))};
+export default {
+  manifest: {
+    name: "shout", version: "1.0.0", kind: "compiler",
+    treeType: "ndoctrinate", core: "^0.1.0", extensions: [".txt"],
+  },
+  create: () => ({ compile: () => Effect.succeed("TITLE") }),
+};
+`
+    );
+    const config = join(dir, "ndoctrinate.config.json");
+    await fs.writeFile(
+      config,
+      JSON.stringify({ plugins: ["./shout.ts"], pipelines: {} })
+    );
+    const convert = (to: string) =>
+      run(
+        "convert",
+        "--input",
+        join(dir, "doc.md"),
+        "--to",
+        to,
+        "--output",
+        join(dir, "doc.txt"),
+        "--config",
+        config
+      );
+
+    expect(await convert("shout")).toBe(0);
+    expect(await fs.readFile(join(dir, "doc.txt"), "utf-8")).toBe("TITLE");
+    expect(await convert("whisper")).toBe(1);
+  });
+
+  it("should list plugins and show their manifests", async () => {
+    expect(await run("plugins", "list", "--kind", "compiler")).toBe(0);
+    expect(await run("plugins", "info", "--name", "markdown")).toBe(0);
+    expect(await run("plugins", "info", "--name", "missing")).toBe(1);
+  });
+});
@@ -0,0 +1,28 @@
+import { createCli } from "trpc-cli";
+import { router } from "./router.js";
+
+export const cli = createCli({
+  router,
+});
+
+/**
+ * Run the command line
+ * Results are logged as they are, rather than as YAML. trpc-cli exits with 0
+ * once a command returns, so the exit code a command sets when it reports
+ * its own failures is passed on instead
+ *
+ * @param argv - Arguments after the program name; the process's when omitted
+ * @param exit - Ends the process with a code
+ */
+export function runCli(
+  argv?: string[],
+  exit: (code: number) => never = process.exit
+): Promise<void> {
+  return cli.run({
+    argv,
+    logger: console,
+    process: {
+      exit: (code) => exit(code || Number(process.exitCode ?? 0)),
+    },
+  });
+}
@@ -0,0 +1,254 @@
+import { Effect, Either } from "effect";
+import * as fs from "node:fs/promises";
+import { availableParallelism } from "node:os";
+import { resolve, sep } from "node:path";
+import type { TrpcCliMeta } from "trpc-cli";
+import { z } from "zod";
+import {
+  createValidationError,
+  formatPipelineError,
+  type CacheStore,
+  type DocumentProcessingError,
+  type PluginRegistry,
+} from "ndoctrinate-core";
+import { createDiskCacheStore } from "ndoctrinate-tools";
+import { t } from "../trpc.js";
+import { programName } from "../package-info.js";
+import {
+  convertAll,
+  expandInputs,
+  formatCacheStats,
+  formatSummary,
+  isGlob,
+  type ConvertOutcome,
+} from "../convert/batch.js";
+import { formatSnapshots } from "../convert/tree.js";
+import {
+  loadProjectPipeline,
+  loadProjectRegistry,
+} from "../convert/project.js";
+import { watchConversions } from "../convert/watch.js";
+
+const ConvertInput = z.object({
+  input: z.array(z.string()).optional(),
+  from: z.string().min(1).optional(),
+  to: z.string().min(1).optional(),
+  output: z.string().optional(),
+  concurrency: z.number().int().min(1).optional(),
+  watch: z.boolean().optional(),
+  stream: z.boolean().optional(),
+  config: z.string().optional(),
+  pipeline: z.string().optional(),
+  cache: z.string().optional(),
+  dumpTree: z.boolean().optional(),
+});
+
+/**
+ * The plugins `--from` and `--to` may name: the built-in plugins, plus those
+ * the project configuration lists when one is found or given
+ *
+ * @returns The registry, or a PluginError when `from` names no parser or
+ * `to` no compiler in it
+ */
+function loadFormats(
+  input: z.infer<typeof ConvertInput>
+): Effect.Effect<PluginRegistry, DocumentProcessingError> {
+  return Effect.gen(function* () {
+    const registry = yield* loadProjectRegistry({ config: input.config });
+    for (const [kind, name] of [
+      ["parser", input.from],
+      ["compiler", input.to],
+    ] as const) {
+      const resolved =
+        name !== undefined ? registry.resolve(kind, name) : undefined;
+      if (resolved && !resolved.success) {
+        return yield* Effect.fail(resolved.error);
+      }
+    }
+    return registry;
+  });
+}
+
+async function isDirectory(path: string): Promise<boolean> {
+  const stats = await fs.stat(path).catch(() => undefined);
+  return stats?.isDirectory() ?? false;
+}
+
+/**
+ * Report an error that stops the command before any file is converted
+ */
+function fail(error: DocumentProcessingError): void {
+  console.error(formatPipelineError(error));
+  process.exitCode = 1;
+}
+
+/**
+ * Write stdout-bound output, then the summary to stderr
+ */
+function report(outcomes: readonly ConvertOutcome[], cache?: CacheStore): void {
+  for (const { input, result } of outcomes) {
+    if (result.success && result.value.output === undefined) {
+      process.stdout.write(result.value.content);
+    }
+    if (result.success && result.value.snapshots) {
+      console.error(`${formatSnapshots(input, result.value.snapshots)}\n`);
+    }
+  }
+  console.error(formatSummary(outcomes));
+  if (cache) {
+    console.error(formatCacheStats(cache.stats()));
+  }
+}
+
+/**
+ * Convert command handler
+ * Inputs may be files, directories or globs; with an output directory the
+ * input directory structure is mirrored beneath it. Text output goes to
+ * stdout when no output path is given
+ *
+ * One failed file does not stop the others: every file is reported in a
+ * summary on stderr, and any failure sets a non-zero exit code. With
+ * `--watch` the inputs and their includes are rebuilt on every change until
+ * the process is interrupted
+ *
+ * `--stream` converts text formats a few blocks at a time, so documents
+ * larger than memory can be converted
+ *
+ * `--from` and `--to` name any parser and compiler, including those the
+ * project configuration file registers
+ *
+ * `--pipeline` runs a pipeline from the project configuration file instead
+ * of the built-in parser and compiler for `--from`/`--to`; the pipeline's
+ * input and output apply when none are given
+ *
+ * `--cache` keeps parse and transform results in a directory, so rebuilding
+ * after a few edits only converts what changed; cache hits and misses are
+ * added to the summary
+ *
+ * `--dump-tree` prints each file's syntax tree to stderr after parsing and
+ * after every transformer, with node positions, to find the transformer
+ * that produced a node
+ */
+export const convertCommand = t.procedure
+  .meta({
+    description: "Convert documents between formats",
+    usage: `--input <path|dir|glob> [--from <parser>] [--to <compiler>] [--output <path>] [--concurrency <n>] [--watch] [--stream] [--config <path>] [--pipeline <name>] [--cache <dir>] [--dump-tree]`,
+    examples: [
+      `${programName} convert --input README.md --output README.docx`,
+      `${programName} convert --input report.docx --to markdown`,
+      `${programName} convert --input docs --to docx --output out/`,
+      `${programName} convert --input "docs/**/*.adoc" --to markdown --output out/ --concurrency 4`,
+      `${programName} convert --input guide.adoc --output guide.docx --watch`,
+      `${programName} convert --input manual.md --to text --output manual.txt --stream`,
+      `${programName} convert --pipeline handbook`,
+      `${programName} convert --pipeline handbook --cache .ndoctrinate-cache`,
+      `${programName} convert --input guide.md --to text --dump-tree`,
+    ],
+  } satisfies TrpcCliMeta)
+  .input(ConvertInput)
+  .mutation(async ({ input }) => {
+    // A config is needed to run a named pipeline, or to find inputs when
+    // none are given and no formats pick the plugins
+    const formats = input.from !== undefined || input.to !== undefined;
+    const project =
+      input.pipeline !== undefined ||
+      (!formats && (input.config !== undefined || input.input === undefined))
+        ? await Effect.runPromise(
+            Effect.either(
+              loadProjectPipeline({
+                config: input.config,
+                pipeline: input.pipeline,
+              })
+            )
+          )
+        : undefined;
+    if (project && Either.isLeft(project)) {
+      return fail(project.left);
+    }
+    const { config, root = ".", pipeline } = project?.right ?? {};
+    const plugins =
+      pipeline === undefined && formats
+        ? await Effect.runPromise(Effect.either(loadFormats(input)))
+        : undefined;
+    if (plugins && Either.isLeft(plugins)) {
+      return fail(plugins.left);
+    }
+    const registry = project?.right.registry ?? plugins?.right;
+    const fromProject = (paths: string | string[] | undefined) =>
+      paths === undefined
+        ? undefined
+        : (typeof paths === "string" ? [paths] : paths).map((path) =>
+            resolve(root, path)
+          );
+
+    const given = input.input ?? fromProject(pipeline?.config.input);
+    if (given === undefined) {
+      return fail(
+        createValidationError(
+          pipeline
+            ? `Pipeline "${pipeline.name}" has no input; pass --input`
+            : "No input given; pass --input"
+        )
+      );
+    }
+    const inputs = typeof given === "string" ? [given] : given;
+    const expanded = await Effect.runPromise(
+      Effect.either(
+        expandInputs(inputs, pipeline?.from ?? input.from, registry)
+      )
+    );
+    if (Either.isLeft(expanded)) {
+      return fail(expanded.left);
+    }
+
+    const files = expanded.right;
+    // A pipeline's output is always a directory
+    const projectOutput = fromProject(pipeline?.config.output)?.[0];
+    const output = input.output ?? projectOutput;
+    const outputIsDirectory =
+      output !== undefined &&
+      (output === projectOutput ||
+        files.length > 1 ||
+        output.endsWith(sep) ||
+        output.endsWith("/") ||
+        inputs.some(isGlob) ||
+        (await isDirectory(inputs[0])) ||
+        (await isDirectory(output)));
+
+    const options = {
+      pipeline,
+      from: input.from,
+      to: input.to,
+      registry,
+      output,
+      outputIsDirectory,
+      stream: input.stream,
+      cache:
+        input.cache !== undefined
+          ? createDiskCacheStore({ directory: input.cache })
+          : undefined,
+      dumpTree: input.dumpTree,
+    };
+    const concurrency =
+      input.concurrency ??
+      config?.defaults?.concurrency ??
+      availableParallelism();
+
+    if (input.watch) {
+      // Runs until the process is interrupted
+      return Effect.runPromise(
+        watchConversions(files, options, {
+          concurrency,
+          onRun: (outcomes) => report(outcomes, options.cache),
+        })
+      );
+    }
+
+    const outcomes = await Effect.runPromise(
+      convertAll(files, options, concurrency)
+    );
+    report(outcomes, options.cache);
+    if (outcomes.some(({ result }) => !result.success)) {
+      process.exitCode = 1;
+    }
+  });
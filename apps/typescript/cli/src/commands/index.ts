@@ -1,2 +1,4 @@
 // Export all commands from this directory
 export * from "./version.js";
+export * from "./convert.js";
+export * from "./plugins.js";
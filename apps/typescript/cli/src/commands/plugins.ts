@@ -0,0 +1,77 @@
+import { Effect, Either } from "effect";
+import type { TrpcCliMeta } from "trpc-cli";
+import { z } from "zod";
+import {
+  createPluginError,
+  formatPipelineError,
+  type DocumentProcessingError,
+} from "ndoctrinate-core";
+import { t } from "../trpc.js";
+import { programName } from "../package-info.js";
+import { loadProjectRegistry } from "../convert/project.js";
+import { formatPluginInfo, formatPluginList } from "../plugins/listing.js";
+
+const ListInput = z.object({
+  kind: z.enum(["parser", "transformer", "compiler"]).optional(),
+  config: z.string().optional(),
+});
+
+const InfoInput = z.object({
+  name: z.string().min(1),
+  config: z.string().optional(),
+});
+
+function fail(error: DocumentProcessingError): void {
+  console.error(formatPipelineError(error));
+  process.exitCode = 1;
+}
+
+/**
+ * Plugins command handlers
+ * Both list the built-in plugins and those registered by the project
+ * configuration file, when one is found or given with `--config`
+ */
+export const pluginsCommand = t.router({
+  list: t.procedure
+    .meta({
+      description: "List the available parsers, transformers and compilers",
+      usage: `[--kind <kind>] [--config <path>]`,
+      examples: [
+        `${programName} plugins list`,
+        `${programName} plugins list --kind transformer`,
+      ],
+    } satisfies TrpcCliMeta)
+    .input(ListInput)
+    .query(async ({ input }) => {
+      const registry = await Effect.runPromise(
+        Effect.either(loadProjectRegistry({ config: input.config }))
+      );
+      if (Either.isLeft(registry)) {
+        return fail(registry.left);
+      }
+      console.log(formatPluginList(registry.right.list({ kind: input.kind })));
+    }),
+
+  info: t.procedure
+    .meta({
+      description: "Show the manifest of a plugin",
+      usage: `--name <plugin> [--config <path>]`,
+      examples: [`${programName} plugins info --name markdown`],
+    } satisfies TrpcCliMeta)
+    .input(InfoInput)
+    .query(async ({ input }) => {
+      const registry = await Effect.runPromise(
+        Effect.either(loadProjectRegistry({ config: input.config }))
+      );
+      if (Either.isLeft(registry)) {
+        return fail(registry.left);
+      }
+      const manifests = registry.right.list({ name: input.name });
+      if (manifests.length === 0) {
+        return fail(
+          createPluginError(`Unknown plugin "${input.name}"`, input.name)
+        );
+      }
+      console.log(formatPluginInfo(manifests));
+    }),
+});
@@ -17,7 +17,6 @@ import {
 export const versionCommand = t.procedure
   .meta({
     description: "Display the CLI version information",
-    usage: `${programName} version`,
     examples: [`${programName} version`],
   } satisfies TrpcCliMeta)
   .query(() => {
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Effect } from "effect";
+import * as fs from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createDiskCacheStore } from "ndoctrinate-tools";
+import {
+  convertAll,
+  expandInputs,
+  formatCacheStats,
+  formatSummary,
+} from "./batch.js";
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(join(tmpdir(), "ndoctrinate-batch-"));
+  await fs.mkdir(join(dir, "docs", "guide"), { recursive: true });
+  await fs.writeFile(join(dir, "docs", "index.md"), "# Index\n");
+  await fs.writeFile(join(dir, "docs", "guide", "intro.adoc"), "= Intro\n");
+  await fs.writeFile(join(dir, "docs", "guide", "notes.txt"), "notes\n");
+  await fs.writeFile(join(dir, "docs", "bad.md"), new Uint8Array([0xff]));
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe("expandInputs", () => {
+  it("should expand directories to convertible files", async () => {
+    const files = await Effect.runPromise(expandInputs([join(dir, "docs")]));
+
+    expect(files.map((file) => file.path)).toEqual([
+      join(dir, "docs", "bad.md"),
+      join(dir, "docs", "guide", "intro.adoc"),
+      join(dir, "docs", "index.md"),
+    ]);
+    expect(files.every((file) => file.base === join(dir, "docs"))).toBe(true);
+  });
+
+  it("should expand globs relative to their static prefix", async () => {
+    const files = await Effect.runPromise(
+      expandInputs([join(dir, "docs", "**", "*.adoc")])
+    );
+
+    expect(files).toEqual([
+      {
+        path: join(dir, "docs", "guide", "intro.adoc"),
+        base: join(dir, "docs"),
+      },
+    ]);
+  });
+
+  it("should drop duplicate files", async () => {
+    const index = join(dir, "docs", "index.md");
+    const files = await Effect.runPromise(
+      expandInputs([index, join(dir, "docs", "*.md")])
+    );
+
+    expect(files.filter((file) => file.path === index)).toHaveLength(1);
+  });
+
+  it("should fail when a glob matches nothing", async () => {
+    const error = await Effect.runPromise(
+      Effect.flip(expandInputs([join(dir, "*.docx")]))
+    );
+
+    expect(error._tag).toBe("ValidationError");
+  });
+});
+
+describe("convertAll", () => {
+  it("should mirror the input tree and keep going after a failure", async () => {
+    const out = join(dir, "out");
+    const files = await Effect.runPromise(expandInputs([join(dir, "docs")]));
+    const outcomes = await Effect.runPromise(
+      convertAll(
+        files,
+        { to: "markdown", output: out, outputIsDirectory: true },
+        2
+      )
+    );
+
+    expect(outcomes.map(({ result }) => result.success)).toEqual([
+      false,
+      true,
+      true,
+    ]);
+    expect(await fs.readFile(join(out, "guide", "intro.md"), "utf-8")).toBe(
+      "# Intro\n"
+    );
+    expect(await fs.readFile(join(out, "index.md"), "utf-8")).toBe("# Index\n");
+
+    const summary = formatSummary(outcomes);
+    expect(summary).toContain(`FAIL ${join(dir, "docs", "bad.md")}`);
+    expect(summary).toContain("DecodeError");
+    expect(summary).toEndWith("3 files: 2 converted, 1 failed, 0 warnings");
+  });
+
+  it("should reuse cached parses when converting again", async () => {
+    const cache = createDiskCacheStore({ directory: join(dir, "cache") });
+    const files = await Effect.runPromise(expandInputs([join(dir, "docs")]));
+    const convert = () =>
+      Effect.runPromise(convertAll(files, { to: "text", cache }, 1));
+
+    await convert();
+    const outcomes = await convert();
+
+    expect(outcomes.map(({ result }) => result.success)).toEqual([
+      false,
+      true,
+      true,
+    ]);
+    expect(formatCacheStats(cache.stats())).toMatch(
+      /^Cache: 2 hits, 2 misses, 0 evictions \(2 entries, [\d.]+ MiB\)$/
+    );
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Batch conversion: expand globs and directories into files, convert them
+ * concurrently and summarise the run
+ *
+ * A failed file is recorded in its outcome rather than failing the batch.
+ */
+
+import { Glob } from "bun";
+import { Effect } from "effect";
+import * as fs from "node:fs/promises";
+import { join, resolve, sep } from "node:path";
+import {
+  createIoError,
+  createValidationError,
+  formatPipelineError,
+  type CacheStats,
+  type DocumentProcessingError,
+  type PluginRegistry,
+  type Result,
+} from "ndoctrinate-core";
+import {
+  convertFile,
+  type ConvertOptions,
+  type ConvertResult,
+} from "./convert.js";
+import { isConvertible } from "./formats.js";
+
+export interface InputFile {
+  path: string;
+  /** Directory the path is mirrored from under the output root */
+  base: string;
+}
+
+export interface ConvertOutcome {
+  input: string;
+  result: Result<ConvertResult, DocumentProcessingError>;
+}
+
+const globCharacters = /[*?[\]{}]/;
+
+/**
+ * Whether an input argument is a glob pattern rather than a path
+ */
+export function isGlob(input: string): boolean {
+  return globCharacters.test(input);
+}
+
+/**
+ * Split a glob into the directory before its first wildcard and the rest
+ */
+function splitGlob(pattern: string): { base: string; rest: string } {
+  const segments = pattern.split(/[\\/]/);
+  const index = segments.findIndex((segment) => globCharacters.test(segment));
+  return {
+    base: segments.slice(0, index).join(sep) || ".",
+    rest: segments.slice(index).join("/"),
+  };
+}
+
+function scan(
+  pattern: string,
+  cwd: string
+): Effect.Effect<string[], DocumentProcessingError> {
+  return Effect.tryPromise({
+    try: async () => {
+      const paths: string[] = [];
+      for await (const path of new Glob(pattern).scan({
+        cwd,
+        onlyFiles: true,
+      })) {
+        paths.push(join(cwd, path));
+      }
+      return paths.sort();
+    },
+    catch: (error) =>
+      createIoError(`Failed to scan ${cwd}`, "read", error, { path: cwd }),
+  });
+}
+
+/**
+ * Expand input arguments into the files to convert
+ * Directories contribute every file with a source format extension, globs
+ * every match; plain paths are passed through so that a missing file fails
+ * on its own
+ *
+ * @param inputs - File paths, directories and glob patterns
+ * @param parser - Restrict directory scans to files this parser reads
+ * @param registry - Where to find the parser; the built-in plugins when
+ * omitted
+ */
+export function expandInputs(
+  inputs: readonly string[],
+  parser?: string,
+  registry?: PluginRegistry
+): Effect.Effect<InputFile[], DocumentProcessingError> {
+  return Effect.map(
+    Effect.forEach(inputs, (input) => {
+      if (isGlob(input)) {
+        const { base, rest } = splitGlob(input);
+        return Effect.flatMap(scan(rest, base), (paths) =>
+          paths.length > 0
+            ? Effect.succeed(paths.map((path) => ({ path, base })))
+            : Effect.fail(
+                createValidationError(`No files match ${input}`, [], {
+                  path: input,
+                })
+              )
+        );
+      }
+
+      return Effect.flatMap(
+        Effect.promise(() => fs.stat(input).catch(() => undefined)),
+        (stats) =>
+          stats?.isDirectory()
+            ? Effect.map(scan("**/*", input), (paths) =>
+                paths
+                  .filter((path) => isConvertible(path, parser, registry))
+                  .map((path) => ({ path, base: input }))
+              )
+            : Effect.succeed([{ path: input, base: "." }])
+      );
+    }),
+    (groups) => {
+      // The same file may be named twice, e.g. by overlapping globs
+      const files = new Map<string, InputFile>();
+      for (const file of groups.flat()) {
+        const key = resolve(file.path);
+        if (!files.has(key)) {
+          files.set(key, file);
+        }
+      }
+      return [...files.values()];
+    }
+  );
+}
+
+/**
+ * Convert files with at most `concurrency` conversions in flight
+ *
+ * @returns One outcome per file, in input order
+ */
+export function convertAll(
+  files: readonly InputFile[],
+  options: ConvertOptions,
+  concurrency: number
+): Effect.Effect<ConvertOutcome[]> {
+  return Effect.forEach(
+    files,
+    (file) =>
+      Effect.match(convertFile(file.path, { ...options, base: file.base }), {
+        onSuccess: (value): ConvertOutcome => ({
+          input: file.path,
+          result: { success: true, value },
+        }),
+        onFailure: (error): ConvertOutcome => ({
+          input: file.path,
+          result: { success: false, error },
+        }),
+      }),
+    { concurrency }
+  );
+}
+
+function formatMessages(result: ConvertResult): string[] {
+  return result.messages.map((message) => {
+    const place =
+      message.line !== undefined ? `:${message.line}:${message.column}` : "";
+    return `    ${result.input}${place}: warning: ${message.reason}`;
+  });
+}
+
+/**
+ * Format a per-file report followed by totals
+ */
+export function formatSummary(outcomes: readonly ConvertOutcome[]): string {
+  const lines: string[] = [];
+  let failed = 0;
+  let warnings = 0;
+
+  for (const { input, result } of outcomes) {
+    if (!result.success) {
+      failed++;
+      lines.push(`FAIL ${input}`);
+      lines.push(
+        ...formatPipelineError(result.error)
+          .split("\n")
+          .map((line) => `    ${line}`)
+      );
+      continue;
+    }
+
+    const { value } = result;
+    const target = value.output !== undefined ? ` -> ${value.output}` : "";
+    warnings += value.messages.length;
+    lines.push(
+      `${value.messages.length > 0 ? "WARN" : "OK  "} ${input}${target}`
+    );
+    lines.push(...formatMessages(value));
+  }
+
+  const total = outcomes.length;
+  lines.push(
+    `${total} ${total === 1 ? "file" : "files"}: ${total - failed} converted, ${failed} failed, ${warnings} ${warnings === 1 ? "warning" : "warnings"}`
+  );
+  return lines.join("\n");
+}
+
+/**
+ * Format cache counters for the end of a run
+ */
+export function formatCacheStats(stats: CacheStats): string {
+  const count = (value: number, one: string, many: string) =>
+    `${value} ${value === 1 ? one : many}`;
+  const size = (stats.bytes / (1024 * 1024)).toFixed(1);
+  return `Cache: ${count(stats.hits, "hit", "hits")}, ${count(stats.misses, "miss", "misses")}, ${count(stats.evictions, "eviction", "evictions")} (${count(stats.entries, "entry", "entries")}, ${size} MiB)`;
+}
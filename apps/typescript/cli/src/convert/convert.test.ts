@@ -0,0 +1,199 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Effect } from "effect";
+import * as fs from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { formatPipelineError } from "ndoctrinate-core";
+import { convertFile, resolveOutputPath } from "./convert.js";
+import { router } from "../router.js";
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(join(tmpdir(), "ndoctrinate-convert-"));
+  await fs.writeFile(join(dir, "doc.md"), "# Title\n\nSome *text*.\n");
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe("resolveOutputPath", () => {
+  const text = { extension: ".txt", binaryOutput: false };
+  const markdown = { extension: ".md", binaryOutput: false };
+  const docx = { extension: ".docx", binaryOutput: true };
+
+  it("should keep text output on stdout when no output is given", () => {
+    expect(resolveOutputPath("doc.md", text, {})).toBeUndefined();
+  });
+
+  it("should write binary output next to the input by default", () => {
+    expect(resolveOutputPath("in/doc.md", docx, {})).toBe("in/doc.docx");
+  });
+
+  it("should derive the file name inside an output directory", () => {
+    expect(
+      resolveOutputPath("in/doc.adoc", markdown, {
+        output: "out",
+        outputIsDirectory: true,
+      })
+    ).toBe("out/doc.md");
+  });
+});
+
+describe("convertFile", () => {
+  it("should convert Markdown to text", async () => {
+    const result = await Effect.runPromise(
+      convertFile(join(dir, "doc.md"), { to: "text" })
+    );
+
+    expect(result).toMatchObject({ from: "markdown", to: "text" });
+    expect(result.output).toBeUndefined();
+    expect(result.content).toContain("Title");
+  });
+
+  it("should infer the target format from the output path", async () => {
+    const output = join(dir, "out", "doc.docx");
+    const result = await Effect.runPromise(
+      convertFile(join(dir, "doc.md"), { output })
+    );
+
+    expect(result.to).toBe("docx");
+    const bytes = await fs.readFile(output);
+    // OOXML packages are ZIP archives
+    expect(bytes.subarray(0, 2).toString()).toBe("PK");
+  });
+
+  it("should round-trip DOCX back to Markdown", async () => {
+    const docx = join(dir, "doc.docx");
+    await Effect.runPromise(convertFile(join(dir, "doc.md"), { output: docx }));
+    const result = await Effect.runPromise(
+      convertFile(docx, { to: "markdown" })
+    );
+
+    expect(result.content).toBe("# Title\n\nSome *text*.\n");
+  });
+
+  it("should stream text conversions to the output file", async () => {
+    const input = join(dir, "long.md");
+    const sections = Array.from(
+      { length: 200 },
+      (_, index) => `## Part ${index}\n\nSome *text* for part ${index}.\n`
+    );
+    await fs.writeFile(input, sections.join("\n"));
+    const output = join(dir, "long.txt");
+
+    const streamed = await Effect.runPromise(
+      convertFile(input, { output, stream: true })
+    );
+    const whole = await Effect.runPromise(convertFile(input, { to: "text" }));
+
+    expect(streamed).toMatchObject({
+      from: "markdown",
+      to: "text",
+      content: "",
+    });
+    expect(await fs.readFile(output, "utf-8")).toBe(whole.content as string);
+  });
+
+  it("should refuse to stream binary formats", async () => {
+    const error = await Effect.runPromise(
+      Effect.flip(
+        convertFile(join(dir, "doc.md"), {
+          output: join(dir, "doc.docx"),
+          stream: true,
+        })
+      )
+    );
+
+    expect(error.message).toBe(
+      "Cannot stream docx documents; convert without --stream"
+    );
+  });
+
+  it("should keep the parsed tree with dumpTree", async () => {
+    const result = await Effect.runPromise(
+      convertFile(join(dir, "doc.md"), { to: "text", dumpTree: true })
+    );
+
+    expect(result.content).toContain("Title");
+    expect(result.snapshots?.map(({ step }) => step)).toEqual(["parse"]);
+    expect(result.snapshots?.[0].tree.children[0]).toMatchObject({
+      type: "heading",
+      position: { start: { line: 1, column: 1 } },
+    });
+  });
+
+  it("should detect the source format from the content", async () => {
+    const input = join(dir, "notes");
+    await fs.writeFile(input, "= Notes\n\n[NOTE]\n====\nSome text.\n====\n");
+
+    const result = await Effect.runPromise(convertFile(input, { to: "text" }));
+
+    expect(result.from).toBe("asciidoc");
+  });
+
+  it("should fail when the source format cannot be inferred", async () => {
+    const input = join(dir, "doc.unknown");
+    await fs.writeFile(input, new Uint8Array([0x7f, 0x00, 0x01, 0x02]));
+
+    const error = await Effect.runPromise(
+      Effect.flip(convertFile(input, { to: "text" }))
+    );
+
+    expect(error._tag).toBe("ValidationError");
+    expect(formatPipelineError(error)).toContain("pass --from");
+  });
+
+  it("should fail with an IoError for a missing input", async () => {
+    const error = await Effect.runPromise(
+      Effect.flip(convertFile(join(dir, "missing.md"), { to: "text" }))
+    );
+
+    expect(error).toMatchObject({
+      _tag: "IoError",
+      operation: "read",
+      format: "markdown",
+    });
+  });
+});
+
+describe("convert command", () => {
+  it("should set a non-zero exit code when a conversion fails", async () => {
+    const previous = process.exitCode;
+    const caller = router.createCaller({});
+
+    await caller.convert({
+      input: [join(dir, "missing.md")],
+      output: join(dir, "out.docx"),
+    });
+
+    expect(process.exitCode).toBe(1);
+    process.exitCode = previous;
+  });
+
+  it("should run a named pipeline from the project configuration", async () => {
+    const config = join(dir, "ndoctrinate.config.json");
+    await fs.writeFile(
+      config,
+      JSON.stringify({
+        pipelines: {
+          handbook: {
+            parser: "markdown",
+            transformers: ["validate-document"],
+            compiler: "text",
+            input: "*.md",
+            output: "build",
+          },
+        },
+      })
+    );
+    const caller = router.createCaller({});
+
+    await caller.convert({ config, pipeline: "handbook" });
+
+    expect(await fs.readFile(join(dir, "build", "doc.txt"), "utf-8")).toContain(
+      "Title"
+    );
+  });
+});
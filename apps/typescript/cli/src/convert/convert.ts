@@ -0,0 +1,360 @@
+/**
+ * Single-file conversion for the `convert` command
+ *
+ * read |> decode |> parse |> transform |> compile |> write
+ */
+
+import { Effect, Stream } from "effect";
+import * as fs from "node:fs/promises";
+import { basename, dirname, extname, join, relative, resolve } from "node:path";
+import type { VFile } from "vfile";
+import {
+  createIoError,
+  createValidationError,
+  createVFile,
+  withErrorContext,
+  type CacheStore,
+  type DocumentProcessingError,
+  type PluginRegistry,
+  type TreeSnapshot,
+} from "ndoctrinate-core";
+import {
+  buildPipeline,
+  detectFormat,
+  runPipeline,
+  tracePipeline,
+  type ConfiguredPipeline,
+} from "ndoctrinate-tools";
+import {
+  formatFromPath,
+  isSourceFormat,
+  isTargetFormat,
+  type SourceFormat,
+} from "./formats.js";
+
+export interface ConvertOptions {
+  /** Configured pipeline to run; overrides `from` and `to` */
+  pipeline?: ConfiguredPipeline;
+  /**
+   * Parser to read with; a built-in format detected from the input's content
+   * and extension when omitted
+   */
+  from?: string;
+  /**
+   * Compiler to write with; a built-in format inferred from the output
+   * extension when omitted
+   */
+  to?: string;
+  /** Plugins `from` and `to` name; the built-in plugins when omitted */
+  registry?: PluginRegistry;
+  /**
+   * Output file or directory
+   * Text output goes to `content` only and binary output is written next to
+   * the input when omitted
+   */
+  output?: string;
+  /** Treat `output` as a directory even if it does not exist yet */
+  outputIsDirectory?: boolean;
+  /**
+   * Root the input's directory structure is mirrored from when writing into
+   * an output directory
+   */
+  base?: string;
+  /**
+   * Convert a few blocks at a time, writing output as it is produced,
+   * instead of holding the whole document in memory; text output without
+   * an output path goes straight to stdout
+   */
+  stream?: boolean;
+  /** Store to reuse parse and transform results from, across files and runs */
+  cache?: CacheStore;
+  /** Keep the tree after parsing and after each transformer */
+  dumpTree?: boolean;
+}
+
+/**
+ * How much of the input format detection reads when streaming
+ */
+const detectionLength = 64 * 1024;
+
+export interface ConvertResult {
+  input: string;
+  /** Parser the input was read with */
+  from: string;
+  /** Compiler the output was written with */
+  to: string;
+  /** Path the result was written to, if any */
+  output?: string;
+  /** Converted document; empty when it was streamed */
+  content: string | Uint8Array;
+  /** Warnings reported by the parser, transformers and compiler */
+  messages: VFile["messages"];
+  /** Absolute paths of files the input pulled in, such as AsciiDoc includes */
+  includes: string[];
+  /** The tree after each step, with `dumpTree` */
+  snapshots?: readonly TreeSnapshot[];
+}
+
+/**
+ * Resolve where a converted file goes, or `undefined` for standard output
+ */
+export function resolveOutputPath(
+  input: string,
+  pipeline: Pick<ConfiguredPipeline, "extension" | "binaryOutput">,
+  options: Pick<ConvertOptions, "output" | "outputIsDirectory" | "base">
+): string | undefined {
+  const name = `${basename(input, extname(input))}${pipeline.extension}`;
+
+  if (options.output === undefined) {
+    return pipeline.binaryOutput ? join(dirname(input), name) : undefined;
+  }
+  if (!options.outputIsDirectory) {
+    return options.output;
+  }
+  const mirrored =
+    options.base !== undefined ? dirname(relative(options.base, input)) : ".";
+  return join(options.output, mirrored, name);
+}
+
+/**
+ * The most likely source format the CLI can read
+ */
+function detectSourceFormat(
+  input: string,
+  bytes: Uint8Array
+): Effect.Effect<SourceFormat, DocumentProcessingError> {
+  const candidates = detectFormat(bytes, { path: input });
+  const format = candidates.find((candidate) =>
+    isSourceFormat(candidate.format)
+  )?.format;
+  return isSourceFormat(format)
+    ? Effect.succeed(format)
+    : Effect.fail(
+        createValidationError(
+          "Cannot infer the source format; pass --from",
+          candidates.map(
+            ({ format, confidence, reasons }) =>
+              `${format} (${confidence}): ${reasons.join(", ")}`
+          ),
+          { path: input }
+        )
+      );
+}
+
+/**
+ * Use the configured pipeline, or build one from the given or inferred
+ * formats
+ */
+function resolvePipeline(
+  input: string,
+  bytes: Uint8Array,
+  options: ConvertOptions
+): Effect.Effect<ConfiguredPipeline, DocumentProcessingError> {
+  if (options.pipeline) {
+    return Effect.succeed(options.pipeline);
+  }
+
+  return Effect.gen(function* () {
+    const from = options.from ?? (yield* detectSourceFormat(input, bytes));
+    const inferred =
+      options.output !== undefined && !options.outputIsDirectory
+        ? formatFromPath(options.output)
+        : undefined;
+    const to = options.to ?? (isTargetFormat(inferred) ? inferred : undefined);
+    if (to === undefined) {
+      return yield* Effect.fail(
+        createValidationError("Cannot infer the target format; pass --to", [], {
+          path: input,
+        })
+      );
+    }
+
+    return yield* buildPipeline(
+      `${from}-to-${to}`,
+      { parser: from, compiler: to },
+      options.registry
+    );
+  });
+}
+
+/**
+ * Read the start of a file
+ */
+async function readStart(path: string, length: number): Promise<Uint8Array> {
+  const handle = await fs.open(path);
+  try {
+    const buffer = new Uint8Array(length);
+    const { bytesRead } = await handle.read(buffer, 0, length, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Stream a file through a text pipeline to an output file or stdout
+ */
+function streamFile(
+  input: string,
+  pipeline: ConfiguredPipeline,
+  output: string | undefined,
+  file: VFile
+): Effect.Effect<void, DocumentProcessingError> {
+  if (pipeline.binaryInput || pipeline.binaryOutput) {
+    const format = pipeline.binaryInput ? pipeline.from : pipeline.to;
+    return Effect.fail(
+      createValidationError(
+        `Cannot stream ${format} documents; convert without --stream`,
+        [],
+        { path: input }
+      )
+    );
+  }
+
+  const readError = (error: unknown) =>
+    createIoError(`Failed to read file: ${input}`, "read", error, {
+      format: pipeline.from,
+      path: input,
+    });
+  const writeError = (error: unknown) =>
+    createIoError(`Failed to write file: ${output}`, "write", error, {
+      format: pipeline.to,
+      path: output,
+    });
+  const converted = pipeline.processor
+    .stream(
+      Stream.fromReadableStream(() => Bun.file(input).stream(), readError).pipe(
+        Stream.decodeText()
+      ),
+      file
+    )
+    .pipe(
+      Stream.mapError((error) =>
+        withErrorContext(error, {
+          format: error._tag === "CompileError" ? pipeline.to : pipeline.from,
+          path: input,
+        })
+      )
+    );
+
+  if (output === undefined) {
+    return Stream.runForEach(converted, (text) =>
+      Effect.sync(() => process.stdout.write(text))
+    );
+  }
+  return Effect.acquireUseRelease(
+    Effect.tryPromise({
+      try: async () => {
+        await fs.mkdir(dirname(output), { recursive: true });
+        return fs.open(output, "w");
+      },
+      catch: writeError,
+    }),
+    (handle) =>
+      Stream.runForEach(converted, (text) =>
+        Effect.tryPromise({
+          try: () => handle.write(text),
+          catch: writeError,
+        })
+      ),
+    (handle) => Effect.promise(() => handle.close())
+  );
+}
+
+/**
+ * Convert one file, writing the result when it has an output path
+ *
+ * @param input - Path of the source document
+ * @param options - Formats and output location
+ * @returns The converted content and where it was written
+ */
+export function convertFile(
+  input: string,
+  options: ConvertOptions = {}
+): Effect.Effect<ConvertResult, DocumentProcessingError> {
+  return Effect.gen(function* () {
+    // Read first: without a format the content decides the parser. A
+    // streamed file is read again as it is converted
+    const bytes = yield* Effect.tryPromise({
+      try: async () =>
+        options.stream
+          ? readStart(input, detectionLength)
+          : new Uint8Array(await fs.readFile(input)),
+      catch: (error) =>
+        createIoError(`Failed to read file: ${input}`, "read", error, {
+          format:
+            options.pipeline?.from ?? options.from ?? formatFromPath(input),
+          path: input,
+        }),
+    });
+
+    const pipeline = yield* resolvePipeline(input, bytes, options);
+    if (options.cache) {
+      pipeline.processor.cache(options.cache);
+    }
+    const { from, to } = pipeline;
+    const output = resolveOutputPath(input, pipeline, options);
+
+    if (output !== undefined && resolve(output) === resolve(input)) {
+      return yield* Effect.fail(
+        createValidationError("Output would overwrite the input", [], {
+          format: to,
+          path: input,
+        })
+      );
+    }
+
+    if (options.stream) {
+      if (options.dumpTree) {
+        return yield* Effect.fail(
+          createValidationError(
+            "Cannot dump the tree of a streamed document; convert without --stream",
+            [],
+            { path: input }
+          )
+        );
+      }
+      const file = createVFile("", { path: input });
+      yield* streamFile(input, pipeline, output, file);
+      return {
+        input,
+        from,
+        to,
+        output,
+        content: "",
+        messages: file.messages,
+        includes: file.data.includes ?? [],
+      };
+    }
+
+    const file = createVFile(bytes, { path: input });
+    const { output: content, snapshots } = options.dumpTree
+      ? yield* tracePipeline(pipeline, bytes, file)
+      : { output: yield* runPipeline(pipeline, bytes, file) };
+
+    if (output !== undefined) {
+      yield* Effect.tryPromise({
+        try: async () => {
+          await fs.mkdir(dirname(output), { recursive: true });
+          await fs.writeFile(output, content);
+        },
+        catch: (error) =>
+          createIoError(`Failed to write file: ${output}`, "write", error, {
+            format: to,
+            path: output,
+          }),
+      });
+    }
+
+    return {
+      input,
+      from,
+      to,
+      output,
+      content,
+      messages: file.messages,
+      includes: file.data.includes ?? [],
+      ...(snapshots ? { snapshots } : {}),
+    };
+  });
+}
@@ -0,0 +1,70 @@
+/**
+ * Formats the CLI can read and write without a configured pipeline
+ * Each is the name of a built-in parser or compiler
+ */
+
+import { extname } from "node:path";
+import type { PluginKind, PluginRegistry } from "ndoctrinate-core";
+import { createBuiltinRegistry } from "ndoctrinate-tools";
+
+export const sourceFormats = ["markdown", "asciidoc", "docx"] as const;
+export const targetFormats = ["markdown", "docx", "text"] as const;
+
+export type SourceFormat = (typeof sourceFormats)[number];
+export type TargetFormat = (typeof targetFormats)[number];
+
+const builtins = createBuiltinRegistry();
+
+function extensions(
+  kind: PluginKind,
+  name: string,
+  registry: PluginRegistry = builtins
+): readonly string[] {
+  return registry.list({ kind, name })[0]?.extensions ?? [];
+}
+
+const extensionFormats: Record<string, SourceFormat | TargetFormat> = {
+  ...Object.fromEntries(
+    sourceFormats.flatMap((format) =>
+      extensions("parser", format).map((extension) => [extension, format])
+    )
+  ),
+  ...Object.fromEntries(
+    targetFormats.map((format) => [extensions("compiler", format)[0], format])
+  ),
+};
+
+/**
+ * Infer a format from a file extension
+ */
+export function formatFromPath(
+  path: string
+): SourceFormat | TargetFormat | undefined {
+  return extensionFormats[extname(path).toLowerCase()];
+}
+
+/**
+ * Whether a file has an extension read by the given parser, or by any
+ * built-in parser when none is given
+ *
+ * @param registry - Where to find the parser; the built-in plugins when
+ * omitted
+ */
+export function isConvertible(
+  path: string,
+  parser?: string,
+  registry?: PluginRegistry
+): boolean {
+  const extension = extname(path).toLowerCase();
+  return parser !== undefined
+    ? extensions("parser", parser, registry).includes(extension)
+    : isSourceFormat(formatFromPath(path));
+}
+
+export function isSourceFormat(format: unknown): format is SourceFormat {
+  return sourceFormats.includes(format as SourceFormat);
+}
+
+export function isTargetFormat(format: unknown): format is TargetFormat {
+  return targetFormats.includes(format as TargetFormat);
+}
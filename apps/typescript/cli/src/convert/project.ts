@@ -0,0 +1,115 @@
+/**
+ * Pipelines from the project configuration file
+ */
+
+import { Effect } from "effect";
+import { dirname, resolve } from "node:path";
+import {
+  createValidationError,
+  type DocumentProcessingError,
+  type PluginRegistry,
+} from "ndoctrinate-core";
+import {
+  buildPipeline,
+  configFileNames,
+  createBuiltinRegistry,
+  createProjectRegistry,
+  findConfigFile,
+  loadConfig,
+  type ConfiguredPipeline,
+  type ProjectConfig,
+} from "ndoctrinate-tools";
+
+export interface ProjectPipeline {
+  config: ProjectConfig;
+  /** Directory of the config file, which pipeline paths are relative to */
+  root: string;
+  /** The built-in plugins and those the config lists */
+  registry: PluginRegistry;
+  pipeline: ConfiguredPipeline;
+}
+
+export interface ProjectPipelineOptions {
+  /** Config file path; searched for in `cwd` when omitted */
+  config?: string;
+  /** Pipeline name; the config's default pipeline when omitted */
+  pipeline?: string;
+  cwd?: string;
+}
+
+/**
+ * Load the project configuration and build one of its pipelines
+ *
+ * @returns The configuration, its plugins and the built pipeline, or an
+ * error when no config exists, no pipeline is selected, a plugin module
+ * cannot be loaded or a plugin is unknown or incompatible
+ */
+export function loadProjectPipeline(
+  options: ProjectPipelineOptions
+): Effect.Effect<ProjectPipeline, DocumentProcessingError> {
+  return Effect.gen(function* () {
+    const path = options.config ?? (yield* findConfigFile(options.cwd));
+    if (path === undefined) {
+      return yield* Effect.fail(
+        createValidationError(
+          `No configuration file found (looked for ${configFileNames.join(", ")})`
+        )
+      );
+    }
+
+    const config = yield* loadConfig(path);
+    const name = options.pipeline ?? config.defaults?.pipeline;
+    if (name === undefined) {
+      return yield* Effect.fail(
+        createValidationError(
+          "No pipeline selected; pass --pipeline or set defaults.pipeline",
+          [],
+          { path }
+        )
+      );
+    }
+    if (!Object.hasOwn(config.pipelines, name)) {
+      const available = Object.keys(config.pipelines).join(", ") || "none";
+      return yield* Effect.fail(
+        createValidationError(
+          `Unknown pipeline "${name}" (available: ${available})`,
+          [],
+          { path }
+        )
+      );
+    }
+
+    const registry = yield* Effect.mapError(
+      createProjectRegistry(config, path),
+      (error) => ({ ...error, path })
+    );
+    const pipeline = yield* Effect.mapError(
+      buildPipeline(name, config.pipelines[name], registry),
+      (error) => ({ ...error, path })
+    );
+    return { config, root: dirname(resolve(path)), registry, pipeline };
+  });
+}
+
+/**
+ * The plugins available to the project: the built-in plugins, plus those
+ * its configuration file lists when there is one
+ *
+ * @returns The registry, or an error when the config or one of its plugin
+ * modules cannot be loaded
+ */
+export function loadProjectRegistry(
+  options: Omit<ProjectPipelineOptions, "pipeline">
+): Effect.Effect<PluginRegistry, DocumentProcessingError> {
+  return Effect.gen(function* () {
+    const path = options.config ?? (yield* findConfigFile(options.cwd));
+    if (path === undefined) {
+      return createBuiltinRegistry();
+    }
+    const config = yield* loadConfig(path);
+    return yield* Effect.mapError(
+      createProjectRegistry(config, path),
+      (error) => ({ ...error, path })
+    );
+  });
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from "bun:test";
+import type { Root } from "ndoctrinate-core";
+import { formatSnapshots, formatTree } from "./tree.js";
+
+const at = (line: number, start: number, end: number) => ({
+  start: { line, column: start, offset: start - 1 },
+  end: { line, column: end, offset: end - 1 },
+});
+
+const tree = {
+  type: "root",
+  position: at(1, 1, 8),
+  children: [
+    {
+      type: "heading",
+      depth: 1,
+      position: at(1, 1, 8),
+      data: { id: "title" },
+      children: [{ type: "text", value: "Title", position: at(1, 3, 8) }],
+    },
+    { type: "thematicBreak" },
+  ],
+} as Root;
+
+describe("formatTree", () => {
+  it("should draw nodes with their positions and fields", () => {
+    expect(formatTree(tree)).toBe(
+      [
+        "root[2] 1:1-1:8",
+        "├─ heading[1] 1:1-1:8 depth=1",
+        '│  └─ text "Title" 1:3-1:8',
+        "└─ thematicBreak",
+      ].join("\n")
+    );
+  });
+});
+
+describe("formatSnapshots", () => {
+  it("should head each tree with its step", () => {
+    const dump = formatSnapshots("a.md", [
+      { step: "parse", tree },
+      { step: "toc", tree: { type: "root", children: [] } },
+    ]);
+
+    expect(dump).toStartWith("== a.md: parsed\nroot[2]");
+    expect(dump).toEndWith("\n\n== a.md: after toc\nroot[0]");
+  });
+});
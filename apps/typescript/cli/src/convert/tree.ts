@@ -0,0 +1,79 @@
+/**
+ * Syntax tree dumps for `convert --dump-tree`
+ */
+
+import type { Node, Parent, TreeSnapshot } from "ndoctrinate-core";
+
+function formatPosition(position: NonNullable<Node["position"]>): string {
+  const { start, end } = position;
+  return `${start.line}:${start.column}-${end.line}:${end.column}`;
+}
+
+/**
+ * One line for a node: its type, child count, value, position and other
+ * fields
+ */
+function formatNode(node: Node): string {
+  const {
+    type,
+    position,
+    data: _data,
+    children,
+    value,
+    ...fields
+  } = node as Node & Partial<Parent> & { value?: unknown };
+  const parts = [children ? `${type}[${children.length}]` : type];
+  if (value !== undefined) {
+    parts.push(JSON.stringify(value));
+  }
+  if (position) {
+    parts.push(formatPosition(position));
+  }
+  for (const [key, field] of Object.entries(fields)) {
+    parts.push(`${key}=${JSON.stringify(field)}`);
+  }
+  return parts.join(" ");
+}
+
+/**
+ * Draw a tree one node per line, children indented beneath their parent
+ *
+ * ```
+ * root[1] 1:1-1:8
+ * └─ heading[1] 1:1-1:8 depth=1
+ *    └─ text "Title" 1:3-1:8
+ * ```
+ */
+export function formatTree(tree: Node): string {
+  const lines: string[] = [];
+  const visit = (node: Node, lead: string, indent: string) => {
+    lines.push(lead + formatNode(node));
+    const children = (node as Partial<Parent>).children ?? [];
+    children.forEach((child, index) => {
+      const last = index === children.length - 1;
+      visit(
+        child,
+        indent + (last ? "└─ " : "├─ "),
+        indent + (last ? "   " : "│  ")
+      );
+    });
+  };
+  visit(tree, "", "");
+  return lines.join("\n");
+}
+
+/**
+ * Format the tree after each step of a file's conversion under a heading
+ * naming the step
+ */
+export function formatSnapshots(
+  input: string,
+  snapshots: readonly TreeSnapshot[]
+): string {
+  return snapshots
+    .map(
+      ({ step, tree }) =>
+        `== ${input}: ${step === "parse" ? "parsed" : `after ${step}`}\n${formatTree(tree)}`
+    )
+    .join("\n\n");
+}
@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Effect, Fiber } from "effect";
+import * as fs from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { ConvertOutcome, InputFile } from "./batch.js";
+import { watchConversions } from "./watch.js";
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(join(tmpdir(), "ndoctrinate-watch-"));
+  await fs.mkdir(join(dir, "parts"));
+  await fs.writeFile(
+    join(dir, "guide.adoc"),
+    "= Guide\n\ninclude::parts/intro.adoc[]\n"
+  );
+  await fs.writeFile(join(dir, "parts", "intro.adoc"), "Hello.\n");
+  await fs.writeFile(join(dir, "other.adoc"), "= Other\n");
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+/**
+ * Start watching and return a function resolving with the next run
+ */
+function startWatch(files: InputFile[]) {
+  const runs: ConvertOutcome[][] = [];
+  const waiters: Array<() => void> = [];
+  const fiber = Effect.runFork(
+    watchConversions(
+      files,
+      { to: "markdown", output: join(dir, "out"), outputIsDirectory: true },
+      {
+        concurrency: 1,
+        debounce: 20,
+        onRun: (outcomes) => {
+          runs.push(outcomes);
+          waiters.shift()?.();
+        },
+      }
+    )
+  );
+  const nextRun = () =>
+    new Promise<ConvertOutcome[]>((resolve) =>
+      waiters.push(() => resolve(runs[runs.length - 1]))
+    );
+  return { fiber, nextRun };
+}
+
+describe("watchConversions", () => {
+  const files = () => [
+    { path: join(dir, "guide.adoc"), base: dir },
+    { path: join(dir, "other.adoc"), base: dir },
+  ];
+
+  it("should rebuild only the inputs affected by a changed include", async () => {
+    const { fiber, nextRun } = startWatch(files());
+
+    const initial = await nextRun();
+    expect(initial).toHaveLength(2);
+
+    const rebuild = nextRun();
+    await fs.writeFile(join(dir, "parts", "intro.adoc"), "Changed.\n");
+    const outcomes = await rebuild;
+
+    expect(outcomes.map(({ input }) => input)).toEqual([
+      join(dir, "guide.adoc"),
+    ]);
+    expect(await fs.readFile(join(dir, "out", "guide.md"), "utf-8")).toContain(
+      "Changed."
+    );
+
+    await Effect.runPromise(Fiber.interrupt(fiber));
+  });
+
+  it("should keep watching after a failed conversion", async () => {
+    const { fiber, nextRun } = startWatch(files());
+    await nextRun();
+
+    const failing = nextRun();
+    await fs.writeFile(
+      join(dir, "guide.adoc"),
+      "= Guide\n\ninclude::missing.adoc[]\n"
+    );
+    const [failed] = await failing;
+    expect(failed.result).toMatchObject({
+      success: false,
+      error: { _tag: "ParseError" },
+    });
+
+    // The include is still tracked from the last successful run
+    const recovered = nextRun();
+    await fs.writeFile(join(dir, "guide.adoc"), "= Guide\n\nFixed.\n");
+    const [fixed] = await recovered;
+    expect(fixed.result.success).toBe(true);
+
+    await Effect.runPromise(Fiber.interrupt(fiber));
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Watch mode for the `convert` command
+ *
+ * Every input is converted once, then re-converted whenever the input or a
+ * file it includes changes. Changes are collected until writes go quiet for
+ * the debounce period, so an editor saving several files rebuilds each
+ * affected output once.
+ */
+
+import { Effect } from "effect";
+import { watch, type FSWatcher } from "node:fs";
+import { basename, dirname, join, resolve } from "node:path";
+import { convertAll, type ConvertOutcome, type InputFile } from "./batch.js";
+import type { ConvertOptions } from "./convert.js";
+
+export interface WatchOptions {
+  /** Maximum conversions in flight per run */
+  concurrency: number;
+  /** Quiet period after the last change before rebuilding, in milliseconds */
+  debounce?: number;
+  /** Called with the outcomes of each run, the initial run included */
+  onRun: (outcomes: ConvertOutcome[]) => void;
+}
+
+/**
+ * Convert files and keep them up to date until interrupted
+ * Failed conversions, e.g. a ParseError while a file is half edited, are
+ * reported through `onRun` and retried on the next change
+ *
+ * @param files - Files to convert and watch
+ * @param options - Conversion options shared by every file
+ */
+export function watchConversions(
+  files: readonly InputFile[],
+  options: ConvertOptions,
+  watchOptions: WatchOptions
+): Effect.Effect<never> {
+  const { concurrency, debounce = 100, onRun } = watchOptions;
+
+  return Effect.async<never>(() => {
+    // Absolute dependency path -> inputs to rebuild when it changes
+    const dependents = new Map<string, Set<InputFile>>();
+    // Input -> its absolute dependency paths, the input itself included
+    const dependencies = new Map<InputFile, Set<string>>();
+    // Directory -> watcher; directories rather than files are watched so
+    // that editors replacing a file on save do not detach the watcher
+    const watchers = new Map<string, FSWatcher>();
+    const pending = new Set<InputFile>();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let queue = Promise.resolve();
+    let closed = false;
+
+    const track = (outcomes: readonly ConvertOutcome[], batch: InputFile[]) => {
+      outcomes.forEach(({ result }, index) => {
+        const file = batch[index];
+        // A failed file keeps its previous dependencies, since the includes
+        // of a document that failed to parse are not known
+        if (!result.success && dependencies.has(file)) {
+          return;
+        }
+        for (const path of dependencies.get(file) ?? []) {
+          dependents.get(path)?.delete(file);
+        }
+        const paths = new Set([
+          resolve(file.path),
+          ...(result.success ? result.value.includes : []),
+        ]);
+        dependencies.set(file, paths);
+        for (const path of paths) {
+          dependents.set(path, (dependents.get(path) ?? new Set()).add(file));
+        }
+      });
+
+      const directories = new Set(
+        [...dependents]
+          .filter(([, inputs]) => inputs.size > 0)
+          .map(([path]) => dirname(path))
+      );
+      for (const [directory, watcher] of watchers) {
+        if (!directories.has(directory)) {
+          watcher.close();
+          watchers.delete(directory);
+        }
+      }
+      for (const directory of directories) {
+        if (!watchers.has(directory)) {
+          watchers.set(directory, watchDirectory(directory));
+        }
+      }
+    };
+
+    const run = (batch: InputFile[]) => {
+      queue = queue.then(async () => {
+        if (closed) return;
+        const outcomes = await Effect.runPromise(
+          convertAll(batch, options, concurrency)
+        );
+        if (closed) return;
+        track(outcomes, batch);
+        onRun(outcomes);
+      });
+    };
+
+    const changed = (path: string) => {
+      for (const file of dependents.get(path) ?? []) {
+        pending.add(file);
+      }
+      if (pending.size === 0) return;
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        // Rebuild in the original input order
+        const batch = files.filter((file) => pending.has(file));
+        pending.clear();
+        run(batch);
+      }, debounce);
+    };
+
+    const watchDirectory = (directory: string) =>
+      watch(directory, (_event, filename) => {
+        if (filename) {
+          changed(join(directory, basename(filename)));
+          return;
+        }
+        // Some platforms omit the name; treat everything here as changed
+        for (const path of dependents.keys()) {
+          if (dirname(path) === directory) changed(path);
+        }
+      }).on("error", () => {
+        // The directory went away; it is watched again once a rebuild
+        // finds its files
+        watchers.get(directory)?.close();
+        watchers.delete(directory);
+      });
+
+    run([...files]);
+
+    return Effect.sync(() => {
+      closed = true;
+      clearTimeout(timer);
+      for (const watcher of watchers.values()) {
+        watcher.close();
+      }
+    });
+  });
+}
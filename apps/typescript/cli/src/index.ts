@@ -1,13 +1,8 @@
 #!/usr/bin/env bun
 
-import { trpcCli } from "trpc-cli";
-import { router } from "./router.js";
+import { runCli } from "./cli.js";
 
-const cli = trpcCli({
-  router,
-});
-
-cli.run().catch((error) => {
+runCli().catch((error) => {
   console.error(error);
   process.exit(1);
 });
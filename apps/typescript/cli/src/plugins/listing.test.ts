@@ -0,0 +1,41 @@
+import { describe, it, expect } from "bun:test";
+import { createBuiltinRegistry } from "ndoctrinate-tools";
+import { formatPluginInfo, formatPluginList } from "./listing.js";
+
+const registry = createBuiltinRegistry();
+
+describe("formatPluginList", () => {
+  it("should list plugins by kind in aligned columns", () => {
+    const lines = formatPluginList(registry.list()).split("\n");
+
+    expect(lines[0]).toMatch(/^KIND\s+NAME\s+VERSION\s+DESCRIPTION$/);
+    expect(lines.slice(1).map((line) => line.split(/\s+/, 2))).toEqual([
+      ["parser", "asciidoc"],
+      ["parser", "docx"],
+      ["parser", "markdown"],
+      ["transformer", "validate-document"],
+      ["compiler", "docx"],
+      ["compiler", "markdown"],
+      ["compiler", "text"],
+    ]);
+    expect(lines[1].indexOf("0.1.0")).toBe(lines[5].indexOf("0.1.0"));
+  });
+
+  it("should say when nothing is registered", () => {
+    expect(formatPluginList([])).toBe("No plugins registered");
+  });
+});
+
+describe("formatPluginInfo", () => {
+  it("should show every manifest with the name", () => {
+    const info = formatPluginInfo(registry.list({ name: "markdown" }));
+
+    expect(info).toContain("markdown 0.1.0 (parser)");
+    expect(info).toContain("markdown 0.1.0 (compiler)");
+    expect(info).toContain("Extensions:     .md, .markdown");
+    expect(info).toContain(
+      "Options:        { frontmatter?: boolean, gfm?: boolean }"
+    );
+    expect(info).toContain("Core:           ^0.1.0 (compatible with 0.1.0)");
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Text output of `plugins list` and `plugins info`
+ */
+
+import { coreVersion, satisfies, type PluginManifest } from "ndoctrinate-core";
+
+/**
+ * One line per plugin version: kind, name, version and description, in
+ * aligned columns
+ */
+export function formatPluginList(manifests: readonly PluginManifest[]): string {
+  if (manifests.length === 0) {
+    return "No plugins registered";
+  }
+  const rows = [
+    ["KIND", "NAME", "VERSION", "DESCRIPTION"],
+    ...manifests.map((manifest) => [
+      manifest.kind,
+      manifest.name,
+      manifest.version,
+      manifest.description ?? "",
+    ]),
+  ];
+  const widths = rows[0].map((_, column) =>
+    Math.max(...rows.map((row) => row[column].length))
+  );
+  return rows
+    .map((row) =>
+      row
+        .map((cell, column) =>
+          column < row.length - 1 ? cell.padEnd(widths[column]) : cell
+        )
+        .join("  ")
+        .trimEnd()
+    )
+    .join("\n");
+}
+
+/**
+ * Every field of each manifest, one block per plugin version
+ */
+export function formatPluginInfo(manifests: readonly PluginManifest[]): string {
+  return manifests
+    .map((manifest) => {
+      const compatible = satisfies(coreVersion, manifest.core)
+        ? "compatible"
+        : "incompatible";
+      const fields: [string, string | undefined][] = [
+        ["Description", manifest.description],
+        ["Input formats", manifest.inputFormats?.join(", ")],
+        ["Output formats", manifest.outputFormats?.join(", ")],
+        ["Extensions", manifest.extensions?.join(", ")],
+        ["Binary", manifest.binary ? "yes" : undefined],
+        ["Tree type", manifest.treeType],
+        ["Options", manifest.options?.expression],
+        ["Core", `${manifest.core} (${compatible} with ${coreVersion})`],
+      ];
+      return [
+        `${manifest.name} ${manifest.version} (${manifest.kind})`,
+        ...fields
+          .filter(
+            (field): field is [string, string] =>
+              field[1] !== undefined && field[1] !== ""
+          )
+          .map(([label, value]) => `  ${`${label}:`.padEnd(16)}${value}`),
+      ].join("\n");
+    })
+    .join("\n\n");
+}
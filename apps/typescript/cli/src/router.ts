@@ -1,8 +1,12 @@
+import { convertCommand } from "./commands/convert.js";
+import { pluginsCommand } from "./commands/plugins.js";
 import { versionCommand } from "./commands/version.js";
 import { t } from "./trpc.js";
 
 export const router = t.router({
   version: versionCommand,
+  convert: convertCommand,
+  plugins: pluginsCommand,
 });
 
 export type AppRouter = typeof router;
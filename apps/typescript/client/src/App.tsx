@@ -1,66 +1,286 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
+import {
+  cancelJob,
+  fetchFormats,
+  fetchPipelines,
+  fetchResult,
+  followJob,
+  inspectDocument,
+  startJob,
+  type ConversionOptions,
+  type ConvertedDocument,
+  type Formats,
+  type Job,
+  type JobEvent,
+  type JobMessage,
+  type PipelineSummary,
+  type TreeSnapshot,
+} from "./api.ts";
+import { ConversionPicker } from "./components/ConversionPicker.tsx";
+import { DiagnosticsPanel } from "./components/DiagnosticsPanel.tsx";
+import { DropZone } from "./components/DropZone.tsx";
+import { OutputPane } from "./components/OutputPane.tsx";
+import {
+  SourcePane,
+  type Source,
+  type SourcePaneHandle,
+} from "./components/SourcePane.tsx";
+import { TreeExplorer } from "./components/TreeExplorer.tsx";
 import "./App.css";
 
-interface HealthResponse {
-  status: string;
-  timestamp: string;
+/**
+ * What a running job is doing, in words
+ */
+function describeEvent(event: JobEvent): string | undefined {
+  switch (event.type) {
+    case "job":
+      return event.job.status === "queued" ? "Waiting to start" : undefined;
+    case "parse-start":
+      return "Reading the document";
+    case "transform-start":
+      return `Running ${event.transformer} (${event.index + 1} of ${event.count})`;
+    case "compile-start":
+      return "Writing the output";
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Whether a dropped document must be sent as it is, rather than shown and
+ * edited as text
+ */
+function isBinary(file: File, formats: Formats | null): boolean {
+  const name = file.name.toLowerCase();
+  return (
+    formats?.parsers.some(
+      (parser) =>
+        parser.binary &&
+        parser.extensions.some((extension) => name.endsWith(extension))
+    ) ?? false
+  );
 }
 
 function App() {
-  const [health, setHealth] = useState<HealthResponse | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [formats, setFormats] = useState<Formats | null>(null);
+  const [pipelines, setPipelines] = useState<PipelineSummary[]>([]);
+  const [options, setOptions] = useState<ConversionOptions>({});
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const [source, setSource] = useState<Source>({
+    name: "document.md",
+    text: "",
+  });
+  const [job, setJob] = useState<Job | null>(null);
+  const [status, setStatus] = useState<string>();
+  const [messages, setMessages] = useState<JobMessage[]>([]);
+  const [output, setOutput] = useState<ConvertedDocument>();
+  const [requestError, setRequestError] = useState<string | null>(null);
+  const [view, setView] = useState<"output" | "tree">("output");
+  const [snapshots, setSnapshots] = useState<TreeSnapshot[]>();
+  const [inspecting, setInspecting] = useState(false);
+
+  const sourcePane = useRef<SourcePaneHandle>(null);
+  const unfollow = useRef<() => void>();
 
   useEffect(() => {
-    const fetchHealth = async () => {
+    const load = async () => {
       try {
-        const response = await fetch("http://localhost:3000/health");
-        if (!response.ok) {
-          throw new Error(`HTTP error! status: ${response.status}`);
-        }
-        const data: HealthResponse = await response.json();
-        setHealth(data);
+        const [formats, { pipelines, defaultPipeline }] = await Promise.all([
+          fetchFormats(),
+          fetchPipelines(),
+        ]);
+        setFormats(formats);
+        setPipelines(pipelines);
+        setOptions({
+          to: formats.compilers[0]?.name,
+          pipeline: defaultPipeline,
+        });
       } catch (e) {
-        setError(e instanceof Error ? e.message : "Failed to fetch");
-      } finally {
-        setLoading(false);
+        setLoadError(e instanceof Error ? e.message : "Failed to fetch");
       }
     };
 
-    fetchHealth();
+    load();
+    return () => unfollow.current?.();
   }, []);
 
+  const openFile = async (file: File) => {
+    setSource(
+      isBinary(file, formats)
+        ? { name: file.name, file }
+        : { name: file.name, text: await file.text() }
+    );
+    setOutput(undefined);
+    setSnapshots(undefined);
+    setMessages([]);
+    setJob(null);
+  };
+
+  const onEvent = (event: JobEvent) => {
+    const description = describeEvent(event);
+    if (description) {
+      setStatus(description);
+    }
+    if (event.type === "message") {
+      setMessages((messages) => [...messages, event.message]);
+    } else if (event.type === "job") {
+      setJob(event.job);
+      if (event.job.status !== "queued" && event.job.status !== "running") {
+        setStatus(undefined);
+        setMessages(event.job.messages);
+        if (event.job.status === "succeeded") {
+          fetchResult(event.job.id)
+            .then(setOutput)
+            .catch((e: Error) => setRequestError(e.message));
+        }
+      }
+    }
+  };
+
+  const document = () =>
+    source.file ?? new File([source.text ?? ""], source.name);
+
+  const convert = async () => {
+    unfollow.current?.();
+    setOutput(undefined);
+    setMessages([]);
+    setRequestError(null);
+    setView("output");
+    try {
+      const queued = await startJob(document(), options);
+      setJob(queued);
+      setStatus("Waiting to start");
+      unfollow.current = followJob(queued.id, onEvent);
+    } catch (e) {
+      setJob(null);
+      setRequestError(e instanceof Error ? e.message : "Failed to convert");
+    }
+  };
+
+  const inspect = async () => {
+    setRequestError(null);
+    setView("tree");
+    setInspecting(true);
+    try {
+      const inspection = await inspectDocument(document(), options);
+      setSnapshots(inspection.snapshots);
+      setMessages(inspection.messages);
+    } catch (e) {
+      setSnapshots(undefined);
+      setRequestError(e instanceof Error ? e.message : "Failed to inspect");
+    } finally {
+      setInspecting(false);
+    }
+  };
+
+  const cancel = async () => {
+    if (!job) {
+      return;
+    }
+    setRequestError(null);
+    try {
+      await cancelJob(job.id);
+    } catch (e) {
+      setRequestError(e instanceof Error ? e.message : "Failed to cancel");
+    }
+  };
+
+  const running = job?.status === "queued" || job?.status === "running";
+  const ready = formats !== null && Boolean(options.pipeline || options.to);
+
   return (
-    <div className="App">
-      <header className="App-header">
-        <h1>Ndoctrinate Client</h1>
-        <p>React + Vite + ElysiaJS + Effect</p>
-
-        <div className="card">
-          <h2>Backend Health Check</h2>
-          {loading && <p>Loading...</p>}
-          {error && <p className="error">Error: {error}</p>}
-          {health && (
-            <div>
-              <p>
-                Status: <strong>{health.status}</strong>
-              </p>
-              <p>
-                Timestamp: <code>{health.timestamp}</code>
-              </p>
-            </div>
+    <div className="App workbench">
+      <header className="toolbar">
+        <h1>Ndoctrinate</h1>
+        {formats && (
+          <ConversionPicker
+            formats={formats}
+            pipelines={pipelines}
+            options={options}
+            onChange={setOptions}
+          />
+        )}
+        <button disabled={!ready || inspecting} onClick={inspect}>
+          Inspect tree
+        </button>
+        {running ? (
+          <button onClick={cancel}>Cancel</button>
+        ) : (
+          <button disabled={!ready} onClick={convert}>
+            Convert
+          </button>
+        )}
+      </header>
+
+      {loadError && (
+        <p className="error">Cannot reach the backend: {loadError}</p>
+      )}
+      {requestError && <p className="error">{requestError}</p>}
+      {job?.status === "cancelled" && <p>The conversion was cancelled.</p>}
+
+      <DropZone
+        onFile={openFile}
+        accept={formats?.parsers.flatMap(({ extensions }) => extensions) ?? []}
+      />
+
+      <div className="panes">
+        <SourcePane
+          ref={sourcePane}
+          source={source}
+          onEdit={(text) => setSource({ ...source, text })}
+        />
+        <div className="views">
+          <div className="tabs" role="tablist">
+            <button
+              role="tab"
+              aria-selected={view === "output"}
+              onClick={() => setView("output")}
+            >
+              Output
+            </button>
+            <button
+              role="tab"
+              aria-selected={view === "tree"}
+              onClick={() => setView("tree")}
+            >
+              Syntax tree
+            </button>
+          </div>
+          {view === "output" ? (
+            <OutputPane output={output} status={running ? status : undefined} />
+          ) : inspecting ? (
+            <p className="placeholder">
+              <progress /> Inspecting the document
+            </p>
+          ) : snapshots ? (
+            <TreeExplorer
+              snapshots={snapshots}
+              onSelect={
+                source.text !== undefined
+                  ? ({ position }) =>
+                      position &&
+                      sourcePane.current?.select(position.start, position.end)
+                  : undefined
+              }
+            />
+          ) : (
+            <p className="placeholder">
+              Inspect the document to see its syntax tree after each step
+            </p>
           )}
         </div>
+      </div>
 
-        <div className="card">
-          <h3>Getting Started</h3>
-          <ul style={{ textAlign: "left" }}>
-            <li>Backend API: http://localhost:3000</li>
-            <li>Swagger Docs: http://localhost:3000/swagger</li>
-            <li>Frontend Dev Server: http://localhost:5173</li>
-          </ul>
-        </div>
-      </header>
+      <DiagnosticsPanel
+        messages={messages}
+        error={job?.error}
+        onSelect={
+          source.text !== undefined
+            ? (line, column) => sourcePane.current?.jumpTo(line, column)
+            : undefined
+        }
+      />
     </div>
   );
 }
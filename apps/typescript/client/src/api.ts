@@ -0,0 +1,274 @@
+/**
+ * Client for the backend conversion API
+ * Requests go to `/api`, which the dev server proxies to the backend.
+ */
+
+/**
+ * A parser or compiler, from `GET /api/formats`
+ */
+export interface Format {
+  name: string;
+  description?: string;
+  formats: string[];
+  extensions: string[];
+  /** Whether it reads or writes bytes rather than text */
+  binary: boolean;
+}
+
+export interface Formats {
+  parsers: Format[];
+  compilers: Format[];
+}
+
+/**
+ * A named pipeline from the project configuration
+ */
+export interface PipelineSummary {
+  name: string;
+  description?: string;
+  parser: string;
+  transformers: string[];
+  compiler: string;
+  extension: string;
+}
+
+export interface Pipelines {
+  defaultPipeline?: string;
+  pipelines: PipelineSummary[];
+}
+
+/**
+ * A warning reported while converting
+ */
+export interface JobMessage {
+  reason: string;
+  line?: number;
+  column?: number;
+  ruleId?: string;
+  source?: string;
+}
+
+/**
+ * Why a conversion failed; processing errors carry their tag and, for parse
+ * errors, where in the document they happened
+ */
+export interface JobError {
+  message: string;
+  _tag?: string;
+  position?: { line: number; column: number };
+  formatted?: string;
+}
+
+export type JobStatus =
+  | "queued"
+  | "running"
+  | "succeeded"
+  | "failed"
+  | "cancelled";
+
+export interface Job {
+  id: string;
+  status: JobStatus;
+  progress: number;
+  messages: JobMessage[];
+  error?: JobError;
+  result?: { mediaType: string; filename?: string; size: number };
+}
+
+/**
+ * What `GET /api/jobs/:id/events` streams
+ */
+export type JobEvent =
+  | { type: "job"; job: Job }
+  | { type: "parse-start" | "compile-start" }
+  | { type: "parse-end" | "compile-end"; duration: number }
+  | {
+      type: "transform-start";
+      transformer: string;
+      index: number;
+      count: number;
+    }
+  | {
+      type: "transform-end";
+      transformer: string;
+      index: number;
+      count: number;
+      duration: number;
+    }
+  | { type: "message"; message: JobMessage };
+
+/**
+ * What to convert and how
+ * Either `pipeline` names a configured pipeline, or `to` names the
+ * compiler, with `from` naming the parser or left out to detect it.
+ */
+export interface ConversionOptions {
+  from?: string;
+  to?: string;
+  pipeline?: string;
+}
+
+/**
+ * A point in the source document
+ */
+export interface Point {
+  line: number;
+  column: number;
+  offset?: number;
+}
+
+/**
+ * A node of a syntax tree, with whatever fields its type has
+ */
+export interface TreeNode {
+  type: string;
+  children?: TreeNode[];
+  value?: unknown;
+  position?: { start: Point; end: Point };
+  [field: string]: unknown;
+}
+
+/**
+ * The syntax tree after one step of a conversion: `parse`, or a
+ * transformer's name
+ */
+export interface TreeSnapshot {
+  step: string;
+  tree: TreeNode;
+}
+
+/**
+ * What `POST /api/inspect` returns
+ */
+export interface Inspection {
+  pipeline: string;
+  snapshots: TreeSnapshot[];
+  messages: JobMessage[];
+}
+
+/**
+ * A converted document
+ */
+export interface ConvertedDocument {
+  content: Blob;
+  mediaType: string;
+  filename?: string;
+}
+
+/**
+ * Read the error out of a failed response
+ */
+async function failure(response: Response): Promise<Error> {
+  try {
+    const body = (await response.json()) as { error?: JobError };
+    if (body.error) {
+      return new Error(body.error.formatted ?? body.error.message);
+    }
+  } catch {
+    // Not a JSON error body
+  }
+  return new Error(`HTTP error! status: ${response.status}`);
+}
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(path, init);
+  if (!response.ok) {
+    throw await failure(response);
+  }
+  return (await response.json()) as T;
+}
+
+export function fetchFormats(): Promise<Formats> {
+  return request("/api/formats");
+}
+
+export function fetchPipelines(): Promise<Pipelines> {
+  return request("/api/pipelines");
+}
+
+function conversionForm(document: File, options: ConversionOptions): FormData {
+  const body = new FormData();
+  body.set("file", document);
+  for (const [field, value] of Object.entries(options)) {
+    if (value) {
+      body.set(field, value);
+    }
+  }
+  return body;
+}
+
+/**
+ * Queue a document to be converted
+ */
+export function startJob(
+  document: File,
+  options: ConversionOptions
+): Promise<Job> {
+  return request("/api/jobs", {
+    method: "POST",
+    body: conversionForm(document, options),
+  });
+}
+
+/**
+ * Convert a document and return its syntax tree after each step
+ */
+export function inspectDocument(
+  document: File,
+  options: ConversionOptions
+): Promise<Inspection> {
+  return request("/api/inspect", {
+    method: "POST",
+    body: conversionForm(document, options),
+  });
+}
+
+export function cancelJob(id: string): Promise<Job> {
+  return request(`/api/jobs/${id}`, { method: "DELETE" });
+}
+
+/**
+ * Listen to a job's events until it finishes
+ *
+ * @returns A function that stops listening
+ */
+export function followJob(
+  id: string,
+  onEvent: (event: JobEvent) => void
+): () => void {
+  const source = new EventSource(`/api/jobs/${id}/events`);
+  source.onmessage = (message: MessageEvent<string>) => {
+    const event = JSON.parse(message.data) as JobEvent;
+    if (
+      event.type === "job" &&
+      event.job.status !== "queued" &&
+      event.job.status !== "running"
+    ) {
+      // The server ends the stream here; closing first stops the browser
+      // from reconnecting
+      source.close();
+    }
+    onEvent(event);
+  };
+  return () => source.close();
+}
+
+/**
+ * Download the document a job converted
+ */
+export async function fetchResult(id: string): Promise<ConvertedDocument> {
+  const response = await fetch(`/api/jobs/${id}/result`);
+  if (!response.ok) {
+    throw await failure(response);
+  }
+  const mediaType =
+    response.headers.get("content-type") ?? "application/octet-stream";
+  const disposition = response.headers.get("content-disposition") ?? "";
+  // The encoded name is exact; the quoted one may have characters replaced
+  const encoded = /filename\*=UTF-8''([^;]*)/i.exec(disposition)?.[1];
+  const filename =
+    encoded !== undefined
+      ? decodeURIComponent(encoded)
+      : /filename="([^"]*)"/.exec(disposition)?.[1];
+  return { content: await response.blob(), mediaType, filename };
+}
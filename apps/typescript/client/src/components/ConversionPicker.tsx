@@ -0,0 +1,79 @@
+import type { ConversionOptions, Formats, PipelineSummary } from "../api.ts";
+
+interface ConversionPickerProps {
+  formats: Formats;
+  pipelines: PipelineSummary[];
+  options: ConversionOptions;
+  onChange: (options: ConversionOptions) => void;
+}
+
+/**
+ * Choose a named pipeline, or the formats to convert from and to
+ */
+export function ConversionPicker({
+  formats,
+  pipelines,
+  options,
+  onChange,
+}: ConversionPickerProps) {
+  const pipeline = pipelines.find(({ name }) => name === options.pipeline);
+
+  return (
+    <div className="conversion-picker">
+      <label>
+        Pipeline
+        <select
+          value={options.pipeline ?? ""}
+          onChange={(event) =>
+            onChange({ ...options, pipeline: event.target.value || undefined })
+          }
+        >
+          <option value="">None: choose the formats</option>
+          {pipelines.map(({ name, description }) => (
+            <option key={name} value={name} title={description}>
+              {name}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label>
+        From
+        <select
+          value={pipeline?.parser ?? options.from ?? ""}
+          disabled={pipeline !== undefined}
+          onChange={(event) =>
+            onChange({ ...options, from: event.target.value || undefined })
+          }
+        >
+          <option value="">Detect</option>
+          {formats.parsers.map(({ name, description }) => (
+            <option key={name} value={name} title={description}>
+              {name}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label>
+        To
+        <select
+          value={pipeline?.compiler ?? options.to ?? ""}
+          disabled={pipeline !== undefined}
+          onChange={(event) =>
+            onChange({ ...options, to: event.target.value || undefined })
+          }
+        >
+          {formats.compilers.map(({ name, description }) => (
+            <option key={name} value={name} title={description}>
+              {name}
+            </option>
+          ))}
+        </select>
+      </label>
+      {pipeline && pipeline.transformers.length > 0 && (
+        <p className="pipeline-steps">
+          Runs {pipeline.transformers.join(", ")}
+        </p>
+      )}
+    </div>
+  );
+}
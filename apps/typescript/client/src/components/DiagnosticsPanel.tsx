@@ -0,0 +1,77 @@
+import type { JobError, JobMessage } from "../api.ts";
+
+interface DiagnosticsPanelProps {
+  messages: JobMessage[];
+  error?: JobError;
+  /** Show a position in the source, when it can be shown */
+  onSelect?: (line: number, column?: number) => void;
+}
+
+function Position({
+  line,
+  column,
+  onSelect,
+}: {
+  line?: number;
+  column?: number;
+  onSelect?: (line: number, column?: number) => void;
+}) {
+  if (line === undefined) {
+    return null;
+  }
+  const label = column !== undefined ? `${line}:${column}` : `${line}`;
+  return onSelect ? (
+    <button className="position" onClick={() => onSelect(line, column)}>
+      {label}
+    </button>
+  ) : (
+    <span className="position">{label}</span>
+  );
+}
+
+/**
+ * The error and warnings of the last conversion
+ */
+export function DiagnosticsPanel({
+  messages,
+  error,
+  onSelect,
+}: DiagnosticsPanelProps) {
+  if (!error && messages.length === 0) {
+    return null;
+  }
+  return (
+    <section className="diagnostics">
+      <h2>Diagnostics</h2>
+      <ul>
+        {error && (
+          <li className="diagnostic error">
+            <Position
+              line={error.position?.line}
+              column={error.position?.column}
+              onSelect={onSelect}
+            />
+            <span className="severity">{error._tag ?? "Error"}</span>
+            {error.message}
+          </li>
+        )}
+        {messages.map((message, index) => (
+          <li key={index} className="diagnostic warning">
+            <Position
+              line={message.line}
+              column={message.column}
+              onSelect={onSelect}
+            />
+            <span className="severity">Warning</span>
+            {message.reason}
+            {(message.source || message.ruleId) && (
+              <span className="rule">
+                {[message.source, message.ruleId].filter(Boolean).join(":")}
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
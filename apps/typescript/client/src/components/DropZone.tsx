@@ -0,0 +1,60 @@
+import { useRef, useState, type DragEvent } from "react";
+
+interface DropZoneProps {
+  onFile: (file: File) => void;
+  /** Extensions to offer in the file picker */
+  accept: string[];
+}
+
+/**
+ * Somewhere to drop a document, or click to pick one
+ */
+export function DropZone({ onFile, accept }: DropZoneProps) {
+  const input = useRef<HTMLInputElement>(null);
+  const [dragging, setDragging] = useState(false);
+
+  const drop = (event: DragEvent) => {
+    event.preventDefault();
+    setDragging(false);
+    const file = event.dataTransfer.files[0];
+    if (file) {
+      onFile(file);
+    }
+  };
+
+  return (
+    <div
+      className={dragging ? "drop-zone dragging" : "drop-zone"}
+      role="button"
+      tabIndex={0}
+      onClick={() => input.current?.click()}
+      onKeyDown={(event) => {
+        if (event.key === "Enter" || event.key === " ") {
+          input.current?.click();
+        }
+      }}
+      onDragOver={(event) => {
+        event.preventDefault();
+        setDragging(true);
+      }}
+      onDragLeave={() => setDragging(false)}
+      onDrop={drop}
+    >
+      Drop a document here, or click to choose one
+      <input
+        ref={input}
+        type="file"
+        hidden
+        accept={accept.join(",")}
+        onChange={(event) => {
+          const file = event.target.files?.[0];
+          if (file) {
+            onFile(file);
+          }
+          // Picking the same file again should load it again
+          event.target.value = "";
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+/**
+ * Tests for the output pane
+ */
+
+import { describe, it, expect } from "bun:test";
+import { renderToStaticMarkup } from "react-dom/server";
+import type { ConvertedDocument } from "../api.ts";
+import { OutputContent } from "./OutputPane.tsx";
+
+function converted(text: string, mediaType: string): ConvertedDocument {
+  return { content: new Blob([text]), mediaType };
+}
+
+describe("OutputContent", () => {
+  it("should render Markdown in a sandboxed frame, with the raw view a tab away", () => {
+    const text = "# Title\n\n<script>alert(1)</script>\n";
+    const markup = renderToStaticMarkup(
+      <OutputContent
+        output={converted(text, "text/markdown; charset=utf-8")}
+        text={text}
+      />
+    );
+
+    expect(markup).toContain('<iframe class="output preview" sandbox=""');
+    expect(markup).toContain("&lt;h1&gt;Title&lt;/h1&gt;");
+    // Raw HTML in the Markdown is shown as text, not run
+    expect(markup).not.toContain("&lt;script&gt;");
+    expect(markup).toContain('aria-selected="true">Rendered</button>');
+    expect(markup).toContain('aria-selected="false">Raw</button>');
+  });
+
+  it("should render HTML as it is, inside the sandbox", () => {
+    const text = "<p>Hello</p>";
+    const markup = renderToStaticMarkup(
+      <OutputContent output={converted(text, "text/html")} text={text} />
+    );
+
+    expect(markup).toContain('sandbox="" srcDoc="&lt;p&gt;Hello&lt;/p&gt;"');
+  });
+
+  it("should show other text as it was written", () => {
+    const text = "Title\n\n<b>text</b>";
+    const markup = renderToStaticMarkup(
+      <OutputContent
+        output={converted(text, "text/plain; charset=utf-8")}
+        text={text}
+      />
+    );
+
+    expect(markup).toBe(
+      '<pre class="output">Title\n\n&lt;b&gt;text&lt;/b&gt;</pre>'
+    );
+  });
+
+  it("should describe binary documents and show progress", () => {
+    const docx = converted("PK", "application/octet-stream");
+
+    expect(renderToStaticMarkup(<OutputContent output={docx} />)).toBe(
+      '<p class="placeholder">application/octet-stream document of 2 bytes</p>'
+    );
+    expect(
+      renderToStaticMarkup(<OutputContent status="Writing the output" />)
+    ).toBe(
+      '<p class="placeholder"><progress></progress> Writing the output</p>'
+    );
+  });
+});
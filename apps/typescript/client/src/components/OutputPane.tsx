@@ -0,0 +1,121 @@
+import { useEffect, useMemo, useState } from "react";
+import type { ConvertedDocument } from "../api.ts";
+import { renderPreview } from "../preview.ts";
+
+interface OutputContentProps {
+  output?: ConvertedDocument;
+  /** The output's text, once it has been read */
+  text?: string;
+  /** What the conversion is doing, while it runs */
+  status?: string;
+}
+
+/**
+ * The converted document: HTML and Markdown rendered in a sandboxed frame,
+ * with their source a toggle away, other text as it was written, and binary
+ * documents described
+ */
+export function OutputContent({ output, text, status }: OutputContentProps) {
+  const [view, setView] = useState<"rendered" | "raw">("rendered");
+  const page = useMemo(
+    () =>
+      output && text !== undefined
+        ? renderPreview(text, output.mediaType)
+        : undefined,
+    [output, text]
+  );
+
+  if (status) {
+    return (
+      <p className="placeholder">
+        <progress /> {status}
+      </p>
+    );
+  }
+  if (text === undefined) {
+    return output ? (
+      <p className="placeholder">
+        {output.mediaType} document of {output.content.size} bytes
+      </p>
+    ) : (
+      <p className="placeholder">Convert the document to see it here</p>
+    );
+  }
+  if (page === undefined) {
+    return <pre className="output">{text}</pre>;
+  }
+
+  return (
+    <>
+      <div className="tabs" role="tablist">
+        <button
+          role="tab"
+          aria-selected={view === "rendered"}
+          onClick={() => setView("rendered")}
+        >
+          Rendered
+        </button>
+        <button
+          role="tab"
+          aria-selected={view === "raw"}
+          onClick={() => setView("raw")}
+        >
+          Raw
+        </button>
+      </div>
+      {view === "rendered" ? (
+        // No scripts, forms or access to this page
+        <iframe
+          className="output preview"
+          sandbox=""
+          srcDoc={page}
+          title="Rendered output"
+        />
+      ) : (
+        <pre className="output">{text}</pre>
+      )}
+    </>
+  );
+}
+
+interface OutputPaneProps {
+  output?: ConvertedDocument;
+  /** What the conversion is doing, while it runs */
+  status?: string;
+}
+
+/**
+ * The converted document with a link to download it
+ */
+export function OutputPane({ output, status }: OutputPaneProps) {
+  const [text, setText] = useState<string>();
+  const [url, setUrl] = useState<string>();
+
+  useEffect(() => {
+    setText(undefined);
+    if (!output) {
+      setUrl(undefined);
+      return;
+    }
+    const link = URL.createObjectURL(output.content);
+    setUrl(link);
+    if (output.mediaType.startsWith("text/")) {
+      output.content.text().then(setText);
+    }
+    return () => URL.revokeObjectURL(link);
+  }, [output]);
+
+  return (
+    <section className="pane">
+      <h2>
+        Output{output?.filename && `: ${output.filename}`}
+        {url && (
+          <a className="download" href={url} download={output?.filename ?? ""}>
+            Download
+          </a>
+        )}
+      </h2>
+      <OutputContent output={output} text={text} status={status} />
+    </section>
+  );
+}
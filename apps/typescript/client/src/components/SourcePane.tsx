@@ -0,0 +1,86 @@
+import { forwardRef, useImperativeHandle, useRef } from "react";
+import type { Point } from "../api.ts";
+
+/**
+ * The document being converted: text can be edited in place, binary
+ * documents are only named
+ */
+export interface Source {
+  name: string;
+  text?: string;
+  file?: File;
+}
+
+export interface SourcePaneHandle {
+  /** Put the cursor at a 1-based line and column and scroll it into view */
+  jumpTo(line: number, column?: number): void;
+  /** Select the text between two points and scroll it into view */
+  select(start: Point, end: Point): void;
+}
+
+interface SourcePaneProps {
+  source: Source;
+  onEdit: (text: string) => void;
+}
+
+/**
+ * Offset of a 1-based line and column, kept within the text
+ */
+function offsetOf(lines: string[], line: number, column: number): number {
+  const row = Math.min(Math.max(line, 1), lines.length) - 1;
+  const lineStart = lines
+    .slice(0, row)
+    .reduce((offset, text) => offset + text.length + 1, 0);
+  return lineStart + Math.min(Math.max(column, 1) - 1, lines[row].length);
+}
+
+export const SourcePane = forwardRef<SourcePaneHandle, SourcePaneProps>(
+  function SourcePane({ source, onEdit }, ref) {
+    const editor = useRef<HTMLTextAreaElement>(null);
+
+    const select = (start: Point, end: Point) => {
+      const textarea = editor.current;
+      if (!textarea) {
+        return;
+      }
+      const lines = textarea.value.split("\n");
+      textarea.focus();
+      textarea.setSelectionRange(
+        offsetOf(lines, start.line, start.column),
+        offsetOf(lines, end.line, end.column)
+      );
+      // Browsers only scroll a textarea to its selection on typing
+      const lineHeight = parseFloat(getComputedStyle(textarea).lineHeight);
+      textarea.scrollTop = Math.max(
+        (start.line - 1) * lineHeight - textarea.clientHeight / 3,
+        0
+      );
+    };
+
+    useImperativeHandle(ref, () => ({
+      // Select from the column to the end of the line
+      jumpTo: (line, column = 1) =>
+        select({ line, column }, { line, column: Infinity }),
+      select,
+    }));
+
+    return (
+      <section className="pane">
+        <h2>Source: {source.name}</h2>
+        {source.text !== undefined ? (
+          <textarea
+            ref={editor}
+            className="source"
+            spellCheck={false}
+            value={source.text}
+            onChange={(event) => onEdit(event.target.value)}
+          />
+        ) : (
+          <p className="placeholder">
+            {source.name} is a binary document and cannot be shown here
+          </p>
+        )}
+      </section>
+    );
+  }
+);
@@ -0,0 +1,175 @@
+import { useEffect, useMemo, useState } from "react";
+import type { TreeNode, TreeSnapshot } from "../api.ts";
+
+interface TreeExplorerProps {
+  snapshots: TreeSnapshot[];
+  /** Show a node's text in the source, when it can be shown */
+  onSelect?: (node: TreeNode) => void;
+}
+
+/**
+ * A node without its children, which changes only when the node itself or
+ * the types of its children do
+ */
+function signature(node: TreeNode): string {
+  const { children, ...fields } = node;
+  return JSON.stringify({
+    ...fields,
+    children: children?.map(({ type }) => type),
+  });
+}
+
+function signatures(tree: TreeNode, into = new Set<string>()): Set<string> {
+  into.add(signature(tree));
+  for (const child of tree.children ?? []) {
+    signatures(child, into);
+  }
+  return into;
+}
+
+function formatRange(position: TreeNode["position"]): string | undefined {
+  if (!position) {
+    return undefined;
+  }
+  const { start, end } = position;
+  return `${start.line}:${start.column}-${end.line}:${end.column}`;
+}
+
+/**
+ * Fields shown beside a node's type
+ */
+function describe(node: TreeNode): string {
+  const {
+    type: _type,
+    children: _children,
+    position: _position,
+    ...fields
+  } = node;
+  return Object.entries(fields)
+    .filter(([field]) => field !== "data")
+    .map(([field, value]) => {
+      const text = JSON.stringify(value);
+      return field === "value"
+        ? text.length > 40
+          ? `${text.slice(0, 39)}…"`
+          : text
+        : `${field}=${text}`;
+    })
+    .join(" ");
+}
+
+interface NodeViewProps {
+  node: TreeNode;
+  depth: number;
+  /** Signatures of the nodes before this step, to mark what it changed */
+  before?: Set<string>;
+  selected?: TreeNode;
+  onSelect: (node: TreeNode) => void;
+}
+
+function NodeView({ node, depth, before, selected, onSelect }: NodeViewProps) {
+  const [open, setOpen] = useState(depth < 3);
+  const children = node.children ?? [];
+  const changed = before !== undefined && !before.has(signature(node));
+  const classes = ["tree-node"];
+  if (node === selected) {
+    classes.push("selected");
+  }
+  if (changed) {
+    classes.push("changed");
+  }
+
+  return (
+    <li>
+      <div className={classes.join(" ")}>
+        {children.length > 0 ? (
+          <button
+            className="toggle"
+            aria-label={open ? "Collapse" : "Expand"}
+            onClick={() => setOpen(!open)}
+          >
+            {open ? "▾" : "▸"}
+          </button>
+        ) : (
+          <span className="toggle" />
+        )}
+        <button className="node-label" onClick={() => onSelect(node)}>
+          <strong>{node.type}</strong>
+          {children.length > 0 && `[${children.length}]`}{" "}
+          <span className="fields">{describe(node)}</span>
+        </button>
+        <span className="range">{formatRange(node.position)}</span>
+      </div>
+      {open && children.length > 0 && (
+        <ul>
+          {children.map((child, index) => (
+            <NodeView
+              key={index}
+              node={child}
+              depth={depth + 1}
+              before={before}
+              selected={selected}
+              onSelect={onSelect}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+/**
+ * The syntax tree of a document after each step of its conversion, with the
+ * nodes each transformer added or changed marked
+ */
+export function TreeExplorer({ snapshots, onSelect }: TreeExplorerProps) {
+  const [step, setStep] = useState(snapshots.length - 1);
+  const [selected, setSelected] = useState<TreeNode>();
+
+  useEffect(() => {
+    setStep(snapshots.length - 1);
+    setSelected(undefined);
+  }, [snapshots]);
+
+  // Until the effect above runs, the step may be past new snapshots
+  const index = Math.min(step, snapshots.length - 1);
+  const current = snapshots[index];
+  const before = useMemo(
+    () => (index > 0 ? signatures(snapshots[index - 1].tree) : undefined),
+    [snapshots, index]
+  );
+
+  const select = (node: TreeNode) => {
+    setSelected(node);
+    onSelect?.(node);
+  };
+
+  return (
+    <section className="pane">
+      <h2>
+        Syntax tree
+        <select
+          value={index}
+          onChange={(event) => setStep(Number(event.target.value))}
+        >
+          {snapshots.map(({ step }, index) => (
+            <option key={index} value={index}>
+              {index === 0 ? "Parsed" : `After ${step}`}
+            </option>
+          ))}
+        </select>
+      </h2>
+      {current && (
+        <ul className="tree">
+          <NodeView
+            node={current.tree}
+            depth={0}
+            before={before}
+            selected={selected}
+            onSelect={select}
+          />
+        </ul>
+      )}
+    </section>
+  );
+}
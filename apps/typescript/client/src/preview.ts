@@ -0,0 +1,36 @@
+/**
+ * Pages showing converted documents as a browser would render them
+ */
+
+import { micromark } from "micromark";
+import { frontmatter, frontmatterHtml } from "micromark-extension-frontmatter";
+import { gfm, gfmHtml } from "micromark-extension-gfm";
+
+function essence(mediaType: string): string {
+  return mediaType.split(";")[0].trim().toLowerCase();
+}
+
+/**
+ * A standalone HTML page for a document: HTML as it is, Markdown converted
+ * with any raw HTML in it escaped, or undefined for other formats
+ * The page may still hold scripts, so show it only in a sandboxed frame
+ */
+export function renderPreview(
+  text: string,
+  mediaType: string
+): string | undefined {
+  switch (essence(mediaType)) {
+    case "text/html":
+      return text;
+    case "text/markdown":
+      return `<!doctype html>
+<meta charset="utf-8">
+<style>body { font-family: system-ui, sans-serif; line-height: 1.5; }</style>
+${micromark(text, {
+  extensions: [gfm(), frontmatter(["yaml", "toml"])],
+  htmlExtensions: [gfmHtml(), frontmatterHtml(["yaml", "toml"])],
+})}`;
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Type guards for the intermediate document model
+ * Guards check the node `type` only; use `validateDocument` to check shape
+ */
+
+import type { Node } from "unist";
+import {
+  DOCUMENT_MODEL_VERSION,
+  type DocumentNodeMap,
+  type DocumentRoot,
+  type FlowContent,
+  type PhrasingContent,
+} from "./types.js";
+
+/**
+ * Create a guard for a single node type
+ */
+function nodeGuard<Type extends keyof DocumentNodeMap>(type: Type) {
+  return (node: unknown): node is DocumentNodeMap[Type] =>
+    typeof node === "object" &&
+    node !== null &&
+    "type" in node &&
+    node.type === type;
+}
+
+export const isText = nodeGuard("text");
+export const isEmphasis = nodeGuard("emphasis");
+export const isStrong = nodeGuard("strong");
+export const isDelete = nodeGuard("delete");
+export const isUnderline = nodeGuard("underline");
+export const isSuperscript = nodeGuard("superscript");
+export const isSubscript = nodeGuard("subscript");
+export const isInlineCode = nodeGuard("inlineCode");
+export const isBreak = nodeGuard("break");
+export const isLink = nodeGuard("link");
+export const isImage = nodeGuard("image");
+export const isFootnoteReference = nodeGuard("footnoteReference");
+export const isCrossReference = nodeGuard("crossReference");
+export const isCitation = nodeGuard("citation");
+export const isHtml = nodeGuard("html");
+
+export const isParagraph = nodeGuard("paragraph");
+export const isHeading = nodeGuard("heading");
+export const isSection = nodeGuard("section");
+export const isBlockquote = nodeGuard("blockquote");
+export const isAdmonition = nodeGuard("admonition");
+export const isExample = nodeGuard("example");
+export const isSidebar = nodeGuard("sidebar");
+export const isList = nodeGuard("list");
+export const isListItem = nodeGuard("listItem");
+export const isCode = nodeGuard("code");
+export const isTable = nodeGuard("table");
+export const isTableRow = nodeGuard("tableRow");
+export const isTableCell = nodeGuard("tableCell");
+export const isFigure = nodeGuard("figure");
+export const isCaption = nodeGuard("caption");
+export const isThematicBreak = nodeGuard("thematicBreak");
+export const isPageBreak = nodeGuard("pageBreak");
+export const isFootnoteDefinition = nodeGuard("footnoteDefinition");
+
+const phrasingTypes = new Set<string>([
+  "text",
+  "emphasis",
+  "strong",
+  "delete",
+  "underline",
+  "superscript",
+  "subscript",
+  "inlineCode",
+  "break",
+  "link",
+  "image",
+  "footnoteReference",
+  "crossReference",
+  "citation",
+  "html",
+]);
+
+const flowTypes = new Set<string>([
+  "paragraph",
+  "heading",
+  "section",
+  "blockquote",
+  "admonition",
+  "example",
+  "sidebar",
+  "list",
+  "code",
+  "table",
+  "figure",
+  "thematicBreak",
+  "pageBreak",
+  "footnoteDefinition",
+  "html",
+]);
+
+/**
+ * Type guard for inline content
+ * `html` counts as both inline and block content
+ */
+export function isPhrasingContent(node: Node): node is PhrasingContent {
+  return phrasingTypes.has(node.type);
+}
+
+/**
+ * Type guard for block content
+ */
+export function isFlowContent(node: Node): node is FlowContent {
+  return flowTypes.has(node.type);
+}
+
+/**
+ * Type guard for a root of the current document model version
+ */
+export function isDocumentRoot(node: unknown): node is DocumentRoot {
+  return (
+    typeof node === "object" &&
+    node !== null &&
+    "type" in node &&
+    node.type === "root" &&
+    "version" in node &&
+    node.version === DOCUMENT_MODEL_VERSION
+  );
+}
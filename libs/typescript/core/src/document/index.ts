@@ -0,0 +1,99 @@
+/**
+ * Format-neutral intermediate document model
+ *
+ * Parsers produce a `DocumentRoot`; compilers consume one:
+ *
+ *   Markdown ─┐                      ┌─ Markdown
+ *   AsciiDoc ─┼─> DocumentRoot ─>────┼─ DOCX
+ *   DOCX     ─┘                      └─ Text
+ */
+
+export { DOCUMENT_MODEL_VERSION } from "./types.js";
+export type {
+  BlockAttributes,
+  Frontmatter,
+  DocumentData,
+  Text,
+  Emphasis,
+  Strong,
+  Delete,
+  Underline,
+  Superscript,
+  Subscript,
+  InlineCode,
+  Break,
+  Link,
+  Image,
+  FootnoteReference,
+  CrossReference,
+  Citation,
+  Html,
+  PhrasingContent,
+  Paragraph,
+  Heading,
+  Section,
+  Blockquote,
+  Admonition,
+  Example,
+  Sidebar,
+  List,
+  ListItem,
+  Code,
+  Table,
+  TableRow,
+  TableCell,
+  Figure,
+  Caption,
+  ThematicBreak,
+  PageBreak,
+  FootnoteDefinition,
+  FlowContent,
+  DocumentRoot,
+  DocumentNode,
+  DocumentNodeMap,
+} from "./types.js";
+
+export {
+  DocumentRootSchema,
+  validateDocument,
+  createDocumentValidator,
+} from "./schema.js";
+
+export {
+  isText,
+  isEmphasis,
+  isStrong,
+  isDelete,
+  isUnderline,
+  isSuperscript,
+  isSubscript,
+  isInlineCode,
+  isBreak,
+  isLink,
+  isImage,
+  isFootnoteReference,
+  isCrossReference,
+  isCitation,
+  isHtml,
+  isParagraph,
+  isHeading,
+  isSection,
+  isBlockquote,
+  isAdmonition,
+  isExample,
+  isSidebar,
+  isList,
+  isListItem,
+  isCode,
+  isTable,
+  isTableRow,
+  isTableCell,
+  isFigure,
+  isCaption,
+  isThematicBreak,
+  isPageBreak,
+  isFootnoteDefinition,
+  isPhrasingContent,
+  isFlowContent,
+  isDocumentRoot,
+} from "./guards.js";
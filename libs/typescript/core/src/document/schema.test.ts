@@ -0,0 +1,131 @@
+/**
+ * Tests for the document model schema and guards
+ */
+
+import { describe, it, expect } from "bun:test";
+import { Effect, Exit } from "effect";
+import { createVFile } from "../pipeline/file.js";
+import { createDocumentValidator, validateDocument } from "./schema.js";
+import {
+  isDocumentRoot,
+  isFlowContent,
+  isHeading,
+  isPhrasingContent,
+} from "./guards.js";
+import { DOCUMENT_MODEL_VERSION, type DocumentRoot } from "./types.js";
+
+const document: DocumentRoot = {
+  type: "root",
+  version: DOCUMENT_MODEL_VERSION,
+  children: [
+    {
+      type: "section",
+      depth: 1,
+      id: "intro",
+      children: [
+        {
+          type: "heading",
+          depth: 1,
+          children: [{ type: "text", value: "Hi" }],
+        },
+        {
+          type: "paragraph",
+          children: [
+            { type: "crossReference", identifier: "fig-1", children: [] },
+            { type: "citation", keys: ["knuth84"], children: [] },
+            { type: "footnoteReference", identifier: "1" },
+          ],
+        },
+        {
+          type: "figure",
+          id: "fig-1",
+          children: [
+            {
+              type: "paragraph",
+              children: [{ type: "image", url: "a.png", width: 10 }],
+            },
+            { type: "caption", children: [{ type: "text", value: "A" }] },
+          ],
+        },
+        {
+          type: "table",
+          children: [
+            {
+              type: "tableRow",
+              header: true,
+              children: [{ type: "tableCell", colSpan: 2, children: [] }],
+            },
+          ],
+        },
+      ],
+    },
+    {
+      type: "footnoteDefinition",
+      identifier: "1",
+      children: [{ type: "paragraph", children: [] }],
+    },
+  ],
+};
+
+describe("validateDocument", () => {
+  it("accepts a well-formed document", () => {
+    const result = validateDocument(document);
+    expect(result.success).toBe(true);
+  });
+
+  it("allows extra properties on nodes", () => {
+    const result = validateDocument({
+      ...document,
+      children: [{ type: "thematicBreak", data: { style: "dashed" }, x: 1 }],
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("reports the path of invalid nodes", () => {
+    const result = validateDocument({
+      type: "root",
+      version: DOCUMENT_MODEL_VERSION,
+      children: [{ type: "heading", depth: 7, children: [] }],
+    });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error._tag).toBe("ValidationError");
+      expect(result.error.issues.join("\n")).toContain("children[0]");
+    }
+  });
+
+  it("rejects unsupported model versions", () => {
+    const result = validateDocument({ ...document, version: 99 });
+    expect(result).toMatchObject({
+      success: false,
+      error: {
+        _tag: "ValidationError",
+        message: `Unsupported document model version 99 (expected ${DOCUMENT_MODEL_VERSION})`,
+      },
+    });
+  });
+
+  it("fails the pipeline through the validator transformer", async () => {
+    const invalid = {
+      type: "root",
+      version: DOCUMENT_MODEL_VERSION,
+      children: [{ type: "paragraph" }],
+    } as unknown as DocumentRoot;
+
+    const exit = await Effect.runPromiseExit(
+      createDocumentValidator().transform(invalid, createVFile(""))
+    );
+    expect(Exit.isFailure(exit)).toBe(true);
+  });
+});
+
+describe("guards", () => {
+  it("identify nodes by type", () => {
+    expect(isDocumentRoot(document)).toBe(true);
+    expect(isDocumentRoot({ type: "root", children: [] })).toBe(false);
+    expect(isHeading({ type: "heading", depth: 1, children: [] })).toBe(true);
+    expect(isPhrasingContent({ type: "citation" })).toBe(true);
+    expect(isFlowContent({ type: "figure" })).toBe(true);
+    expect(isFlowContent({ type: "text" })).toBe(false);
+  });
+});
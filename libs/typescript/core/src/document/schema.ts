@@ -0,0 +1,301 @@
+/**
+ * Runtime schema for the intermediate document model
+ * Trees crossing a trust boundary (plugins, JSON input, cached trees) can be
+ * checked against the model before a compiler consumes them
+ */
+
+import { scope, type } from "arktype";
+import { Effect } from "effect";
+import type { VFile } from "vfile";
+import { createValidationError } from "../errors.js";
+import type { Result, ValidationError } from "../types.js";
+import { createTransformError } from "../pipeline/errors.js";
+import type { Transformer, TransformError } from "../pipeline/types.js";
+import { DOCUMENT_MODEL_VERSION, type DocumentRoot } from "./types.js";
+
+/**
+ * Node schemas, one per model type
+ * Unknown keys are allowed so that nodes may carry format-specific extras
+ */
+const documentScope = scope({
+  node: { "position?": "object", "data?": "object" },
+  block: { "id?": "string", "title?": "string" },
+
+  text: ["node", "&", { type: "'text'", value: "string" }],
+  emphasis: ["node", "&", { type: "'emphasis'", children: "phrasing[]" }],
+  strong: ["node", "&", { type: "'strong'", children: "phrasing[]" }],
+  delete: ["node", "&", { type: "'delete'", children: "phrasing[]" }],
+  underline: ["node", "&", { type: "'underline'", children: "phrasing[]" }],
+  superscript: ["node", "&", { type: "'superscript'", children: "phrasing[]" }],
+  subscript: ["node", "&", { type: "'subscript'", children: "phrasing[]" }],
+  inlineCode: ["node", "&", { type: "'inlineCode'", value: "string" }],
+  break: ["node", "&", { type: "'break'" }],
+  link: [
+    "node",
+    "&",
+    {
+      type: "'link'",
+      url: "string",
+      "title?": "string",
+      children: "phrasing[]",
+    },
+  ],
+  image: [
+    "node",
+    "&",
+    {
+      type: "'image'",
+      url: "string",
+      "alt?": "string",
+      "title?": "string",
+      "width?": "number >= 0",
+      "height?": "number >= 0",
+    },
+  ],
+  footnoteReference: [
+    "node",
+    "&",
+    { type: "'footnoteReference'", identifier: "string", "label?": "string" },
+  ],
+  crossReference: [
+    "node",
+    "&",
+    { type: "'crossReference'", identifier: "string", children: "phrasing[]" },
+  ],
+  citation: [
+    "node",
+    "&",
+    {
+      type: "'citation'",
+      keys: "string[] > 0",
+      "locator?": "string",
+      children: "phrasing[]",
+    },
+  ],
+  html: ["node", "&", { type: "'html'", value: "string" }],
+  phrasing:
+    "text | emphasis | strong | delete | underline | superscript | subscript | inlineCode | break | link | image | footnoteReference | crossReference | citation | html",
+
+  paragraph: [
+    "node",
+    "&",
+    ["block", "&", { type: "'paragraph'", children: "phrasing[]" }],
+  ],
+  heading: [
+    "node",
+    "&",
+    [
+      "block",
+      "&",
+      {
+        type: "'heading'",
+        depth: "1 | 2 | 3 | 4 | 5 | 6",
+        children: "phrasing[]",
+      },
+    ],
+  ],
+  section: [
+    "node",
+    "&",
+    [
+      "block",
+      "&",
+      { type: "'section'", depth: "number.integer >= 0", children: "flow[]" },
+    ],
+  ],
+  blockquote: [
+    "node",
+    "&",
+    [
+      "block",
+      "&",
+      {
+        type: "'blockquote'",
+        "attribution?": "string",
+        "citation?": "string",
+        children: "flow[]",
+      },
+    ],
+  ],
+  admonition: [
+    "node",
+    "&",
+    [
+      "block",
+      "&",
+      { type: "'admonition'", kind: "string", children: "flow[]" },
+    ],
+  ],
+  example: [
+    "node",
+    "&",
+    ["block", "&", { type: "'example'", children: "flow[]" }],
+  ],
+  sidebar: [
+    "node",
+    "&",
+    ["block", "&", { type: "'sidebar'", children: "flow[]" }],
+  ],
+  list: [
+    "node",
+    "&",
+    [
+      "block",
+      "&",
+      {
+        type: "'list'",
+        "ordered?": "boolean",
+        "start?": "number.integer",
+        "spread?": "boolean",
+        children: "listItem[]",
+      },
+    ],
+  ],
+  listItem: [
+    "node",
+    "&",
+    {
+      type: "'listItem'",
+      "checked?": "boolean",
+      "spread?": "boolean",
+      children: "flow[]",
+    },
+  ],
+  code: [
+    "node",
+    "&",
+    [
+      "block",
+      "&",
+      {
+        type: "'code'",
+        "lang?": "string",
+        "meta?": "string",
+        value: "string",
+      },
+    ],
+  ],
+  table: [
+    "node",
+    "&",
+    [
+      "block",
+      "&",
+      {
+        type: "'table'",
+        "align?": "('left' | 'right' | 'center' | null)[]",
+        children: "tableRow[]",
+      },
+    ],
+  ],
+  tableRow: [
+    "node",
+    "&",
+    { type: "'tableRow'", "header?": "boolean", children: "tableCell[]" },
+  ],
+  tableCell: [
+    "node",
+    "&",
+    {
+      type: "'tableCell'",
+      "colSpan?": "number.integer >= 1",
+      "rowSpan?": "number.integer >= 1",
+      children: "(phrasing | flow)[]",
+    },
+  ],
+  figure: [
+    "node",
+    "&",
+    ["block", "&", { type: "'figure'", children: "(flow | caption)[]" }],
+  ],
+  caption: ["node", "&", { type: "'caption'", children: "phrasing[]" }],
+  thematicBreak: ["node", "&", { type: "'thematicBreak'" }],
+  pageBreak: ["node", "&", { type: "'pageBreak'" }],
+  footnoteDefinition: [
+    "node",
+    "&",
+    {
+      type: "'footnoteDefinition'",
+      identifier: "string",
+      "label?": "string",
+      children: "flow[]",
+    },
+  ],
+  flow: "paragraph | heading | section | blockquote | admonition | example | sidebar | list | code | table | figure | thematicBreak | pageBreak | footnoteDefinition | html",
+
+  root: [
+    "node",
+    "&",
+    {
+      type: "'root'",
+      version: "number",
+      children: "flow[]",
+    },
+  ],
+}).export();
+
+/**
+ * Schema for a complete document tree
+ */
+export const DocumentRootSchema = documentScope.root;
+
+/**
+ * Check a value against the document model
+ *
+ * @param value - A candidate tree, e.g. parsed from JSON
+ * @returns The value typed as a DocumentRoot, or a ValidationError listing
+ * every mismatch found
+ */
+export function validateDocument(
+  value: unknown
+): Result<DocumentRoot, ValidationError> {
+  const version =
+    typeof value === "object" && value !== null && "version" in value
+      ? value.version
+      : undefined;
+  if (version !== undefined && version !== DOCUMENT_MODEL_VERSION) {
+    return {
+      success: false,
+      error: createValidationError(
+        `Unsupported document model version ${String(version)} (expected ${DOCUMENT_MODEL_VERSION})`
+      ),
+    };
+  }
+
+  const result = DocumentRootSchema(value);
+  if (result instanceof type.errors) {
+    return {
+      success: false,
+      error: createValidationError(
+        "Tree does not match the document model",
+        result.map((issue) => issue.message)
+      ),
+    };
+  }
+  return { success: true, value: result as DocumentRoot };
+}
+
+/**
+ * Create a transformer that fails the pipeline when the tree does not match
+ * the document model
+ * Useful after transformers that are not known to preserve the model, such
+ * as plugins
+ */
+export function createDocumentValidator(): Transformer<DocumentRoot> {
+  return {
+    transform(
+      tree: DocumentRoot,
+      _file: VFile
+    ): Effect.Effect<DocumentRoot, TransformError, never> {
+      const result = validateDocument(tree);
+      return result.success
+        ? Effect.succeed(result.value)
+        : Effect.fail(
+            createTransformError(
+              `Invalid document tree: ${result.error.message}`,
+              result.error
+            )
+          );
+    },
+  };
+}
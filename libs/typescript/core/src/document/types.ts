@@ -0,0 +1,349 @@
+/**
+ * Format-neutral intermediate document model
+ *
+ * Every parser produces a `DocumentRoot` and every compiler consumes one, so
+ * supporting a new format means writing one reader and one writer rather than
+ * a converter per format pair. Node names follow mdast where the concepts
+ * overlap; constructs mdast lacks (sections, admonitions, figures, cross
+ * references, citations) are added alongside.
+ */
+
+import type { Data, Node, Parent } from "unist";
+import type { Root } from "../pipeline/types.js";
+
+/**
+ * Version of the document model produced by this package
+ * Bumped whenever a node shape changes incompatibly
+ */
+export const DOCUMENT_MODEL_VERSION = 1;
+
+/**
+ * Attributes any block may carry
+ */
+export interface BlockAttributes {
+  /**
+   * Anchor that cross references resolve to
+   */
+  id?: string;
+  /**
+   * Block title (AsciiDoc `.Title`), rendered above the block
+   */
+  title?: string;
+}
+
+/**
+ * Front matter kept verbatim from the source document
+ */
+export interface Frontmatter {
+  format: "yaml" | "toml";
+  value: string;
+}
+
+/**
+ * Document-level information carried on the root
+ */
+export interface DocumentData extends Data {
+  /**
+   * Format the document was read from
+   */
+  format?: string;
+  /**
+   * Document attributes (AsciiDoc header attributes, DOCX core properties)
+   */
+  attributes?: Record<string, string>;
+  frontmatter?: Frontmatter;
+}
+
+// ---------------------------------------------------------------------------
+// Inline content
+// ---------------------------------------------------------------------------
+
+export interface Text extends Node {
+  type: "text";
+  value: string;
+}
+
+export interface Emphasis extends Parent {
+  type: "emphasis";
+  children: PhrasingContent[];
+}
+
+export interface Strong extends Parent {
+  type: "strong";
+  children: PhrasingContent[];
+}
+
+export interface Delete extends Parent {
+  type: "delete";
+  children: PhrasingContent[];
+}
+
+export interface Underline extends Parent {
+  type: "underline";
+  children: PhrasingContent[];
+}
+
+export interface Superscript extends Parent {
+  type: "superscript";
+  children: PhrasingContent[];
+}
+
+export interface Subscript extends Parent {
+  type: "subscript";
+  children: PhrasingContent[];
+}
+
+export interface InlineCode extends Node {
+  type: "inlineCode";
+  value: string;
+}
+
+export interface Break extends Node {
+  type: "break";
+}
+
+export interface Link extends Parent {
+  type: "link";
+  url: string;
+  title?: string;
+  children: PhrasingContent[];
+}
+
+export interface Image extends Node {
+  type: "image";
+  url: string;
+  alt?: string;
+  title?: string;
+  /**
+   * Display size in pixels, when the source specifies one
+   */
+  width?: number;
+  height?: number;
+}
+
+export interface FootnoteReference extends Node {
+  type: "footnoteReference";
+  identifier: string;
+  label?: string;
+}
+
+/**
+ * Reference to a block or section `id` within the document
+ * Children, when present, replace the target's title as the link text
+ */
+export interface CrossReference extends Parent {
+  type: "crossReference";
+  identifier: string;
+  children: PhrasingContent[];
+}
+
+/**
+ * Bibliographic citation of one or more reference keys
+ */
+export interface Citation extends Parent {
+  type: "citation";
+  keys: string[];
+  /**
+   * Pinpoint within the cited work, e.g. `p. 12`
+   */
+  locator?: string;
+  children: PhrasingContent[];
+}
+
+/**
+ * Raw markup passed through to formats that understand it
+ */
+export interface Html extends Node {
+  type: "html";
+  value: string;
+}
+
+export type PhrasingContent =
+  | Text
+  | Emphasis
+  | Strong
+  | Delete
+  | Underline
+  | Superscript
+  | Subscript
+  | InlineCode
+  | Break
+  | Link
+  | Image
+  | FootnoteReference
+  | CrossReference
+  | Citation
+  | Html;
+
+// ---------------------------------------------------------------------------
+// Block content
+// ---------------------------------------------------------------------------
+
+export interface Paragraph extends Parent, BlockAttributes {
+  type: "paragraph";
+  children: PhrasingContent[];
+}
+
+export interface Heading extends Parent, BlockAttributes {
+  type: "heading";
+  depth: 1 | 2 | 3 | 4 | 5 | 6;
+  children: PhrasingContent[];
+}
+
+/**
+ * A heading together with the content up to the next heading of the same or
+ * a shallower depth; the first child is the heading
+ */
+export interface Section extends Parent, BlockAttributes {
+  type: "section";
+  depth: number;
+  children: FlowContent[];
+}
+
+export interface Blockquote extends Parent, BlockAttributes {
+  type: "blockquote";
+  attribution?: string;
+  citation?: string;
+  children: FlowContent[];
+}
+
+export interface Admonition extends Parent, BlockAttributes {
+  type: "admonition";
+  /**
+   * Lower-case admonition label: note, tip, important, caution, warning
+   */
+  kind: string;
+  children: FlowContent[];
+}
+
+export interface Example extends Parent, BlockAttributes {
+  type: "example";
+  children: FlowContent[];
+}
+
+export interface Sidebar extends Parent, BlockAttributes {
+  type: "sidebar";
+  children: FlowContent[];
+}
+
+export interface List extends Parent, BlockAttributes {
+  type: "list";
+  ordered?: boolean;
+  start?: number;
+  spread?: boolean;
+  children: ListItem[];
+}
+
+export interface ListItem extends Parent {
+  type: "listItem";
+  /**
+   * Checklist state; absent for ordinary items
+   */
+  checked?: boolean;
+  spread?: boolean;
+  children: FlowContent[];
+}
+
+export interface Code extends Node, BlockAttributes {
+  type: "code";
+  lang?: string;
+  meta?: string;
+  value: string;
+}
+
+export interface Table extends Parent, BlockAttributes {
+  type: "table";
+  align?: Array<"left" | "right" | "center" | null>;
+  children: TableRow[];
+}
+
+export interface TableRow extends Parent {
+  type: "tableRow";
+  header?: boolean;
+  children: TableCell[];
+}
+
+/**
+ * Table cells hold inline content, or blocks when the source allows it
+ */
+export interface TableCell extends Parent {
+  type: "tableCell";
+  colSpan?: number;
+  rowSpan?: number;
+  children: Array<PhrasingContent | FlowContent>;
+}
+
+/**
+ * Captioned content (usually an image or table); the caption, if any, is
+ * the last child
+ */
+export interface Figure extends Parent, BlockAttributes {
+  type: "figure";
+  children: Array<FlowContent | Caption>;
+}
+
+export interface Caption extends Parent {
+  type: "caption";
+  children: PhrasingContent[];
+}
+
+export interface ThematicBreak extends Node {
+  type: "thematicBreak";
+}
+
+export interface PageBreak extends Node {
+  type: "pageBreak";
+}
+
+export interface FootnoteDefinition extends Parent {
+  type: "footnoteDefinition";
+  identifier: string;
+  label?: string;
+  children: FlowContent[];
+}
+
+export type FlowContent =
+  | Paragraph
+  | Heading
+  | Section
+  | Blockquote
+  | Admonition
+  | Example
+  | Sidebar
+  | List
+  | Code
+  | Table
+  | Figure
+  | ThematicBreak
+  | PageBreak
+  | FootnoteDefinition
+  | Html;
+
+/**
+ * Root of a document in the intermediate model
+ */
+export interface DocumentRoot extends Root {
+  type: "root";
+  version: typeof DOCUMENT_MODEL_VERSION;
+  children: FlowContent[];
+  data?: DocumentData;
+}
+
+/**
+ * Any node of the intermediate model
+ */
+export type DocumentNode =
+  | DocumentRoot
+  | FlowContent
+  | PhrasingContent
+  | ListItem
+  | TableRow
+  | TableCell
+  | Caption;
+
+/**
+ * Node types of the intermediate model, keyed by `type`
+ */
+export type DocumentNodeMap = {
+  [Type in DocumentNode["type"]]: Extract<DocumentNode, { type: Type }>;
+};
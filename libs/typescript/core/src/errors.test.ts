@@ -0,0 +1,117 @@
+/**
+ * Tests for processor error utilities and error formatting
+ */
+
+import { describe, it, expect } from "bun:test";
+import {
+  createDecodeError,
+  createIoError,
+  createPluginError,
+  createUnsupportedFormatError,
+  createUnsupportedSourceError,
+  createValidationError,
+  isDocumentProcessingError,
+  isIoError,
+  withErrorContext,
+} from "./errors.js";
+import { createParseError, formatPipelineError } from "./pipeline/errors.js";
+import type { DocumentProcessingError } from "./types.js";
+
+describe("processor errors", () => {
+  it("should describe unsupported sources", () => {
+    const error = createUnsupportedSourceError(42, { format: "markdown" });
+    expect(error).toMatchObject({
+      _tag: "UnsupportedSourceError",
+      sourceType: "number",
+      format: "markdown",
+      message: "Unsupported source type number for markdown processor",
+    });
+  });
+
+  it("should list the supported formats", () => {
+    expect(
+      createUnsupportedFormatError("pdf", ["asciidoc", "markdown"], {
+        path: "a.pdf",
+      })
+    ).toMatchObject({
+      _tag: "UnsupportedFormatError",
+      format: "pdf",
+      path: "a.pdf",
+      supported: ["asciidoc", "markdown"],
+      message: "No processor for format pdf (supported: asciidoc, markdown)",
+    });
+    expect(createUnsupportedFormatError(undefined, []).message).toBe(
+      "Cannot determine the source format (supported: none)"
+    );
+  });
+
+  it("should recognise every variant", () => {
+    const errors: DocumentProcessingError[] = [
+      createParseError("bad"),
+      createUnsupportedSourceError(null),
+      createUnsupportedFormatError("pdf", ["markdown"]),
+      createIoError("missing", "read"),
+      createDecodeError("not UTF-8", "utf-8"),
+      createValidationError("invalid", ["a"]),
+      createPluginError("crashed", "toc"),
+    ];
+    expect(errors.every(isDocumentProcessingError)).toBe(true);
+    expect(isDocumentProcessingError("Unsupported source")).toBe(false);
+    expect(errors.filter(isIoError)).toHaveLength(1);
+  });
+
+  it("should add context without overriding it", () => {
+    const error = withErrorContext(
+      createParseError("bad", undefined, { line: 2, column: 3, offset: 9 }),
+      { format: "asciidoc", path: "doc.adoc", position: undefined }
+    );
+    expect(error).toMatchObject({
+      format: "asciidoc",
+      path: "doc.adoc",
+      position: { line: 2, column: 3 },
+    });
+
+    const kept = withErrorContext(error, { format: "markdown" });
+    expect(kept.format).toBe("asciidoc");
+  });
+});
+
+describe("formatPipelineError", () => {
+  it("should render location, format and cause", () => {
+    const error = withErrorContext(
+      createParseError("Unexpected token", new Error("boom"), {
+        line: 4,
+        column: 1,
+        offset: 30,
+      }),
+      { format: "asciidoc", path: "guide.adoc" }
+    );
+    expect(formatPipelineError(error)).toBe(
+      "ParseError: Unexpected token (asciidoc) at guide.adoc:4:1\nCause: boom"
+    );
+  });
+
+  it("should keep the line and column form without a path", () => {
+    expect(
+      formatPipelineError(
+        createParseError("Bad", undefined, { line: 1, column: 2, offset: 1 })
+      )
+    ).toBe("ParseError: Bad at line 1, column 2");
+  });
+
+  it("should render processor errors", () => {
+    expect(
+      formatPipelineError(
+        createIoError("Failed to read file", "read", undefined, {
+          path: "a.docx",
+        })
+      )
+    ).toBe("IoError: Failed to read file in a.docx");
+    expect(
+      formatPipelineError(createValidationError("Invalid tree", ["x", "y"]))
+    ).toBe("ValidationError: Invalid tree\n  - x\n  - y");
+    expect(formatPipelineError(createPluginError("Crashed", "toc"))).toBe(
+      "PluginError [toc]: Crashed"
+    );
+  });
+});
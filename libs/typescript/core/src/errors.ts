@@ -0,0 +1,201 @@
+/**
+ * Error utilities for document processors
+ * Constructors and guards for the processor error variants; pipeline
+ * variants live in `pipeline/errors.ts`
+ */
+
+import type { ErrorContext } from "./pipeline/types.js";
+import type {
+  DecodeError,
+  DocumentProcessingError,
+  IoError,
+  PluginError,
+  UnsupportedFormatError,
+  UnsupportedSourceError,
+  ValidationError,
+} from "./types.js";
+
+/**
+ * Create an UnsupportedSourceError for a rejected source value
+ */
+export function createUnsupportedSourceError(
+  source: unknown,
+  context: ErrorContext = {}
+): UnsupportedSourceError {
+  const sourceType = source === null ? "null" : typeof source;
+  return {
+    _tag: "UnsupportedSourceError",
+    message: `Unsupported source type ${sourceType}${context.format ? ` for ${context.format} processor` : ""}`,
+    sourceType,
+    ...context,
+  };
+}
+
+/**
+ * Create an UnsupportedFormatError for a format no processor reads
+ *
+ * @param format - The declared or most likely detected format, if any
+ * @param supported - Formats that have a processor
+ */
+export function createUnsupportedFormatError(
+  format: string | undefined,
+  supported: readonly string[],
+  context: ErrorContext = {}
+): UnsupportedFormatError {
+  const alternatives = supported.join(", ") || "none";
+  return {
+    _tag: "UnsupportedFormatError",
+    message: format
+      ? `No processor for format ${format} (supported: ${alternatives})`
+      : `Cannot determine the source format (supported: ${alternatives})`,
+    supported,
+    ...(format ? { format } : {}),
+    ...context,
+  };
+}
+
+/**
+ * Create an IoError
+ */
+export function createIoError(
+  message: string,
+  operation: IoError["operation"],
+  cause?: unknown,
+  context: ErrorContext = {}
+): IoError {
+  return { _tag: "IoError", message, operation, cause, ...context };
+}
+
+/**
+ * Create a DecodeError
+ */
+export function createDecodeError(
+  message: string,
+  encoding?: string,
+  cause?: unknown,
+  context: ErrorContext = {}
+): DecodeError {
+  return { _tag: "DecodeError", message, encoding, cause, ...context };
+}
+
+/**
+ * Create a ValidationError
+ */
+export function createValidationError(
+  message: string,
+  issues: readonly string[] = [],
+  context: ErrorContext = {}
+): ValidationError {
+  return { _tag: "ValidationError", message, issues, ...context };
+}
+
+/**
+ * Create a PluginError
+ */
+export function createPluginError(
+  message: string,
+  plugin: string,
+  cause?: unknown,
+  context: ErrorContext = {}
+): PluginError {
+  return { _tag: "PluginError", message, plugin, cause, ...context };
+}
+
+function hasTag(error: unknown, tag: string): boolean {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "_tag" in error &&
+    error._tag === tag
+  );
+}
+
+/**
+ * Type guard for UnsupportedSourceError
+ */
+export function isUnsupportedSourceError(
+  error: unknown
+): error is UnsupportedSourceError {
+  return hasTag(error, "UnsupportedSourceError");
+}
+
+/**
+ * Type guard for UnsupportedFormatError
+ */
+export function isUnsupportedFormatError(
+  error: unknown
+): error is UnsupportedFormatError {
+  return hasTag(error, "UnsupportedFormatError");
+}
+
+/**
+ * Type guard for IoError
+ */
+export function isIoError(error: unknown): error is IoError {
+  return hasTag(error, "IoError");
+}
+
+/**
+ * Type guard for DecodeError
+ */
+export function isDecodeError(error: unknown): error is DecodeError {
+  return hasTag(error, "DecodeError");
+}
+
+/**
+ * Type guard for ValidationError
+ */
+export function isValidationError(error: unknown): error is ValidationError {
+  return hasTag(error, "ValidationError");
+}
+
+/**
+ * Type guard for PluginError
+ */
+export function isPluginError(error: unknown): error is PluginError {
+  return hasTag(error, "PluginError");
+}
+
+const errorTags = new Set([
+  "ParseError",
+  "TransformError",
+  "CompileError",
+  "UnsupportedSourceError",
+  "UnsupportedFormatError",
+  "IoError",
+  "DecodeError",
+  "ValidationError",
+  "PluginError",
+]);
+
+/**
+ * Type guard for any DocumentProcessingError variant
+ */
+export function isDocumentProcessingError(
+  error: unknown
+): error is DocumentProcessingError {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "_tag" in error &&
+    typeof error._tag === "string" &&
+    errorTags.has(error._tag)
+  );
+}
+
+/**
+ * Fill in diagnostic context an error does not already carry
+ * Lets a processor stamp its format and file path onto errors raised deeper
+ * in the pipeline without overriding more specific information
+ */
+export function withErrorContext<E extends DocumentProcessingError>(
+  error: E,
+  context: ErrorContext
+): E {
+  return {
+    ...error,
+    format: error.format ?? context.format,
+    path: error.path ?? context.path,
+    position: error.position ?? context.position,
+  };
+}
@@ -0,0 +1,50 @@
+import { Context, Effect } from "effect";
+import type { Source } from "./types.js";
+
+/**
+ * What is known about a source besides its content
+ */
+export interface DetectionHints {
+  /** File path or name; only its extension is used */
+  path?: string;
+  /** Declared media type, such as an HTTP `Content-Type` */
+  mimeType?: string;
+}
+
+/**
+ * A format a source may be in
+ */
+export interface FormatCandidate {
+  /** Format name, matching parser and processor names where one exists */
+  format: string;
+  /** Between 0 and 1; candidates are ranked by it */
+  confidence: number;
+  /** The evidence for the format, such as `extension .md` */
+  reasons: readonly string[];
+}
+
+/**
+ * FormatDetector interface
+ * Defines the contract for identifying the format of a document source
+ */
+export interface FormatDetector {
+  /**
+   * Rank the formats a source may be in
+   *
+   * @param source - Document content: text, raw bytes or JSON
+   * @param hints - File name and media type, when known
+   * @returns An Effect that produces candidates, most likely first; empty when nothing points to any format
+   */
+  detect(
+    source: Source,
+    hints?: DetectionHints
+  ): Effect.Effect<FormatCandidate[], never, never>;
+}
+
+/**
+ * FormatDetectorService - Context Tag for the FormatDetector service
+ * Used for dependency injection in Effect programs
+ */
+export const FormatDetectorService = Context.GenericTag<FormatDetector>(
+  "FormatDetectorService"
+);
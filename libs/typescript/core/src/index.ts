@@ -6,15 +6,59 @@
 export type {
   Source,
   StructuredDocument,
+  UnsupportedSourceError,
+  UnsupportedFormatError,
+  IoError,
+  DecodeError,
+  ValidationError,
+  PluginError,
   DocumentProcessingError,
   Result,
 } from "./types.js";
 
+// Export processor error utilities
+export {
+  createUnsupportedSourceError,
+  createUnsupportedFormatError,
+  createIoError,
+  createDecodeError,
+  createValidationError,
+  createPluginError,
+  isUnsupportedSourceError,
+  isUnsupportedFormatError,
+  isIoError,
+  isDecodeError,
+  isValidationError,
+  isPluginError,
+  isDocumentProcessingError,
+  withErrorContext,
+} from "./errors.js";
+
 // Export interfaces and services
 export type { DocumentProcessor } from "./document-processor.js";
 export { DocumentProcessorService } from "./document-processor.js";
 export type { StructuredDocumentFilter } from "./structured-document-filter.js";
 export { StructuredDocumentFilterService } from "./structured-document-filter.js";
+export type {
+  DetectionHints,
+  FormatCandidate,
+  FormatDetector,
+} from "./format-detector.js";
+export { FormatDetectorService } from "./format-detector.js";
+export type {
+  ProcessingHints,
+  ProcessorRegistry,
+} from "./processor-registry.js";
+export { ProcessorRegistryService } from "./processor-registry.js";
 
 // Export pipeline module
 export * from "./pipeline/index.js";
+
+// Export intermediate document model
+export * from "./document/index.js";
+
+// Export WebAssembly component plugin host
+export * from "./wasm/index.js";
+
+// Export plugin registry
+export * from "./plugins/index.js";
@@ -0,0 +1,182 @@
+/**
+ * Tests for cached parse and transform results
+ */
+
+import { describe, it, expect } from "bun:test";
+import { Effect } from "effect";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { VFile } from "vfile";
+import type { Compiler, Node, Parser, Root } from "./types.js";
+import { Processor } from "./processor.js";
+import { createTransformer } from "./transformers.js";
+import { createMemoryCacheStore, deserialize, serialize } from "./cache.js";
+
+type Text = Node & { value: string };
+
+const compiler: Compiler<Root, string> = {
+  compile: (root) =>
+    Effect.succeed(
+      (root.children as Text[]).map((node) => node.value).join("\n")
+    ),
+};
+
+/**
+ * A parser that counts its runs, reporting a warning for every input
+ */
+function countingParser(includes: string[] = []) {
+  const parser = {
+    runs: 0,
+    cacheKey: "lines@1",
+    parse: (input: string, file?: VFile) =>
+      Effect.sync((): Root => {
+        parser.runs++;
+        file?.message("parsed");
+        if (file && includes.length > 0) {
+          file.data.includes = includes;
+        }
+        return {
+          type: "root",
+          children: input
+            .split("\n")
+            .map((value): Text => ({ type: "text", value })),
+        };
+      }),
+  } satisfies Parser<string, Root> & { runs: number };
+  return parser;
+}
+
+const run = (
+  processor: Processor<string, string, Root>,
+  input: string,
+  path?: string
+) => {
+  const file = new VFile(path !== undefined ? { path } : {});
+  return Effect.runPromise(
+    Effect.map(processor.process(input, file), (output) => ({ output, file }))
+  );
+};
+
+declare module "vfile" {
+  interface DataMap {
+    includes: string[];
+  }
+}
+
+describe("createMemoryCacheStore", () => {
+  it("should evict the least recently used entries", () => {
+    const store = createMemoryCacheStore({ maxBytes: 10 });
+    const stats = Effect.runSync(
+      Effect.gen(function* () {
+        yield* store.set("a", "1234");
+        yield* store.set("b", "1234");
+        // Reading `a` makes `b` the oldest entry
+        yield* store.get("a");
+        yield* store.set("c", "1234");
+        expect(yield* store.get("a")).toBe("1234");
+        expect(yield* store.get("b")).toBeUndefined();
+        return store.stats();
+      })
+    );
+
+    expect(stats).toEqual({
+      hits: 2,
+      misses: 1,
+      writes: 3,
+      evictions: 1,
+      entries: 2,
+      bytes: 8,
+    });
+  });
+
+  it("should keep byte arrays through serialization", () => {
+    const value = { media: { "image.png": new Uint8Array([1, 2, 255]) } };
+
+    expect(deserialize(serialize(value))).toEqual(value);
+  });
+});
+
+describe("Processor with a cache", () => {
+  it("should reuse parse results for the same input", async () => {
+    const parser = countingParser();
+    const store = createMemoryCacheStore();
+    const processor = new Processor(parser, compiler).cache(store);
+
+    await run(processor, "a\nb");
+    const { output, file } = await run(processor, "a\nb");
+    await run(processor, "a\nc");
+
+    expect(parser.runs).toBe(2);
+    expect(output).toBe("a\nb");
+    // Messages from the cached parse are added again
+    expect(file.messages.map((message) => message.reason)).toEqual(["parsed"]);
+    expect(store.stats()).toMatchObject({ hits: 1, misses: 2, writes: 2 });
+  });
+
+  it("should parse the same input in another directory again", async () => {
+    const parser = countingParser();
+    const processor = new Processor(parser, compiler).cache(
+      createMemoryCacheStore()
+    );
+
+    await run(processor, "a", "/docs/one/index.adoc");
+    await run(processor, "a", "/docs/one/other.adoc");
+    await run(processor, "a", "/docs/two/index.adoc");
+
+    expect(parser.runs).toBe(2);
+  });
+
+  it("should reuse transform results only for transformers with a key", async () => {
+    const runs = { keyed: 0, unkeyed: 0 };
+    const upper = createTransformer<Root>(
+      (root) => {
+        runs.keyed++;
+        return {
+          ...root,
+          children: (root.children as Text[]).map((node) => ({
+            ...node,
+            value: node.value.toUpperCase(),
+          })),
+        };
+      },
+      { cacheKey: "upper@1" }
+    );
+    const count = createTransformer<Root>((root) => {
+      runs.unkeyed++;
+      return root;
+    });
+    const processor = new Processor(countingParser(), compiler)
+      .use(upper)
+      .use(count)
+      .cache(createMemoryCacheStore());
+
+    await run(processor, "a");
+    const { output } = await run(processor, "a");
+
+    expect(output).toBe("A");
+    expect(runs).toEqual({ keyed: 1, unkeyed: 2 });
+  });
+
+  it("should parse again when a file the input pulled in changes", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "ndoctrinate-cache-"));
+    try {
+      const included = join(directory, "part.txt");
+      await writeFile(included, "one");
+      const parser = countingParser([included]);
+      const processor = new Processor(parser, compiler).cache(
+        createMemoryCacheStore()
+      );
+
+      await run(processor, "a");
+      const { file } = await run(processor, "a");
+      await writeFile(included, "two");
+      await run(processor, "a");
+
+      expect(file.data.includes).toEqual([included]);
+      expect(parser.runs).toBe(2);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,314 @@
+/**
+ * Content-addressed caching of parse and transform results
+ *
+ * Parse results are keyed by a hash of the input, the directory of its file
+ * and the parser's `cacheKey`, transform results by a hash of the tree and the transformer's
+ * `cacheKey`; parsers and transformers without one always run. An entry
+ * holds the tree with the messages and `file.data` the step added, so a hit
+ * leaves the file as running the step would have. Files a step pulled in,
+ * listed in `file.data.includes`, are hashed with the entry and a change to
+ * any of them turns the entry into a miss.
+ */
+
+import { Effect } from "effect";
+import { createHash } from "node:crypto";
+import * as fs from "node:fs/promises";
+import type { VFile } from "vfile";
+import type { Node } from "./types.js";
+
+/**
+ * Counters for a cache store
+ */
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  writes: number;
+  evictions: number;
+  /** Entries and their total size in bytes */
+  entries: number;
+  bytes: number;
+}
+
+/**
+ * Where cached results are kept
+ * Stores never fail: a read that fails is a miss and a failed write is
+ * dropped, so a broken cache only makes the pipeline slower
+ */
+export interface CacheStore {
+  /**
+   * The value stored under a key, or undefined on a miss
+   */
+  get(key: string): Effect.Effect<string | undefined, never, never>;
+
+  /**
+   * Store a value, evicting the least recently used entries to stay within
+   * the store's size limit
+   */
+  set(key: string, value: string): Effect.Effect<void, never, never>;
+
+  /**
+   * Hits, misses and size since the store was created
+   */
+  stats(): CacheStats;
+}
+
+/**
+ * Hash strings and bytes into a key
+ * Each part is length-prefixed, so `("ab", "c")` and `("a", "bc")` differ
+ */
+export function hashContent(
+  ...parts: readonly (string | Uint8Array)[]
+): string {
+  const hash = createHash("sha256");
+  for (const part of parts) {
+    const bytes = typeof part === "string" ? Buffer.from(part) : part;
+    hash.update(`${typeof part === "string" ? "s" : "b"}${bytes.length}:`);
+    hash.update(bytes);
+  }
+  return hash.digest("hex");
+}
+
+/**
+ * Write a value as JSON, keeping byte arrays such as embedded media
+ */
+export function serialize(value: unknown): string {
+  return JSON.stringify(
+    value,
+    function (this: Record<string, unknown>, key, item: unknown) {
+      // Buffers turn into objects through toJSON before reaching here
+      const original = this[key];
+      return original instanceof Uint8Array
+        ? { $bytes: Buffer.from(original).toString("base64") }
+        : item;
+    }
+  );
+}
+
+/**
+ * Read a value written by `serialize`
+ */
+export function deserialize<T>(text: string): T {
+  return JSON.parse(text, (_key, item: unknown) =>
+    typeof item === "object" &&
+    item !== null &&
+    typeof (item as { $bytes?: unknown }).$bytes === "string" &&
+    Object.keys(item).length === 1
+      ? new Uint8Array(
+          Buffer.from((item as { $bytes: string }).$bytes, "base64")
+        )
+      : item
+  ) as T;
+}
+
+/**
+ * Options for `createMemoryCacheStore`
+ */
+export interface MemoryCacheOptions {
+  /** Largest total size of the stored values; 64 MiB by default */
+  maxBytes?: number;
+}
+
+/**
+ * A cache store that lives as long as the process, evicting the least
+ * recently used entries first
+ */
+export function createMemoryCacheStore(
+  options: MemoryCacheOptions = {}
+): CacheStore {
+  const maxBytes = options.maxBytes ?? 64 * 1024 * 1024;
+  // Insertion order is use order: a hit moves the entry to the end
+  const entries = new Map<string, { value: string; size: number }>();
+  const stats: CacheStats = {
+    hits: 0,
+    misses: 0,
+    writes: 0,
+    evictions: 0,
+    entries: 0,
+    bytes: 0,
+  };
+
+  const remove = (key: string) => {
+    const entry = entries.get(key);
+    if (entry) {
+      entries.delete(key);
+      stats.bytes -= entry.size;
+    }
+  };
+
+  return {
+    get: (key) =>
+      Effect.sync(() => {
+        const entry = entries.get(key);
+        if (!entry) {
+          stats.misses++;
+          return undefined;
+        }
+        stats.hits++;
+        entries.delete(key);
+        entries.set(key, entry);
+        return entry.value;
+      }),
+
+    set: (key, value) =>
+      Effect.sync(() => {
+        const size = Buffer.byteLength(value);
+        remove(key);
+        if (size > maxBytes) {
+          stats.entries = entries.size;
+          return;
+        }
+        for (const oldest of entries.keys()) {
+          if (stats.bytes + size <= maxBytes) break;
+          remove(oldest);
+          stats.evictions++;
+        }
+        entries.set(key, { value, size });
+        stats.bytes += size;
+        stats.writes++;
+        stats.entries = entries.size;
+      }),
+
+    stats: () => ({ ...stats }),
+  };
+}
+
+/**
+ * A message as it is kept in a cache entry
+ */
+interface CachedMessage {
+  reason: string;
+  place?: VFile["messages"][number]["place"];
+  ruleId?: string;
+  source?: string;
+  fatal?: boolean | null;
+  url?: string;
+  note?: string;
+}
+
+interface CacheEntry {
+  tree: Node;
+  messages: CachedMessage[];
+  /** `file.data` fields the step set */
+  data: Record<string, unknown>;
+  /** Hashes of the files the step pulled in, by path */
+  dependencies: Record<string, string>;
+}
+
+/**
+ * Hash files by path, or undefined when one cannot be read
+ */
+function hashFiles(
+  paths: readonly string[]
+): Effect.Effect<Record<string, string> | undefined, never, never> {
+  return Effect.tryPromise(async () => {
+    const hashes: Record<string, string> = {};
+    for (const path of paths) {
+      hashes[path] = hashContent(new Uint8Array(await fs.readFile(path)));
+    }
+    return hashes;
+  }).pipe(Effect.orElseSucceed(() => undefined));
+}
+
+/**
+ * Put back what a step added to the file
+ */
+function replay(entry: CacheEntry, file: VFile): void {
+  Object.assign(file.data, entry.data);
+  for (const cached of entry.messages) {
+    const message = file.message(cached.reason, {
+      place: cached.place,
+      ruleId: cached.ruleId,
+      source: cached.source,
+    });
+    message.fatal = cached.fatal;
+    message.url = cached.url;
+    message.note = cached.note;
+  }
+}
+
+/**
+ * Read an entry and check that the files it depends on are unchanged
+ */
+function lookup(
+  store: CacheStore,
+  key: string
+): Effect.Effect<CacheEntry | undefined, never, never> {
+  return Effect.gen(function* () {
+    const text = yield* store.get(key);
+    if (text === undefined) {
+      return undefined;
+    }
+    let entry: CacheEntry;
+    try {
+      entry = deserialize<CacheEntry>(text);
+    } catch {
+      return undefined;
+    }
+    const paths = Object.keys(entry.dependencies);
+    if (paths.length === 0) {
+      return entry;
+    }
+    const hashes = yield* hashFiles(paths);
+    return hashes &&
+      paths.every((path) => hashes[path] === entry.dependencies[path])
+      ? entry
+      : undefined;
+  });
+}
+
+/**
+ * Run a parse or transform step through a cache
+ *
+ * @param store - Where results are kept
+ * @param key - The step's key from `hashContent`
+ * @param file - VFile the step adds messages and data to
+ * @param step - The step to run on a miss
+ * @returns The cached tree on a hit, otherwise the step's tree, which is
+ * stored unless it failed or one of the files it pulled in cannot be read
+ */
+export function withCache<TreeType extends Node, E>(
+  store: CacheStore,
+  key: string,
+  file: VFile,
+  step: Effect.Effect<TreeType, E, never>
+): Effect.Effect<TreeType, E, never> {
+  return Effect.gen(function* () {
+    const hit = yield* lookup(store, key);
+    if (hit) {
+      replay(hit, file);
+      return hit.tree as TreeType;
+    }
+
+    const messages = file.messages.length;
+    const before: Record<string, unknown> = { ...file.data };
+    const tree = yield* step;
+
+    const data = Object.fromEntries(
+      Object.entries(file.data).filter(
+        ([name, value]) => before[name] !== value
+      )
+    );
+    const includes = Array.isArray(data.includes)
+      ? data.includes.filter((path): path is string => typeof path === "string")
+      : [];
+    const dependencies = yield* hashFiles(includes);
+    if (dependencies) {
+      const entry: CacheEntry = {
+        tree,
+        messages: file.messages.slice(messages).map((message) => ({
+          reason: message.reason,
+          place: message.place,
+          ruleId: message.ruleId,
+          source: message.source,
+          fatal: message.fatal,
+          url: message.url,
+          note: message.note,
+        })),
+        data,
+        dependencies,
+      };
+      yield* store.set(key, serialize(entry));
+    }
+    return tree;
+  });
+}
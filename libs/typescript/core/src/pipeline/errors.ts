@@ -2,11 +2,12 @@
  * Error utilities for the pipeline
  */
 
+import type { DocumentProcessingError } from "../types.js";
 import type {
   ParseError,
   TransformError,
   CompileError,
-  PipelineError,
+  ErrorContext,
   Position,
 } from "./types.js";
 
@@ -91,30 +92,47 @@ export function isCompileError(error: unknown): error is CompileError {
 }
 
 /**
- * Format a pipeline error as a human-readable string
+ * Describe where an error happened
  */
-export function formatPipelineError(error: PipelineError): string {
+function formatLocation(context: ErrorContext): string {
+  const { path, position } = context;
+  if (path && position) {
+    return ` at ${path}:${position.line}:${position.column}`;
+  }
+  if (position) {
+    return ` at line ${position.line}, column ${position.column}`;
+  }
+  return path ? ` in ${path}` : "";
+}
+
+function formatCause(cause: unknown): string {
+  return cause
+    ? `\nCause: ${cause instanceof Error ? cause.message : String(cause)}`
+    : "";
+}
+
+/**
+ * Format a pipeline or processor error as a human-readable string
+ */
+export function formatPipelineError(error: DocumentProcessingError): string {
+  const format = error.format ? ` (${error.format})` : "";
+  const summary = `${error.message}${format}${formatLocation(error)}`;
+  const cause = formatCause(error.cause);
+
   switch (error._tag) {
-    case "ParseError": {
-      const position = error.position
-        ? ` at line ${error.position.line}, column ${error.position.column}`
-        : "";
-      const cause = error.cause
-        ? `\nCause: ${error.cause instanceof Error ? error.cause.message : String(error.cause)}`
-        : "";
-      return `ParseError: ${error.message}${position}${cause}`;
-    }
-    case "TransformError": {
-      const cause = error.cause
-        ? `\nCause: ${error.cause instanceof Error ? error.cause.message : String(error.cause)}`
-        : "";
-      return `TransformError: ${error.message}${cause}`;
-    }
-    case "CompileError": {
-      const cause = error.cause
-        ? `\nCause: ${error.cause instanceof Error ? error.cause.message : String(error.cause)}`
-        : "";
-      return `CompileError: ${error.message}${cause}`;
+    case "ParseError":
+    case "TransformError":
+    case "CompileError":
+    case "UnsupportedSourceError":
+    case "UnsupportedFormatError":
+    case "IoError":
+    case "DecodeError":
+      return `${error._tag}: ${summary}${cause}`;
+    case "ValidationError": {
+      const issues = error.issues.map((issue) => `\n  - ${issue}`).join("");
+      return `ValidationError: ${summary}${issues}${cause}`;
     }
+    case "PluginError":
+      return `PluginError [${error.plugin}]: ${summary}${cause}`;
   }
 }
@@ -0,0 +1,101 @@
+/**
+ * Tests for processor lifecycle events
+ */
+
+import { describe, it, expect } from "bun:test";
+import { Effect } from "effect";
+import type { Compiler, Parser, Root } from "./types.js";
+import { Processor } from "./processor.js";
+import { createTransformer } from "./transformers.js";
+import { createTransformError } from "./errors.js";
+import { ProcessorEventsService, type ProcessorEvent } from "./events.js";
+
+const parser: Parser<string, Root> = {
+  parse: (_input, file) =>
+    Effect.sync(() => {
+      file?.message("empty document");
+      return { type: "root", children: [] };
+    }),
+};
+
+const compiler: Compiler<Root, string> = {
+  compile: () => Effect.succeed("done"),
+};
+
+/**
+ * Run a processor, collecting its events without durations
+ */
+async function collect(processor: Processor<string, string, Root>) {
+  const events: string[] = [];
+  await Effect.runPromiseExit(
+    processor.process("").pipe(
+      Effect.provideService(ProcessorEventsService, {
+        emit: (event: ProcessorEvent) =>
+          events.push(
+            event.type === "message"
+              ? `message ${event.message.reason}`
+              : "transformer" in event
+                ? `${event.type} ${event.transformer} ${event.index + 1}/${event.count}`
+                : event.type
+          ),
+      })
+    )
+  );
+  return events;
+}
+
+describe("ProcessorEventsService", () => {
+  it("should report each phase and message in order", async () => {
+    const events = await collect(
+      new Processor(parser, compiler)
+        .use(createTransformer<Root>((root) => root, { name: "toc" }))
+        .use(
+          createTransformer<Root>((root, file) => {
+            file.message("no headings");
+            return root;
+          })
+        )
+    );
+
+    expect(events).toEqual([
+      "parse-start",
+      "message empty document",
+      "parse-end",
+      "transform-start toc 1/2",
+      "transform-end toc 1/2",
+      "transform-start Transformer 2 2/2",
+      "message no headings",
+      "transform-end Transformer 2 2/2",
+      "compile-start",
+      "compile-end",
+    ]);
+  });
+
+  it("should stop reporting at the phase that fails", async () => {
+    const events = await collect(
+      new Processor(parser, compiler).use({
+        transform: () => Effect.fail(createTransformError("broken")),
+      })
+    );
+
+    expect(events.slice(-2)).toEqual([
+      "parse-end",
+      "transform-start Transformer 1 1/1",
+    ]);
+  });
+
+  it("should report durations", async () => {
+    const durations: number[] = [];
+    await Effect.runPromise(
+      new Processor(parser, compiler).process("").pipe(
+        Effect.provideService(ProcessorEventsService, {
+          emit: (event) =>
+            "duration" in event && durations.push(event.duration),
+        })
+      )
+    );
+
+    expect(durations).toHaveLength(2);
+    expect(durations.every((duration) => duration >= 0)).toBe(true);
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Lifecycle events of a pipeline run, for showing progress while a document
+ * is converted
+ */
+
+import { Context, Effect, Option } from "effect";
+import type { VFile } from "vfile";
+
+/**
+ * Something that happened while processing a document
+ * Durations are in milliseconds. Messages are reported when the phase that
+ * added them ends, before its end event.
+ */
+export type ProcessorEvent =
+  | { readonly type: "parse-start" }
+  | { readonly type: "parse-end"; readonly duration: number }
+  | {
+      readonly type: "transform-start";
+      /** The transformer's name, or its position in the pipeline */
+      readonly transformer: string;
+      /** Transformers run so far, and how many will run in all */
+      readonly index: number;
+      readonly count: number;
+    }
+  | {
+      readonly type: "transform-end";
+      readonly transformer: string;
+      readonly index: number;
+      readonly count: number;
+      readonly duration: number;
+    }
+  | { readonly type: "compile-start" }
+  | { readonly type: "compile-end"; readonly duration: number }
+  | {
+      readonly type: "message";
+      readonly message: VFile["messages"][number];
+    };
+
+/**
+ * Receives the events of the pipeline runs it is provided to
+ */
+export interface ProcessorEvents {
+  emit(event: ProcessorEvent): void;
+}
+
+/**
+ * ProcessorEventsService - Context Tag for a listener to processor events
+ * Optional: a processor run without it reports nothing
+ *
+ * ```ts
+ * processor.process(input).pipe(
+ *   Effect.provideService(ProcessorEventsService, {
+ *     emit: (event) => console.log(event.type),
+ *   })
+ * );
+ * ```
+ */
+export const ProcessorEventsService = Context.GenericTag<ProcessorEvents>(
+  "ProcessorEventsService"
+);
+
+/**
+ * Run a phase between a start and an end event, reporting the messages it
+ * adds to the file
+ *
+ * @param file - VFile the phase adds messages to
+ * @param start - Event before the phase
+ * @param end - Event after the phase succeeds, given its duration
+ * @param phase - The phase to run
+ */
+export function reportPhase<A, E>(
+  file: VFile,
+  start: ProcessorEvent,
+  end: (duration: number) => ProcessorEvent,
+  phase: Effect.Effect<A, E, never>
+): Effect.Effect<A, E, never> {
+  return Effect.flatMap(
+    Effect.serviceOption(ProcessorEventsService),
+    (listener) => {
+      if (Option.isNone(listener)) {
+        return phase;
+      }
+      const events = listener.value;
+      return Effect.suspend(() => {
+        events.emit(start);
+        const began = performance.now();
+        const seen = file.messages.length;
+        return Effect.onExit(phase, (exit) =>
+          Effect.sync(() => {
+            for (const message of file.messages.slice(seen)) {
+              events.emit({ type: "message", message });
+            }
+            if (exit._tag === "Success") {
+              events.emit(end(performance.now() - began));
+            }
+          })
+        );
+      });
+    }
+  );
+}
@@ -36,13 +36,17 @@ export type {
   Input,
   Output,
   Position,
+  ErrorContext,
   ParseError,
   TransformError,
   CompileError,
   PipelineError,
+  BlockSyntax,
   Parser,
   Transformer,
   Compiler,
+  TreeSnapshot,
+  ProcessTrace,
   MdastRoot,
   HastRoot,
 } from "./types.js";
@@ -50,6 +54,9 @@ export type {
 // Export Processor class
 export { Processor } from "./processor.js";
 
+// Export streaming utilities
+export { splitBlocks } from "./stream.js";
+
 // Export transformer utilities
 export {
   identityTransformer,
@@ -57,8 +64,45 @@ export {
   createTransformer,
   createAsyncTransformer,
   mapTransformer,
+  type TransformerTraits,
 } from "./transformers.js";
 
+// Export visitor transformers
+export {
+  createVisitorTransformer,
+  fuseVisitors,
+  isVisitorTransformer,
+  replaceWith,
+  insertBefore,
+  insertAfter,
+  SKIP,
+  REMOVE,
+  type Visitor,
+  type VisitHandler,
+  type VisitAction,
+  type VisitContext,
+  type VisitorTransformer,
+} from "./visitor.js";
+
+// Export result caching
+export {
+  createMemoryCacheStore,
+  hashContent,
+  type CacheStats,
+  type CacheStore,
+  type MemoryCacheOptions,
+} from "./cache.js";
+
+// Export run events
+export {
+  ProcessorEventsService,
+  type ProcessorEvent,
+  type ProcessorEvents,
+} from "./events.js";
+
+// Export transformer scheduling
+export { scheduleTransformers } from "./schedule.js";
+
 // Export unified adapters
 export {
   adaptUnifiedPlugin,
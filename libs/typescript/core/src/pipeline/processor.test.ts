@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect } from "bun:test";
-import { Effect, Exit } from "effect";
+import { Chunk, Effect, Exit, Stream } from "effect";
 import { VFile } from "vfile";
 import type {
   Root,
@@ -14,9 +14,12 @@ import type {
   ParseError,
   CompileError,
   TransformError,
+  Literal,
 } from "./types.js";
 import { Processor } from "./processor.js";
 import { createTransformError } from "./errors.js";
+import { createTransformer } from "./transformers.js";
+import { createVisitorTransformer, replaceWith } from "./visitor.js";
 
 describe("Processor", () => {
   // Simple test parser
@@ -195,6 +198,51 @@ describe("Processor", () => {
     });
   });
 
+  it("should keep the tree after parsing and after each transformer with processWithTrace", async () => {
+    type Paragraph = { children: Array<{ value: string }> };
+    const text = (tree: Root) =>
+      (tree.children[0] as unknown as Paragraph).children[0];
+    const append = (node: Node, suffix: string): Literal => ({
+      ...(node as Literal),
+      value: `${(node as Literal).value}${suffix}`,
+    });
+    const processor = new Processor(testParser, testCompiler)
+      .use(
+        createTransformer<Root>(
+          (tree) => {
+            // Changes the tree in place, which must not reach the snapshots
+            text(tree).value = text(tree).value.toUpperCase();
+            return tree;
+          },
+          { name: "upper" }
+        )
+      )
+      .use(
+        createVisitorTransformer({
+          text: (node) => replaceWith(append(node, "!")),
+        })
+      )
+      .use(
+        createVisitorTransformer({
+          text: (node) => replaceWith(append(node, "?")),
+        })
+      );
+
+    const { output, snapshots } = await Effect.runPromise(
+      processor.processWithTrace("Hello")
+    );
+
+    expect(output).toBe(await Effect.runPromise(processor.process("Hello")));
+    expect(snapshots.map(({ step, tree }) => [step, text(tree).value])).toEqual(
+      [
+        ["parse", "Hello"],
+        ["upper", "HELLO"],
+        ["Transformer 2", "HELLO!"],
+        ["Transformer 3", "HELLO!?"],
+      ]
+    );
+  });
+
   it("should use provided VFile", async () => {
     const file = new VFile({ path: "test.md", value: "Hello" });
     const processor = new Processor(testParser, testCompiler);
@@ -209,3 +257,114 @@ describe("Processor", () => {
     expect(result).toBe("Hello");
   });
 });
+
+describe("Processor.stream", () => {
+  type Line = Node & { value: string };
+
+  // One node per line; blocks end at line breaks, and `let x = v` lines
+  // define variables later lines can refer to as `$x`
+  const lineParser: Parser<string, Root> = {
+    parse(input: string): Effect.Effect<Root, ParseError, never> {
+      const variables: Record<string, string> = {};
+      const children = input
+        .split("\n")
+        .map((text, index) => ({ text, line: index + 1 }))
+        .filter(({ text }) => text !== "")
+        .flatMap(({ text, line }) => {
+          const definition = /^let (\w+) = (.*)$/.exec(text);
+          if (definition) {
+            variables[definition[1]] = definition[2];
+            return [];
+          }
+          const point = { line, column: 1 };
+          return [
+            {
+              type: "line",
+              value: text.replace(/\$(\w+)/g, (_, name) => variables[name]),
+              position: { start: point, end: point },
+            },
+          ];
+        });
+      return Effect.succeed({ type: "root", children, data: { variables } });
+    },
+    blocks: {
+      boundary: (text) => text.lastIndexOf("\n") + 1,
+      context: (tree) =>
+        Object.entries(
+          (tree.data as { variables: Record<string, string> }).variables
+        )
+          .map(([name, value]) => `let ${name} = ${value}\n`)
+          .join(""),
+    },
+  };
+
+  const lineCompiler: Compiler<Root, string> = {
+    compile(tree: Root): Effect.Effect<string, CompileError, never> {
+      return Effect.succeed(
+        (tree.children as Line[])
+          .map((node) => `${node.position?.start.line}: ${node.value}`)
+          .join("\n")
+      );
+    },
+    blockSeparator: "\n",
+  };
+
+  const upper = createTransformer<Root>(
+    (tree) => ({
+      ...tree,
+      children: (tree.children as Line[]).map((node) => ({
+        ...node,
+        value: node.value.toUpperCase(),
+      })),
+    }),
+    { blockLocal: true }
+  );
+
+  const run = (processor: Processor<string, string, Root>, pieces: string[]) =>
+    Effect.runPromiseExit(
+      Stream.runCollect(processor.stream(Stream.fromIterable(pieces)))
+    );
+
+  it("should process blocks split across pieces", async () => {
+    const processor = new Processor(lineParser, lineCompiler).use(upper);
+
+    const exit = await run(processor, ["one\ntw", "o\n", "\nthr", "ee"]);
+
+    expect(Exit.isSuccess(exit)).toBe(true);
+    if (Exit.isSuccess(exit)) {
+      const outputs = Chunk.toArray(exit.value);
+      expect(outputs.length).toBeGreaterThan(1);
+      expect(outputs.join("")).toBe("1: ONE\n2: TWO\n4: THREE");
+    }
+  });
+
+  it("should carry context from earlier chunks", async () => {
+    const processor = new Processor(lineParser, lineCompiler);
+
+    const exit = await run(processor, ["let name = Ada\n", "\nhello $name\n"]);
+
+    expect(Exit.isSuccess(exit)).toBe(true);
+    if (Exit.isSuccess(exit)) {
+      expect(Chunk.toArray(exit.value).join("")).toBe("3: hello Ada");
+    }
+  });
+
+  it("should refuse transformers that are not block-local", async () => {
+    const processor = new Processor(lineParser, lineCompiler)
+      .use(upper)
+      .use(createTransformer<Root>((tree) => tree));
+
+    const exit = await run(processor, ["one\n"]);
+
+    expect(Exit.isFailure(exit)).toBe(true);
+    if (Exit.isFailure(exit)) {
+      expect(exit.cause).toMatchObject({
+        error: {
+          _tag: "TransformError",
+          message:
+            "Transformer 2 is not block-local and cannot run on part of a document",
+        },
+      });
+    }
+  });
+});
@@ -6,9 +6,19 @@
  *
  * Similar to unified's:
  *   process = parse | run | stringify
+ *
+ * `stream` runs the same phases over a text stream a few top-level blocks at
+ * a time, for documents too large to hold in memory
+ *
+ * With `cache`, parse and transform results are reused for inputs and trees
+ * seen before
+ *
+ * Runs report their phases and messages to a `ProcessorEventsService`
+ * provided to them
  */
 
-import { Effect, pipe } from "effect";
+import { Effect, Stream, pipe } from "effect";
+import { resolve } from "node:path";
 import type { VFile } from "vfile";
 import type {
   Node,
@@ -19,8 +29,43 @@ import type {
   Transformer,
   Compiler,
   PipelineError,
+  ProcessTrace,
+  TreeSnapshot,
 } from "./types.js";
 import { createVFile } from "./file.js";
+import { hashContent, serialize, withCache, type CacheStore } from "./cache.js";
+import {
+  createCompileError,
+  createParseError,
+  createTransformError,
+  isTransformError,
+} from "./errors.js";
+import {
+  mergeResults,
+  scheduleTransformers,
+  scopeMessages,
+} from "./schedule.js";
+import { fuseSteps } from "./visitor.js";
+import { reportPhase } from "./events.js";
+import {
+  countLines,
+  shiftPosition,
+  shiftPositions,
+  splitBlocks,
+} from "./stream.js";
+
+/**
+ * Progress through a streamed input
+ */
+interface StreamState {
+  /** Source parsed ahead of the next chunk, from `BlockSyntax.context` */
+  context: string;
+  /** Lines and characters before the next chunk */
+  lines: number;
+  offset: number;
+  /** Whether any output has been produced */
+  started: boolean;
+}
 
 /**
  * Processor class for orchestrating the content processing pipeline
@@ -37,6 +82,7 @@ export class Processor<
   private readonly parser: Parser<InputType, TreeType>;
   private readonly transformers: Transformer<TreeType, TreeType>[] = [];
   private readonly compiler: Compiler<TreeType, OutputType>;
+  private store?: CacheStore;
 
   /**
    * Create a new Processor
@@ -64,6 +110,20 @@ export class Processor<
     return this;
   }
 
+  /**
+   * Reuse parse and transform results kept in a store
+   * Only a parser or transformer with a `cacheKey` is cached: its result is
+   * stored under a hash of that key and its input or tree, and for a parser
+   * the directory of the input file
+   *
+   * @param store - Where results are kept
+   * @returns This processor instance for method chaining
+   */
+  cache(store: CacheStore): this {
+    this.store = store;
+    return this;
+  }
+
   /**
    * Process input through the pipeline
    *
@@ -81,13 +141,13 @@ export class Processor<
 
     return pipe(
       // Parse phase: Input -> SyntaxTree
-      this.parser.parse(input, vfile),
+      this.parse(input, vfile),
 
       // Run phase: Apply all transformers sequentially
       Effect.flatMap((tree) => this.run(tree, vfile)),
 
       // Stringify phase: SyntaxTree -> Output
-      Effect.flatMap((tree) => this.compiler.compile(tree, vfile))
+      Effect.flatMap((tree) => this.compile(tree, vfile))
     );
   }
 
@@ -106,13 +166,13 @@ export class Processor<
     const vfile = file ?? createVFile(input);
 
     return pipe(
-      this.parser.parse(input, vfile),
+      this.parse(input, vfile),
       Effect.flatMap((tree) =>
         pipe(
           this.run(tree, vfile),
           Effect.flatMap((transformedTree) =>
             pipe(
-              this.compiler.compile(transformedTree, vfile),
+              this.compile(transformedTree, vfile),
               Effect.map((output) => [output, transformedTree] as const)
             )
           )
@@ -121,44 +181,336 @@ export class Processor<
     );
   }
 
+  /**
+   * Process input, keeping a copy of the tree after parsing and after each
+   * transformer, to find which step produced a node
+   *
+   * Transformers are applied one at a time in the order `run` schedules
+   * them, without sharing tree walks or running side by side. Transformers
+   * in one step never touch the same nodes, so the output is the same as
+   * from `process`.
+   *
+   * @param input - The input to process
+   * @param file - Optional VFile for metadata and messages
+   * @returns An Effect that produces the output and the snapshots on success or a PipelineError on failure
+   */
+  processWithTrace(
+    input: InputType,
+    file?: VFile
+  ): Effect.Effect<ProcessTrace<OutputType, TreeType>, PipelineError, never> {
+    const vfile = file ?? createVFile(input);
+    const snapshots: TreeSnapshot<TreeType>[] = [];
+
+    return pipe(
+      this.parse(input, vfile),
+      Effect.tap((tree) =>
+        snapshots.push({ step: "parse", tree: structuredClone(tree) })
+      ),
+      Effect.flatMap((tree) => this.run(tree, vfile, snapshots)),
+      Effect.flatMap((tree) => this.compile(tree, vfile)),
+      Effect.map((output) => ({ output, snapshots }))
+    );
+  }
+
+  /**
+   * Process a text stream a few top-level blocks at a time
+   *
+   * The input is cut between top-level blocks where the parser's
+   * `BlockSyntax` says it is safe, and each chunk is parsed, transformed
+   * and compiled on its own, so memory stays bounded by the largest block.
+   * Constructs that refer across blocks, such as Markdown link reference
+   * definitions, resolve only within a chunk.
+   *
+   * Needs a parser with `blocks`, only `blockLocal` transformers and a
+   * compiler with `blockSeparator` that produces text.
+   *
+   * @param input - Source text in arbitrary pieces
+   * @param file - Optional VFile for metadata and messages
+   * @returns A stream of output text, failing with a PipelineError for the
+   * first chunk that fails or when the pipeline cannot stream
+   */
+  stream<E, R>(
+    input: Stream.Stream<string, E, R>,
+    file?: VFile
+  ): Stream.Stream<string, PipelineError | E, R> {
+    const { blocks } = this.parser;
+    const { blockSeparator } = this.compiler;
+    if (!blocks) {
+      return Stream.fail(
+        createParseError("The parser cannot read a document in chunks")
+      );
+    }
+    const unstreamable = this.transformers.findIndex(
+      (transformer) => !transformer.blockLocal
+    );
+    if (unstreamable !== -1) {
+      return Stream.fail(
+        createTransformError(
+          `Transformer ${unstreamable + 1} is not block-local and cannot run on part of a document`
+        )
+      );
+    }
+    if (blockSeparator === undefined) {
+      return Stream.fail(
+        createCompileError("The compiler cannot write a document in chunks")
+      );
+    }
+
+    const vfile = file ?? createVFile("");
+    // A parser with block syntax reads text
+    const parse = (text: string) => this.parse(text as InputType, vfile);
+    const initial: StreamState = {
+      context: "",
+      lines: 0,
+      offset: 0,
+      started: false,
+    };
+
+    return splitBlocks(input, blocks).pipe(
+      Stream.mapAccumEffect(initial, (state, chunk) => {
+        // Positions are parsed relative to the context plus the chunk
+        const lines = state.lines - countLines(state.context);
+        const offset = state.offset - state.context.length;
+
+        return pipe(
+          parse(state.context + chunk),
+          Effect.mapError(
+            (error): PipelineError =>
+              error.position
+                ? {
+                    ...error,
+                    position: shiftPosition(error.position, lines, offset),
+                  }
+                : error
+          ),
+          Effect.tap((tree) => shiftPositions(tree, lines, offset)),
+          Effect.flatMap((tree) => this.run(tree, vfile)),
+          Effect.flatMap((tree) =>
+            pipe(
+              this.compile(tree, vfile),
+              Effect.flatMap((output) =>
+                typeof output === "string"
+                  ? Effect.succeed(output)
+                  : Effect.fail(
+                      createCompileError(
+                        "The compiler produced binary output, which cannot be streamed"
+                      )
+                    )
+              ),
+              Effect.map((output): [StreamState, string] => [
+                {
+                  context: blocks.context?.(tree) ?? "",
+                  lines: state.lines + countLines(chunk),
+                  offset: state.offset + chunk.length,
+                  started: state.started || output !== "",
+                },
+                state.started && output !== ""
+                  ? blockSeparator + output
+                  : output,
+              ])
+            )
+          )
+        );
+      }),
+      Stream.filter((output) => output !== "")
+    );
+  }
+
+  /**
+   * Parse phase, through the cache when the parser has a key
+   */
+  private parse(
+    input: InputType,
+    file: VFile
+  ): Effect.Effect<TreeType, PipelineError, never> {
+    const parsed = this.parser.parse(input, file);
+    const { cacheKey } = this.parser;
+    const content = input instanceof Uint8Array ? input : String(input);
+    // Parsers may read files relative to the input, such as AsciiDoc
+    // includes, so the same text in another directory is another entry
+    const directory = resolve(file.cwd, file.dirname ?? "");
+    return reportPhase(
+      file,
+      { type: "parse-start" },
+      (duration) => ({ type: "parse-end", duration }),
+      !this.store || cacheKey === undefined
+        ? parsed
+        : withCache(
+            this.store,
+            hashContent("parse", cacheKey, directory, content),
+            file,
+            parsed
+          )
+    );
+  }
+
+  /**
+   * Stringify phase
+   */
+  private compile(
+    tree: TreeType,
+    file: VFile
+  ): Effect.Effect<OutputType, PipelineError, never> {
+    return reportPhase(
+      file,
+      { type: "compile-start" },
+      (duration) => ({ type: "compile-end", duration }),
+      this.compiler.compile(tree, file)
+    );
+  }
+
   /**
    * Run phase: Apply all transformers to the syntax tree
-   * Transformers are composed sequentially using Effect.flatMap
+   * Transformers run in the steps `scheduleTransformers` finds: one after
+   * another unless they declare the node types they read and write, and
+   * side by side within a step, with their results merged in a fixed order.
+   * Visitor transformers of one step share one walk of the tree
    *
    * @param tree - The syntax tree to transform
    * @param file - VFile for metadata and messages
+   * @param snapshots - When given, transformers run one at a time and a
+   * copy of the tree after each is added here
    * @returns An Effect that produces the transformed tree on success or a PipelineError on failure
    */
   private run(
     tree: TreeType,
-    file: VFile
+    file: VFile,
+    snapshots?: TreeSnapshot<TreeType>[]
   ): Effect.Effect<TreeType, PipelineError, never> {
     if (this.transformers.length === 0) {
       return Effect.succeed(tree);
     }
 
-    // Sequentially apply all transformers
-    let effect: Effect.Effect<TreeType, PipelineError, never> =
-      Effect.succeed(tree);
-
-    for (const transformer of this.transformers) {
-      effect = pipe(
-        effect,
-        Effect.flatMap((currentTree) =>
-          pipe(
-            transformer.transform(currentTree, file),
-            Effect.mapError(
-              (error): PipelineError => ({
-                _tag: "TransformError",
-                message: error.message,
-                cause: error.cause,
+    const scheduled = scheduleTransformers(this.transformers);
+    if (!scheduled.success) {
+      return Effect.fail(scheduled.error);
+    }
+
+    if (snapshots) {
+      const transformers = scheduled.value.flat();
+      return Effect.reduce(
+        transformers,
+        tree,
+        (currentTree, transformer, index) =>
+          Effect.tap(
+            this.apply(transformer, currentTree, file, {
+              index,
+              count: transformers.length,
+            }),
+            (transformed) =>
+              snapshots.push({
+                step: this.describe(transformer),
+                tree: structuredClone(transformed),
               })
-            )
           )
-        )
       );
     }
 
-    return effect;
+    const steps = fuseSteps(scheduled.value);
+    const count = steps.reduce((total, step) => total + step.length, 0);
+    let index = 0;
+    return Effect.reduce(steps, tree, (currentTree, step) => {
+      const first = index;
+      index += step.length;
+      return step.length === 1
+        ? this.apply(step[0], currentTree, file, { index: first, count })
+        : this.applyConcurrently(step, currentTree, file, {
+            index: first,
+            count,
+          });
+    });
+  }
+
+  /**
+   * How events name a transformer
+   */
+  private describe(transformer: Transformer<TreeType, TreeType>): string {
+    if (transformer.name !== undefined) {
+      return transformer.name;
+    }
+    const index = this.transformers.indexOf(transformer);
+    // Merged visitor transformers were not added themselves
+    return index === -1 ? "Visitor transformers" : `Transformer ${index + 1}`;
+  }
+
+  /**
+   * Apply one transformer, through the cache when it has a key
+   *
+   * @param position - Where the transformer is among those the run applies
+   */
+  private apply(
+    transformer: Transformer<TreeType, TreeType>,
+    tree: TreeType,
+    file: VFile,
+    position: { index: number; count: number }
+  ): Effect.Effect<TreeType, PipelineError, never> {
+    const transformed = transformer.transform(tree, file);
+    const { cacheKey } = transformer;
+    const described = { transformer: this.describe(transformer), ...position };
+    return pipe(
+      reportPhase(
+        file,
+        { type: "transform-start", ...described },
+        (duration) => ({ type: "transform-end", ...described, duration }),
+        !this.store || cacheKey === undefined
+          ? transformed
+          : withCache(
+              this.store,
+              hashContent("transform", cacheKey, serialize(tree)),
+              file,
+              transformed
+            )
+      ),
+      Effect.mapError(
+        (error): PipelineError => ({
+          _tag: "TransformError",
+          message: error.message,
+          cause: error.cause,
+        })
+      )
+    );
+  }
+
+  /**
+   * Apply transformers that do not conflict to the same tree at once, then
+   * merge their trees and messages in the order they were scheduled
+   */
+  private applyConcurrently(
+    transformers: Transformer<TreeType, TreeType>[],
+    tree: TreeType,
+    file: VFile,
+    position: { index: number; count: number }
+  ): Effect.Effect<TreeType, PipelineError, never> {
+    return pipe(
+      Effect.forEach(
+        transformers,
+        (transformer, offset) => {
+          const scoped = scopeMessages(file);
+          return Effect.map(
+            this.apply(transformer, tree, scoped, {
+              index: position.index + offset,
+              count: position.count,
+            }),
+            (result) => ({ tree: result, transformer, scoped })
+          );
+        },
+        { concurrency: "unbounded" }
+      ),
+      Effect.flatMap((results) => {
+        for (const { scoped } of results) {
+          file.messages.push(...scoped.messages);
+        }
+        return Effect.try({
+          try: () => mergeResults(tree, results) as TreeType,
+          catch: (error): PipelineError =>
+            isTransformError(error)
+              ? error
+              : createTransformError(
+                  "Failed to merge transformer results",
+                  error
+                ),
+        });
+      })
+    );
   }
 }
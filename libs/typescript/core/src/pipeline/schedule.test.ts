@@ -0,0 +1,209 @@
+/**
+ * Tests for transformer scheduling and concurrent runs
+ */
+
+import { describe, it, expect } from "bun:test";
+import { Effect, Exit } from "effect";
+import { VFile } from "vfile";
+import type { Compiler, Node, Parser, Root } from "./types.js";
+import { Processor } from "./processor.js";
+import { scheduleTransformers } from "./schedule.js";
+import {
+  createAsyncTransformer,
+  createTransformer,
+  type TransformerTraits,
+} from "./transformers.js";
+
+type Text = Node & { value: string };
+type Block = Node & { children: Text[] };
+
+// Transformers starting and finishing
+const events: string[] = [];
+
+const tree: Root = {
+  type: "root",
+  children: [
+    { type: "heading", children: [{ type: "text", value: "title" }] },
+    { type: "paragraph", children: [{ type: "text", value: "body" }] },
+  ] as Block[],
+};
+
+const parser: Parser<string, Root> = {
+  parse: () => Effect.succeed(structuredClone(tree)),
+};
+
+const compiler: Compiler<Root, string> = {
+  compile: (root) =>
+    Effect.succeed(
+      (root.children as Block[])
+        .map((block) => `${block.type}: ${block.children[0].value}`)
+        .join("\n")
+    ),
+};
+
+/**
+ * A transformer that rewrites the text of one kind of block after a delay
+ */
+function rewrite(
+  type: string,
+  edit: (value: string) => string,
+  delay: number,
+  traits: TransformerTraits = {}
+) {
+  return createAsyncTransformer<Root>(
+    async (root, file) => {
+      events.push(`start ${type}`);
+      await Bun.sleep(delay);
+      events.push(`end ${type}`);
+      file.message(`rewrote ${type}`);
+      return {
+        ...root,
+        children: (root.children as Block[]).map((block) =>
+          block.type === type
+            ? {
+                ...block,
+                children: [
+                  { type: "text", value: edit(block.children[0].value) },
+                ],
+              }
+            : block
+        ),
+      };
+    },
+    { reads: [type], writes: [type], ...traits }
+  );
+}
+
+const names = (steps: { name?: string }[][]) =>
+  steps.map((step) => step.map((transformer) => transformer.name));
+
+describe("scheduleTransformers", () => {
+  const declared = (name: string, reads: string[], writes: string[]) =>
+    createTransformer<Root>((root) => root, { name, reads, writes });
+
+  it("should group transformers that do not conflict", () => {
+    const steps = scheduleTransformers([
+      declared("headings", ["heading"], ["heading"]),
+      declared("links", ["link"], ["link"]),
+      declared("toc", ["heading"], ["root"]),
+      createTransformer<Root>((root) => root, { name: "opaque" }),
+      declared("code", ["code"], ["code"]),
+    ]);
+
+    expect(steps.success && names(steps.value)).toEqual([
+      ["headings", "links"],
+      ["toc"],
+      ["opaque"],
+      ["code"],
+    ]);
+  });
+
+  it("should order by dependencies before the order added", () => {
+    const steps = scheduleTransformers([
+      declared("numbering", ["heading"], ["heading"]),
+      createTransformer<Root>((root) => root, {
+        name: "ids",
+        reads: ["heading"],
+        writes: ["link"],
+        dependsOn: ["slugs"],
+      }),
+      declared("slugs", ["text"], ["text"]),
+    ]);
+
+    expect(steps.success && names(steps.value)).toEqual([
+      ["numbering", "slugs"],
+      ["ids"],
+    ]);
+  });
+
+  it("should report unknown dependencies and cycles", () => {
+    const unknown = scheduleTransformers([
+      createTransformer<Root>((root) => root, { dependsOn: ["toc"] }),
+    ]);
+    const cycle = scheduleTransformers([
+      createTransformer<Root>((root) => root, { name: "a", dependsOn: ["b"] }),
+      createTransformer<Root>((root) => root, { name: "b", dependsOn: ["a"] }),
+    ]);
+
+    expect(unknown.success ? "" : unknown.error.message).toBe(
+      'Transformer 1 depends on unknown transformer "toc"'
+    );
+    expect(cycle.success ? "" : cycle.error.message).toBe(
+      'Transformer "a", Transformer "b" depend on each other'
+    );
+  });
+});
+
+describe("Processor with declared transformers", () => {
+  it("should run independent transformers concurrently and merge in order", async () => {
+    const file = new VFile();
+    // The slower transformer was added first, so it finishes last
+    const processor = new Processor(parser, compiler)
+      .use(rewrite("heading", (value) => value.toUpperCase(), 30))
+      .use(rewrite("paragraph", (value) => `${value}!`, 0));
+
+    events.length = 0;
+    const output = await Effect.runPromise(processor.process("", file));
+
+    expect(events).toEqual([
+      "start heading",
+      "start paragraph",
+      "end paragraph",
+      "end heading",
+    ]);
+    expect(output).toBe("heading: TITLE\nparagraph: body!");
+    expect(file.messages.map((message) => message.reason)).toEqual([
+      "rewrote heading",
+      "rewrote paragraph",
+    ]);
+  });
+
+  it("should reject undeclared changes to shared nodes", async () => {
+    const processor = new Processor(parser, compiler)
+      .use(rewrite("heading", (value) => value, 0))
+      .use(
+        createTransformer<Root>(
+          (root) => ({ ...root, children: root.children.slice(1) }),
+          { name: "drop", reads: ["paragraph"], writes: ["paragraph"] }
+        )
+      );
+
+    const exit = await Effect.runPromiseExit(processor.process(""));
+
+    expect(Exit.isFailure(exit)).toBe(true);
+    if (Exit.isFailure(exit)) {
+      expect(exit.cause).toMatchObject({
+        error: {
+          _tag: "TransformError",
+          message:
+            'Transformer "drop" changed the children of a root node, which it does not declare in writes',
+        },
+      });
+    }
+  });
+
+  it("should reject undeclared edits that keep the number of children", async () => {
+    const processor = new Processor(parser, compiler)
+      .use(rewrite("heading", (value) => value.toUpperCase(), 0))
+      .use(
+        rewrite("heading", (value) => `${value}!`, 0, {
+          name: "exclaim",
+          reads: ["paragraph"],
+          writes: ["paragraph"],
+        })
+      );
+
+    const exit = await Effect.runPromiseExit(processor.process(""));
+
+    expect(Exit.isFailure(exit)).toBe(true);
+    if (Exit.isFailure(exit)) {
+      expect(exit.cause).toMatchObject({
+        error: {
+          _tag: "TransformError",
+          message:
+            'Transformer "exclaim" changed a text node, which it does not declare in writes',
+        },
+      });
+    }
+  });
+});
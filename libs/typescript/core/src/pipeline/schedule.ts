@@ -0,0 +1,234 @@
+/**
+ * Scheduling transformers by the node types they read and write, so
+ * transformers that cannot affect each other run side by side
+ *
+ * Transformers are ordered by `dependsOn`, then by the order they were
+ * added. Two transformers conflict unless both declare `reads` and `writes`
+ * and neither writes a type the other reads or writes; a transformer runs
+ * after every earlier transformer it conflicts with or depends on. The
+ * result is a list of groups: transformers in one group all see the same
+ * tree, and their results are merged in a fixed order, so the output does
+ * not depend on which finishes first.
+ */
+
+import { isDeepStrictEqual } from "node:util";
+import type { VFile } from "vfile";
+import type { Result } from "../types.js";
+import { createTransformError } from "./errors.js";
+import type { Node, Transformer, TransformError } from "./types.js";
+
+/**
+ * How a transformer is named in error messages
+ */
+function describe(transformer: Transformer, index: number): string {
+  return transformer.name
+    ? `Transformer "${transformer.name}"`
+    : `Transformer ${index + 1}`;
+}
+
+function overlaps(a: readonly string[], b: readonly string[]): boolean {
+  return a.some((type) => b.includes(type));
+}
+
+/**
+ * Whether two transformers may see each other's changes
+ */
+function conflicts(a: Transformer, b: Transformer): boolean {
+  if (!a.reads || !a.writes || !b.reads || !b.writes) {
+    return true;
+  }
+  return (
+    overlaps(a.writes, b.writes) ||
+    overlaps(a.writes, b.reads) ||
+    overlaps(b.writes, a.reads)
+  );
+}
+
+/**
+ * Group transformers into steps that run one after another, where the
+ * transformers of a step run concurrently
+ *
+ * @param transformers - Transformers in the order they were added
+ * @returns The steps, or a TransformError for duplicate names, unknown
+ * dependencies and dependency cycles
+ */
+export function scheduleTransformers<T extends Transformer>(
+  transformers: readonly T[]
+): Result<T[][], TransformError> {
+  const fail = (message: string): Result<T[][], TransformError> => ({
+    success: false,
+    error: createTransformError(message),
+  });
+
+  const indices = new Map<string, number>();
+  for (const [index, { name }] of transformers.entries()) {
+    if (name === undefined) continue;
+    if (indices.has(name)) {
+      return fail(`Two transformers are named "${name}"`);
+    }
+    indices.set(name, index);
+  }
+
+  // Explicit dependencies of each transformer, by index
+  const dependencies: number[][] = [];
+  for (const [index, transformer] of transformers.entries()) {
+    const resolved: number[] = [];
+    for (const name of transformer.dependsOn ?? []) {
+      const dependency = indices.get(name);
+      if (dependency === undefined) {
+        return fail(
+          `${describe(transformer, index)} depends on unknown transformer "${name}"`
+        );
+      }
+      resolved.push(dependency);
+    }
+    dependencies.push(resolved);
+  }
+
+  // Order by dependencies, taking the earliest added transformer whenever
+  // more than one is ready
+  const order: number[] = [];
+  const placed = new Set<number>();
+  while (order.length < transformers.length) {
+    const next = transformers.findIndex(
+      (_, index) =>
+        !placed.has(index) &&
+        dependencies[index].every((dependency) => placed.has(dependency))
+    );
+    if (next === -1) {
+      const cycle = transformers
+        .map((transformer, index) => describe(transformer, index))
+        .filter((_, index) => !placed.has(index));
+      return fail(`${cycle.join(", ")} depend on each other`);
+    }
+    order.push(next);
+    placed.add(next);
+  }
+
+  const steps: T[][] = [];
+  const stepOf = new Map<number, number>();
+  for (const [position, index] of order.entries()) {
+    let step = 0;
+    for (const earlier of order.slice(0, position)) {
+      if (
+        dependencies[index].includes(earlier) ||
+        conflicts(transformers[earlier], transformers[index])
+      ) {
+        step = Math.max(step, (stepOf.get(earlier) ?? 0) + 1);
+      }
+    }
+    stepOf.set(index, step);
+    (steps[step] ??= []).push(transformers[index]);
+  }
+  return { success: true, value: steps };
+}
+
+function childrenOf(node: Node): Node[] | undefined {
+  return "children" in node && Array.isArray(node.children)
+    ? (node.children as Node[])
+    : undefined;
+}
+
+/**
+ * Whether two versions of a node agree on everything but their children
+ */
+function sameFields(node: Node, version: Node): boolean {
+  const { children: _children, ...fields } = node as Node & {
+    children?: unknown;
+  };
+  const { children: _versionChildren, ...versionFields } = version as Node & {
+    children?: unknown;
+  };
+  return isDeepStrictEqual(fields, versionFields);
+}
+
+/**
+ * Combine the trees transformers of one step produced from the same tree
+ *
+ * Each node comes from the transformer that writes its type, or else from
+ * the one that wrote its nearest ancestor, or else from the original tree;
+ * children are merged the same way wherever the chosen node kept the
+ * original number of them.
+ *
+ * @param original - The tree every transformer was given
+ * @param results - Each transformer's tree, with the transformer
+ * @returns The merged tree
+ * @throws TransformError when a transformer changed a node, or the number
+ * of its children, of a type it did not declare in `writes`, rather than
+ * dropping the change
+ */
+export function mergeResults(
+  original: Node,
+  results: readonly { tree: Node; transformer: Transformer }[]
+): Node {
+  const merge = (
+    node: Node,
+    versions: readonly Node[],
+    inherited: number | undefined
+  ): Node => {
+    if (versions.every((version) => version === node)) {
+      return node;
+    }
+    const own = results.findIndex(({ transformer }) =>
+      transformer.writes?.includes(node.type)
+    );
+    const owner = own === -1 ? inherited : own;
+    const base = owner === undefined ? node : versions[owner];
+    const children = childrenOf(node);
+
+    for (const [index, version] of versions.entries()) {
+      if (index === owner || version === node) {
+        continue;
+      }
+      const { name } = results[index].transformer;
+      const culprit =
+        name !== undefined ? `Transformer "${name}"` : "A transformer";
+      if (!sameFields(node, version)) {
+        throw createTransformError(
+          `${culprit} changed a ${node.type} node, which it does not declare in writes`
+        );
+      }
+      if (childrenOf(version)?.length !== children?.length) {
+        throw createTransformError(
+          `${culprit} changed the children of a ${node.type} node, which it does not declare in writes`
+        );
+      }
+    }
+    const baseChildren = childrenOf(base);
+    if (!children || !baseChildren) {
+      return base;
+    }
+    // The owner restructured the node; its children are taken as they are
+    if (baseChildren.length !== children.length) {
+      return base;
+    }
+
+    return {
+      ...base,
+      children: children.map((child, position) =>
+        merge(
+          child,
+          versions.map((version) => childrenOf(version)![position]),
+          owner
+        )
+      ),
+    } as Node;
+  };
+
+  return merge(
+    original,
+    results.map(({ tree }) => tree),
+    undefined
+  );
+}
+
+/**
+ * A view of a file that collects messages on its own, so messages from
+ * concurrent transformers can be added to the file in a fixed order
+ * Everything else, including `data`, is shared with the file
+ */
+export function scopeMessages(file: VFile): VFile {
+  const scoped = Object.create(file) as VFile;
+  scoped.messages = [];
+  return scoped;
+}
@@ -0,0 +1,97 @@
+/**
+ * Helpers for streaming documents through the pipeline a few top-level
+ * blocks at a time
+ */
+
+import { Option, Stream } from "effect";
+import type { BlockSyntax, Node, Position } from "./types.js";
+
+/**
+ * Regroup streamed text into chunks that each hold whole top-level blocks
+ *
+ * Text is held back until `syntax` finds a block boundary, so memory stays
+ * bounded by the largest block rather than the document. Whatever is left
+ * when the input ends becomes the last chunk.
+ *
+ * @param input - Text in arbitrary pieces, such as decoded file reads
+ * @param syntax - Where the format's blocks end
+ * @returns Chunks of complete blocks, in order
+ */
+export function splitBlocks<E, R>(
+  input: Stream.Stream<string, E, R>,
+  syntax: BlockSyntax
+): Stream.Stream<string, E, R> {
+  return input.pipe(
+    Stream.map(Option.some),
+    // A final None flushes the remainder
+    Stream.concat(Stream.make(Option.none<string>())),
+    Stream.mapAccum("", (buffer, piece): [string, string[]] => {
+      if (Option.isNone(piece)) {
+        return ["", [buffer]];
+      }
+      const text = buffer + piece.value;
+      const end = syntax.boundary(text);
+      return end > 0 ? [text.slice(end), [text.slice(0, end)]] : [text, []];
+    }),
+    Stream.mapConcat((chunks) => chunks),
+    Stream.filter((chunk) => chunk.length > 0)
+  );
+}
+
+/**
+ * Number of line breaks in a piece of text
+ */
+export function countLines(text: string): number {
+  let count = 0;
+  for (let index = text.indexOf("\n"); index !== -1; ) {
+    count++;
+    index = text.indexOf("\n", index + 1);
+  }
+  return count;
+}
+
+/**
+ * Move a position parsed from one chunk to where it is in the whole input
+ */
+export function shiftPosition(
+  position: Position,
+  lines: number,
+  offset: number
+): Position {
+  return {
+    line: position.line + lines,
+    column: position.column,
+    offset: position.offset + offset,
+  };
+}
+
+/**
+ * Move the positions of a tree parsed from one chunk to where they are in
+ * the whole input, in place
+ * Points shared between nodes, such as a section's start and its heading's,
+ * move once
+ */
+export function shiftPositions(
+  tree: Node,
+  lines: number,
+  offset: number
+): void {
+  const moved = new WeakSet<object>();
+  const visit = (node: Node) => {
+    const { position } = node;
+    for (const point of position ? [position.start, position.end] : []) {
+      if (moved.has(point)) {
+        continue;
+      }
+      moved.add(point);
+      point.line += lines;
+      if (point.offset !== undefined) {
+        point.offset += offset;
+      }
+    }
+    if ("children" in node && Array.isArray(node.children)) {
+      (node.children as Node[]).forEach(visit);
+    }
+  };
+  visit(tree);
+}
@@ -14,6 +14,7 @@ export function identityTransformer<
   TreeType extends Node = Root,
 >(): Transformer<TreeType, TreeType> {
   return {
+    blockLocal: true,
     transform(
       tree: TreeType,
       _file: VFile
@@ -25,12 +26,14 @@ export function identityTransformer<
 
 /**
  * Compose multiple transformers into a single transformer
- * Transformers are applied sequentially in the order provided
+ * Transformers are applied sequentially in the order provided; the result
+ * is block-local when all of them are
  */
 export function composeTransformers<TreeType extends Node = Root>(
   ...transformers: Transformer<TreeType, TreeType>[]
 ): Transformer<TreeType, TreeType> {
   return {
+    blockLocal: transformers.every((transformer) => transformer.blockLocal),
     transform(
       tree: TreeType,
       file: VFile
@@ -54,13 +57,25 @@ export function composeTransformers<TreeType extends Node = Root>(
   };
 }
 
+/**
+ * What a transformer declares about itself besides its function: its name,
+ * dependencies, the node types it reads and writes, and whether it is
+ * block-local
+ */
+export type TransformerTraits = Omit<Transformer, "transform">;
+
 /**
  * Create a transformer from a pure function
+ * Pass `{ blockLocal: true }` when the function treats each top-level block
+ * on its own, so the transformer can run while streaming, and `reads` and
+ * `writes` to let it run alongside other transformers
  */
 export function createTransformer<TreeType extends Node = Root>(
-  fn: (tree: TreeType, file: VFile) => TreeType
+  fn: (tree: TreeType, file: VFile) => TreeType,
+  traits: TransformerTraits = {}
 ): Transformer<TreeType, TreeType> {
   return {
+    ...traits,
     transform(
       tree: TreeType,
       file: VFile
@@ -81,9 +96,11 @@ export function createTransformer<TreeType extends Node = Root>(
  * Create an async transformer from an async function
  */
 export function createAsyncTransformer<TreeType extends Node = Root>(
-  fn: (tree: TreeType, file: VFile) => Promise<TreeType>
+  fn: (tree: TreeType, file: VFile) => Promise<TreeType>,
+  traits: TransformerTraits = {}
 ): Transformer<TreeType, TreeType> {
   return {
+    ...traits,
     transform(
       tree: TreeType,
       file: VFile
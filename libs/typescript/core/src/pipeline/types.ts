@@ -40,20 +40,30 @@ export interface Position {
   offset: number;
 }
 
+/**
+ * Diagnostic context shared by every error variant
+ * Where the failure happened (file and position) and which format was being
+ * handled, when known
+ */
+export interface ErrorContext {
+  readonly format?: string;
+  readonly path?: string;
+  readonly position?: Position;
+}
+
 /**
  * Parse error - occurs during the parse phase
  */
-export interface ParseError {
+export interface ParseError extends ErrorContext {
   readonly _tag: "ParseError";
   readonly message: string;
   readonly cause?: unknown;
-  readonly position?: Position;
 }
 
 /**
  * Transform error - occurs during the run/transform phase
  */
-export interface TransformError {
+export interface TransformError extends ErrorContext {
   readonly _tag: "TransformError";
   readonly message: string;
   readonly cause?: unknown;
@@ -62,7 +72,7 @@ export interface TransformError {
 /**
  * Compile error - occurs during the stringify/compile phase
  */
-export interface CompileError {
+export interface CompileError extends ErrorContext {
   readonly _tag: "CompileError";
   readonly message: string;
   readonly cause?: unknown;
@@ -73,6 +83,28 @@ export interface CompileError {
  */
 export type PipelineError = ParseError | TransformError | CompileError;
 
+/**
+ * Where top-level blocks end in a text format, so a long input can be
+ * parsed a few blocks at a time
+ */
+export interface BlockSyntax {
+  /**
+   * Find the last boundary between two top-level blocks
+   *
+   * @param text - Unparsed input, starting at the start of a block
+   * @returns Length of the longest prefix of `text` that ends between two
+   * blocks, or 0 when no boundary is certain yet
+   */
+  boundary(text: string): number;
+  /**
+   * Source to parse ahead of the next chunk so it sees the state the chunks
+   * before it set, such as attribute definitions
+   *
+   * @param tree - The tree parsed from the previous chunk
+   */
+  context?(tree: Node): string;
+}
+
 /**
  * Parser interface - converts Input to SyntaxTree
  *
@@ -94,6 +126,19 @@ export interface Parser<
     input: InputType,
     file?: VFile
   ): Effect.Effect<TreeType, ParseError, never>;
+
+  /**
+   * Block structure of the format; set by text parsers that can parse any
+   * run of complete top-level blocks on its own, which `Processor.stream`
+   * needs
+   */
+  readonly blocks?: BlockSyntax;
+
+  /**
+   * Identity of the parser, its version and options; a processor with a
+   * cache reuses trees this parser produced from the same input
+   */
+  readonly cacheKey?: string;
 }
 
 /**
@@ -117,6 +162,40 @@ export interface Transformer<
     tree: InputTree,
     file: VFile
   ): Effect.Effect<OutputTree, TransformError, never>;
+
+  /**
+   * Whether the transformer looks at each top-level block on its own, so
+   * `Processor.stream` can run it on part of a document
+   */
+  readonly blockLocal?: boolean;
+
+  /**
+   * Name other transformers refer to in `dependsOn`
+   */
+  readonly name?: string;
+
+  /**
+   * Node types the transformer reads; with `writes`, lets the processor
+   * run it alongside transformers it does not conflict with
+   */
+  readonly reads?: readonly string[];
+
+  /**
+   * Node types the transformer changes, adds or removes children of; nodes
+   * of any other type must come back with the same children
+   */
+  readonly writes?: readonly string[];
+
+  /**
+   * Names of transformers that must run first, wherever they were added
+   */
+  readonly dependsOn?: readonly string[];
+
+  /**
+   * Identity of the transformer, its version and options; a processor with
+   * a cache reuses trees this transformer produced from the same tree
+   */
+  readonly cacheKey?: string;
 }
 
 /**
@@ -140,16 +219,46 @@ export interface Compiler<
     tree: TreeType,
     file: VFile
   ): Effect.Effect<OutputType, CompileError, never>;
+
+  /**
+   * Text between the outputs of consecutive parts of a document; set by
+   * compilers whose output can be written a part at a time, which
+   * `Processor.stream` needs
+   */
+  readonly blockSeparator?: string;
+}
+
+/**
+ * A syntax tree as it stood after one step of a traced run
+ */
+export interface TreeSnapshot<TreeType extends Node = Root> {
+  /** `parse`, or the name the transformer is reported under */
+  readonly step: string;
+  readonly tree: TreeType;
+}
+
+/**
+ * Result of `Processor.processWithTrace`
+ */
+export interface ProcessTrace<
+  OutputType extends Output = string,
+  TreeType extends Node = Root,
+> {
+  readonly output: OutputType;
+  /** The tree after parsing, then after each transformer in turn */
+  readonly snapshots: readonly TreeSnapshot<TreeType>[];
 }
 
 /**
  * Type alias for common markdown AST root (from mdast)
  * Users can import mdast types if needed
+ * @deprecated Parsers and compilers exchange `DocumentRoot`
  */
 export type MdastRoot = Root;
 
 /**
  * Type alias for common HTML AST root (from hast)
  * Users can import hast types if needed
+ * @deprecated Parsers and compilers exchange `DocumentRoot`
  */
 export type HastRoot = Root;
@@ -0,0 +1,219 @@
+/**
+ * Tests for visitor transformers and fused walks
+ */
+
+import { describe, it, expect } from "bun:test";
+import { Effect, Exit } from "effect";
+import { VFile } from "vfile";
+import type { Compiler, Node, Parser, Root } from "./types.js";
+import { Processor } from "./processor.js";
+import { createTransformer } from "./transformers.js";
+import {
+  REMOVE,
+  SKIP,
+  createVisitorTransformer,
+  insertAfter,
+  replaceWith,
+  type VisitorTransformer,
+} from "./visitor.js";
+
+type Text = Node & { value: string };
+type Block = Node & { children: Text[] };
+
+const text = (value: string): Text => ({ type: "text", value });
+
+const tree: Root = {
+  type: "root",
+  children: [
+    { type: "heading", children: [text("title")] },
+    { type: "paragraph", children: [text("one"), text("two")] },
+    { type: "code", children: [text("x = 1")] },
+  ] as Block[],
+};
+
+function run(transformer: VisitorTransformer, input: Root = tree): Root {
+  return Effect.runSync(transformer.transform(input, new VFile()));
+}
+
+/**
+ * Text of every text node, in document order
+ */
+function texts(node: Node): string[] {
+  if (node.type === "text") return [(node as Text).value];
+  return "children" in node ? (node.children as Node[]).flatMap(texts) : [];
+}
+
+describe("createVisitorTransformer", () => {
+  it("should call enter and leave handlers by node type", () => {
+    const calls: string[] = [];
+    run(
+      createVisitorTransformer({
+        heading: {
+          enter: () => void calls.push("enter heading"),
+          leave: () => void calls.push("leave heading"),
+        },
+        text: (node) => void calls.push(`text ${(node as Text).value}`),
+      })
+    );
+
+    expect(calls.slice(0, 3)).toEqual([
+      "enter heading",
+      "text title",
+      "leave heading",
+    ]);
+    expect(calls).toHaveLength(6);
+  });
+
+  it("should skip, remove, replace and insert nodes", () => {
+    const result = run(
+      createVisitorTransformer({
+        code: () => SKIP,
+        heading: () => insertAfter({ type: "thematicBreak" }),
+        text: (node) => {
+          const { value } = node as Text;
+          if (value === "one") return REMOVE;
+          return replaceWith(text(value.toUpperCase()));
+        },
+      })
+    );
+
+    expect(result.children.map((node) => node.type)).toEqual([
+      "heading",
+      "thematicBreak",
+      "paragraph",
+      "code",
+    ]);
+    expect(texts(result)).toEqual(["TITLE", "TWO", "x = 1"]);
+    // The input is left as it was
+    expect(texts(tree)).toEqual(["title", "one", "two", "x = 1"]);
+  });
+
+  it("should share unchanged subtrees with the input", () => {
+    const result = run(
+      createVisitorTransformer({
+        heading: (node) => replaceWith({ ...node, depth: 1 } as Node),
+      })
+    );
+
+    expect(result).not.toBe(tree);
+    expect(result.children[0]).not.toBe(tree.children[0]);
+    expect(result.children[1]).toBe(tree.children[1]);
+    expect(result.children[2]).toBe(tree.children[2]);
+  });
+
+  it("should refuse to remove the root", () => {
+    const exit = Effect.runSyncExit(
+      createVisitorTransformer({ root: () => REMOVE }).transform(
+        tree,
+        new VFile()
+      )
+    );
+
+    expect(Exit.isFailure(exit)).toBe(true);
+  });
+});
+
+describe("Processor with visitor transformers", () => {
+  const parser: Parser<string, Root> = {
+    parse: () => Effect.succeed(tree),
+  };
+  const compiler: Compiler<Root, string> = {
+    compile: (root) => Effect.succeed(texts(root).join(" ")),
+  };
+
+  it("should fuse the visitors of one step into one walk", async () => {
+    const calls: string[] = [];
+    const record = (name: string) =>
+      createVisitorTransformer(
+        {
+          text: (node) => void calls.push(`${name} ${(node as Text).value}`),
+        },
+        { name, reads: ["text"], writes: [] }
+      );
+
+    await Effect.runPromise(
+      new Processor(parser, compiler)
+        .use(record("a"))
+        .use(record("b"))
+        .process("")
+    );
+
+    expect(calls.slice(0, 4)).toEqual(["a title", "b title", "a one", "b one"]);
+  });
+
+  it("should not fuse a visitor with one it depends on", async () => {
+    const seen: string[] = [];
+
+    const output = await Effect.runPromise(
+      new Processor(parser, compiler)
+        .use(
+          createVisitorTransformer(
+            {
+              text: (node) =>
+                replaceWith(text((node as Text).value.toUpperCase())),
+            },
+            { name: "upper", reads: ["text"], writes: ["text"] }
+          )
+        )
+        .use(
+          createVisitorTransformer(
+            { paragraph: (node) => void seen.push(...texts(node)) },
+            {
+              name: "collect",
+              dependsOn: ["upper"],
+              reads: ["paragraph", "text"],
+              writes: [],
+            }
+          )
+        )
+        .process("")
+    );
+
+    // In a shared walk the paragraph would be entered before its text
+    expect(seen).toEqual(["ONE", "TWO"]);
+    expect(output).toBe("TITLE ONE TWO X = 1");
+  });
+
+  it("should hand later visitors the nodes earlier ones replaced", async () => {
+    const output = await Effect.runPromise(
+      new Processor(parser, compiler)
+        .use(
+          createVisitorTransformer({
+            text: (node) =>
+              replaceWith(text((node as Text).value.toUpperCase())),
+          })
+        )
+        .use(
+          createVisitorTransformer({
+            text: (node) => replaceWith(text(`${(node as Text).value}!`)),
+          })
+        )
+        .process("")
+    );
+
+    expect(output).toBe("TITLE! ONE! TWO! X = 1!");
+  });
+
+  it("should not fuse across other transformers", async () => {
+    const calls: string[] = [];
+    const record = (name: string) =>
+      createVisitorTransformer({
+        heading: () => void calls.push(name),
+      });
+
+    await Effect.runPromise(
+      new Processor(parser, compiler)
+        .use(record("a"))
+        .use(
+          createTransformer<Root>((root) => {
+            calls.push("between");
+            return root;
+          })
+        )
+        .use(record("b"))
+        .process("")
+    );
+
+    expect(calls).toEqual(["a", "between", "b"]);
+  });
+});
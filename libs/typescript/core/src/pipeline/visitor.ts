@@ -0,0 +1,337 @@
+/**
+ * Visitor transformers: handlers keyed by node type, run in one walk of the
+ * tree that several visitors can share
+ */
+
+import { Effect } from "effect";
+import type { VFile } from "vfile";
+import { createTransformError, isTransformError } from "./errors.js";
+import type {
+  Node,
+  Parent,
+  Root,
+  Transformer,
+  TransformError,
+} from "./types.js";
+import type { TransformerTraits } from "./transformers.js";
+
+/**
+ * What a handler asks the walk to do with the node it was called for
+ */
+export type VisitAction =
+  | { readonly kind: "skip" }
+  | { readonly kind: "remove" }
+  | { readonly kind: "replace"; readonly nodes: readonly Node[] }
+  | {
+      readonly kind: "insert";
+      readonly before: readonly Node[];
+      readonly after: readonly Node[];
+    };
+
+/**
+ * Do not visit the node's children with this visitor
+ */
+export const SKIP: VisitAction = { kind: "skip" };
+
+/**
+ * Remove the node from its parent; later visitors do not see it
+ */
+export const REMOVE: VisitAction = { kind: "remove" };
+
+/**
+ * Put nodes in place of the visited one
+ * A single node is handed to later visitors and its children are visited;
+ * several nodes are visited by later visitors only
+ */
+export function replaceWith(...nodes: Node[]): VisitAction {
+  return { kind: "replace", nodes };
+}
+
+/**
+ * Add siblings before the visited node; they are not visited
+ */
+export function insertBefore(...nodes: Node[]): VisitAction {
+  return { kind: "insert", before: nodes, after: [] };
+}
+
+/**
+ * Add siblings after the visited node; they are not visited
+ */
+export function insertAfter(...nodes: Node[]): VisitAction {
+  return { kind: "insert", before: [], after: nodes };
+}
+
+/**
+ * Where a visited node is
+ */
+export interface VisitContext {
+  /** Parent the node was found in; undefined for the root */
+  parent?: Parent;
+  /** Index of the node in its parent's children */
+  index?: number;
+  /** Nodes from the root down to the parent */
+  ancestors: readonly Node[];
+  file: VFile;
+}
+
+/**
+ * Called for a node of the type it is registered for
+ * Returning nothing keeps the node; nodes must not be changed in place,
+ * since unchanged subtrees are shared with the input tree
+ */
+export type VisitHandler<N extends Node = Node> = (
+  node: N,
+  context: VisitContext
+) => VisitAction | void;
+
+/**
+ * Handlers by node type, called on entering a node (before its children)
+ * or, with `{ enter, leave }`, also on leaving it
+ */
+export type Visitor = Record<
+  string,
+  VisitHandler | { enter?: VisitHandler; leave?: VisitHandler }
+>;
+
+/**
+ * A transformer made of visitors, which the processor can merge with other
+ * visitor transformers into a single walk
+ */
+export interface VisitorTransformer<TreeType extends Node = Root>
+  extends Transformer<TreeType, TreeType> {
+  /** Visitors in the order they see each node */
+  readonly visitors: readonly Visitor[];
+}
+
+/**
+ * Type guard for transformers created by `createVisitorTransformer`
+ */
+export function isVisitorTransformer<TreeType extends Node>(
+  transformer: Transformer<TreeType, TreeType>
+): transformer is VisitorTransformer<TreeType> {
+  return (
+    "visitors" in transformer &&
+    Array.isArray((transformer as VisitorTransformer<TreeType>).visitors)
+  );
+}
+
+function handlerFor(
+  visitor: Visitor,
+  type: string,
+  phase: "enter" | "leave"
+): VisitHandler | undefined {
+  const entry = visitor[type];
+  if (typeof entry === "function") {
+    return phase === "enter" ? entry : undefined;
+  }
+  return entry?.[phase];
+}
+
+function childrenOf(node: Node): Node[] | undefined {
+  return "children" in node && Array.isArray(node.children)
+    ? (node.children as Node[])
+    : undefined;
+}
+
+/**
+ * Walk a tree once, calling every visitor's handlers at each node
+ *
+ * Visitors see a node in order: the second enters it after the first has
+ * entered it, and leaves it after the first has left it. Only the nodes on
+ * the path to a change are copied.
+ */
+function walk(root: Node, visitors: readonly Visitor[], file: VFile): Node {
+  const visit = (
+    node: Node,
+    context: VisitContext,
+    active: readonly number[]
+  ): Node[] => {
+    let current = node;
+    const before: Node[] = [];
+    const after: Node[] = [];
+    const descend = new Set(active);
+
+    const apply = (
+      phase: "enter" | "leave",
+      visitor: number
+    ): Node[] | undefined => {
+      const action = handlerFor(
+        visitors[visitor],
+        current.type,
+        phase
+      )?.(current, context);
+      switch (action?.kind) {
+        case "skip":
+          descend.delete(visitor);
+          return undefined;
+        case "remove":
+          return [...before, ...after];
+        case "replace": {
+          if (action.nodes.length === 1) {
+            current = action.nodes[0];
+            return undefined;
+          }
+          const later = active.filter((index) => index > visitor);
+          return [
+            ...before,
+            ...action.nodes.flatMap((replacement) =>
+              visit(replacement, context, later)
+            ),
+            ...after,
+          ];
+        }
+        case "insert":
+          before.push(...action.before);
+          after.push(...action.after);
+          return undefined;
+        default:
+          return undefined;
+      }
+    };
+
+    for (const visitor of active) {
+      const done = apply("enter", visitor);
+      if (done) return done;
+    }
+
+    const children = childrenOf(current);
+    if (children && descend.size > 0) {
+      const ancestors = [...context.ancestors, current];
+      const inner = active.filter((index) => descend.has(index));
+      let changed = false;
+      const visited = children.flatMap((child, index) => {
+        const result = visit(
+          child,
+          { parent: current as Parent, index, ancestors, file },
+          inner
+        );
+        changed ||= result.length !== 1 || result[0] !== child;
+        return result;
+      });
+      if (changed) {
+        current = { ...current, children: visited } as Node;
+      }
+    }
+
+    for (const visitor of active) {
+      const done = apply("leave", visitor);
+      if (done) return done;
+    }
+    return [...before, current, ...after];
+  };
+
+  const result = visit(
+    root,
+    { ancestors: [], file },
+    visitors.map((_, index) => index)
+  );
+  if (result.length !== 1) {
+    throw createTransformError(
+      "A visitor removed the root or replaced it with several nodes"
+    );
+  }
+  return result[0];
+}
+
+/**
+ * Create a transformer from visitors
+ *
+ * The processor walks the tree once for the visitor transformers that the
+ * scheduler puts in one step, those that declare `reads` and `writes` that
+ * do not overlap; visitors that conflict or depend on each other each walk
+ * the whole tree in turn.
+ *
+ * Consecutive steps are not fused, even when they hold nothing but
+ * visitors. A walk calls the handlers in order at each node, but a visitor
+ * entering a node would see its children before the visitors ahead of it
+ * had visited them, so a visitor in a later step would read a subtree the
+ * earlier ones had not finished with.
+ *
+ * @param visitor - Handlers by node type; several visitors share the walk
+ * @param traits - Name, dependencies and the node types the visitor reads
+ * and writes
+ * @returns A transformer that walks the tree once
+ */
+export function createVisitorTransformer<TreeType extends Node = Root>(
+  visitor: Visitor | readonly Visitor[],
+  traits: TransformerTraits = {}
+): VisitorTransformer<TreeType> {
+  const visitors: readonly Visitor[] = Array.isArray(visitor)
+    ? visitor
+    : [visitor as Visitor];
+  return {
+    ...traits,
+    visitors,
+    transform(
+      tree: TreeType,
+      file: VFile
+    ): Effect.Effect<TreeType, TransformError, never> {
+      return Effect.try({
+        try: () => walk(tree, visitors, file) as TreeType,
+        catch: (error) =>
+          isTransformError(error)
+            ? error
+            : createTransformError(
+                "Visitor threw an error",
+                error instanceof Error ? error : new Error(String(error))
+              ),
+      });
+    },
+  };
+}
+
+/**
+ * Merge visitor transformers into one that walks the tree once
+ * Names are dropped; the merged transformer reads and writes what any of
+ * them does, is block-local when all of them are, and is cached when all
+ * of them are
+ */
+export function fuseVisitors<TreeType extends Node>(
+  transformers: readonly VisitorTransformer<TreeType>[]
+): VisitorTransformer<TreeType> {
+  const union = (key: "reads" | "writes") =>
+    transformers.every((transformer) => transformer[key])
+      ? [...new Set(transformers.flatMap((transformer) => transformer[key]!))]
+      : undefined;
+
+  return createVisitorTransformer<TreeType>(
+    transformers.flatMap((transformer) => transformer.visitors),
+    {
+      reads: union("reads"),
+      writes: union("writes"),
+      blockLocal: transformers.every((transformer) => transformer.blockLocal),
+      cacheKey: transformers.every(
+        (transformer) => transformer.cacheKey !== undefined
+      )
+        ? JSON.stringify(
+            transformers.map((transformer) => transformer.cacheKey)
+          )
+        : undefined,
+    }
+  );
+}
+
+/**
+ * Merge the visitor transformers of each scheduled step into a single walk
+ * Transformers of one step neither conflict nor depend on each other, so
+ * one walk gives the same tree as running them side by side. Steps are
+ * never merged: a transformer is in a later step because it must see the
+ * whole tree an earlier one produced
+ *
+ * @param steps - Steps from `scheduleTransformers`
+ * @returns Steps with one walk for all the visitors of each, in the same
+ * order
+ */
+export function fuseSteps<TreeType extends Node>(
+  steps: readonly Transformer<TreeType, TreeType>[][]
+): Transformer<TreeType, TreeType>[][] {
+  return steps.map((step) => {
+    const visitors = step.filter(isVisitorTransformer);
+    return visitors.length > 1
+      ? [
+          fuseVisitors(visitors),
+          ...step.filter((transformer) => !isVisitorTransformer(transformer)),
+        ]
+      : [...step];
+  });
+}
@@ -0,0 +1,42 @@
+/**
+ * Plugin registry
+ *
+ * Parsers, transformers and compilers are registered with a manifest
+ * describing their version, formats, tree type, options and the
+ * ndoctrinate-core versions they support, then resolved by name:
+ *
+ * ```ts
+ * const registry = new PluginRegistry();
+ * registry.register({
+ *   manifest: {
+ *     name: "toc",
+ *     version: "1.2.0",
+ *     kind: "transformer",
+ *     treeType: documentTreeType,
+ *     options: type({ "depth?": "number" }),
+ *     core: "^0.1.0",
+ *   },
+ *   create: (options) => createToc(options),
+ * });
+ * const toc = registry.create("transformer", { name: "toc", version: "^1" });
+ * ```
+ */
+
+export type {
+  PluginManifest,
+  PluginInstances,
+  PluginDefinition,
+  AnyPluginDefinition,
+  PluginReference,
+} from "./types.js";
+export { documentTreeType } from "./types.js";
+
+export { PluginRegistry, parsePluginReference } from "./registry.js";
+
+export {
+  coreVersion,
+  compareVersions,
+  isValidRange,
+  isValidVersion,
+  satisfies,
+} from "./version.js";
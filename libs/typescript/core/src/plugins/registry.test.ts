@@ -0,0 +1,165 @@
+/**
+ * Tests for the plugin registry and version ranges
+ */
+
+import { describe, it, expect } from "bun:test";
+import { type } from "arktype";
+import { createTransformer } from "../pipeline/transformers.js";
+import type { DocumentRoot } from "../document/types.js";
+import { PluginRegistry, parsePluginReference } from "./registry.js";
+import { documentTreeType, type PluginDefinition } from "./types.js";
+import { compareVersions, satisfies } from "./version.js";
+
+// Options each labeller was created with
+const created: unknown[] = [];
+
+function labeller(
+  version: string,
+  core = "^0.1.0"
+): PluginDefinition<"transformer"> {
+  return {
+    manifest: {
+      name: "label",
+      version,
+      kind: "transformer",
+      treeType: documentTreeType,
+      options: type({ label: "string" }),
+      core,
+    },
+    create: (options) => {
+      created.push(options);
+      return createTransformer<DocumentRoot>((tree) => tree);
+    },
+  };
+}
+
+describe("satisfies", () => {
+  it("should match caret, tilde, partial and comparator ranges", () => {
+    expect(satisfies("0.1.4", "^0.1.0")).toBe(true);
+    expect(satisfies("0.2.0", "^0.1.0")).toBe(false);
+    expect(satisfies("1.9.0", "^1.2")).toBe(true);
+    expect(satisfies("2.0.0-beta.1", "^1.2")).toBe(false);
+    expect(satisfies("1.4.9", "~1.4")).toBe(true);
+    expect(satisfies("1.3.0", "1.2.x")).toBe(false);
+    expect(satisfies("1.5.0", ">=1.0.0 <2")).toBe(true);
+    expect(satisfies("1.5.0", "<1 || >=2")).toBe(false);
+    expect(satisfies("1.0.0", "not a range")).toBe(false);
+  });
+
+  it("should order prereleases before their release", () => {
+    expect(
+      ["1.10.0", "1.2.0", "1.2.0-beta.10", "1.2.0-beta.2"].sort(compareVersions)
+    ).toEqual(["1.2.0-beta.2", "1.2.0-beta.10", "1.2.0", "1.10.0"]);
+  });
+});
+
+describe("PluginRegistry", () => {
+  it("should resolve the newest version matching a range", () => {
+    const registry = new PluginRegistry("0.1.0");
+    for (const version of ["1.0.0", "1.3.0", "2.0.0"]) {
+      expect(registry.register(labeller(version)).success).toBe(true);
+    }
+
+    const resolve = (reference: string) => {
+      const result = registry.resolve("transformer", reference);
+      return result.success ? result.value.manifest.version : undefined;
+    };
+    expect(resolve("label")).toBe("2.0.0");
+    expect(resolve("label@^1")).toBe("1.3.0");
+    expect(resolve("label@~1.0")).toBe("1.0.0");
+    expect(registry.list().map((manifest) => manifest.version)).toEqual([
+      "2.0.0",
+      "1.3.0",
+      "1.0.0",
+    ]);
+  });
+
+  it("should reject plugins incompatible with the core version", () => {
+    const registry = new PluginRegistry("0.1.0");
+
+    const result = registry.register(labeller("1.0.0", "^1.0.0"));
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toMatchObject({
+        _tag: "PluginError",
+        plugin: "label",
+        message:
+          "Plugin label 1.0.0 requires ndoctrinate-core ^1.0.0, but this is 0.1.0",
+      });
+    }
+    expect(registry.list()).toEqual([]);
+  });
+
+  it("should reject invalid and duplicate registrations", () => {
+    const registry = new PluginRegistry("0.1.0");
+    registry.register(labeller("1.0.0"));
+
+    const errors = [
+      registry.register(labeller("1.0.0")),
+      registry.register(labeller("one")),
+      registry.register(labeller("1.1.0", "newest")),
+    ].map((result) => (result.success ? undefined : result.error.message));
+
+    expect(errors).toEqual([
+      "transformer label 1.0.0 is already registered",
+      'Plugin label has an invalid version "one"',
+      'Plugin label 1.1.0 has an invalid ndoctrinate-core range "newest"',
+    ]);
+  });
+
+  it("should report unknown plugins and unmatched ranges", () => {
+    const registry = new PluginRegistry("0.1.0");
+    registry.register(labeller("1.0.0"));
+
+    const unknown = registry.resolve("transformer", "toc");
+    const unmatched = registry.resolve("transformer", "label@^2");
+    const wrongKind = registry.resolve("compiler", "label");
+
+    expect(unknown.success ? "" : unknown.error.message).toBe(
+      'Unknown transformer "toc" (available: label)'
+    );
+    expect(unmatched.success ? "" : unmatched.error.message).toBe(
+      'No version of transformer "label" matches ^2 (registered: 1.0.0)'
+    );
+    expect(wrongKind.success ? "" : wrongKind.error.message).toBe(
+      'Unknown compiler "label" (available: none)'
+    );
+  });
+
+  it("should check options against the manifest schema", () => {
+    const registry = new PluginRegistry("0.1.0");
+    registry.register(labeller("1.0.0"));
+
+    const invalid = registry.create("transformer", {
+      name: "label",
+      options: { label: 1 },
+    });
+    const valid = registry.create("transformer", {
+      name: "label",
+      options: { label: "intro" },
+    });
+
+    expect(invalid.success).toBe(false);
+    if (!invalid.success) {
+      expect(invalid.error._tag).toBe("ValidationError");
+      expect(invalid.error.message).toBe(
+        'Invalid options for transformer "label"'
+      );
+    }
+    expect(valid.success).toBe(true);
+    expect(created.at(-1)).toEqual({ label: "intro" });
+  });
+
+  it("should parse versioned and scoped references", () => {
+    expect(parsePluginReference("toc@^1.2")).toEqual({
+      name: "toc",
+      version: "^1.2",
+    });
+    expect(parsePluginReference("@org/toc")).toEqual({ name: "@org/toc" });
+    expect(parsePluginReference("@org/toc@1")).toEqual({
+      name: "@org/toc",
+      version: "1",
+    });
+  });
+});
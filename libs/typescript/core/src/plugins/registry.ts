@@ -0,0 +1,217 @@
+/**
+ * Registry of the parsers, transformers and compilers available to
+ * pipelines, with the manifest each was registered with
+ */
+
+import { type } from "arktype";
+import { createPluginError, createValidationError } from "../errors.js";
+import type { PluginError, Result, ValidationError } from "../types.js";
+import type { PluginKind } from "../wasm/types.js";
+import type {
+  AnyPluginDefinition,
+  PluginDefinition,
+  PluginInstances,
+  PluginManifest,
+  PluginReference,
+} from "./types.js";
+import {
+  compareVersions,
+  coreVersion,
+  isValidRange,
+  isValidVersion,
+  satisfies,
+} from "./version.js";
+
+/**
+ * Split a reference into name, version range and options
+ */
+export function parsePluginReference(reference: PluginReference): {
+  name: string;
+  version?: string;
+  options?: unknown;
+} {
+  if (typeof reference !== "string") {
+    return reference;
+  }
+  // Not the first character, which starts a scoped name such as `@org/toc`
+  const at = reference.lastIndexOf("@");
+  return at > 0
+    ? { name: reference.slice(0, at), version: reference.slice(at + 1) }
+    : { name: reference };
+}
+
+/**
+ * Plugins by kind and name, with every registered version of each
+ *
+ * Plugins are checked when they are registered, so an incompatible plugin
+ * is rejected before any pipeline refers to it
+ */
+export class PluginRegistry {
+  private readonly plugins: AnyPluginDefinition[] = [];
+  private readonly core: string;
+
+  /**
+   * Create an empty registry
+   *
+   * @param core - ndoctrinate-core version manifests are checked against;
+   * the running version by default
+   */
+  constructor(core: string = coreVersion) {
+    this.core = core;
+  }
+
+  /**
+   * Add a plugin
+   *
+   * @param plugin - The plugin's manifest and factory
+   * @returns This registry, or a PluginError when the manifest is invalid,
+   * the plugin is not compatible with this version of ndoctrinate-core or
+   * the same version is already registered
+   */
+  register(plugin: AnyPluginDefinition): Result<this, PluginError> {
+    const { name, version, kind, core } = plugin.manifest;
+    const fail = (message: string): Result<this, PluginError> => ({
+      success: false,
+      error: createPluginError(message, name),
+    });
+
+    if (name === "" || name.slice(1).includes("@")) {
+      return fail(`Invalid plugin name "${name}"`);
+    }
+    if (!isValidVersion(version)) {
+      return fail(`Plugin ${name} has an invalid version "${version}"`);
+    }
+    if (!isValidRange(core)) {
+      return fail(
+        `Plugin ${name} ${version} has an invalid ndoctrinate-core range "${core}"`
+      );
+    }
+    if (!satisfies(this.core, core)) {
+      return fail(
+        `Plugin ${name} ${version} requires ndoctrinate-core ${core}, but this is ${this.core}`
+      );
+    }
+    if (
+      this.plugins.some(
+        ({ manifest }) =>
+          manifest.kind === kind &&
+          manifest.name === name &&
+          compareVersions(manifest.version, version) === 0
+      )
+    ) {
+      return fail(`${kind} ${name} ${version} is already registered`);
+    }
+
+    this.plugins.push(plugin);
+    return { success: true, value: this };
+  }
+
+  /**
+   * Manifests of the registered plugins, by kind and name, newest version
+   * first
+   *
+   * @param filter - Only list plugins of this kind or name
+   */
+  list(filter: { kind?: PluginKind; name?: string } = {}): PluginManifest[] {
+    const kinds: PluginKind[] = ["parser", "transformer", "compiler"];
+    return this.plugins
+      .map(({ manifest }) => manifest as PluginManifest)
+      .filter(
+        (manifest) =>
+          (filter.kind === undefined || manifest.kind === filter.kind) &&
+          (filter.name === undefined || manifest.name === filter.name)
+      )
+      .sort(
+        (a, b) =>
+          kinds.indexOf(a.kind) - kinds.indexOf(b.kind) ||
+          a.name.localeCompare(b.name) ||
+          compareVersions(b.version, a.version)
+      );
+  }
+
+  /**
+   * Find the newest version of a plugin matching a reference
+   *
+   * @param kind - Kind of plugin to look for
+   * @param reference - Name, with an optional version range
+   * @returns The plugin, or a PluginError when no plugin of that name or no
+   * matching version is registered
+   */
+  resolve<K extends PluginKind>(
+    kind: K,
+    reference: PluginReference
+  ): Result<PluginDefinition<K>, PluginError> {
+    const { name, version = "*" } = parsePluginReference(reference);
+    const candidates = this.plugins.filter(
+      (plugin): plugin is PluginDefinition<K> & AnyPluginDefinition =>
+        plugin.manifest.kind === kind && plugin.manifest.name === name
+    );
+
+    if (candidates.length === 0) {
+      const available =
+        [...new Set(this.list({ kind }).map((manifest) => manifest.name))].join(
+          ", "
+        ) || "none";
+      return {
+        success: false,
+        error: createPluginError(
+          `Unknown ${kind} "${name}" (available: ${available})`,
+          name
+        ),
+      };
+    }
+
+    const match = candidates
+      .filter((plugin) => satisfies(plugin.manifest.version, version))
+      .sort((a, b) => compareVersions(b.manifest.version, a.manifest.version))
+      .at(0);
+    if (!match) {
+      const registered = candidates
+        .map((plugin) => plugin.manifest.version)
+        .sort(compareVersions)
+        .join(", ");
+      return {
+        success: false,
+        error: createPluginError(
+          `No version of ${kind} "${name}" matches ${version} (registered: ${registered})`,
+          name
+        ),
+      };
+    }
+    return { success: true, value: match };
+  }
+
+  /**
+   * Resolve a plugin and create it with the reference's options
+   *
+   * @returns The parser, transformer or compiler, a PluginError when the
+   * plugin cannot be resolved or a ValidationError when the options do not
+   * satisfy its schema
+   */
+  create<K extends PluginKind>(
+    kind: K,
+    reference: PluginReference
+  ): Result<PluginInstances[K], PluginError | ValidationError> {
+    const resolved = this.resolve(kind, reference);
+    if (!resolved.success) {
+      return resolved;
+    }
+
+    const { manifest, create } = resolved.value;
+    const { options } = parsePluginReference(reference);
+    if (manifest.options && options !== undefined) {
+      const checked = manifest.options(options);
+      if (checked instanceof type.errors) {
+        return {
+          success: false,
+          error: createValidationError(
+            `Invalid options for ${kind} "${manifest.name}"`,
+            checked.map((issue) => issue.message)
+          ),
+        };
+      }
+      return { success: true, value: create(checked) };
+    }
+    return { success: true, value: create(options) };
+  }
+}
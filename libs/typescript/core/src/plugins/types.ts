@@ -0,0 +1,87 @@
+/**
+ * Types for plugin manifests and registrations
+ */
+
+import type { Type } from "arktype";
+import type { DocumentRoot } from "../document/types.js";
+import type { Compiler, Node, Parser, Transformer } from "../pipeline/types.js";
+import type { PluginKind } from "../wasm/types.js";
+
+/**
+ * Tree type of plugins working on the intermediate document model
+ */
+export const documentTreeType = "ndoctrinate";
+
+/**
+ * What a plugin is and what it works with, checked when it is registered and
+ * when pipelines are assembled
+ */
+export interface PluginManifest<K extends PluginKind = PluginKind> {
+  /** Name configuration files and the CLI refer to the plugin by */
+  name: string;
+  /** Semantic version of the plugin, e.g. `1.4.0` */
+  version: string;
+  kind: K;
+  /** One-line summary, shown when listing plugins */
+  description?: string;
+  /** Formats a parser reads */
+  inputFormats?: readonly string[];
+  /** Formats a compiler writes */
+  outputFormats?: readonly string[];
+  /**
+   * Extensions, with the leading dot, of files a parser reads or a compiler
+   * writes; a compiler writes the first
+   */
+  extensions?: readonly string[];
+  /**
+   * Whether a parser reads bytes rather than UTF-8 text, or a compiler
+   * writes them
+   */
+  binary?: boolean;
+  /**
+   * Type of tree the plugin produces or consumes; `documentTreeType` for
+   * the intermediate document model
+   */
+  treeType: string;
+  /** Schema options must satisfy; options are passed unchecked without one */
+  options?: Type;
+  /** Range of ndoctrinate-core versions the plugin works with, e.g. `^0.1.0` */
+  core: string;
+}
+
+/**
+ * What each kind of plugin creates
+ */
+export interface PluginInstances<TreeType extends Node = DocumentRoot> {
+  parser: Parser<string, TreeType> | Parser<Uint8Array, TreeType>;
+  transformer: Transformer<TreeType>;
+  compiler: Compiler<TreeType, string | Uint8Array>;
+}
+
+/**
+ * A plugin as registered: its manifest and a factory taking its options
+ */
+export interface PluginDefinition<K extends PluginKind = PluginKind> {
+  manifest: PluginManifest<K>;
+  /**
+   * Create the parser, transformer or compiler
+   * Receives options already checked against `manifest.options`
+   */
+  create: (options?: unknown) => PluginInstances[K];
+}
+
+/**
+ * A plugin definition of any kind, narrowed by `manifest.kind`
+ */
+export type AnyPluginDefinition = {
+  [K in PluginKind]: PluginDefinition<K>;
+}[PluginKind];
+
+/**
+ * A plugin named by a configuration file or the CLI
+ * A string reference may carry a version range after `@`, as in
+ * `toc@^1.2`
+ */
+export type PluginReference =
+  | string
+  | { name: string; version?: string; options?: unknown };
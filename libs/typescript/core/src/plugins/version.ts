@@ -0,0 +1,251 @@
+/**
+ * Semantic versions and the ranges plugins declare compatibility with
+ *
+ * Supports the common npm range syntax: exact and partial versions (`1.2`,
+ * `1.x`, `*`), comparators (`>=1.2.0 <2`), caret (`^0.3.1`) and tilde
+ * (`~1.4`) ranges, and alternatives joined with `||`. Prerelease versions
+ * order before their release but are otherwise matched like any version.
+ */
+
+import packageJson from "../../package.json" with { type: "json" };
+
+/**
+ * Version of ndoctrinate-core that plugin manifests are checked against
+ */
+export const coreVersion: string = packageJson.version;
+
+type Version = readonly [
+  major: number,
+  minor: number,
+  patch: number,
+  prerelease: string,
+];
+
+type Comparator = readonly [operator: "<" | "<=" | ">" | ">=", Version];
+
+const versionPattern =
+  /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+const partialPattern =
+  /^(?:[vV=])?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+function parseVersion(version: string): Version | undefined {
+  const match = versionPattern.exec(version.trim());
+  return match
+    ? [Number(match[1]), Number(match[2]), Number(match[3]), match[4] ?? ""]
+    : undefined;
+}
+
+/**
+ * Whether a string is a valid semantic version such as `1.4.0-beta.2`
+ */
+export function isValidVersion(version: string): boolean {
+  return parseVersion(version) !== undefined;
+}
+
+function comparePrerelease(a: string, b: string): number {
+  if (a === b) {
+    return 0;
+  }
+  // A release orders after any of its prereleases
+  if (a === "") {
+    return 1;
+  }
+  if (b === "") {
+    return -1;
+  }
+  const left = a.split(".");
+  const right = b.split(".");
+  for (let index = 0; index < Math.max(left.length, right.length); index++) {
+    if (left[index] === undefined) {
+      return -1;
+    }
+    if (right[index] === undefined) {
+      return 1;
+    }
+    const numeric = /^\d+$/;
+    const order =
+      numeric.test(left[index]) && numeric.test(right[index])
+        ? Number(left[index]) - Number(right[index])
+        : left[index].localeCompare(right[index]);
+    if (order !== 0) {
+      return Math.sign(order);
+    }
+  }
+  return 0;
+}
+
+function compare(a: Version, b: Version): number {
+  return (
+    Math.sign(a[0] - b[0]) ||
+    Math.sign(a[1] - b[1]) ||
+    Math.sign(a[2] - b[2]) ||
+    comparePrerelease(a[3], b[3])
+  );
+}
+
+/**
+ * Order two versions, for sorting
+ *
+ * @returns A negative number when `a` is older than `b`, a positive number
+ * when it is newer and 0 when they are equal; invalid versions order first
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = parseVersion(a);
+  const right = parseVersion(b);
+  if (!left || !right) {
+    return Number(Boolean(left)) - Number(Boolean(right));
+  }
+  return compare(left, right);
+}
+
+/**
+ * Translate one term of a range into the comparators it stands for
+ */
+function parseTerm(term: string): Comparator[] | undefined {
+  const operator = /^(<=|>=|<|>|=|\^|~)?\s*(.*)$/.exec(term);
+  const match = operator && partialPattern.exec(operator[2]);
+  if (!operator || !match) {
+    return undefined;
+  }
+
+  const parts = match
+    .slice(1, 4)
+    .map((part) =>
+      part === undefined || /^[xX*]$/.test(part) ? undefined : Number(part)
+    );
+  // A wildcard makes every later part a wildcard
+  const wildcard = parts.findIndex((part) => part === undefined);
+  const [major, minor, patch] =
+    wildcard === -1
+      ? parts
+      : parts.map((part, index) => (index < wildcard ? part : undefined));
+  const prerelease = patch !== undefined ? (match[4] ?? "") : "";
+  const low: Version = [major ?? 0, minor ?? 0, patch ?? 0, prerelease];
+
+  // Exclusive upper bound of the versions a partial version covers
+  const high: Version | undefined =
+    major === undefined
+      ? undefined
+      : minor === undefined
+        ? [major + 1, 0, 0, "0"]
+        : patch === undefined
+          ? [major, minor + 1, 0, "0"]
+          : undefined;
+  const none: Comparator = ["<", [0, 0, 0, "0"]];
+
+  switch (operator[1]) {
+    case "^": {
+      // Changes to the left-most non-zero part are breaking
+      const caret: Version | undefined =
+        major === undefined
+          ? undefined
+          : major > 0 || minor === undefined
+            ? [major + 1, 0, 0, "0"]
+            : minor > 0 || patch === undefined
+              ? [major, minor + 1, 0, "0"]
+              : [major, minor, patch + 1, "0"];
+      return caret
+        ? [
+            [">=", low],
+            ["<", caret],
+          ]
+        : [];
+    }
+    case "~": {
+      const tilde: Version | undefined =
+        major === undefined
+          ? undefined
+          : minor === undefined
+            ? [major + 1, 0, 0, "0"]
+            : [major, minor + 1, 0, "0"];
+      return tilde
+        ? [
+            [">=", low],
+            ["<", tilde],
+          ]
+        : [];
+    }
+    case ">":
+      return major === undefined ? [none] : [high ? [">=", high] : [">", low]];
+    case "<=":
+      return major === undefined ? [] : [high ? ["<", high] : ["<=", low]];
+    case ">=":
+      return [[">=", low]];
+    case "<":
+      return [major === undefined ? none : ["<", low]];
+    default:
+      if (major === undefined) {
+        return [];
+      }
+      return high
+        ? [
+            [">=", low],
+            ["<", high],
+          ]
+        : [
+            [">=", low],
+            ["<=", low],
+          ];
+  }
+}
+
+/**
+ * Parse a range into alternatives, each a list of comparators that must all
+ * hold
+ */
+function parseRange(range: string): Comparator[][] | undefined {
+  const alternatives: Comparator[][] = [];
+  for (const alternative of range.split("||")) {
+    // Attach operators separated from their version by spaces
+    const terms = alternative
+      .trim()
+      .replace(/(<=|>=|<|>|=|\^|~)\s+/g, "$1")
+      .split(/\s+/)
+      .filter((term) => term !== "");
+    const comparators: Comparator[] = [];
+    for (const term of terms.length > 0 ? terms : ["*"]) {
+      const parsed = parseTerm(term);
+      if (!parsed) {
+        return undefined;
+      }
+      comparators.push(...parsed);
+    }
+    alternatives.push(comparators);
+  }
+  return alternatives;
+}
+
+/**
+ * Whether a string is a range `satisfies` understands
+ */
+export function isValidRange(range: string): boolean {
+  return parseRange(range) !== undefined;
+}
+
+/**
+ * Whether a version lies within a range
+ *
+ * @returns false when either the version or the range is invalid
+ */
+export function satisfies(version: string, range: string): boolean {
+  const parsed = parseVersion(version);
+  const alternatives = parseRange(range);
+  if (!parsed || !alternatives) {
+    return false;
+  }
+  return alternatives.some((comparators) =>
+    comparators.every(([operator, bound]) => {
+      const order = compare(parsed, bound);
+      switch (operator) {
+        case "<":
+          return order < 0;
+        case "<=":
+          return order <= 0;
+        case ">":
+          return order > 0;
+        case ">=":
+          return order >= 0;
+      }
+    })
+  );
+}
@@ -0,0 +1,48 @@
+import { Context, Effect } from "effect";
+import type { DocumentProcessor } from "./document-processor.js";
+import type { DetectionHints } from "./format-detector.js";
+import type {
+  Source,
+  StructuredDocument,
+  DocumentProcessingError,
+} from "./types.js";
+
+/**
+ * What decides which processor a source is routed to
+ */
+export interface ProcessingHints extends DetectionHints {
+  /** Declared format; skips detection when given */
+  format?: string;
+}
+
+/**
+ * ProcessorRegistry interface
+ * A document processor that holds one processor per format and hands each
+ * source to the one for its declared or detected format
+ */
+export interface ProcessorRegistry extends DocumentProcessor {
+  /**
+   * Formats that have a processor, sorted by name
+   */
+  formats(): string[];
+
+  /**
+   * Process a document source with the processor for its format
+   *
+   * @param source - The document source (string, raw bytes or JSON)
+   * @param hints - Declared format, or the file name and media type to detect it with
+   * @returns An Effect that produces an array of StructuredDocument on success, an UnsupportedFormatError listing the supported formats when no processor reads the source, or the processor's own error
+   */
+  process(
+    source: Source,
+    hints?: ProcessingHints
+  ): Effect.Effect<StructuredDocument[], DocumentProcessingError, never>;
+}
+
+/**
+ * ProcessorRegistryService - Context Tag for the ProcessorRegistry service
+ * Used for dependency injection in Effect programs
+ */
+export const ProcessorRegistryService = Context.GenericTag<ProcessorRegistry>(
+  "ProcessorRegistryService"
+);
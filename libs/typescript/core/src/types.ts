@@ -2,26 +2,107 @@
  * Core types for document processing
  */
 
+import type { DocumentRoot } from "./document/types.js";
+import type { ErrorContext, PipelineError } from "./pipeline/types.js";
+
 /**
  * Source type for document input
- * Can be a string (file path or content) or JSON object
+ * Can be a string (file path or content), raw bytes or JSON object
  */
-export type Source = string | JSON;
+export type Source = string | Uint8Array | JSON;
 
 /**
  * Structured document representation
- * Contains the processed content and optional metadata
+ * Contains the processed content, the document tree it was produced from
+ * (when the processor builds one) and optional metadata
  */
 export type StructuredDocument = {
   content: string;
+  tree?: DocumentRoot;
   metadata?: Record<string, unknown>;
 };
 
+/**
+ * The source handed to a processor is of a kind it cannot read
+ */
+export interface UnsupportedSourceError extends ErrorContext {
+  readonly _tag: "UnsupportedSourceError";
+  readonly message: string;
+  /**
+   * `typeof` the rejected source, or a more specific description
+   */
+  readonly sourceType: string;
+  readonly cause?: unknown;
+}
+
+/**
+ * No registered processor reads the source's declared or detected format
+ */
+export interface UnsupportedFormatError extends ErrorContext {
+  readonly _tag: "UnsupportedFormatError";
+  readonly message: string;
+  /**
+   * Formats that do have a processor
+   */
+  readonly supported: readonly string[];
+  readonly cause?: unknown;
+}
+
+/**
+ * Reading or writing a file failed
+ */
+export interface IoError extends ErrorContext {
+  readonly _tag: "IoError";
+  readonly message: string;
+  readonly operation: "read" | "write";
+  readonly cause?: unknown;
+}
+
+/**
+ * Bytes could not be decoded as the expected text encoding or container
+ */
+export interface DecodeError extends ErrorContext {
+  readonly _tag: "DecodeError";
+  readonly message: string;
+  readonly encoding?: string;
+  readonly cause?: unknown;
+}
+
+/**
+ * Input or a produced tree does not satisfy a schema
+ */
+export interface ValidationError extends ErrorContext {
+  readonly _tag: "ValidationError";
+  readonly message: string;
+  /**
+   * Individual problems, one per line of a schema report
+   */
+  readonly issues: readonly string[];
+  readonly cause?: unknown;
+}
+
+/**
+ * A plugin failed to load or failed while running
+ */
+export interface PluginError extends ErrorContext {
+  readonly _tag: "PluginError";
+  readonly message: string;
+  readonly plugin: string;
+  readonly cause?: unknown;
+}
+
 /**
  * Document processing error type
- * Currently an alias for any, will be a discriminated union in the future
+ * Every failure a processor or pipeline can report, discriminated by `_tag`
  */
-export type DocumentProcessingError = any;
+export type DocumentProcessingError =
+  | PipelineError
+  | UnsupportedSourceError
+  | UnsupportedFormatError
+  | IoError
+  | DecodeError
+  | ValidationError
+  | PluginError;
 
 /**
  * Result type for functional error handling
@@ -0,0 +1,183 @@
+/**
+ * Adapters from plugin components to the pipeline interfaces
+ */
+
+import { Effect } from "effect";
+import type { VFile } from "vfile";
+import { createPluginError, withErrorContext } from "../errors.js";
+import type { PluginError } from "../types.js";
+import {
+  createCompileError,
+  createParseError,
+  createTransformError,
+} from "../pipeline/errors.js";
+import type {
+  Compiler,
+  Node,
+  Parser,
+  PipelineError,
+  Position,
+  Transformer,
+} from "../pipeline/types.js";
+import type { DocumentRoot } from "../document/types.js";
+import { fromWitTree, toWitTree } from "./marshal.js";
+import type { WasmComponent } from "./host.js";
+import type { ComponentFailure, PluginFunctions } from "./protocol.js";
+import { pluginInterfaces, type PluginKind, type WitContext } from "./types.js";
+
+function context(file: VFile | undefined, options: unknown): WitContext {
+  return {
+    path: file?.path,
+    options: JSON.stringify(options ?? null),
+  };
+}
+
+function toPipelineError<E extends PipelineError>(
+  create: (message: string, cause?: unknown) => E,
+  name: string,
+  failure: ComponentFailure
+): E {
+  switch (failure._tag) {
+    case "ResourceLimitError":
+      return create(failure.message, failure);
+    case "Trapped":
+      return create(
+        `Plugin ${name} failed: ${failure.message}`,
+        createPluginError(failure.message, name)
+      );
+    case "PluginFailed": {
+      const { message, position } = failure.error;
+      const start = position?.start;
+      const place: Position | undefined = start && {
+        line: start.line,
+        column: start.column,
+        offset: start.offset ?? 0,
+      };
+      return withErrorContext(
+        create(message, createPluginError(message, name)),
+        { position: place }
+      );
+    }
+  }
+}
+
+/**
+ * Call a component and convert its result, failing with a pipeline error
+ */
+function callComponent<K extends PluginKind, A, E extends PipelineError>(
+  component: WasmComponent,
+  kind: K,
+  args: Parameters<PluginFunctions[K]>,
+  file: VFile | undefined,
+  create: (message: string, cause?: unknown) => E,
+  convert: (value: ReturnType<PluginFunctions[K]>) => A
+): Effect.Effect<A, E> {
+  return component.call(kind, args, file).pipe(
+    Effect.mapError((failure) =>
+      toPipelineError(create, component.name, failure)
+    ),
+    Effect.flatMap((value) =>
+      Effect.try({
+        try: () => convert(value),
+        catch: (error) => {
+          const message =
+            error instanceof Error ? error.message : String(error);
+          return create(
+            `Plugin ${component.name} failed: ${message}`,
+            createPluginError(message, component.name, error)
+          );
+        },
+      })
+    )
+  );
+}
+
+function requireExport(
+  component: WasmComponent,
+  kind: PluginKind
+): Effect.Effect<void, PluginError> {
+  return component.interfaces.includes(kind)
+    ? Effect.void
+    : Effect.fail(
+        createPluginError(
+          `Component does not export ${pluginInterfaces[kind]}`,
+          component.name
+        )
+      );
+}
+
+/**
+ * Use a component's `parser` export as a Parser
+ * Text input is passed to the component as UTF-8
+ *
+ * @param component - A loaded component
+ * @param options - Plugin options, passed to every call as JSON
+ */
+export function componentParser<TreeType extends Node = DocumentRoot>(
+  component: WasmComponent,
+  options?: unknown
+): Effect.Effect<Parser<string | Uint8Array, TreeType>, PluginError> {
+  return Effect.as(requireExport(component, "parser"), {
+    parse: (input, file) =>
+      callComponent(
+        component,
+        "parser",
+        [
+          typeof input === "string" ? new TextEncoder().encode(input) : input,
+          context(file, options),
+        ],
+        file,
+        createParseError,
+        (tree) => fromWitTree<TreeType>(tree)
+      ),
+  });
+}
+
+/**
+ * Use a component's `transformer` export as a Transformer, so it can be
+ * added to a Processor with `use()`
+ * A call that exceeds a resource limit fails with a TransformError caused by
+ * a ResourceLimitError
+ *
+ * @param component - A loaded component
+ * @param options - Plugin options, passed to every call as JSON
+ */
+export function componentTransformer<TreeType extends Node = DocumentRoot>(
+  component: WasmComponent,
+  options?: unknown
+): Effect.Effect<Transformer<TreeType>, PluginError> {
+  return Effect.as(requireExport(component, "transformer"), {
+    transform: (tree, file) =>
+      callComponent(
+        component,
+        "transformer",
+        [toWitTree(tree), context(file, options)],
+        file,
+        createTransformError,
+        (result) => fromWitTree<TreeType>(result)
+      ),
+  });
+}
+
+/**
+ * Use a component's `compiler` export as a Compiler
+ *
+ * @param component - A loaded component
+ * @param options - Plugin options, passed to every call as JSON
+ */
+export function componentCompiler<TreeType extends Node = DocumentRoot>(
+  component: WasmComponent,
+  options?: unknown
+): Effect.Effect<Compiler<TreeType, string | Uint8Array>, PluginError> {
+  return Effect.as(requireExport(component, "compiler"), {
+    compile: (tree, file) =>
+      callComponent(
+        component,
+        "compiler",
+        [toWitTree(tree), context(file, options)],
+        file,
+        createCompileError,
+        (output) => output.val
+      ),
+  });
+}
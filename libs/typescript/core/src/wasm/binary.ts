@@ -0,0 +1,93 @@
+/**
+ * Rewriting of core WebAssembly modules before they are compiled
+ */
+
+const memorySection = 5;
+const pageSize = 65536;
+
+function readUnsigned(
+  bytes: Uint8Array,
+  offset: number
+): [value: number, next: number] {
+  let value = 0;
+  let shift = 0;
+  let byte: number;
+  do {
+    byte = bytes[offset++];
+    value += (byte & 0x7f) * 2 ** shift;
+    shift += 7;
+  } while (byte & 0x80);
+  return [value, offset];
+}
+
+function writeUnsigned(value: number): number[] {
+  const out: number[] = [];
+  do {
+    let byte = value % 128;
+    value = Math.floor(value / 128);
+    if (value > 0) {
+      byte |= 0x80;
+    }
+    out.push(byte);
+  } while (value > 0);
+  return out;
+}
+
+/**
+ * Cap every memory a module defines at `maxBytes`, so `memory.grow` fails
+ * beyond it; imported memories are capped where they are defined
+ *
+ * @throws Error when a memory's initial size is already over the limit
+ */
+export function limitMemory(module: Uint8Array, maxBytes: number): Uint8Array {
+  const maxPages = Math.floor(maxBytes / pageSize);
+  const parts: Uint8Array[] = [module.subarray(0, 8)];
+
+  let offset = 8;
+  while (offset < module.length) {
+    const id = module[offset];
+    const [size, start] = readUnsigned(module, offset + 1);
+    const end = start + size;
+
+    if (id !== memorySection) {
+      parts.push(module.subarray(offset, end));
+      offset = end;
+      continue;
+    }
+
+    const [count, first] = readUnsigned(module, start);
+    let cursor = first;
+    const payload = writeUnsigned(count);
+    for (let index = 0; index < count; index++) {
+      const flags = module[cursor++];
+      let min: number;
+      let max: number | undefined;
+      [min, cursor] = readUnsigned(module, cursor);
+      if (flags & 0x01) {
+        [max, cursor] = readUnsigned(module, cursor);
+      }
+      if (min > maxPages) {
+        throw new Error(
+          `Memory ${index} starts at ${min * pageSize} bytes, over the limit of ${maxBytes}`
+        );
+      }
+      payload.push(
+        flags | 0x01,
+        ...writeUnsigned(min),
+        ...writeUnsigned(Math.min(max ?? maxPages, maxPages))
+      );
+    }
+    parts.push(Uint8Array.of(id, ...writeUnsigned(payload.length), ...payload));
+    offset = end;
+  }
+
+  const result = new Uint8Array(
+    parts.reduce((length, part) => length + part.length, 0)
+  );
+  let position = 0;
+  for (const part of parts) {
+    result.set(part, position);
+    position += part.length;
+  }
+  return result;
+}
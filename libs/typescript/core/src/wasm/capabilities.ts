@@ -0,0 +1,145 @@
+/**
+ * Capabilities and resource limits for plugin components
+ *
+ * A plugin declares the capabilities it needs; a pipeline grants a set of
+ * capabilities to its plugins. A component is only loaded when every
+ * capability it declares is granted, and it then receives exactly what it
+ * declared. Anything not granted is unavailable: no preopened directories,
+ * an empty environment, clocks frozen at the epoch and no sockets.
+ */
+
+import { isAbsolute, relative, resolve } from "node:path";
+import { createPluginError } from "../errors.js";
+import type { PluginError, Result } from "../types.js";
+
+export interface PluginCapabilities {
+  /**
+   * Host directories the plugin may read and write, visible to it at the
+   * same paths
+   */
+  filesystem?: readonly string[];
+  /** Names of environment variables the plugin may read */
+  env?: readonly string[];
+  /** Whether the plugin may read the wall and monotonic clocks */
+  clock?: boolean;
+  /** Whether the plugin may open sockets and make HTTP requests */
+  network?: boolean;
+}
+
+export interface ResourceLimits {
+  /**
+   * Time budget for a single call, in milliseconds
+   * Measured as wall-clock time of the sandbox process running the call
+   */
+  cpuTime?: number;
+  /** Maximum linear memory of the component, in bytes */
+  memory?: number;
+}
+
+export const defaultResourceLimits: Required<ResourceLimits> = {
+  cpuTime: 10_000,
+  memory: 256 * 1024 * 1024,
+};
+
+/**
+ * A call exceeded one of the component's resource limits
+ * Carried as the cause of the pipeline error the call fails with
+ */
+export interface ResourceLimitError {
+  readonly _tag: "ResourceLimitError";
+  readonly message: string;
+  readonly plugin: string;
+  readonly limit: keyof ResourceLimits;
+  readonly value: number;
+}
+
+/**
+ * Create a ResourceLimitError
+ */
+export function createResourceLimitError(
+  plugin: string,
+  limit: keyof ResourceLimits,
+  value: number
+): ResourceLimitError {
+  const description =
+    limit === "cpuTime"
+      ? `CPU time limit of ${value}ms`
+      : `memory limit of ${value} bytes`;
+  return {
+    _tag: "ResourceLimitError",
+    message: `Plugin ${plugin} exceeded its ${description}`,
+    plugin,
+    limit,
+    value,
+  };
+}
+
+/**
+ * Type guard for ResourceLimitError
+ */
+export function isResourceLimitError(
+  error: unknown
+): error is ResourceLimitError {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "_tag" in error &&
+    error._tag === "ResourceLimitError"
+  );
+}
+
+function isWithin(path: string, directory: string): boolean {
+  const relation = relative(resolve(directory), resolve(path));
+  return !relation.startsWith("..") && !isAbsolute(relation);
+}
+
+/**
+ * Check the capabilities a plugin declares against those a pipeline grants
+ *
+ * @param plugin - Plugin name, for the error message
+ * @param requested - Capabilities the plugin declares
+ * @param granted - Capabilities the pipeline allows
+ * @returns The requested capabilities with resolved paths, or a PluginError
+ * listing everything that was denied
+ */
+export function grantCapabilities(
+  plugin: string,
+  requested: PluginCapabilities,
+  granted: PluginCapabilities
+): Result<PluginCapabilities, PluginError> {
+  const filesystem = (requested.filesystem ?? []).map((path) => resolve(path));
+  const env = requested.env ?? [];
+
+  const denied = [
+    ...filesystem
+      .filter(
+        (path) =>
+          !(granted.filesystem ?? []).some((allowed) => isWithin(path, allowed))
+      )
+      .map((path) => `filesystem ${path}`),
+    ...env
+      .filter((name) => !(granted.env ?? []).includes(name))
+      .map((name) => `env ${name}`),
+    ...(requested.clock && !granted.clock ? ["clock"] : []),
+    ...(requested.network && !granted.network ? ["network"] : []),
+  ];
+
+  if (denied.length > 0) {
+    return {
+      success: false,
+      error: createPluginError(
+        `Capabilities not granted: ${denied.join(", ")}`,
+        plugin
+      ),
+    };
+  }
+  return {
+    success: true,
+    value: {
+      filesystem,
+      env,
+      clock: requested.clock ?? false,
+      network: requested.network ?? false,
+    },
+  };
+}
@@ -0,0 +1,404 @@
+/**
+ * Tests for the WebAssembly component plugin host
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { Effect, Exit } from "effect";
+import { readFileSync } from "node:fs";
+import { VFile } from "vfile";
+import {
+  componentEmbed,
+  componentNew,
+  parse,
+} from "@bytecodealliance/jco-transpile/wasm-tools";
+import type {
+  Compiler,
+  Node,
+  Parser,
+  Root,
+  TransformError,
+} from "../pipeline/types.js";
+import { Processor } from "../pipeline/processor.js";
+import { fromWitTree, toWitTree } from "./marshal.js";
+import { loadComponent, type WasmComponent } from "./host.js";
+import { componentCompiler, componentTransformer } from "./adapters.js";
+import { grantCapabilities, isResourceLimitError } from "./capabilities.js";
+
+const wit = readFileSync(
+  new URL("../../wit/plugin.wit", import.meta.url),
+  "utf8"
+);
+
+// Bump allocator used by the canonical ABI to lower arguments
+const allocator = `
+  (memory (export "memory") 1)
+  (global $heap (mut i32) (i32.const 1024))
+  (func (export "cabi_realloc") (param i32 i32 i32 i32) (result i32)
+    (local $ptr i32)
+    (local.set $ptr
+      (i32.and
+        (i32.add (global.get $heap) (i32.sub (local.get 2) (i32.const 1)))
+        (i32.xor (i32.sub (local.get 2) (i32.const 1)) (i32.const -1))))
+    (global.set $heap (i32.add (local.get $ptr) (local.get 3)))
+    (local.get $ptr))`;
+
+const transform = `(func (export "ndoctrinate:plugin/transformer@0.1.0#transform")
+    (param $nodes i32) (param $len i32) (param i32 i32 i32 i32 i32)
+    (result i32)`;
+
+// Returns the tree it was given
+const identity = `(module ${allocator}
+  ${transform}
+    (i32.store8 (i32.const 16) (i32.const 0))
+    (i32.store (i32.const 20) (local.get $nodes))
+    (i32.store (i32.const 24) (local.get $len))
+    (i32.const 16)))`;
+
+// Returns err("unsupported node") positioned at 3:2
+const failing = `(module ${allocator}
+  (data (i32.const 128) "unsupported node")
+  ${transform}
+    (i32.store8 (i32.const 16) (i32.const 1))
+    (i32.store (i32.const 20) (i32.const 128))
+    (i32.store (i32.const 24) (i32.const 16))
+    (i32.store8 (i32.const 28) (i32.const 1))
+    (i32.store (i32.const 32) (i32.const 3))
+    (i32.store (i32.const 36) (i32.const 2))
+    (i32.store8 (i32.const 40) (i32.const 0))
+    (i32.store (i32.const 48) (i32.const 3))
+    (i32.store (i32.const 52) (i32.const 6))
+    (i32.store8 (i32.const 56) (i32.const 0))
+    (i32.const 16)))`;
+
+// Reports a warning, then returns the tree it was given
+const reporting = `(module
+  (import "ndoctrinate:plugin/diagnostics@0.1.0" "report"
+    (func $report (param i32 i32 i32 i32 i32 i32 i32 i32 i32 i32 i32 i32 i32 i32 i32)))
+  ${allocator}
+  (data (i32.const 128) "empty heading")
+  (data (i32.const 160) "no-empty-heading")
+  ${transform}
+    (call $report
+      (i32.const 1) (i32.const 128) (i32.const 13)
+      (i32.const 1) (i32.const 160) (i32.const 16)
+      (i32.const 1) (i32.const 2) (i32.const 1) (i32.const 0) (i32.const 0)
+      (i32.const 2) (i32.const 4) (i32.const 0) (i32.const 0))
+    (i32.store8 (i32.const 16) (i32.const 0))
+    (i32.store (i32.const 20) (local.get $nodes))
+    (i32.store (i32.const 24) (local.get $len))
+    (i32.const 16)))`;
+
+const trapping = `(module ${allocator}
+  ${transform}
+    unreachable))`;
+
+const spinning = `(module ${allocator}
+  ${transform}
+    (loop $spin (br $spin))
+    unreachable))`;
+
+// Grows its memory until that fails, then traps
+const growing = `(module ${allocator}
+  ${transform}
+    (loop $grow
+      (br_if $grow
+        (i32.ne (memory.grow (i32.const 1)) (i32.const -1))))
+    unreachable))`;
+
+async function buildComponent(wat: string, world: string): Promise<Uint8Array> {
+  const core = await parse(wat);
+  const embedded = await componentEmbed({
+    binary: core,
+    witSource: wit,
+    world,
+  });
+  return componentNew(embedded);
+}
+
+describe("marshal", () => {
+  it("should round-trip a tree", () => {
+    const tree = {
+      type: "root",
+      children: [
+        {
+          type: "heading",
+          depth: 2,
+          children: [{ type: "text", value: "Title" }],
+          position: {
+            start: { line: 1, column: 1, offset: 0 },
+            end: { line: 1, column: 9, offset: 8 },
+          },
+        },
+        { type: "list", ordered: false, children: [] },
+        { type: "yaml", value: { title: "Doc" } },
+        { type: "thematicBreak" },
+      ],
+    };
+
+    const flat = toWitTree(tree);
+    expect(flat.nodes[0].kind).toBe("root");
+    expect(flat.nodes[0].children).toEqual([1, 3, 4, 5]);
+    expect(fromWitTree(flat)).toEqual(tree);
+  });
+
+  it("should reject out-of-range and shared children", () => {
+    expect(() =>
+      fromWitTree({ nodes: [{ kind: "root", children: [1], properties: "" }] })
+    ).toThrow("out of range");
+    expect(() =>
+      fromWitTree({
+        nodes: [
+          { kind: "root", children: [1, 1], properties: "" },
+          { kind: "text", value: "a", children: [], properties: "" },
+        ],
+      })
+    ).toThrow("more than once");
+  });
+});
+
+describe("component host", () => {
+  const tree: Root = {
+    type: "root",
+    children: [
+      {
+        type: "paragraph",
+        children: [{ type: "text", value: "Hello" }],
+      } as Node,
+    ],
+  };
+
+  const parser: Parser<string, Root> = {
+    parse: () => Effect.succeed(tree),
+  };
+  const compiler: Compiler<Root, string> = {
+    compile: (result) => Effect.succeed(JSON.stringify(result)),
+  };
+
+  let identityComponent: WasmComponent;
+
+  beforeAll(async () => {
+    identityComponent = await Effect.runPromise(
+      loadComponent(await buildComponent(identity, "transformer-plugin"), {
+        name: "identity",
+      })
+    );
+  });
+
+  afterAll(() => identityComponent.close());
+
+  it("should expose the exported interfaces", () => {
+    expect(identityComponent.name).toBe("identity");
+    expect(identityComponent.interfaces).toEqual(["transformer"]);
+  });
+
+  it("should run a component transformer in a Processor", async () => {
+    const transformer = await Effect.runPromise(
+      componentTransformer<Root>(identityComponent)
+    );
+    const processor = new Processor(parser, compiler).use(transformer);
+
+    const output = await Effect.runPromise(processor.process("Hello"));
+    expect(JSON.parse(output)).toEqual(tree);
+  });
+
+  it("should fail when the component lacks the interface", async () => {
+    const result = await Effect.runPromiseExit(
+      componentCompiler(identityComponent)
+    );
+
+    expect(Exit.isFailure(result)).toBe(true);
+    if (Exit.isFailure(result) && result.cause._tag === "Fail") {
+      expect(result.cause.error._tag).toBe("PluginError");
+      expect(result.cause.error.message).toContain("compiler@0.1.0");
+    }
+  });
+
+  it("should map plugin errors to TransformError", async () => {
+    const transformer = await Effect.runPromise(
+      Effect.flatMap(
+        loadComponent(await buildComponent(failing, "transformer-plugin"), {
+          name: "failing",
+        }),
+        (component) => componentTransformer<Root>(component)
+      )
+    );
+
+    const result = await Effect.runPromiseExit(
+      transformer.transform(tree, new VFile())
+    );
+
+    expect(Exit.isFailure(result)).toBe(true);
+    if (Exit.isFailure(result) && result.cause._tag === "Fail") {
+      const error = result.cause.error as TransformError;
+      expect(error._tag).toBe("TransformError");
+      expect(error.message).toBe("unsupported node");
+      expect(error.position).toEqual({ line: 3, column: 2, offset: 0 });
+    }
+  });
+
+  it("should attach reported diagnostics to the file", async () => {
+    const transformer = await Effect.runPromise(
+      Effect.flatMap(
+        loadComponent(await buildComponent(reporting, "transformer-plugin"), {
+          name: "lint",
+        }),
+        (component) => componentTransformer<Root>(component)
+      )
+    );
+    const file = new VFile();
+
+    await Effect.runPromise(transformer.transform(tree, file));
+
+    expect(file.messages).toHaveLength(1);
+    const [message] = file.messages;
+    expect(message.reason).toBe("empty heading");
+    expect(message.ruleId).toBe("no-empty-heading");
+    expect(message.source).toBe("lint");
+    expect(message.fatal).toBe(false);
+    expect(message.place).toEqual({
+      start: { line: 2, column: 1 },
+      end: { line: 2, column: 4 },
+    });
+  });
+
+  it("should map traps to TransformError", async () => {
+    const transformer = await Effect.runPromise(
+      Effect.flatMap(
+        loadComponent(await buildComponent(trapping, "transformer-plugin"), {
+          name: "trapping",
+        }),
+        (component) => componentTransformer<Root>(component)
+      )
+    );
+
+    const result = await Effect.runPromiseExit(
+      transformer.transform(tree, new VFile())
+    );
+
+    expect(Exit.isFailure(result)).toBe(true);
+    if (Exit.isFailure(result) && result.cause._tag === "Fail") {
+      expect(result.cause.error._tag).toBe("TransformError");
+      expect(result.cause.error.message).toStartWith("Plugin trapping failed");
+    }
+  });
+
+  it("should fail to load bytes that are not a component", async () => {
+    const result = await Effect.runPromiseExit(
+      loadComponent(new Uint8Array([0, 1, 2, 3]))
+    );
+
+    expect(Exit.isFailure(result)).toBe(true);
+    if (Exit.isFailure(result) && result.cause._tag === "Fail") {
+      expect(result.cause.error._tag).toBe("PluginError");
+    }
+  });
+
+  it("should fail a call that exceeds its CPU time limit", async () => {
+    const component = await Effect.runPromise(
+      loadComponent(await buildComponent(spinning, "transformer-plugin"), {
+        name: "spinning",
+        limits: { cpuTime: 200 },
+      })
+    );
+    const transformer = await Effect.runPromise(
+      componentTransformer<Root>(component)
+    );
+
+    // The second call runs in a restarted sandbox
+    for (let call = 0; call < 2; call++) {
+      const result = await Effect.runPromiseExit(
+        transformer.transform(tree, new VFile())
+      );
+
+      expect(Exit.isFailure(result)).toBe(true);
+      if (Exit.isFailure(result) && result.cause._tag === "Fail") {
+        const error = result.cause.error as TransformError;
+        expect(error._tag).toBe("TransformError");
+        expect(error.message).toBe(
+          "Plugin spinning exceeded its CPU time limit of 200ms"
+        );
+        expect(isResourceLimitError(error.cause)).toBe(true);
+      }
+    }
+    component.close();
+  });
+
+  it("should fail a call that exceeds its memory limit", async () => {
+    const component = await Effect.runPromise(
+      loadComponent(await buildComponent(growing, "transformer-plugin"), {
+        name: "growing",
+        limits: { memory: 4 * 65536 },
+      })
+    );
+    const transformer = await Effect.runPromise(
+      componentTransformer<Root>(component)
+    );
+
+    const result = await Effect.runPromiseExit(
+      transformer.transform(tree, new VFile())
+    );
+    component.close();
+
+    expect(Exit.isFailure(result)).toBe(true);
+    if (Exit.isFailure(result) && result.cause._tag === "Fail") {
+      const error = result.cause.error as TransformError;
+      expect(error.cause).toMatchObject({
+        _tag: "ResourceLimitError",
+        limit: "memory",
+        value: 4 * 65536,
+      });
+    }
+  });
+
+  it("should refuse to load a component whose capabilities are not granted", async () => {
+    const result = await Effect.runPromiseExit(
+      loadComponent(await buildComponent(identity, "transformer-plugin"), {
+        name: "reader",
+        requires: { filesystem: ["/etc"], env: ["HOME"] },
+        grants: { env: ["HOME"] },
+      })
+    );
+
+    expect(Exit.isFailure(result)).toBe(true);
+    if (Exit.isFailure(result) && result.cause._tag === "Fail") {
+      expect(result.cause.error.message).toBe(
+        "Capabilities not granted: filesystem /etc"
+      );
+    }
+  });
+});
+
+describe("grantCapabilities", () => {
+  it("should grant paths within a granted directory", () => {
+    const result = grantCapabilities(
+      "include",
+      { filesystem: ["/srv/docs/shared"], clock: true },
+      { filesystem: ["/srv/docs"], clock: true }
+    );
+
+    expect(result).toEqual({
+      success: true,
+      value: {
+        filesystem: ["/srv/docs/shared"],
+        env: [],
+        clock: true,
+        network: false,
+      },
+    });
+  });
+
+  it("should list every capability that is denied", () => {
+    const result = grantCapabilities(
+      "fetch",
+      { filesystem: ["/srv/docsx"], env: ["TOKEN"], network: true },
+      { filesystem: ["/srv/docs"] }
+    );
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.message).toBe(
+        "Capabilities not granted: filesystem /srv/docsx, env TOKEN, network"
+      );
+    }
+  });
+});
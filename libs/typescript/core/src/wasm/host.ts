@@ -0,0 +1,334 @@
+/**
+ * Host for WebAssembly component plugins
+ *
+ * Each component runs in its own sandbox process (`sandbox.ts`), where it
+ * is transpiled with jco and instantiated with only the capabilities the
+ * pipeline granted. Calls are made one at a time; one that exceeds the CPU
+ * time limit kills the process, which is restarted for the next call.
+ */
+
+import { Effect } from "effect";
+import { basename, extname } from "node:path";
+import type { Subprocess } from "bun";
+import type { VFile } from "vfile";
+import { createPluginError, isPluginError } from "../errors.js";
+import type { PluginError } from "../types.js";
+import {
+  createResourceLimitError,
+  defaultResourceLimits,
+  grantCapabilities,
+  type PluginCapabilities,
+  type ResourceLimits,
+} from "./capabilities.js";
+import { fromWitPosition } from "./marshal.js";
+import type {
+  ComponentFailure,
+  PluginFunctions,
+  SandboxRequest,
+  SandboxResponse,
+} from "./protocol.js";
+import {
+  pluginInterfaces,
+  type PluginKind,
+  type WitDiagnostic,
+} from "./types.js";
+
+/**
+ * A loaded plugin component and the interfaces it exports
+ */
+export interface WasmComponent {
+  /** Name used in error messages */
+  name: string;
+  /** Plugin interfaces the component exports */
+  interfaces: readonly PluginKind[];
+  /**
+   * Call the function of one of the component's interfaces, with the
+   * diagnostics it reports attached to `file`
+   */
+  call<K extends PluginKind>(
+    kind: K,
+    args: Parameters<PluginFunctions[K]>,
+    file?: VFile
+  ): Effect.Effect<ReturnType<PluginFunctions[K]>, ComponentFailure>;
+  /** Stop the sandbox process */
+  close(): void;
+}
+
+export interface LoadComponentOptions {
+  /** Name used in error messages; the file name by default */
+  name?: string;
+  /** Capabilities the plugin declares it needs; none by default */
+  requires?: PluginCapabilities;
+  /** Capabilities the pipeline grants the plugin; none by default */
+  grants?: PluginCapabilities;
+  /** Resource limits, in addition to `defaultResourceLimits` */
+  limits?: ResourceLimits;
+}
+
+type LoadRequest = Extract<SandboxRequest, { type: "load" }>;
+type CallRequest = Extract<SandboxRequest, { type: "call" }>;
+type CallResponse = Extract<SandboxResponse, { type: "returned" | "failed" }>;
+
+interface Sandbox {
+  readonly interfaces: PluginKind[];
+  readonly exited: boolean;
+  call(
+    request: CallRequest,
+    report: (diagnostic: WitDiagnostic) => void
+  ): Promise<CallResponse>;
+  kill(): void;
+}
+
+function reportDiagnostic(
+  file: VFile,
+  diagnostic: WitDiagnostic,
+  source: string
+): void {
+  const options = {
+    place: diagnostic.position && fromWitPosition(diagnostic.position),
+    ruleId: diagnostic.rule,
+    source,
+  };
+  if (diagnostic.severity === "info") {
+    file.info(diagnostic.message, options);
+  } else {
+    file.message(diagnostic.message, options).fatal =
+      diagnostic.severity === "error";
+  }
+}
+
+/**
+ * Start a sandbox process and load the component into it
+ * Rejects with a PluginError when the component cannot be loaded
+ */
+function openSandbox(request: LoadRequest): Promise<Sandbox> {
+  return new Promise((resolve, reject) => {
+    const calls = new Map<
+      number,
+      {
+        report: (diagnostic: WitDiagnostic) => void;
+        settle: (response: CallResponse) => void;
+      }
+    >();
+    let exited = false;
+
+    const entry = Bun.fileURLToPath(new URL("./sandbox.ts", import.meta.url));
+    const child: Subprocess = Bun.spawn([process.execPath, entry], {
+      stdin: "ignore",
+      stdout: "ignore",
+      stderr: "inherit",
+      serialization: "advanced",
+      ipc(message: SandboxResponse) {
+        switch (message.type) {
+          case "loaded":
+            // Idle sandboxes must not keep the host alive
+            child.unref();
+            resolve(sandbox(message.interfaces));
+            break;
+          case "loadFailed":
+            child.kill();
+            reject(
+              createPluginError(message.message, request.name, message.cause)
+            );
+            break;
+          case "diagnostic":
+            calls.get(message.id)?.report(message.diagnostic);
+            break;
+          default:
+            calls.get(message.id)?.settle(message);
+            calls.delete(message.id);
+        }
+      },
+      onExit(_process, exitCode, signalCode) {
+        exited = true;
+        const status = signalCode ?? `exit code ${exitCode}`;
+        reject(
+          createPluginError(
+            `Sandbox exited before the component loaded (${status})`,
+            request.name
+          )
+        );
+        for (const [id, pending] of calls) {
+          pending.settle({
+            type: "failed",
+            id,
+            failure: {
+              _tag: "Trapped",
+              message: `Sandbox exited (${status})`,
+            },
+          });
+        }
+        calls.clear();
+      },
+    });
+
+    const sandbox = (interfaces: PluginKind[]): Sandbox => ({
+      interfaces,
+      get exited() {
+        return exited;
+      },
+      call: (call, report) =>
+        new Promise((settle) => {
+          calls.set(call.id, {
+            report,
+            settle: (response) => {
+              child.unref();
+              settle(response);
+            },
+          });
+          child.ref();
+          child.send(call);
+        }),
+      kill: () => {
+        exited = true;
+        child.kill("SIGKILL");
+      },
+    });
+
+    child.send(request);
+  });
+}
+
+/**
+ * Load a plugin component into a sandbox
+ *
+ * @param source - Path of a `.wasm` component, or its bytes
+ * @param options - Name, capabilities and resource limits for the instance
+ * @returns The loaded component, or a PluginError when a capability it
+ * requires is not granted, or it cannot be read, transpiled or
+ * instantiated, or it exports no plugin interface
+ */
+export function loadComponent(
+  source: string | Uint8Array,
+  options: LoadComponentOptions = {}
+): Effect.Effect<WasmComponent, PluginError> {
+  const name =
+    options.name ??
+    (typeof source === "string"
+      ? basename(source, extname(source))
+      : "component");
+  const limits = { ...defaultResourceLimits, ...options.limits };
+
+  return Effect.gen(function* () {
+    const granted = grantCapabilities(
+      name,
+      options.requires ?? {},
+      options.grants ?? {}
+    );
+    if (!granted.success) {
+      return yield* Effect.fail(granted.error);
+    }
+
+    const request: LoadRequest = {
+      type: "load",
+      name,
+      source,
+      capabilities: granted.value,
+      memory: limits.memory,
+    };
+    const open = () => openSandbox(request);
+    const initial = yield* Effect.tryPromise({
+      try: open,
+      catch: (error) =>
+        isPluginError(error)
+          ? error
+          : createPluginError("Failed to start the sandbox", name, error),
+    });
+
+    if (initial.interfaces.length === 0) {
+      initial.kill();
+      return yield* Effect.fail(
+        createPluginError(
+          `Component exports none of ${Object.values(pluginInterfaces).join(", ")}`,
+          name
+        )
+      );
+    }
+
+    let current: Promise<Sandbox> = Promise.resolve(initial);
+    let queue: Promise<unknown> = Promise.resolve();
+    let nextId = 0;
+
+    // Restart the sandbox if a previous call killed it
+    const acquire = async () => {
+      const sandbox = await current.catch(() => undefined);
+      if (sandbox && !sandbox.exited) {
+        return sandbox;
+      }
+      current = open();
+      return current;
+    };
+
+    const run = async (
+      kind: PluginKind,
+      args: CallRequest["args"],
+      file: VFile | undefined
+    ): Promise<CallResponse> => {
+      const id = nextId++;
+      let sandbox: Sandbox;
+      try {
+        sandbox = await acquire();
+      } catch (error) {
+        return {
+          type: "failed",
+          id,
+          failure: {
+            _tag: "Trapped",
+            message: isPluginError(error) ? error.message : String(error),
+          },
+        };
+      }
+
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const timeout = new Promise<CallResponse>((resolve) => {
+        timer = setTimeout(() => {
+          // Settled before the kill, which fails the call as a trap
+          resolve({
+            type: "failed",
+            id,
+            failure: createResourceLimitError(name, "cpuTime", limits.cpuTime),
+          });
+          sandbox.kill();
+        }, limits.cpuTime);
+      });
+      try {
+        return await Promise.race([
+          sandbox.call({ type: "call", id, kind, args }, (diagnostic) => {
+            if (file) {
+              reportDiagnostic(file, diagnostic, name);
+            }
+          }),
+          timeout,
+        ]);
+      } finally {
+        clearTimeout(timer);
+      }
+    };
+
+    const component: WasmComponent = {
+      name,
+      interfaces: initial.interfaces,
+      call: (kind, args, file) =>
+        Effect.flatMap(
+          Effect.promise(() => {
+            const response = queue.then(() => run(kind, args, file));
+            queue = response.catch(() => undefined);
+            return response;
+          }),
+          (response) =>
+            response.type === "returned"
+              ? Effect.succeed(
+                  response.value as ReturnType<PluginFunctions[typeof kind]>
+                )
+              : Effect.fail(response.failure)
+        ),
+      close: () => {
+        void current.then(
+          (sandbox) => sandbox.kill(),
+          () => undefined
+        );
+      },
+    };
+    return component;
+  });
+}
@@ -0,0 +1,71 @@
+/**
+ * WebAssembly component plugins
+ *
+ * Components implementing the `ndoctrinate:plugin` WIT worlds
+ * (`wit/plugin.wit`) are loaded with `loadComponent` and adapted to the
+ * pipeline interfaces:
+ *
+ * ```ts
+ * const toc = yield* loadComponent("plugins/toc.wasm");
+ * processor.use(yield* componentTransformer(toc, { depth: 2 }));
+ * ```
+ *
+ * Each component runs in a sandbox process with only the capabilities the
+ * pipeline grants it, under CPU time and memory limits:
+ *
+ * ```ts
+ * const include = yield* loadComponent("plugins/include.wasm", {
+ *   requires: { filesystem: ["docs"] },
+ *   grants: { filesystem: ["."] },
+ *   limits: { cpuTime: 2_000 },
+ * });
+ * ```
+ */
+
+export type {
+  WitPoint,
+  WitPosition,
+  WitNode,
+  WitTree,
+  WitContext,
+  WitPluginError,
+  WitSeverity,
+  WitDiagnostic,
+  WitOutput,
+  DiagnosticsImport,
+  ParserExport,
+  TransformerExport,
+  CompilerExport,
+  PluginKind,
+} from "./types.js";
+export { pluginInterfaces, hostInterfaces } from "./types.js";
+
+export { toWitTree, fromWitTree, fromWitPosition } from "./marshal.js";
+
+export {
+  grantCapabilities,
+  createResourceLimitError,
+  isResourceLimitError,
+  defaultResourceLimits,
+  type PluginCapabilities,
+  type ResourceLimits,
+  type ResourceLimitError,
+} from "./capabilities.js";
+
+export {
+  pluginFunctions,
+  type PluginFunctions,
+  type ComponentFailure,
+} from "./protocol.js";
+
+export {
+  loadComponent,
+  type WasmComponent,
+  type LoadComponentOptions,
+} from "./host.js";
+
+export {
+  componentParser,
+  componentTransformer,
+  componentCompiler,
+} from "./adapters.js";
@@ -0,0 +1,110 @@
+/**
+ * Conversion between syntax trees and the flattened trees passed across the
+ * component boundary
+ */
+
+import type { Node } from "../pipeline/types.js";
+import type { WitNode, WitPosition, WitTree } from "./types.js";
+
+type AnyNode = Node & {
+  value?: unknown;
+  children?: AnyNode[];
+  [key: string]: unknown;
+};
+
+/**
+ * Flatten a tree in pre-order, so the root is `nodes[0]`
+ */
+export function toWitTree(tree: Node): WitTree {
+  const nodes: WitNode[] = [];
+
+  const visit = (node: AnyNode): number => {
+    const index = nodes.length;
+    const { type, value, children, position, ...properties } = node;
+    const entry: WitNode = {
+      kind: type,
+      children: [],
+      properties: "{}",
+    };
+    nodes.push(entry);
+
+    // Non-string values, e.g. front matter objects, travel as properties
+    if (typeof value === "string") {
+      entry.value = value;
+    } else if (value !== undefined) {
+      properties.value = value;
+    }
+    // Keep empty parents distinguishable from leaves
+    if (Array.isArray(children) && children.length === 0) {
+      properties.children = [];
+    }
+    entry.properties = JSON.stringify(properties);
+    if (position) {
+      entry.position = position as WitPosition;
+    }
+    entry.children = (children ?? []).map(visit);
+    return index;
+  };
+
+  visit(tree as AnyNode);
+  return { nodes };
+}
+
+/**
+ * Rebuild a tree from its flattened form
+ *
+ * @throws Error when a child index is out of range or a node is reachable
+ * twice, since trees from plugins are untrusted
+ */
+export function fromWitTree<TreeType extends Node = Node>(
+  tree: WitTree
+): TreeType {
+  const seen = new Set<number>();
+
+  const build = (index: number): AnyNode => {
+    const entry = tree.nodes[index];
+    if (entry === undefined) {
+      throw new Error(`Node index ${index} is out of range`);
+    }
+    if (seen.has(index)) {
+      throw new Error(`Node ${index} appears more than once in the tree`);
+    }
+    seen.add(index);
+
+    const properties = JSON.parse(entry.properties || "{}") as unknown;
+    if (
+      typeof properties !== "object" ||
+      properties === null ||
+      Array.isArray(properties)
+    ) {
+      throw new Error(`Properties of node ${index} are not a JSON object`);
+    }
+
+    const node: AnyNode = {
+      ...(properties as Record<string, unknown>),
+      type: entry.kind,
+    };
+    if (entry.value !== undefined) {
+      node.value = entry.value;
+    }
+    if (entry.position) {
+      node.position = fromWitPosition(entry.position);
+    }
+    // Leaves have no children array unless the plugin sent one
+    if (entry.children.length > 0 || "children" in node) {
+      node.children = Array.from(entry.children, build);
+    }
+    return node;
+  };
+
+  return build(0) as unknown as TreeType;
+}
+
+/**
+ * Convert a position, dropping offsets the plugin did not set
+ */
+export function fromWitPosition(position: WitPosition): Node["position"] {
+  const point = ({ line, column, offset }: WitPosition["start"]) =>
+    offset === undefined ? { line, column } : { line, column, offset };
+  return { start: point(position.start), end: point(position.end) };
+}
@@ -0,0 +1,60 @@
+/**
+ * Messages between the host and the sandbox process running a component
+ */
+
+import type { PluginCapabilities, ResourceLimitError } from "./capabilities.js";
+import type {
+  CompilerExport,
+  ParserExport,
+  PluginKind,
+  TransformerExport,
+  WitDiagnostic,
+  WitPluginError,
+} from "./types.js";
+
+/**
+ * The function behind each plugin interface
+ */
+export interface PluginFunctions {
+  parser: ParserExport["parse"];
+  transformer: TransformerExport["transform"];
+  compiler: CompilerExport["compile"];
+}
+
+export const pluginFunctions = {
+  parser: "parse",
+  transformer: "transform",
+  compiler: "compile",
+} as const;
+
+/**
+ * Why a call into a component failed
+ */
+export type ComponentFailure =
+  /** The plugin returned the `err` case */
+  | { readonly _tag: "PluginFailed"; readonly error: WitPluginError }
+  /** The component trapped, or its result could not be read */
+  | { readonly _tag: "Trapped"; readonly message: string }
+  | ResourceLimitError;
+
+export type SandboxRequest =
+  | {
+      type: "load";
+      name: string;
+      source: string | Uint8Array;
+      capabilities: PluginCapabilities;
+      memory: number;
+    }
+  | {
+      type: "call";
+      id: number;
+      kind: PluginKind;
+      args: Parameters<PluginFunctions[PluginKind]>;
+    };
+
+export type SandboxResponse =
+  | { type: "loaded"; interfaces: PluginKind[] }
+  | { type: "loadFailed"; message: string; cause: string }
+  | { type: "diagnostic"; id: number; diagnostic: WitDiagnostic }
+  | { type: "returned"; id: number; value: unknown }
+  | { type: "failed"; id: number; failure: ComponentFailure };
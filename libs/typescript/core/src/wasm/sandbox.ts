@@ -0,0 +1,213 @@
+/**
+ * Entry point of the sandbox process that runs one component
+ *
+ * Started by `loadComponent`, which talks to it over IPC. A separate
+ * process is what lets the host enforce the CPU time limit: a call that
+ * runs over is stopped by killing the process.
+ */
+
+import * as fs from "node:fs/promises";
+import { transpileBytes } from "@bytecodealliance/jco-transpile";
+import { clocks } from "@bytecodealliance/preview2-shim";
+import { WASIShim } from "@bytecodealliance/preview2-shim/instantiation";
+import { limitMemory } from "./binary.js";
+import {
+  createResourceLimitError,
+  type PluginCapabilities,
+} from "./capabilities.js";
+import {
+  pluginFunctions,
+  type ComponentFailure,
+  type SandboxRequest,
+  type SandboxResponse,
+} from "./protocol.js";
+import {
+  hostInterfaces,
+  pluginInterfaces,
+  type PluginKind,
+  type WitPluginError,
+} from "./types.js";
+
+type LoadRequest = Extract<SandboxRequest, { type: "load" }>;
+type CallRequest = Extract<SandboxRequest, { type: "call" }>;
+
+interface TranspiledModule {
+  instantiate(
+    getCoreModule: (path: string) => Promise<WebAssembly.Module>,
+    imports: Record<string, unknown>,
+    instantiateCore: (
+      module: WebAssembly.Module,
+      imports: Parameters<typeof WebAssembly.instantiate>[1]
+    ) => Promise<WebAssembly.Instance>
+  ): Promise<Record<string, Record<string, (...args: unknown[]) => unknown>>>;
+}
+
+const pageSize = 65536;
+
+// Stands in for the clocks when the plugin may not read them
+const frozenClocks = {
+  wallClock: {
+    now: () => ({ seconds: 0n, nanoseconds: 0 }),
+    resolution: () => ({ seconds: 0n, nanoseconds: 1 }),
+  },
+  monotonicClock: {
+    ...clocks.monotonicClock,
+    now: () => 0n,
+    resolution: () => 1n,
+  },
+};
+
+let plugin = "component";
+let memoryLimit = Infinity;
+let instance: Awaited<ReturnType<TranspiledModule["instantiate"]>>;
+const memories: WebAssembly.Memory[] = [];
+let currentCall: number | undefined;
+
+function send(message: SandboxResponse): void {
+  process.send?.(message);
+}
+
+function imports(capabilities: PluginCapabilities): Record<string, unknown> {
+  const env = (capabilities.env ?? []).flatMap((name) => {
+    const value = process.env[name];
+    return value === undefined ? [] : [[name, value] as const];
+  });
+  const shim = new WASIShim({
+    sandbox: {
+      preopens: Object.fromEntries(
+        (capabilities.filesystem ?? []).map((path) => [path, path])
+      ),
+      env: Object.fromEntries(env),
+      args: [plugin],
+      enableNetwork: capabilities.network ?? false,
+    },
+    ...(capabilities.clock ? {} : { clocks: frozenClocks }),
+  });
+
+  return {
+    ...shim.getImportObject(),
+    [hostInterfaces.diagnostics]: {
+      report: (diagnostic: unknown) => {
+        if (currentCall !== undefined) {
+          send({
+            type: "diagnostic",
+            id: currentCall,
+            diagnostic: diagnostic as never,
+          });
+        }
+      },
+    },
+  };
+}
+
+async function load(request: LoadRequest): Promise<SandboxResponse> {
+  plugin = request.name;
+  memoryLimit = request.memory;
+
+  const step = async <T>(message: string, run: () => Promise<T>) => {
+    try {
+      return await run();
+    } catch (error) {
+      throw { type: "loadFailed", message, cause: String(error) };
+    }
+  };
+
+  try {
+    const bytes = await step("Failed to read plugin", async () =>
+      typeof request.source === "string"
+        ? new Uint8Array(await fs.readFile(request.source))
+        : request.source
+    );
+    const { files } = await step("Failed to transpile component", () =>
+      transpileBytes(bytes, {
+        name: "component",
+        instantiation: "async",
+        emitTypescriptDeclarations: false,
+      })
+    );
+    instance = await step("Failed to instantiate component", async () => {
+      // In instantiation mode the bindings import nothing, so they can be
+      // loaded from a data URL rather than written to disk
+      const source = Buffer.from(files["component.js"]).toString("base64");
+      const module = (await import(
+        `data:text/javascript;base64,${source}`
+      )) as TranspiledModule;
+      return module.instantiate(
+        (path) => WebAssembly.compile(limitMemory(files[path], memoryLimit)),
+        imports(request.capabilities),
+        async (core, coreImports) => {
+          const created = await WebAssembly.instantiate(core, coreImports);
+          for (const value of Object.values(created.exports)) {
+            if (value instanceof WebAssembly.Memory) {
+              memories.push(value);
+            }
+          }
+          return created;
+        }
+      );
+    });
+  } catch (failure) {
+    return failure as SandboxResponse;
+  }
+
+  const interfaces = (Object.keys(pluginInterfaces) as PluginKind[]).filter(
+    (kind) => instance[pluginInterfaces[kind]] !== undefined
+  );
+  return { type: "loaded", interfaces };
+}
+
+/**
+ * jco throws the `err` case of a result, either bare or as the payload of a
+ * `ComponentError` depending on its version
+ */
+function pluginErrorPayload(error: unknown): WitPluginError | undefined {
+  const payload =
+    error instanceof Error
+      ? "payload" in error
+        ? error.payload
+        : undefined
+      : error;
+  return typeof payload === "object" &&
+    payload !== null &&
+    "message" in payload &&
+    typeof payload.message === "string"
+    ? (payload as WitPluginError)
+    : undefined;
+}
+
+function toFailure(error: unknown): ComponentFailure {
+  // A trap with memory at its cap is most likely a failed `memory.grow`
+  if (
+    memories.some((memory) => memory.buffer.byteLength + pageSize > memoryLimit)
+  ) {
+    return createResourceLimitError(plugin, "memory", memoryLimit);
+  }
+  const payload = pluginErrorPayload(error);
+  if (payload) {
+    return { _tag: "PluginFailed", error: payload };
+  }
+  return {
+    _tag: "Trapped",
+    message: error instanceof Error ? error.message : String(error),
+  };
+}
+
+function call(request: CallRequest): SandboxResponse {
+  const exported = instance[pluginInterfaces[request.kind]];
+  currentCall = request.id;
+  try {
+    const value = exported[pluginFunctions[request.kind]](...request.args);
+    return { type: "returned", id: request.id, value };
+  } catch (error) {
+    return { type: "failed", id: request.id, failure: toFailure(error) };
+  } finally {
+    currentCall = undefined;
+  }
+}
+
+process.on("message", async (request: SandboxRequest) => {
+  send(request.type === "load" ? await load(request) : call(request));
+});
+
+// The host is gone; nothing left to serve
+process.on("disconnect", () => process.exit(0));
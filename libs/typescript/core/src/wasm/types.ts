@@ -0,0 +1,89 @@
+/**
+ * TypeScript view of the `ndoctrinate:plugin` WIT types, as produced and
+ * consumed by components transpiled with jco
+ * See `wit/plugin.wit` for the definitions
+ */
+
+export interface WitPoint {
+  line: number;
+  column: number;
+  offset?: number;
+}
+
+export interface WitPosition {
+  start: WitPoint;
+  end: WitPoint;
+}
+
+export interface WitNode {
+  kind: string;
+  value?: string;
+  /** Indices into `WitTree.nodes`; jco lowers `list<u32>` to a Uint32Array */
+  children: ArrayLike<number>;
+  /** Remaining node fields as a JSON object */
+  properties: string;
+  position?: WitPosition;
+}
+
+export interface WitTree {
+  nodes: WitNode[];
+}
+
+export interface WitContext {
+  path?: string;
+  /** Plugin options as a JSON value */
+  options: string;
+}
+
+export interface WitPluginError {
+  message: string;
+  position?: WitPosition;
+}
+
+export type WitSeverity = "info" | "warning" | "error";
+
+export interface WitDiagnostic {
+  severity: WitSeverity;
+  message: string;
+  rule?: string;
+  position?: WitPosition;
+}
+
+export type WitOutput =
+  | { tag: "text"; val: string }
+  | { tag: "binary"; val: Uint8Array };
+
+export interface ParserExport {
+  parse(source: Uint8Array, context: WitContext): WitTree;
+}
+
+export interface TransformerExport {
+  transform(tree: WitTree, context: WitContext): WitTree;
+}
+
+export interface CompilerExport {
+  compile(tree: WitTree, context: WitContext): WitOutput;
+}
+
+export interface DiagnosticsImport {
+  report(diagnostic: WitDiagnostic): void;
+}
+
+/**
+ * Versioned interface names a component may export
+ */
+export const pluginInterfaces = {
+  parser: "ndoctrinate:plugin/parser@0.1.0",
+  transformer: "ndoctrinate:plugin/transformer@0.1.0",
+  compiler: "ndoctrinate:plugin/compiler@0.1.0",
+} as const;
+
+export type PluginKind = keyof typeof pluginInterfaces;
+
+/**
+ * Interfaces the host provides to components
+ * jco keys imports by unversioned interface name
+ */
+export const hostInterfaces = {
+  diagnostics: "ndoctrinate:plugin/diagnostics",
+} as const;
@@ -0,0 +1,50 @@
+#!/usr/bin/env bun
+/**
+ * ndoctrinate-plugin - Build TypeScript plugins into components
+ *
+ * Usage: ndoctrinate-plugin build <entry> [--kind transformer] [-o out.wasm]
+ */
+
+import { Effect } from "effect";
+import { parseArgs } from "node:util";
+import {
+  formatPipelineError,
+  pluginInterfaces,
+  type PluginKind,
+} from "ndoctrinate-core";
+import { buildPlugin } from "./build.js";
+
+const usage =
+  "Usage: ndoctrinate-plugin build <entry> [--kind parser|transformer|compiler] [-o <file>]";
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    kind: { type: "string", default: "transformer" },
+    outfile: { type: "string", short: "o" },
+    help: { type: "boolean", short: "h" },
+  },
+});
+
+const [command, entry] = positionals;
+const kind = values.kind as PluginKind;
+
+if (
+  values.help ||
+  command !== "build" ||
+  !entry ||
+  !(kind in pluginInterfaces)
+) {
+  console.error(usage);
+  process.exit(values.help ? 0 : 1);
+}
+
+const result = await Effect.runPromise(
+  Effect.either(buildPlugin({ entry, kind, outfile: values.outfile }))
+);
+
+if (result._tag === "Left") {
+  console.error(formatPipelineError(result.left));
+  process.exit(1);
+}
+console.log(`Wrote ${result.right.outfile} (${result.right.size} bytes)`);
@@ -0,0 +1,123 @@
+/**
+ * Builds the example plugin into a component and runs it through the host
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { Effect, Exit } from "effect";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join, resolve } from "node:path";
+import { VFile } from "vfile";
+import {
+  componentTransformer,
+  loadComponent,
+  type Node,
+  type Root,
+  type WasmComponent,
+} from "ndoctrinate-core";
+import { buildPlugin } from "./build.js";
+
+const tree: Root = {
+  type: "root",
+  children: [
+    {
+      type: "paragraph",
+      children: [{ type: "text", value: "Hello" }],
+    } as Node,
+    {
+      type: "paragraph",
+      children: [],
+      position: {
+        start: { line: 3, column: 1, offset: 7 },
+        end: { line: 3, column: 1, offset: 7 },
+      },
+    } as Node,
+  ],
+};
+
+describe("buildPlugin", () => {
+  let directory: string;
+  let component: WasmComponent;
+
+  beforeAll(async () => {
+    directory = await mkdtemp(join(tmpdir(), "plugin-sdk-test-"));
+    const { outfile } = await Effect.runPromise(
+      buildPlugin({
+        entry: resolve(import.meta.dir, "fixtures/shout.ts"),
+        outfile: join(directory, "shout.wasm"),
+      })
+    );
+    component = await Effect.runPromise(loadComponent(outfile));
+  }, 300_000);
+
+  afterAll(async () => {
+    // Not set when the build failed
+    component?.close();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("should export the transformer interface", () => {
+    expect(component.name).toBe("shout");
+    expect(component.interfaces).toEqual(["transformer"]);
+  });
+
+  it("should transform trees and report messages", async () => {
+    const transformer = await Effect.runPromise(
+      componentTransformer<Root>(component)
+    );
+    const file = new VFile({ path: "doc.md" });
+
+    const result = await Effect.runPromise(transformer.transform(tree, file));
+
+    expect(result).toEqual({
+      type: "root",
+      children: [
+        {
+          type: "paragraph",
+          children: [{ type: "text", value: "HELLO" }],
+        } as Node,
+        tree.children[1],
+      ],
+    });
+    expect(file.messages.map((message) => message.reason)).toEqual([
+      "Empty paragraph",
+    ]);
+    expect(file.messages[0].ruleId).toBe("no-empty-paragraph");
+    expect(file.messages[0].place).toEqual({
+      start: { line: 3, column: 1, offset: 7 },
+      end: { line: 3, column: 1, offset: 7 },
+    });
+  });
+
+  it("should fail with a TransformError when the plugin throws", async () => {
+    const transformer = await Effect.runPromise(
+      componentTransformer<Root>(component, { fail: true })
+    );
+
+    const result = await Effect.runPromiseExit(
+      transformer.transform(tree, new VFile())
+    );
+
+    expect(Exit.isFailure(result)).toBe(true);
+    if (Exit.isFailure(result) && result.cause._tag === "Fail") {
+      expect(result.cause.error._tag).toBe("TransformError");
+      expect(result.cause.error.message).toBe(
+        "Transformer function threw an error"
+      );
+    }
+  });
+
+  it("should fail with a PluginError when the entry does not bundle", async () => {
+    const entry = join(directory, "missing.ts");
+    const result = await Effect.runPromiseExit(buildPlugin({ entry }));
+
+    expect(Exit.isFailure(result)).toBe(true);
+    if (Exit.isFailure(result) && result.cause._tag === "Fail") {
+      expect(result.cause.error._tag).toBe("PluginError");
+      expect(result.cause.error.plugin).toBe("missing");
+      expect(result.cause.error.message).toBe(
+        `Failed to build ${entry} as a transformer-plugin component: Bundle failed: ModuleNotFound resolving "${entry}" (entry point)`
+      );
+    }
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Build a plugin module into a WebAssembly component
+ *
+ * The module is bundled with its dependencies, then embedded in the
+ * StarlingMonkey JavaScript engine by componentize-js, targeting one of the
+ * `ndoctrinate:plugin` worlds.
+ */
+
+import { Effect } from "effect";
+import * as fs from "node:fs/promises";
+import { createRequire } from "node:module";
+import { tmpdir } from "node:os";
+import { basename, dirname, extname, join, resolve } from "node:path";
+import type { ComponentizeOptions } from "@bytecodealliance/componentize-js";
+import {
+  createPluginError,
+  type PluginError,
+  type PluginKind,
+} from "ndoctrinate-core";
+
+export interface BuildPluginOptions {
+  /** Plugin module, exporting `parser`, `transformer` or `compiler` */
+  entry: string;
+  /** Interface the plugin exports; `transformer` by default */
+  kind?: PluginKind;
+  /** Where to write the component; next to the entry by default */
+  outfile?: string;
+}
+
+export interface BuildPluginResult {
+  outfile: string;
+  size: number;
+}
+
+/**
+ * Path of the published WIT package
+ */
+export function pluginWitPath(): string {
+  const require = createRequire(import.meta.url);
+  return join(
+    dirname(require.resolve("ndoctrinate-core/package.json")),
+    "wit",
+    "plugin.wit"
+  );
+}
+
+/**
+ * Bundle the entry into a single module in `outdir`
+ */
+async function bundle(entry: string, outdir: string): Promise<string> {
+  const result = await Bun.build({
+    entrypoints: [entry],
+    outdir,
+    target: "browser",
+    format: "esm",
+    minify: true,
+    // The module is evaluated ahead of time by wizer, which cannot call
+    // imports such as WASI random; Effect seeds its random service with
+    // Math.random while loading, so stub it until evaluation finishes
+    banner: "const __random = Math.random; Math.random = () => 0.5;",
+    footer: "Math.random = __random;",
+    external: [
+      // Resolved by the component's imports
+      "ndoctrinate:plugin/*",
+      // The component host in ndoctrinate-core, never reached from plugins
+      "@bytecodealliance/*",
+    ],
+  });
+  if (!result.success) {
+    throw new AggregateError(result.logs, "Bundling failed");
+  }
+  return result.outputs[0].path;
+}
+
+async function componentize(
+  entry: string,
+  wit: string,
+  kind: PluginKind
+): Promise<Uint8Array> {
+  // Loaded on demand: componentize-js pulls in the engine and wizer
+  const { componentize } = await import("@bytecodealliance/componentize-js");
+
+  const directory = await fs.mkdtemp(join(tmpdir(), "ndoctrinate-plugin-"));
+  try {
+    const options = {
+      sourcePath: await bundle(entry, directory),
+      // Inline WIT: `witPath` is read through the WASI shim, which has no
+      // preopened directories
+      witWorld: wit,
+      worldName: `${kind}-plugin`,
+      // Plugins have no network access
+      disableFeatures: ["http", "fetch-event"],
+    } satisfies ComponentizeOptions & { witWorld: string };
+    const { component } = await componentize(options);
+    return component;
+  } finally {
+    await fs.rm(directory, { recursive: true, force: true });
+  }
+}
+
+/**
+ * A failure's message, to follow the step that failed; bundling fails with
+ * the messages of its logs gathered in an AggregateError
+ */
+function reason(cause: unknown): string {
+  if (cause instanceof AggregateError && cause.errors.length > 0) {
+    return `${cause.message}: ${cause.errors.map(reason).join("; ")}`;
+  }
+  return cause instanceof Error ? cause.message : String(cause);
+}
+
+/**
+ * Bundle, componentize and write a plugin
+ *
+ * @returns Where the component was written and its size in bytes, or a
+ * PluginError naming the entry when any step fails
+ */
+export function buildPlugin(
+  options: BuildPluginOptions
+): Effect.Effect<BuildPluginResult, PluginError> {
+  const entry = resolve(options.entry);
+  const name = basename(entry, extname(entry));
+  const kind = options.kind ?? "transformer";
+  const outfile = resolve(
+    options.outfile ?? join(dirname(entry), `${name}.wasm`)
+  );
+
+  return Effect.gen(function* () {
+    const wit = yield* Effect.tryPromise({
+      try: () => fs.readFile(pluginWitPath(), "utf8"),
+      catch: (cause) =>
+        createPluginError(
+          `Failed to read the plugin WIT package: ${reason(cause)}`,
+          name,
+          cause
+        ),
+    });
+
+    const component = yield* Effect.tryPromise({
+      try: () => componentize(entry, wit, kind),
+      catch: (cause) =>
+        createPluginError(
+          `Failed to build ${options.entry} as a ${kind}-plugin component: ${reason(cause)}`,
+          name,
+          cause
+        ),
+    });
+
+    yield* Effect.tryPromise({
+      try: async () => {
+        await fs.mkdir(dirname(outfile), { recursive: true });
+        await fs.writeFile(outfile, component);
+      },
+      catch: (cause) =>
+        createPluginError(
+          `Failed to write ${outfile}: ${reason(cause)}`,
+          name,
+          cause
+        ),
+    });
+
+    return { outfile, size: component.byteLength };
+  });
+}
@@ -0,0 +1,38 @@
+/**
+ * Example plugin: upper-cases text and warns about empty paragraphs
+ */
+
+import { createTransformer, type Node } from "ndoctrinate-core";
+import type { VFile } from "vfile";
+import { defineTransformer } from "../index.js";
+
+type AnyNode = Node & { value?: unknown; children?: AnyNode[] };
+
+function shout(node: AnyNode, file: VFile): AnyNode {
+  if (node.type === "paragraph" && node.children?.length === 0) {
+    file.message("Empty paragraph", {
+      place: node.position,
+      ruleId: "no-empty-paragraph",
+    });
+  }
+  if (typeof node.value === "string") {
+    return { ...node, value: node.value.toUpperCase() };
+  }
+  if (node.children) {
+    return {
+      ...node,
+      children: node.children.map((child) => shout(child, file)),
+    };
+  }
+  return node;
+}
+
+export const transformer = defineTransformer(
+  createTransformer((tree, file) => {
+    const options = file.data.pluginOptions as { fail?: boolean } | null;
+    if (options?.fail) {
+      throw new Error("Asked to fail");
+    }
+    return shout(tree as AnyNode, file) as typeof tree;
+  })
+);
@@ -0,0 +1,151 @@
+/**
+ * Tests for the guest-side adapters
+ */
+
+import { describe, it, expect } from "bun:test";
+import { Effect } from "effect";
+import {
+  createCompileError,
+  createTransformError,
+  createTransformer,
+  toWitTree,
+  type Compiler,
+  type Node,
+  type Parser,
+  type Root,
+  type Transformer,
+  type WitDiagnostic,
+} from "ndoctrinate-core";
+import { adaptCompiler, adaptParser, adaptTransformer } from "./guest.js";
+
+const tree: Root = {
+  type: "root",
+  children: [
+    {
+      type: "paragraph",
+      children: [{ type: "text", value: "Hello" }],
+    } as Node,
+  ],
+};
+
+const context = { path: "doc.md", options: '{"level":2}' };
+
+describe("adaptTransformer", () => {
+  it("should run the transformer on the rebuilt tree", () => {
+    const seen: unknown[] = [];
+    const transformer = createTransformer<Root>((input, file) => {
+      seen.push(file.path, file.data.pluginOptions);
+      return { ...input, children: [] };
+    });
+
+    const guest = adaptTransformer(transformer, () => {});
+    const result = guest.transform(toWitTree(tree), context);
+
+    expect(seen).toEqual(["doc.md", { level: 2 }]);
+    expect(result.nodes).toHaveLength(1);
+    expect(result.nodes[0].properties).toBe('{"children":[]}');
+  });
+
+  it("should report file messages as diagnostics", () => {
+    const reported: WitDiagnostic[] = [];
+    const transformer = createTransformer<Root>((input, file) => {
+      file.info("Looked at it");
+      file.message("Odd heading", {
+        place: { line: 2, column: 1 },
+        ruleId: "odd-heading",
+      });
+      return input;
+    });
+
+    adaptTransformer(transformer, (diagnostic) =>
+      reported.push(diagnostic)
+    ).transform(toWitTree(tree), context);
+
+    expect(reported).toEqual([
+      {
+        severity: "info",
+        message: "Looked at it",
+        rule: undefined,
+        position: undefined,
+      },
+      {
+        severity: "warning",
+        message: "Odd heading",
+        rule: "odd-heading",
+        position: {
+          start: { line: 2, column: 1 },
+          end: { line: 2, column: 1 },
+        },
+      },
+    ]);
+  });
+
+  it("should throw failures as plugin errors", () => {
+    const transformer: Transformer<Root> = {
+      transform: () =>
+        Effect.fail({
+          ...createTransformError("Unsupported node"),
+          position: { line: 3, column: 2, offset: 10 },
+        }),
+    };
+
+    const guest = adaptTransformer(transformer, () => {});
+
+    expect(() => guest.transform(toWitTree(tree), context)).toThrow(
+      expect.objectContaining({
+        message: "Unsupported node",
+        position: {
+          start: { line: 3, column: 2, offset: 10 },
+          end: { line: 3, column: 2, offset: 10 },
+        },
+      })
+    );
+  });
+});
+
+describe("adaptParser", () => {
+  it("should decode the source as UTF-8", () => {
+    const parser: Parser<string, Root> = {
+      parse: (input) =>
+        Effect.succeed({
+          type: "root",
+          children: [{ type: "text", value: input } as Node],
+        }),
+    };
+
+    const result = adaptParser(parser, () => {}).parse(
+      new TextEncoder().encode("Grüße"),
+      context
+    );
+
+    expect(result.nodes[1].value).toBe("Grüße");
+  });
+});
+
+describe("adaptCompiler", () => {
+  it("should tag text and binary output", () => {
+    const text: Compiler<Root, string> = {
+      compile: () => Effect.succeed("Hello"),
+    };
+    const binary: Compiler<Root, Uint8Array> = {
+      compile: () => Effect.succeed(new Uint8Array([1, 2])),
+    };
+
+    expect(
+      adaptCompiler(text, () => {}).compile(toWitTree(tree), context)
+    ).toEqual({ tag: "text", val: "Hello" });
+    expect(
+      adaptCompiler(binary, () => {}).compile(toWitTree(tree), context)
+    ).toEqual({ tag: "binary", val: new Uint8Array([1, 2]) });
+  });
+
+  it("should throw compile errors as plugin errors", () => {
+    const compiler: Compiler<Root, string> = {
+      compile: () => Effect.fail(createCompileError("No output")),
+    };
+
+    expect(() =>
+      adaptCompiler(compiler, () => {}).compile(toWitTree(tree), context)
+    ).toThrow(expect.objectContaining({ message: "No output" }));
+  });
+});
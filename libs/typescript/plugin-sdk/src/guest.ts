@@ -0,0 +1,173 @@
+/**
+ * Guest-side adapters from pipeline interfaces to the `ndoctrinate:plugin`
+ * exports
+ *
+ * These run inside the component: they rebuild the tree the host sent, run
+ * the wrapped Effect synchronously and flatten the result again. Failures
+ * are thrown as `plugin-error` values, which the bindings turn into the
+ * `err` case of the result.
+ */
+
+import { Effect, Exit, Cause, Option } from "effect";
+import { VFile } from "vfile";
+import {
+  fromWitTree,
+  toWitTree,
+  type Compiler,
+  type DocumentRoot,
+  type Node,
+  type Parser,
+  type PipelineError,
+  type Transformer,
+  type WitContext,
+  type WitDiagnostic,
+  type WitOutput,
+  type WitPluginError,
+  type WitPosition,
+  type WitTree,
+} from "ndoctrinate-core";
+
+type VFileMessage = VFile["messages"][number];
+
+declare module "vfile" {
+  interface DataMap {
+    /**
+     * Options given to the plugin in the pipeline configuration
+     */
+    pluginOptions: unknown;
+  }
+}
+
+/**
+ * Sink for diagnostics, normally the host's `diagnostics.report`
+ */
+export type ReportDiagnostic = (diagnostic: WitDiagnostic) => void;
+
+export interface GuestParser {
+  parse(source: Uint8Array, context: WitContext): WitTree;
+}
+
+export interface GuestTransformer {
+  transform(tree: WitTree, context: WitContext): WitTree;
+}
+
+export interface GuestCompiler {
+  compile(tree: WitTree, context: WitContext): WitOutput;
+}
+
+function toWitPosition(
+  place: VFileMessage["place"] | PipelineError["position"]
+): WitPosition | undefined {
+  if (!place) {
+    return undefined;
+  }
+  return "start" in place
+    ? { start: place.start, end: place.end }
+    : { start: place, end: place };
+}
+
+function toWitDiagnostic(message: VFileMessage): WitDiagnostic {
+  return {
+    severity:
+      message.fatal === true
+        ? "error"
+        : message.fatal === false
+          ? "warning"
+          : "info",
+    message: message.reason,
+    rule: message.ruleId,
+    position: toWitPosition(message.place),
+  };
+}
+
+function toWitPluginError(cause: Cause.Cause<PipelineError>): WitPluginError {
+  const error = Cause.failureOption(cause);
+  if (Option.isSome(error)) {
+    return {
+      message: error.value.message,
+      position: toWitPosition(error.value.position),
+    };
+  }
+  return { message: Cause.pretty(cause) };
+}
+
+/**
+ * Run one call: set up the file, run the Effect and forward its messages
+ * @throws WitPluginError when the Effect fails
+ */
+function run<A, B>(
+  context: WitContext,
+  report: ReportDiagnostic,
+  call: (file: VFile) => Effect.Effect<A, PipelineError>,
+  encode: (value: A) => B
+): B {
+  const file = new VFile({ path: context.path });
+  file.data.pluginOptions = JSON.parse(context.options) as unknown;
+
+  const exit = Effect.runSyncExit(call(file));
+  for (const message of file.messages) {
+    report(toWitDiagnostic(message));
+  }
+  if (Exit.isFailure(exit)) {
+    throw toWitPluginError(exit.cause);
+  }
+  return encode(exit.value);
+}
+
+/**
+ * Adapt a text Parser to the `parser` export
+ * Source bytes are decoded as UTF-8
+ */
+export function adaptParser<TreeType extends Node = DocumentRoot>(
+  parser: Parser<string, TreeType>,
+  report: ReportDiagnostic
+): GuestParser {
+  return {
+    parse: (source, context) =>
+      run(
+        context,
+        report,
+        (file) => parser.parse(new TextDecoder().decode(source), file),
+        toWitTree
+      ),
+  };
+}
+
+/**
+ * Adapt a Transformer to the `transformer` export
+ */
+export function adaptTransformer<TreeType extends Node = DocumentRoot>(
+  transformer: Transformer<TreeType>,
+  report: ReportDiagnostic
+): GuestTransformer {
+  return {
+    transform: (tree, context) =>
+      run(
+        context,
+        report,
+        (file) => transformer.transform(fromWitTree<TreeType>(tree), file),
+        toWitTree
+      ),
+  };
+}
+
+/**
+ * Adapt a Compiler to the `compiler` export
+ */
+export function adaptCompiler<TreeType extends Node = DocumentRoot>(
+  compiler: Compiler<TreeType, string | Uint8Array>,
+  report: ReportDiagnostic
+): GuestCompiler {
+  return {
+    compile: (tree, context) =>
+      run(
+        context,
+        report,
+        (file) => compiler.compile(fromWitTree<TreeType>(tree), file),
+        (output): WitOutput =>
+          typeof output === "string"
+            ? { tag: "text", val: output }
+            : { tag: "binary", val: output }
+      ),
+  };
+}
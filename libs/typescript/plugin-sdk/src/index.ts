@@ -0,0 +1,73 @@
+/**
+ * ndoctrinate-plugin-sdk - Write plugins as ordinary pipeline components
+ *
+ * A plugin module exports the result of `defineTransformer` (or
+ * `defineParser`, `defineCompiler`) under the interface name, then is built
+ * into a component with `ndoctrinate-plugin build`:
+ *
+ * ```ts
+ * import { createTransformer } from "ndoctrinate-core";
+ * import { defineTransformer } from "ndoctrinate-plugin-sdk";
+ *
+ * export const transformer = defineTransformer(
+ *   createTransformer((tree) => tree)
+ * );
+ * ```
+ *
+ * Plugin options from the pipeline configuration are available as
+ * `file.data.pluginOptions`.
+ */
+
+import { report } from "ndoctrinate:plugin/diagnostics@0.1.0";
+import type {
+  Compiler,
+  DocumentRoot,
+  Node,
+  Parser,
+  Transformer,
+} from "ndoctrinate-core";
+import {
+  adaptCompiler,
+  adaptParser,
+  adaptTransformer,
+  type GuestCompiler,
+  type GuestParser,
+  type GuestTransformer,
+} from "./guest.js";
+
+export type {
+  GuestParser,
+  GuestTransformer,
+  GuestCompiler,
+  ReportDiagnostic,
+} from "./guest.js";
+export { adaptParser, adaptTransformer, adaptCompiler } from "./guest.js";
+
+/**
+ * Export a Parser as the plugin's `parser` interface
+ * Source bytes are decoded as UTF-8
+ */
+export function defineParser<TreeType extends Node = DocumentRoot>(
+  parser: Parser<string, TreeType>
+): GuestParser {
+  return adaptParser(parser, report);
+}
+
+/**
+ * Export a Transformer as the plugin's `transformer` interface
+ * Messages added to the file are reported to the host
+ */
+export function defineTransformer<TreeType extends Node = DocumentRoot>(
+  transformer: Transformer<TreeType>
+): GuestTransformer {
+  return adaptTransformer(transformer, report);
+}
+
+/**
+ * Export a Compiler as the plugin's `compiler` interface
+ */
+export function defineCompiler<TreeType extends Node = DocumentRoot>(
+  compiler: Compiler<TreeType, string | Uint8Array>
+): GuestCompiler {
+  return adaptCompiler(compiler, report);
+}
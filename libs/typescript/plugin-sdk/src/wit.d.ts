@@ -0,0 +1,11 @@
+/**
+ * Host imports of the `ndoctrinate:plugin` worlds
+ * They only exist inside a component; see `wit/plugin.wit` in
+ * ndoctrinate-core
+ */
+
+declare module "ndoctrinate:plugin/diagnostics@0.1.0" {
+  import type { WitDiagnostic } from "ndoctrinate-core";
+
+  export function report(diagnostic: WitDiagnostic): void;
+}
@@ -0,0 +1,79 @@
+/**
+ * Tests for the on-disk cache store
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Effect } from "effect";
+import * as fs from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createVFile, hashContent } from "ndoctrinate-core";
+import { buildPipeline, runPipeline } from "../config/index.js";
+import { createDiskCacheStore } from "./disk-store.js";
+
+let directory: string;
+
+beforeEach(async () => {
+  directory = await fs.mkdtemp(join(tmpdir(), "ndoctrinate-disk-cache-"));
+});
+
+afterEach(async () => {
+  await fs.rm(directory, { recursive: true, force: true });
+});
+
+describe("createDiskCacheStore", () => {
+  it("should keep entries for later stores on the same directory", async () => {
+    const key = hashContent("entry");
+    await Effect.runPromise(
+      createDiskCacheStore({ directory }).set(key, "value")
+    );
+
+    const store = createDiskCacheStore({ directory });
+    const value = await Effect.runPromise(store.get(key));
+
+    expect(value).toBe("value");
+    expect(store.stats()).toMatchObject({ hits: 1, entries: 1, bytes: 5 });
+  });
+
+  it("should evict the least recently used entries over the limit", async () => {
+    const store = createDiskCacheStore({ directory, maxBytes: 10 });
+    const [a, b, c] = ["a", "b", "c"].map((name) => hashContent(name));
+
+    const found = await Effect.runPromise(
+      Effect.gen(function* () {
+        yield* store.set(a, "1234");
+        yield* store.set(b, "1234");
+        yield* store.get(a);
+        yield* store.set(c, "1234");
+        return [yield* store.get(a), yield* store.get(b)];
+      })
+    );
+
+    expect(found).toEqual(["1234", undefined]);
+    expect(store.stats()).toMatchObject({ evictions: 1, entries: 2 });
+    expect(await fs.readdir(join(directory, b.slice(0, 2)))).not.toContain(b);
+  });
+
+  it("should serve unchanged documents of a configured pipeline", async () => {
+    const store = createDiskCacheStore({ directory });
+    const pipeline = await Effect.runPromise(
+      buildPipeline("docs", {
+        parser: "markdown",
+        transformers: ["validate-document"],
+        compiler: "text",
+      })
+    );
+    pipeline.processor.cache(store);
+    const bytes = new TextEncoder().encode("# Title\n\nBody\n");
+
+    const outputs = await Effect.runPromise(
+      Effect.forEach([1, 2], () =>
+        runPipeline(pipeline, bytes, createVFile(bytes))
+      )
+    );
+
+    expect(outputs[1]).toBe(outputs[0]);
+    // The parser and the transformer each miss once, then hit
+    expect(store.stats()).toMatchObject({ hits: 2, misses: 2, writes: 2 });
+  });
+});
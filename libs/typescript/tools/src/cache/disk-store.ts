@@ -0,0 +1,127 @@
+/**
+ * A cache store on the local disk, shared by runs of the pipeline
+ *
+ * Each entry is a file named by its key, under a subdirectory named by the
+ * key's first two characters. A file's modification time records when the
+ * entry was last used, so the least recently used entries are evicted first,
+ * across runs as well as within one.
+ */
+
+import { Effect } from "effect";
+import * as fs from "node:fs/promises";
+import { join } from "node:path";
+import type { CacheStats, CacheStore } from "ndoctrinate-core";
+
+export interface DiskCacheOptions {
+  /** Directory the entries are kept in; created when first written */
+  directory: string;
+  /** Largest total size of the entries; 256 MiB by default */
+  maxBytes?: number;
+}
+
+/**
+ * Create a cache store in a directory
+ *
+ * @param options - Where entries go and how much space they may take
+ * @returns A store whose reads and writes never fail: unreadable entries
+ * are misses and failed writes are dropped
+ */
+export function createDiskCacheStore(options: DiskCacheOptions): CacheStore {
+  const { directory } = options;
+  const maxBytes = options.maxBytes ?? 256 * 1024 * 1024;
+  const stats: CacheStats = {
+    hits: 0,
+    misses: 0,
+    writes: 0,
+    evictions: 0,
+    entries: 0,
+    bytes: 0,
+  };
+  const pathOf = (key: string) => join(directory, key.slice(0, 2), key);
+
+  // Sizes by key, in use order; read from the directory on first use
+  let index: Promise<Map<string, number>> | undefined;
+  const load = () =>
+    (index ??= (async () => {
+      const found: { key: string; size: number; used: number }[] = [];
+      const groups = await fs.readdir(directory).catch(() => []);
+      for (const group of groups) {
+        const keys = await fs.readdir(join(directory, group)).catch(() => []);
+        for (const key of keys) {
+          const entry = await fs.stat(pathOf(key)).catch(() => undefined);
+          if (entry?.isFile() && !key.endsWith(".tmp")) {
+            found.push({ key, size: entry.size, used: entry.mtimeMs });
+          }
+        }
+      }
+      found.sort((a, b) => a.used - b.used);
+      const sizes = new Map(found.map(({ key, size }) => [key, size]));
+      stats.entries = sizes.size;
+      stats.bytes = found.reduce((total, { size }) => total + size, 0);
+      return sizes;
+    })());
+
+  const forget = (sizes: Map<string, number>, key: string) => {
+    const size = sizes.get(key);
+    if (size !== undefined) {
+      sizes.delete(key);
+      stats.bytes -= size;
+      stats.entries = sizes.size;
+    }
+  };
+
+  return {
+    get: (key) =>
+      Effect.promise(async () => {
+        const sizes = await load();
+        const value = sizes.has(key)
+          ? await fs.readFile(pathOf(key), "utf-8").catch(() => undefined)
+          : undefined;
+        if (value === undefined) {
+          forget(sizes, key);
+          stats.misses++;
+          return undefined;
+        }
+        stats.hits++;
+        // Move the entry to the end of the use order
+        const size = sizes.get(key)!;
+        sizes.delete(key);
+        sizes.set(key, size);
+        const now = new Date();
+        await fs.utimes(pathOf(key), now, now).catch(() => undefined);
+        return value;
+      }),
+
+    set: (key, value) =>
+      Effect.promise(async () => {
+        const sizes = await load();
+        const size = Buffer.byteLength(value);
+        if (size > maxBytes) {
+          return;
+        }
+        const path = pathOf(key);
+        try {
+          await fs.mkdir(join(directory, key.slice(0, 2)), { recursive: true });
+          // Written whole under another name, so readers never see part of it
+          const temporary = `${path}.${process.pid}.tmp`;
+          await fs.writeFile(temporary, value);
+          await fs.rename(temporary, path);
+        } catch {
+          return;
+        }
+        forget(sizes, key);
+        for (const oldest of sizes.keys()) {
+          if (stats.bytes + size <= maxBytes) break;
+          forget(sizes, oldest);
+          stats.evictions++;
+          await fs.rm(pathOf(oldest), { force: true }).catch(() => undefined);
+        }
+        sizes.set(key, size);
+        stats.bytes += size;
+        stats.entries = sizes.size;
+        stats.writes++;
+      }),
+
+    stats: () => ({ ...stats }),
+  };
+}
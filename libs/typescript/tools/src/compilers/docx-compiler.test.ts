@@ -0,0 +1,153 @@
+/**
+ * Tests for the DOCX compiler
+ */
+
+import { describe, it, expect } from "bun:test";
+import { Effect } from "effect";
+import { strFromU8, unzipSync } from "fflate";
+import { VFile } from "vfile";
+import {
+  DOCUMENT_MODEL_VERSION,
+  Processor,
+  type DocumentRoot,
+  type Node,
+} from "ndoctrinate-core";
+import { createDocxCompiler } from "./docx-compiler.js";
+import { createMarkdownParser } from "../parsers/markdown-parser.js";
+import { createAsciiDocParser } from "../parsers/asciidoc-parser.js";
+import { createDocxParser } from "../parsers/docx-parser.js";
+
+// 2x1 pixel PNG header; only the signature and IHDR size are inspected
+const PNG = new Uint8Array([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13, 0x49, 0x48, 0x44,
+  0x52, 0, 0, 0, 2, 0, 0, 0, 1, 8, 6, 0, 0, 0,
+]);
+
+function parts(bytes: Uint8Array): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(unzipSync(bytes)).map(([name, data]) => [
+      name,
+      name.endsWith(".xml") || name.endsWith(".rels") ? strFromU8(data) : "",
+    ])
+  );
+}
+
+describe("createDocxCompiler", () => {
+  it("writes Markdown as a Word document with styles and numbering", async () => {
+    const processor = new Processor(
+      createMarkdownParser(),
+      createDocxCompiler()
+    );
+    const source = [
+      "# Title",
+      "",
+      "Some **bold** and [a link](https://example.com).[^1]",
+      "",
+      "1. one",
+      "2. two",
+      "   - nested",
+      "",
+      "| a | b |",
+      "|---|---|",
+      "| 1 | 2 |",
+      "",
+      "[^1]: A footnote.",
+    ].join("\n");
+
+    const bytes = await Effect.runPromise(processor.process(source));
+    const docx = parts(bytes);
+    const document = docx["word/document.xml"];
+
+    expect(Object.keys(docx)[0]).toBe("[Content_Types].xml");
+    expect(document).toContain('<w:pStyle w:val="Heading1"/>');
+    expect(document).toContain("<w:b/>");
+    expect(document).toContain('<w:numId w:val="1"/>');
+    expect(document).toContain('<w:ilvl w:val="1"/><w:numId w:val="2"/>');
+    expect(document).toContain("<w:tblHeader/>");
+    expect(document).toContain('<w:footnoteReference w:id="1"/>');
+    expect(docx["word/_rels/document.xml.rels"]).toContain(
+      'Target="https://example.com" TargetMode="External"'
+    );
+    expect(docx["word/numbering.xml"]).toContain(
+      '<w:num w:numId="1"><w:abstractNumId w:val="1"/>'
+    );
+    expect(docx["word/footnotes.xml"]).toContain("A footnote.");
+  });
+
+  it("writes AsciiDoc sections, admonitions and code", async () => {
+    const processor = new Processor(
+      createAsciiDocParser(),
+      createDocxCompiler()
+    );
+    const source = [
+      "= Guide",
+      "",
+      "== Setup",
+      "",
+      "NOTE: Read this first.",
+      "",
+      "----",
+      "line one",
+      "line two",
+      "----",
+      "",
+      "See <<_setup>>.",
+    ].join("\n");
+
+    const docx = parts(await Effect.runPromise(processor.process(source)));
+    const document = docx["word/document.xml"];
+
+    expect(document).toContain('<w:pStyle w:val="Heading2"/>');
+    expect(document).toContain('w:name="_setup"');
+    expect(document).toContain("Note: ");
+    expect(document).toContain('<w:pStyle w:val="Code"/>');
+    expect(document).toContain('<w:hyperlink w:anchor="_setup">');
+  });
+
+  it("embeds images and warns about missing ones", async () => {
+    const file = new VFile();
+    file.data.media = { "chart.png": PNG };
+    const tree: DocumentRoot = {
+      type: "root",
+      version: DOCUMENT_MODEL_VERSION,
+      children: [
+        {
+          type: "paragraph",
+          children: [
+            { type: "image", url: "chart.png", alt: "Chart" },
+            { type: "image", url: "missing.png", alt: "Missing" },
+          ],
+        },
+      ],
+    };
+
+    const bytes = await Effect.runPromise(
+      createDocxCompiler().compile(tree, file)
+    );
+    const zip = unzipSync(bytes);
+    const document = strFromU8(zip["word/document.xml"]);
+
+    expect(zip["word/media/image1.png"]).toEqual(PNG);
+    expect(document).toContain('<wp:extent cx="19050" cy="9525"/>');
+    expect(document).toContain("Missing");
+    expect(strFromU8(zip["[Content_Types].xml"])).toContain('Extension="png"');
+    expect(file.messages.map((message) => message.reason)).toEqual([
+      "Could not embed image: missing.png",
+    ]);
+  });
+
+  it("round-trips through the DOCX parser", async () => {
+    const toDocx = new Processor(createMarkdownParser(), createDocxCompiler());
+    const bytes = await Effect.runPromise(
+      toDocx.process("## Heading\n\n- *item*\n")
+    );
+
+    const tree = await Effect.runPromise(createDocxParser().parse(bytes));
+    const [heading, list] = tree.children as Array<Node & { depth?: number }>;
+
+    expect(heading.type).toBe("heading");
+    expect(heading.depth).toBe(2);
+    expect(list.type).toBe("list");
+    expect(list).toMatchObject({ ordered: false });
+  });
+});
@@ -0,0 +1,801 @@
+/**
+ * DOCX compiler
+ * Serializes a document tree into a WordprocessingML (.docx) package
+ *
+ * Consumes the intermediate document model, so each parser pairs with this
+ * compiler in a single Processor:
+ *
+ * ```ts
+ * const markdownToDocx = new Processor(createMarkdownParser(), createDocxCompiler());
+ * const asciidocToDocx = new Processor(createAsciiDocParser(), createDocxCompiler());
+ * ```
+ */
+
+import { Effect, pipe } from "effect";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import type { VFile } from "vfile";
+import {
+  createCompileError,
+  type CompileError,
+  type Compiler,
+  type Node,
+  isFlowContent,
+  isPhrasingContent,
+  type DocumentRoot,
+  type Parent,
+} from "ndoctrinate-core";
+import { writeOoxmlPackage } from "../ooxml/package.js";
+import { EMU_PER_PIXEL, inspectImage, type ImageInfo } from "../ooxml/media.js";
+import {
+  contentTypesXml,
+  documentXml,
+  footnotesXml,
+  numberingXml,
+  packageRelationshipsXml,
+  relationshipsXml,
+  stylesXml,
+  type NumberingInstance,
+  type RelationshipEntry,
+} from "../ooxml/parts.js";
+import { escapeXml } from "../ooxml/xml.js";
+
+/**
+ * Widest image that fits between the default page margins (6.5in)
+ */
+const MAX_IMAGE_WIDTH_EMU = 5943600;
+
+/**
+ * Size used when an image header cannot be read (4in x 3in)
+ */
+const DEFAULT_IMAGE_SIZE_EMU = { width: 3657600, height: 2743200 };
+
+/**
+ * Character formatting in effect while rendering runs
+ */
+interface Marks {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strike?: boolean;
+  vertAlign?: "superscript" | "subscript";
+  style?: string;
+  code?: boolean;
+}
+
+/**
+ * Paragraph settings inherited by nested blocks
+ */
+interface BlockContext {
+  style?: string;
+  marks?: Marks;
+  align?: string;
+  indent?: number;
+  /**
+   * Runs to place at the start of the next paragraph (list checkboxes,
+   * admonition labels, footnote marks); consumed once rendered
+   */
+  prefix?: string;
+}
+
+/**
+ * An image loaded for embedding
+ */
+interface LoadedImage {
+  bytes: Uint8Array;
+  info: ImageInfo;
+  target: string;
+}
+
+/**
+ * State shared while rendering one package
+ */
+interface CompileContext {
+  file: VFile;
+  relationships: RelationshipEntry[];
+  images: Map<string, LoadedImage | undefined>;
+  numbering: NumberingInstance[];
+  footnoteDefinitions: Map<string, Parent>;
+  footnoteIds: Map<string, number>;
+  nextBookmarkId: number;
+  nextDrawingId: number;
+}
+
+function children(node: Node): Node[] {
+  return "children" in node && Array.isArray(node.children)
+    ? (node.children as Node[])
+    : [];
+}
+
+function stringField(node: Node, field: string): string | undefined {
+  const value = (node as unknown as Record<string, unknown>)[field];
+  return typeof value === "string" ? value : undefined;
+}
+
+function numberField(node: Node, field: string): number | undefined {
+  const value = (node as unknown as Record<string, unknown>)[field];
+  return typeof value === "number" ? value : undefined;
+}
+
+/**
+ * Collect every node of a given type, depth first
+ */
+function collect(node: Node, type: string, result: Node[] = []): Node[] {
+  if (node.type === type) {
+    result.push(node);
+  }
+  for (const child of children(node)) {
+    collect(child, type, result);
+  }
+  return result;
+}
+
+/**
+ * Relationship id for a target in the current part, adding it if needed
+ */
+function relate(
+  ctx: CompileContext,
+  type: RelationshipEntry["type"],
+  target: string,
+  external = false
+): string {
+  const existing = ctx.relationships.find(
+    (rel) => rel.type === type && rel.target === target
+  );
+  if (existing) {
+    return existing.id;
+  }
+  const id = `rId${ctx.relationships.length + 1}`;
+  ctx.relationships.push({ id, type, target, external });
+  return id;
+}
+
+/**
+ * Read image bytes from VFile media, a data URL or the filesystem
+ */
+function readImage(
+  url: string,
+  file: VFile
+): Effect.Effect<Uint8Array | undefined, never, never> {
+  const embedded = file.data.media?.[url];
+  if (embedded) {
+    return Effect.succeed(embedded);
+  }
+
+  const dataUrl = /^data:[^,]*;base64,(.*)$/s.exec(url);
+  if (dataUrl) {
+    return Effect.sync(() =>
+      Uint8Array.from(atob(dataUrl[1]), (char) => char.charCodeAt(0))
+    );
+  }
+
+  // Remote images are not fetched
+  if (/^[a-z][a-z\d+.-]*:/i.test(url)) {
+    return Effect.succeed(undefined);
+  }
+
+  const base = file.dirname ? path.resolve(file.cwd, file.dirname) : file.cwd;
+  return pipe(
+    Effect.tryPromise(() =>
+      fs.readFile(path.resolve(base, decodeURIComponent(url)))
+    ),
+    Effect.map((buffer): Uint8Array | undefined => new Uint8Array(buffer)),
+    Effect.orElseSucceed(() => undefined)
+  );
+}
+
+/**
+ * Load every image referenced by the tree ahead of rendering
+ * Images that cannot be read or are not a supported format are reported
+ * as VFile warnings and rendered as their alt text
+ */
+function loadImages(
+  tree: Node,
+  file: VFile
+): Effect.Effect<Map<string, LoadedImage | undefined>, never, never> {
+  const nodes = collect(tree, "image");
+  const urls = [
+    ...new Set(nodes.map((node) => stringField(node, "url") ?? "")),
+  ];
+
+  return pipe(
+    Effect.forEach(urls, (url) => readImage(url, file)),
+    Effect.map((loaded) => {
+      const images = new Map<string, LoadedImage | undefined>();
+      urls.forEach((url, index) => {
+        const bytes = loaded[index];
+        const info = bytes ? inspectImage(bytes) : undefined;
+        if (bytes && info) {
+          images.set(url, {
+            bytes,
+            info,
+            target: `media/image${images.size + 1}.${info.extension}`,
+          });
+        } else {
+          images.set(url, undefined);
+          const node = nodes.find((n) => stringField(n, "url") === url);
+          file.message(`Could not embed image: ${url}`, {
+            place: node?.position,
+            ruleId: "image",
+            source: "docx-compiler",
+          });
+        }
+      });
+      return images;
+    })
+  );
+}
+
+/**
+ * Render a run of text with the given formatting
+ */
+function textRun(text: string, marks: Marks = {}): string {
+  if (text === "") {
+    return "";
+  }
+  const properties = [
+    marks.code ? '<w:rStyle w:val="CodeChar"/>' : "",
+    !marks.code && marks.style
+      ? `<w:rStyle w:val="${escapeXml(marks.style)}"/>`
+      : "",
+    marks.bold ? "<w:b/>" : "",
+    marks.italic ? "<w:i/>" : "",
+    marks.strike ? "<w:strike/>" : "",
+    marks.underline ? '<w:u w:val="single"/>' : "",
+    marks.vertAlign ? `<w:vertAlign w:val="${marks.vertAlign}"/>` : "",
+  ].join("");
+  const rPr = properties ? `<w:rPr>${properties}</w:rPr>` : "";
+
+  // Tabs are elements of their own; soft line breaks read as spaces
+  const content = text
+    .replace(/\r?\n/g, " ")
+    .split("\t")
+    .map((part) =>
+      part ? `<w:t xml:space="preserve">${escapeXml(part)}</w:t>` : ""
+    )
+    .join("<w:tab/>");
+  return `<w:r>${rPr}${content}</w:r>`;
+}
+
+/**
+ * Render an inline image as a DrawingML picture
+ */
+function imageRun(node: Node, ctx: CompileContext, marks: Marks): string {
+  const url = stringField(node, "url") ?? "";
+  const alt = stringField(node, "alt") ?? "";
+  const image = ctx.images.get(url);
+  if (!image) {
+    return textRun(alt, marks);
+  }
+
+  const relId = relate(ctx, "image", image.target);
+  const pixels = {
+    width: numberField(node, "width") ?? image.info.width,
+    height: numberField(node, "height") ?? image.info.height,
+  };
+  let { width, height } = DEFAULT_IMAGE_SIZE_EMU;
+  if (pixels.width && pixels.height) {
+    width = pixels.width * EMU_PER_PIXEL;
+    height = pixels.height * EMU_PER_PIXEL;
+  }
+  if (width > MAX_IMAGE_WIDTH_EMU) {
+    height = Math.round((height * MAX_IMAGE_WIDTH_EMU) / width);
+    width = MAX_IMAGE_WIDTH_EMU;
+  }
+
+  const id = ctx.nextDrawingId++;
+  const name = `Picture ${id}`;
+  return (
+    `<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0">` +
+    `<wp:extent cx="${width}" cy="${height}"/>` +
+    `<wp:docPr id="${id}" name="${name}" descr="${escapeXml(alt)}"/>` +
+    `<a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture">` +
+    `<pic:pic><pic:nvPicPr><pic:cNvPr id="${id}" name="${name}"/><pic:cNvPicPr/></pic:nvPicPr>` +
+    `<pic:blipFill><a:blip r:embed="${relId}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>` +
+    `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${width}" cy="${height}"/></a:xfrm>` +
+    `<a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr></pic:pic>` +
+    `</a:graphicData></a:graphic></wp:inline></w:drawing></w:r>`
+  );
+}
+
+/**
+ * Render phrasing content as runs
+ */
+function renderInlines(
+  nodes: Node[],
+  ctx: CompileContext,
+  marks: Marks
+): string {
+  return nodes.map((node) => renderInline(node, ctx, marks)).join("");
+}
+
+function renderInline(node: Node, ctx: CompileContext, marks: Marks): string {
+  switch (node.type) {
+    case "text":
+      return textRun(stringField(node, "value") ?? "", marks);
+    case "inlineCode":
+      return textRun(stringField(node, "value") ?? "", {
+        ...marks,
+        code: true,
+      });
+    case "break":
+      return "<w:r><w:br/></w:r>";
+    case "emphasis":
+      return renderInlines(children(node), ctx, { ...marks, italic: true });
+    case "strong":
+      return renderInlines(children(node), ctx, { ...marks, bold: true });
+    case "delete":
+      return renderInlines(children(node), ctx, { ...marks, strike: true });
+    case "superscript":
+    case "subscript":
+      return renderInlines(children(node), ctx, {
+        ...marks,
+        vertAlign: node.type,
+      });
+    case "underline":
+      return renderInlines(children(node), ctx, { ...marks, underline: true });
+    case "citation": {
+      if (children(node).length > 0) {
+        return renderInlines(children(node), ctx, marks);
+      }
+      const { keys, locator } = node as Node & {
+        keys?: string[];
+        locator?: string;
+      };
+      return textRun(
+        `[${(keys ?? []).join("; ")}${locator ? `, ${locator}` : ""}]`,
+        marks
+      );
+    }
+    case "image":
+      return imageRun(node, ctx, marks);
+    case "link":
+    case "crossReference": {
+      const target =
+        node.type === "link"
+          ? (stringField(node, "url") ?? "")
+          : `#${stringField(node, "identifier") ?? ""}`;
+      const label = children(node).length
+        ? renderInlines(children(node), ctx, { ...marks, style: "Hyperlink" })
+        : textRun(target.replace(/^#/, ""), { ...marks, style: "Hyperlink" });
+      if (target.startsWith("#")) {
+        return `<w:hyperlink w:anchor="${escapeXml(target.slice(1))}">${label}</w:hyperlink>`;
+      }
+      if (!target) {
+        return label;
+      }
+      const relId = relate(ctx, "hyperlink", target, true);
+      return `<w:hyperlink r:id="${relId}">${label}</w:hyperlink>`;
+    }
+    case "footnoteReference": {
+      const identifier = stringField(node, "identifier") ?? "";
+      if (!ctx.footnoteDefinitions.has(identifier)) {
+        ctx.file.message(`Missing footnote definition: ${identifier}`, {
+          place: node.position,
+          ruleId: "footnote",
+          source: "docx-compiler",
+        });
+        return "";
+      }
+      let id = ctx.footnoteIds.get(identifier);
+      if (id === undefined) {
+        id = ctx.footnoteIds.size + 1;
+        ctx.footnoteIds.set(identifier, id);
+      }
+      return `<w:r><w:rPr><w:rStyle w:val="FootnoteReference"/></w:rPr><w:footnoteReference w:id="${id}"/></w:r>`;
+    }
+    case "html":
+      return "";
+    default: {
+      const value = stringField(node, "value");
+      return value !== undefined
+        ? textRun(value, marks)
+        : renderInlines(children(node), ctx, marks);
+    }
+  }
+}
+
+/**
+ * Render a paragraph with inherited block settings
+ */
+function paragraph(
+  content: string,
+  block: BlockContext,
+  options: { style?: string; numbering?: { numId: number; level: number } } = {}
+): string {
+  const style = options.style ?? block.style;
+  const properties = [
+    style ? `<w:pStyle w:val="${style}"/>` : "",
+    options.numbering
+      ? `<w:numPr><w:ilvl w:val="${options.numbering.level}"/><w:numId w:val="${options.numbering.numId}"/></w:numPr>`
+      : "",
+    block.indent && !options.numbering
+      ? `<w:ind w:left="${block.indent}"/>`
+      : "",
+    block.align ? `<w:jc w:val="${block.align}"/>` : "",
+  ].join("");
+  const prefix = block.prefix ?? "";
+  block.prefix = undefined;
+  return `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ""}${prefix}${content}</w:p>`;
+}
+
+/**
+ * Render a list, allocating a numbering instance for it
+ */
+function renderList(
+  node: Node,
+  ctx: CompileContext,
+  block: BlockContext,
+  level: number
+): string {
+  const ordered = (node as Node & { ordered?: boolean }).ordered === true;
+  const numId = ctx.numbering.length + 1;
+  ctx.numbering.push({
+    numId,
+    kind: ordered ? "decimal" : "bullet",
+    level,
+    start: numberField(node, "start") ?? 1,
+  });
+
+  return children(node)
+    .map((item) => {
+      const checked = (item as Node & { checked?: boolean | null }).checked;
+      const itemBlock: BlockContext = {
+        ...block,
+        indent: 720 * (level + 1),
+        prefix:
+          typeof checked === "boolean"
+            ? textRun(checked ? "☒ " : "☐ ", block.marks)
+            : undefined,
+      };
+      const [first, ...rest] = children(item);
+      const numbering = { numId, level };
+
+      let xml: string;
+      if (first && (first.type === "paragraph" || isPhrasingContent(first))) {
+        const content = first.type === "paragraph" ? children(first) : [first];
+        xml = paragraph(
+          renderInlines(content, ctx, block.marks ?? {}),
+          itemBlock,
+          { style: block.style ?? "ListParagraph", numbering }
+        );
+      } else {
+        // Keep the number even when an item starts with another block
+        xml =
+          paragraph("", itemBlock, {
+            style: block.style ?? "ListParagraph",
+            numbering,
+          }) + (first ? renderItemBlock(first, ctx, itemBlock, level) : "");
+      }
+      return (
+        xml +
+        rest
+          .map((child) => renderItemBlock(child, ctx, itemBlock, level))
+          .join("")
+      );
+    })
+    .join("");
+}
+
+function renderItemBlock(
+  node: Node,
+  ctx: CompileContext,
+  block: BlockContext,
+  level: number
+): string {
+  return node.type === "list"
+    ? renderList(node, ctx, { ...block, prefix: undefined }, level + 1)
+    : renderBlock(node, ctx, block);
+}
+
+/**
+ * Render a table, translating column and row spans into grid spans and
+ * vertical merges
+ */
+function renderTable(
+  node: Node,
+  ctx: CompileContext,
+  block: BlockContext
+): string {
+  const rows = children(node);
+  const align = (node as Node & { align?: Array<string | null> }).align;
+  const span = (cell: Node) => numberField(cell, "colSpan") ?? 1;
+  const columns = Math.max(
+    1,
+    ...rows.map((row) =>
+      children(row).reduce((sum, cell) => sum + span(cell), 0)
+    )
+  );
+  const gridWidth = Math.floor(9360 / columns);
+
+  const merges = new Map<number, { remaining: number; span: number }>();
+  const rowsXml = rows.map((row, rowIndex) => {
+    // mdast tables (which carry `align`) always start with a header row
+    const header =
+      (row as Node & { header?: boolean }).header === true ||
+      (rowIndex === 0 && Array.isArray(align));
+    const cellBlock: BlockContext = {
+      ...block,
+      prefix: undefined,
+      marks: header ? { ...block.marks, bold: true } : block.marks,
+    };
+
+    let column = 0;
+    let cellsXml = "";
+    const continueMerges = () => {
+      let merge = merges.get(column);
+      while (merge && merge.remaining > 0) {
+        merge.remaining--;
+        cellsXml +=
+          `<w:tc><w:tcPr>${merge.span > 1 ? `<w:gridSpan w:val="${merge.span}"/>` : ""}` +
+          "<w:vMerge/></w:tcPr><w:p/></w:tc>";
+        column += merge.span;
+        merge = merges.get(column);
+      }
+    };
+
+    children(row).forEach((cell, cellIndex) => {
+      continueMerges();
+      const colSpan = span(cell);
+      const rowSpan = numberField(cell, "rowSpan") ?? 1;
+      if (rowSpan > 1) {
+        merges.set(column, { remaining: rowSpan - 1, span: colSpan });
+      }
+      const cellAlign = align?.[cellIndex] ?? undefined;
+      const content = children(cell);
+      const contentBlock = { ...cellBlock, align: cellAlign };
+      let body = content.every(isPhrasingContent)
+        ? content.length
+          ? paragraph(
+              renderInlines(content, ctx, cellBlock.marks ?? {}),
+              contentBlock
+            )
+          : ""
+        : renderBlocks(content, ctx, contentBlock);
+      if (!body.endsWith("</w:p>")) {
+        body += "<w:p/>";
+      }
+      cellsXml +=
+        `<w:tc><w:tcPr><w:tcW w:w="${gridWidth * colSpan}" w:type="dxa"/>` +
+        (colSpan > 1 ? `<w:gridSpan w:val="${colSpan}"/>` : "") +
+        (rowSpan > 1 ? '<w:vMerge w:val="restart"/>' : "") +
+        `</w:tcPr>${body}</w:tc>`;
+      column += colSpan;
+    });
+    continueMerges();
+
+    return `<w:tr>${header ? "<w:trPr><w:tblHeader/></w:trPr>" : ""}${cellsXml}</w:tr>`;
+  });
+
+  return (
+    '<w:tbl><w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="5000" w:type="pct"/></w:tblPr>' +
+    `<w:tblGrid>${`<w:gridCol w:w="${gridWidth}"/>`.repeat(columns)}</w:tblGrid>` +
+    rowsXml.join("") +
+    "</w:tbl>"
+  );
+}
+
+/**
+ * Render a bookmark so cross references can target a block
+ */
+function bookmark(node: Node, ctx: CompileContext): string {
+  const id = stringField(node, "id") ?? stringField(node, "identifier");
+  if (!id) {
+    return "";
+  }
+  const bookmarkId = ctx.nextBookmarkId++;
+  return `<w:bookmarkStart w:id="${bookmarkId}" w:name="${escapeXml(id)}"/><w:bookmarkEnd w:id="${bookmarkId}"/>`;
+}
+
+/**
+ * Render block content
+ */
+function renderBlocks(
+  nodes: Node[],
+  ctx: CompileContext,
+  block: BlockContext
+): string {
+  return nodes.map((node) => renderBlock(node, ctx, block)).join("");
+}
+
+function renderBlock(
+  node: Node,
+  ctx: CompileContext,
+  block: BlockContext
+): string {
+  // Block titles are written as a caption above the block
+  const title =
+    isFlowContent(node) && node.type !== "heading"
+      ? stringField(node, "title")
+      : undefined;
+  const xml = renderBlockContent(node, ctx, block);
+  return title
+    ? paragraph(textRun(title), {}, { style: "Caption" }) + xml
+    : xml;
+}
+
+function renderBlockContent(
+  node: Node,
+  ctx: CompileContext,
+  block: BlockContext
+): string {
+  const marks = block.marks ?? {};
+  switch (node.type) {
+    case "heading": {
+      const depth = Math.min(Math.max(numberField(node, "depth") ?? 1, 1), 6);
+      return paragraph(
+        bookmark(node, ctx) + renderInlines(children(node), ctx, marks),
+        block,
+        { style: `Heading${depth}` }
+      );
+    }
+    case "paragraph":
+      return paragraph(renderInlines(children(node), ctx, marks), block);
+    case "list":
+      return renderList(node, ctx, block, 0);
+    case "table":
+      return renderTable(node, ctx, block);
+    case "code": {
+      const lines = (stringField(node, "value") ?? "").split("\n");
+      return paragraph(
+        lines
+          .map((line) => (line ? textRun(line, marks) : ""))
+          .join("<w:r><w:br/></w:r>"),
+        block,
+        { style: "Code" }
+      );
+    }
+    case "blockquote":
+      return renderBlocks(children(node), ctx, { ...block, style: "Quote" });
+    case "admonition": {
+      const kind = stringField(node, "kind") ?? "note";
+      const label = kind.charAt(0).toUpperCase() + kind.slice(1);
+      return renderBlocks(children(node), ctx, {
+        ...block,
+        prefix: textRun(`${label}: `, { ...marks, bold: true }),
+      });
+    }
+    case "thematicBreak":
+      return '<w:p><w:pPr><w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="auto"/></w:pBdr></w:pPr></w:p>';
+    case "pageBreak":
+      return '<w:p><w:r><w:br w:type="page"/></w:r></w:p>';
+    case "figure":
+      return bookmark(node, ctx) + renderBlocks(children(node), ctx, block);
+    case "caption":
+      return paragraph(renderInlines(children(node), ctx, marks), block, {
+        style: "Caption",
+      });
+    // Content that has no place in the document body
+    case "footnoteDefinition":
+    case "html":
+      return "";
+    default: {
+      if (isPhrasingContent(node)) {
+        return paragraph(renderInline(node, ctx, marks), block);
+      }
+      const value = stringField(node, "value");
+      if (value !== undefined) {
+        return paragraph(textRun(value, marks), block);
+      }
+      // Containers such as sections, examples and sidebars
+      return bookmark(node, ctx) + renderBlocks(children(node), ctx, block);
+    }
+  }
+}
+
+/**
+ * Render the package parts for a tree
+ */
+function renderPackage(
+  tree: DocumentRoot,
+  file: VFile,
+  images: Map<string, LoadedImage | undefined>
+): Uint8Array {
+  const footnoteDefinitions = new Map<string, Parent>();
+  for (const definition of collect(tree, "footnoteDefinition")) {
+    footnoteDefinitions.set(
+      stringField(definition, "identifier") ?? "",
+      definition as Parent
+    );
+  }
+
+  const ctx: CompileContext = {
+    file,
+    relationships: [
+      { id: "rId1", type: "styles", target: "styles.xml" },
+      { id: "rId2", type: "numbering", target: "numbering.xml" },
+      { id: "rId3", type: "footnotes", target: "footnotes.xml" },
+    ],
+    images,
+    numbering: [],
+    footnoteDefinitions,
+    footnoteIds: new Map(),
+    nextBookmarkId: 1,
+    nextDrawingId: 1,
+  };
+
+  const body = renderBlocks(children(tree), ctx, {});
+  const documentRelationships = ctx.relationships;
+
+  // Footnotes live in their own part, with their own relationships
+  ctx.relationships = [];
+  const footnotes: string[] = [];
+  const rendered = new Set<string>();
+  for (let pending = [...ctx.footnoteIds]; pending.length > 0; ) {
+    for (const [identifier, id] of pending) {
+      rendered.add(identifier);
+      const content = renderBlocks(
+        children(ctx.footnoteDefinitions.get(identifier)!),
+        ctx,
+        {
+          style: "FootnoteText",
+          prefix:
+            '<w:r><w:rPr><w:rStyle w:val="FootnoteReference"/></w:rPr><w:footnoteRef/></w:r><w:r><w:t xml:space="preserve"> </w:t></w:r>',
+        }
+      );
+      footnotes.push(
+        `<w:footnote w:id="${id}">${content || "<w:p/>"}</w:footnote>`
+      );
+    }
+    // Footnotes may reference further footnotes
+    pending = [...ctx.footnoteIds].filter(
+      ([identifier]) => !rendered.has(identifier)
+    );
+  }
+
+  const media = [...images.values()].filter(
+    (image): image is LoadedImage => image !== undefined
+  );
+  const parts: Record<string, string | Uint8Array> = {
+    "[Content_Types].xml": contentTypesXml(media.map((image) => image.info)),
+    "_rels/.rels": packageRelationshipsXml(),
+    "word/document.xml": documentXml(body),
+    "word/_rels/document.xml.rels": relationshipsXml(documentRelationships),
+    "word/styles.xml": stylesXml(),
+    "word/numbering.xml": numberingXml(ctx.numbering),
+    "word/footnotes.xml": footnotesXml(footnotes),
+  };
+  if (ctx.relationships.length > 0) {
+    parts["word/_rels/footnotes.xml.rels"] = relationshipsXml(
+      ctx.relationships
+    );
+  }
+  for (const image of media) {
+    parts[`word/${image.target}`] = image.bytes;
+  }
+  return writeOoxmlPackage(parts);
+}
+
+/**
+ * Create a compiler that writes a tree as a .docx package
+ *
+ * Headings map to the built-in Heading 1-6 styles, lists get real numbering
+ * definitions (restarting per ordered list), and footnotes, tables and
+ * images are written as native Word constructs. Images are read from
+ * `file.data.media`, data URLs or paths relative to the VFile; images that
+ * cannot be embedded are reported as VFile warnings.
+ *
+ * @returns A compiler from a root node to .docx bytes
+ */
+export function createDocxCompiler(): Compiler<DocumentRoot, Uint8Array> {
+  return {
+    compile(
+      tree: DocumentRoot,
+      file: VFile
+    ): Effect.Effect<Uint8Array, CompileError, never> {
+      return pipe(
+        loadImages(tree, file),
+        Effect.flatMap((images) =>
+          Effect.try({
+            try: () => renderPackage(tree, file, images),
+            catch: (error) =>
+              createCompileError(
+                `Failed to write DOCX document: ${error instanceof Error ? error.message : String(error)}`,
+                error instanceof Error ? error : new Error(String(error))
+              ),
+          })
+        )
+      );
+    },
+  };
+}
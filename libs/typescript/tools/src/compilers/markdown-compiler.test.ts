@@ -0,0 +1,74 @@
+/**
+ * Tests for the Markdown compiler
+ */
+
+import { describe, it, expect } from "bun:test";
+import { Effect } from "effect";
+import {
+  createVFile,
+  DOCUMENT_MODEL_VERSION,
+  Processor,
+} from "ndoctrinate-core";
+import { createMarkdownCompiler } from "./markdown-compiler.js";
+import { createAsciiDocParser } from "../parsers/asciidoc-parser.js";
+
+describe("createMarkdownCompiler", () => {
+  const compiler = createMarkdownCompiler();
+
+  it("should lower AsciiDoc constructs to Markdown", async () => {
+    const processor = new Processor(createAsciiDocParser(), compiler);
+    const output = await Effect.runPromise(
+      processor.process(
+        [
+          "== Setup",
+          "",
+          "NOTE: Read this first.",
+          "",
+          "E = mc^2^, see <<_setup>>.",
+        ].join("\n")
+      )
+    );
+
+    expect(output).toBe(
+      [
+        "## Setup",
+        "",
+        "> **Note:**",
+        ">",
+        "> Read this first.",
+        "",
+        "E = mc<sup>2</sup>, see [\\_setup](#_setup).",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("should write citations and front matter", async () => {
+    const output = await Effect.runPromise(
+      compiler.compile(
+        {
+          type: "root",
+          version: DOCUMENT_MODEL_VERSION,
+          data: { frontmatter: { format: "yaml", value: "title: A" } },
+          children: [
+            {
+              type: "paragraph",
+              children: [
+                { type: "text", value: "As shown " },
+                {
+                  type: "citation",
+                  keys: ["knuth84"],
+                  locator: "p. 12",
+                  children: [],
+                },
+              ],
+            },
+          ],
+        },
+        createVFile("")
+      )
+    );
+
+    expect(output).toBe("---\ntitle: A\n---\n\nAs shown [@knuth84, p. 12]\n");
+  });
+});
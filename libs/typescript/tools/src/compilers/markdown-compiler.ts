@@ -0,0 +1,60 @@
+/**
+ * Markdown compiler
+ * Serializes a document tree into Markdown source
+ */
+
+import { frontmatterToMarkdown } from "mdast-util-frontmatter";
+import { gfmToMarkdown } from "mdast-util-gfm";
+import { toMarkdown } from "mdast-util-to-markdown";
+import {
+  adaptUnifiedCompiler,
+  type Compiler,
+  type DocumentRoot,
+} from "ndoctrinate-core";
+import { toMdast } from "../mdast/to-mdast.js";
+import { frontmatterPresets } from "../parsers/markdown-parser.js";
+
+/**
+ * Options for the Markdown compiler
+ */
+export interface MarkdownCompilerOptions {
+  /**
+   * Serialize GitHub Flavored Markdown constructs
+   * @default true
+   */
+  gfm?: boolean;
+  /**
+   * Serialize YAML and TOML front matter
+   * @default true
+   */
+  frontmatter?: boolean;
+}
+
+/**
+ * Create a Markdown compiler that serializes a document tree
+ * Constructs without Markdown syntax are lowered as described in `toMdast`
+ *
+ * @param options - Syntax extensions to enable
+ * @returns A compiler from a document root to Markdown source
+ */
+export function createMarkdownCompiler(
+  options: MarkdownCompilerOptions = {}
+): Compiler<DocumentRoot, string> {
+  const enableGfm = options.gfm ?? true;
+  const enableFrontmatter = options.frontmatter ?? true;
+
+  const extensions = [
+    ...(enableGfm ? [gfmToMarkdown()] : []),
+    ...(enableFrontmatter
+      ? [frontmatterToMarkdown([...frontmatterPresets])]
+      : []),
+  ];
+
+  return {
+    ...adaptUnifiedCompiler((tree) =>
+      toMarkdown(toMdast(tree as DocumentRoot), { extensions })
+    ),
+    // Every chunk ends in a line break; one more separates the blocks
+    blockSeparator: "\n",
+  };
+}
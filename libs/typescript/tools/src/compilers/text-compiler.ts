@@ -0,0 +1,59 @@
+/**
+ * Plain text compiler
+ * Flattens a document tree into readable text
+ */
+
+import { Effect } from "effect";
+import {
+  isPhrasingContent,
+  type CompileError,
+  type Compiler,
+  type DocumentRoot,
+  type Node,
+} from "ndoctrinate-core";
+
+/**
+ * Render a node and its descendants as text
+ */
+function toText(node: Node): string {
+  if (node.type === "break") {
+    return "\n";
+  }
+  if ("value" in node && typeof node.value === "string") {
+    return node.value;
+  }
+  if (node.type === "citation" && "keys" in node && Array.isArray(node.keys)) {
+    return `[${node.keys.join("; ")}]`;
+  }
+  if (!("children" in node) || !Array.isArray(node.children)) {
+    return "";
+  }
+
+  const children = node.children as Node[];
+  const parts = children.map(toText);
+  switch (node.type) {
+    case "tableRow":
+      return parts.join("\t");
+    case "table":
+      return parts.join("\n");
+    default:
+      return children.every(isPhrasingContent)
+        ? parts.join("")
+        : parts.filter((part) => part.length > 0).join("\n\n");
+  }
+}
+
+/**
+ * Create a compiler that renders a tree as plain text
+ * Block nodes are separated by blank lines and table cells by tabs
+ *
+ * @returns A compiler from a document root to a string
+ */
+export function createTextCompiler(): Compiler<DocumentRoot, string> {
+  return {
+    compile(tree: DocumentRoot): Effect.Effect<string, CompileError, never> {
+      return Effect.succeed(toText(tree));
+    },
+    blockSeparator: "\n\n",
+  };
+}
@@ -0,0 +1,301 @@
+/**
+ * Tests for project configuration loading and pipeline building
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Effect } from "effect";
+import * as fs from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  createTransformer,
+  createVFile,
+  documentTreeType,
+  type DocumentRoot,
+} from "ndoctrinate-core";
+import {
+  buildPipeline,
+  createBuiltinRegistry,
+  loadPlugins,
+  findConfigFile,
+  loadConfig,
+  runPipeline,
+  tracePipeline,
+  validateConfig,
+} from "./index.js";
+
+describe("validateConfig", () => {
+  it("should accept string and object component references", () => {
+    const result = validateConfig({
+      defaults: { pipeline: "docs" },
+      pipelines: {
+        docs: {
+          parser: { name: "markdown", options: { gfm: false } },
+          transformers: ["validate-document"],
+          compiler: "docx",
+          input: "docs/**/*.md",
+          output: "build",
+        },
+      },
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("should list every schema problem", () => {
+    const result = validateConfig({
+      pipelines: { docs: { parser: 1, transformers: "x" } },
+    });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error._tag).toBe("ValidationError");
+      expect(result.error.issues.length).toBeGreaterThanOrEqual(3);
+    }
+  });
+
+  it("should reject a default pipeline that does not exist", () => {
+    const result = validateConfig({
+      defaults: { pipeline: "missing" },
+      pipelines: {},
+    });
+    expect(result).toMatchObject({
+      success: false,
+      error: { issues: ['defaults.pipeline names unknown pipeline "missing"'] },
+    });
+  });
+});
+
+describe("buildPipeline", () => {
+  it("should apply configured transformers in order", async () => {
+    const visited: string[] = [];
+    const registry = createBuiltinRegistry().register({
+      manifest: {
+        name: "mark",
+        version: "1.0.0",
+        kind: "transformer",
+        treeType: documentTreeType,
+        core: "*",
+      },
+      create: (options) =>
+        createTransformer<DocumentRoot>((tree) => {
+          visited.push(String((options as { label: string }).label));
+          return tree;
+        }),
+    });
+    if (!registry.success) {
+      throw new Error(registry.error.message);
+    }
+
+    const pipeline = await Effect.runPromise(
+      buildPipeline(
+        "test",
+        {
+          parser: "markdown",
+          transformers: [
+            { name: "mark", options: { label: "a" } },
+            { name: "mark", options: { label: "b" } },
+          ],
+          compiler: "text",
+        },
+        registry.value
+      )
+    );
+    const output = await Effect.runPromise(
+      runPipeline(
+        pipeline,
+        new TextEncoder().encode("# Hello"),
+        createVFile("")
+      )
+    );
+
+    expect(output).toContain("Hello");
+    expect(visited).toEqual(["a", "b"]);
+    expect(pipeline).toMatchObject({
+      from: "markdown",
+      to: "text",
+      extension: ".txt",
+      binaryInput: false,
+    });
+  });
+
+  it("should trace the tree after each transformer", async () => {
+    const registry = createBuiltinRegistry().register({
+      manifest: {
+        name: "drop-first",
+        version: "1.0.0",
+        kind: "transformer",
+        treeType: documentTreeType,
+        core: "*",
+      },
+      create: () =>
+        createTransformer<DocumentRoot>(
+          (tree) => ({ ...tree, children: tree.children.slice(1) }),
+          { name: "drop-first" }
+        ),
+    });
+    if (!registry.success) {
+      throw new Error(registry.error.message);
+    }
+
+    const pipeline = await Effect.runPromise(
+      buildPipeline(
+        "test",
+        {
+          parser: "markdown",
+          transformers: ["drop-first"],
+          compiler: "text",
+        },
+        registry.value
+      )
+    );
+    const { output, snapshots } = await Effect.runPromise(
+      tracePipeline(
+        pipeline,
+        new TextEncoder().encode("# Title\n\nText"),
+        createVFile("")
+      )
+    );
+
+    expect(output).toBe(
+      await Effect.runPromise(
+        runPipeline(
+          pipeline,
+          new TextEncoder().encode("# Title\n\nText"),
+          createVFile("")
+        )
+      )
+    );
+    expect(
+      snapshots.map(({ step, tree }) => [step, tree.children.length])
+    ).toEqual([
+      ["parse", 2],
+      ["drop-first", 1],
+    ]);
+  });
+
+  it("should fail with a PluginError for an unknown component", async () => {
+    const error = await Effect.runPromise(
+      Effect.flip(
+        buildPipeline("docs", {
+          parser: "markdown",
+          transformers: ["toc"],
+          compiler: "docx",
+        })
+      )
+    );
+
+    expect(error).toMatchObject({ _tag: "PluginError", plugin: "toc" });
+    expect(error.message).toBe(
+      'Unknown transformer "toc" in pipeline "docs" (available: validate-document)'
+    );
+  });
+});
+
+describe("plugins", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), "ndoctrinate-plugins-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("should register the plugins a config lists and resolve versions", async () => {
+    const definition = (version: string, treeType: string) => `{
+      manifest: {
+        name: "shout", version: "${version}", kind: "transformer",
+        treeType: "${treeType}", core: "^0.1.0",
+      },
+      create: () => ({ transform: () => { throw new Error("not run"); } }),
+    }`;
+    await fs.writeFile(
+      join(dir, "shout.ts"),
+      `export default [${definition("1.0.0", "ndoctrinate")}, ${definition("2.0.0", "mdast")}];\n`
+    );
+
+    const registry = await Effect.runPromise(
+      loadPlugins(createBuiltinRegistry(), ["./shout.ts"], dir)
+    );
+    const pipeline = await Effect.runPromise(
+      buildPipeline(
+        "docs",
+        { parser: "markdown", transformers: ["shout@^1"], compiler: "text" },
+        registry
+      )
+    );
+    const mismatch = await Effect.runPromise(
+      Effect.flip(
+        buildPipeline(
+          "docs",
+          { parser: "markdown", transformers: ["shout"], compiler: "text" },
+          registry
+        )
+      )
+    );
+
+    expect(pipeline.from).toBe("markdown");
+    expect(mismatch).toMatchObject({ _tag: "PluginError", plugin: "shout" });
+    expect(mismatch.message).toBe(
+      'The transformer "shout" works on mdast trees, but parser "markdown" produces ndoctrinate trees in pipeline "docs"'
+    );
+  });
+
+  it("should reject invalid options and modules without definitions", async () => {
+    await fs.writeFile(join(dir, "empty.js"), "export default 42;\n");
+
+    const options = await Effect.runPromise(
+      Effect.flip(
+        buildPipeline("docs", {
+          parser: { name: "markdown", options: { gfm: "yes" } },
+          compiler: "text",
+        })
+      )
+    );
+    const module = await Effect.runPromise(
+      Effect.flip(loadPlugins(createBuiltinRegistry(), ["./empty.js"], dir))
+    );
+
+    expect(options).toMatchObject({
+      _tag: "ValidationError",
+      message: 'Invalid options for parser "markdown"',
+    });
+    expect(module.message).toBe(
+      "Plugin module ./empty.js does not export a plugin definition"
+    );
+  });
+});
+
+describe("loadConfig", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), "ndoctrinate-config-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("should prefer a TypeScript config and load its default export", async () => {
+    await fs.writeFile(
+      join(dir, "ndoctrinate.config.ts"),
+      'export default { pipelines: { docs: { parser: "markdown", compiler: "text" } } };\n'
+    );
+    await fs.writeFile(join(dir, "ndoctrinate.config.json"), "{}");
+
+    const path = await Effect.runPromise(findConfigFile(dir));
+    expect(path).toBe(join(dir, "ndoctrinate.config.ts"));
+
+    const config = await Effect.runPromise(loadConfig(path!));
+    expect(Object.keys(config.pipelines)).toEqual(["docs"]);
+  });
+
+  it("should report the path of an invalid JSON config", async () => {
+    const path = join(dir, "ndoctrinate.config.json");
+    await fs.writeFile(path, '{ "pipelines": { "docs": {} } }');
+
+    const error = await Effect.runPromise(Effect.flip(loadConfig(path)));
+    expect(error).toMatchObject({ _tag: "ValidationError", path });
+  });
+});
@@ -0,0 +1,32 @@
+/**
+ * Project configuration: named pipelines declared in
+ * `ndoctrinate.config.{ts,js,json}` and built into processors
+ */
+
+export type {
+  ComponentReference,
+  PipelineConfig,
+  ConfigDefaults,
+  ProjectConfig,
+} from "./types.js";
+export { ProjectConfigSchema, validateConfig } from "./schema.js";
+export {
+  builtinPlugins,
+  createBuiltinRegistry,
+  createProjectRegistry,
+  loadPlugins,
+  registerPlugins,
+} from "./plugins.js";
+export {
+  buildPipeline,
+  buildPipelines,
+  runPipeline,
+  tracePipeline,
+  type ConfiguredPipeline,
+} from "./pipeline.js";
+export {
+  configFileNames,
+  defineConfig,
+  findConfigFile,
+  loadConfig,
+} from "./load.js";
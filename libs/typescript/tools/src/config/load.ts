@@ -0,0 +1,108 @@
+/**
+ * Locating and loading project configuration files
+ */
+
+import { Effect } from "effect";
+import * as fs from "node:fs/promises";
+import { extname, join, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import {
+  createIoError,
+  createValidationError,
+  type DocumentProcessingError,
+} from "ndoctrinate-core";
+import { validateConfig } from "./schema.js";
+import type { ProjectConfig } from "./types.js";
+
+/**
+ * File names searched for, in order of preference
+ */
+export const configFileNames = [
+  "ndoctrinate.config.ts",
+  "ndoctrinate.config.js",
+  "ndoctrinate.config.json",
+] as const;
+
+/**
+ * Type a configuration object in an `ndoctrinate.config.ts` file
+ */
+export function defineConfig(config: ProjectConfig): ProjectConfig {
+  return config;
+}
+
+/**
+ * Find the configuration file in a directory
+ *
+ * @param directory - Directory to search, usually the working directory
+ * @returns The path of the first config file found, if any
+ */
+export function findConfigFile(
+  directory: string = process.cwd()
+): Effect.Effect<string | undefined> {
+  return Effect.promise(async () => {
+    for (const name of configFileNames) {
+      const path = join(directory, name);
+      const stats = await fs.stat(path).catch(() => undefined);
+      if (stats?.isFile()) {
+        return path;
+      }
+    }
+    return undefined;
+  });
+}
+
+function readConfigValue(
+  path: string
+): Effect.Effect<unknown, DocumentProcessingError> {
+  if (extname(path) === ".json") {
+    return Effect.flatMap(
+      Effect.tryPromise({
+        try: () => fs.readFile(path, "utf-8"),
+        catch: (error) =>
+          createIoError(`Failed to read config: ${path}`, "read", error, {
+            path,
+          }),
+      }),
+      (text) =>
+        Effect.try({
+          try: () => JSON.parse(text) as unknown,
+          catch: (error) =>
+            createValidationError(
+              "Configuration is not valid JSON",
+              [error instanceof Error ? error.message : String(error)],
+              { path }
+            ),
+        })
+    );
+  }
+
+  return Effect.tryPromise({
+    try: async () => {
+      const module = (await import(pathToFileURL(resolve(path)).href)) as {
+        default?: unknown;
+      };
+      return module.default;
+    },
+    catch: (error) =>
+      createIoError(`Failed to load config: ${path}`, "read", error, { path }),
+  });
+}
+
+/**
+ * Load and validate a configuration file
+ * TypeScript and JavaScript configs provide the configuration as their
+ * default export
+ *
+ * @param path - Path of an `ndoctrinate.config.{ts,js,json}` file
+ * @returns The validated configuration
+ */
+export function loadConfig(
+  path: string
+): Effect.Effect<ProjectConfig, DocumentProcessingError> {
+  return Effect.flatMap(readConfigValue(path), (value) => {
+    const result = validateConfig(value);
+    return result.success
+      ? Effect.succeed(result.value)
+      : Effect.fail({ ...result.error, path });
+  });
+}
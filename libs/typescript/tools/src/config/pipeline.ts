@@ -0,0 +1,269 @@
+/**
+ * Building `Processor` instances from pipeline configuration
+ */
+
+import { Effect } from "effect";
+import type { VFile } from "vfile";
+import {
+  Processor,
+  createPluginError,
+  parsePluginReference,
+  withErrorContext,
+  type Compiler,
+  type DocumentProcessingError,
+  type DocumentRoot,
+  type Parser,
+  type PluginDefinition,
+  type PluginError,
+  type PluginInstances,
+  type PluginKind,
+  type PluginRegistry,
+  type ProcessTrace,
+  type ValidationError,
+} from "ndoctrinate-core";
+import { decodeUtf8 } from "../processors/decode.js";
+import { createBuiltinRegistry } from "./plugins.js";
+import type {
+  ComponentReference,
+  PipelineConfig,
+  ProjectConfig,
+} from "./types.js";
+
+/**
+ * A pipeline ready to run, with the processor matching its parser's input
+ */
+export type ConfiguredPipeline = {
+  name: string;
+  config: PipelineConfig;
+  /** Parser name, used as the format in error context */
+  from: string;
+  /** Compiler name */
+  to: string;
+  /** Extension for files the compiler writes */
+  extension: string;
+  binaryOutput: boolean;
+} & (
+  | {
+      binaryInput: false;
+      processor: Processor<string, string | Uint8Array, DocumentRoot>;
+    }
+  | {
+      binaryInput: true;
+      processor: Processor<Uint8Array, string | Uint8Array, DocumentRoot>;
+    }
+);
+
+function lookup<K extends PluginKind>(
+  registry: PluginRegistry,
+  kind: K,
+  reference: ComponentReference,
+  pipeline: string
+): Effect.Effect<
+  { plugin: PluginDefinition<K>; instance: PluginInstances[K] },
+  PluginError | ValidationError
+> {
+  const { name } = parsePluginReference(reference);
+  if (registry.list({ kind, name }).length === 0) {
+    const names = registry.list({ kind }).map((manifest) => manifest.name);
+    const available = [...new Set(names)].join(", ") || "none";
+    return Effect.fail(
+      createPluginError(
+        `Unknown ${kind} "${name}" in pipeline "${pipeline}" (available: ${available})`,
+        name
+      )
+    );
+  }
+
+  const resolved = registry.resolve(kind, reference);
+  if (!resolved.success) {
+    return Effect.fail(resolved.error);
+  }
+  const created = registry.create(kind, reference);
+  return created.success
+    ? Effect.succeed({ plugin: resolved.value, instance: created.value })
+    : Effect.fail(created.error);
+}
+
+/**
+ * Name a parser or transformer for caching by its plugin, the plugin's
+ * version and the options it was created with, unless it names itself
+ */
+function withCacheKey<T extends { readonly cacheKey?: string }>(
+  instance: T,
+  plugin: PluginDefinition<PluginKind>,
+  reference: ComponentReference
+): T {
+  if (instance.cacheKey !== undefined) {
+    return instance;
+  }
+  const { kind, name, version } = plugin.manifest;
+  const { options } = parsePluginReference(reference);
+  // Everything else, methods included, comes from the instance
+  return Object.create(instance, {
+    cacheKey: {
+      value: `${kind}:${name}@${version}:${JSON.stringify(options ?? {})}`,
+    },
+  }) as T;
+}
+
+/**
+ * Resolve a pipeline's plugins and assemble its processor
+ *
+ * Parsers and transformers get a `cacheKey` from their plugin, so the
+ * processor can reuse their results once given a store with `cache`
+ *
+ * @param name - Pipeline name, for error messages
+ * @param config - The pipeline's configuration
+ * @param registry - Plugins the configuration may refer to
+ * @returns The configured pipeline, a PluginError naming the first plugin
+ * that could not be resolved or that works on a different tree type than
+ * the parser produces, or a ValidationError for invalid plugin options
+ */
+export function buildPipeline(
+  name: string,
+  config: PipelineConfig,
+  registry: PluginRegistry = createBuiltinRegistry()
+): Effect.Effect<ConfiguredPipeline, PluginError | ValidationError> {
+  return Effect.gen(function* () {
+    const parser = yield* lookup(registry, "parser", config.parser, name);
+    const transformers = yield* Effect.forEach(
+      config.transformers ?? [],
+      (reference) => lookup(registry, "transformer", reference, name)
+    );
+    const compiler = yield* lookup(registry, "compiler", config.compiler, name);
+
+    const { treeType } = parser.plugin.manifest;
+    for (const { plugin } of [...transformers, compiler]) {
+      const { kind, treeType: expected } = plugin.manifest;
+      if (expected !== treeType) {
+        return yield* Effect.fail(
+          createPluginError(
+            `The ${kind} "${plugin.manifest.name}" works on ${expected} trees, but parser "${parser.plugin.manifest.name}" produces ${treeType} trees in pipeline "${name}"`,
+            plugin.manifest.name
+          )
+        );
+      }
+    }
+
+    const base = {
+      name,
+      config,
+      from: parser.plugin.manifest.name,
+      to: compiler.plugin.manifest.name,
+      extension: compiler.plugin.manifest.extensions?.[0] ?? "",
+      binaryOutput: compiler.plugin.manifest.binary ?? false,
+    };
+    // Tree types were checked above, and the parser's manifest says which
+    // input it reads
+    const compile = compiler.instance as Compiler<
+      DocumentRoot,
+      string | Uint8Array
+    >;
+    const parse = withCacheKey(parser.instance, parser.plugin, config.parser);
+    const pipeline: ConfiguredPipeline = parser.plugin.manifest.binary
+      ? {
+          ...base,
+          binaryInput: true,
+          processor: new Processor(
+            parse as Parser<Uint8Array, DocumentRoot>,
+            compile
+          ),
+        }
+      : {
+          ...base,
+          binaryInput: false,
+          processor: new Processor(
+            parse as Parser<string, DocumentRoot>,
+            compile
+          ),
+        };
+
+    for (const [index, { plugin, instance }] of transformers.entries()) {
+      pipeline.processor.use(
+        withCacheKey(instance, plugin, config.transformers![index])
+      );
+    }
+    return pipeline;
+  });
+}
+
+/**
+ * Build every pipeline declared in a configuration
+ */
+export function buildPipelines(
+  config: ProjectConfig,
+  registry: PluginRegistry = createBuiltinRegistry()
+): Effect.Effect<
+  Record<string, ConfiguredPipeline>,
+  PluginError | ValidationError
+> {
+  return Effect.map(
+    Effect.forEach(Object.entries(config.pipelines), ([name, pipeline]) =>
+      buildPipeline(name, pipeline, registry)
+    ),
+    (pipelines) =>
+      Object.fromEntries(pipelines.map((pipeline) => [pipeline.name, pipeline]))
+  );
+}
+
+/**
+ * Add the pipeline's format and the file's path to an error
+ */
+function inPipeline(pipeline: ConfiguredPipeline, file: VFile) {
+  return (error: DocumentProcessingError) =>
+    withErrorContext(error, {
+      format: error._tag === "CompileError" ? pipeline.to : pipeline.from,
+      ...(file.path ? { path: file.path } : {}),
+    });
+}
+
+/**
+ * Run a configured pipeline over raw file contents, decoding them first for
+ * text parsers
+ *
+ * @param pipeline - The pipeline to run
+ * @param bytes - File contents
+ * @param file - VFile for the source, collecting messages
+ */
+export function runPipeline(
+  pipeline: ConfiguredPipeline,
+  bytes: Uint8Array,
+  file: VFile
+): Effect.Effect<string | Uint8Array, DocumentProcessingError> {
+  const processed: Effect.Effect<string | Uint8Array, DocumentProcessingError> =
+    pipeline.binaryInput
+      ? pipeline.processor.process(bytes, file)
+      : Effect.flatMap(decodeUtf8(bytes, pipeline.from), (text) =>
+          pipeline.processor.process(text, file)
+        );
+
+  return Effect.mapError(processed, inPipeline(pipeline, file));
+}
+
+/**
+ * Run a configured pipeline like `runPipeline`, keeping the tree after
+ * parsing and after each transformer
+ *
+ * @param pipeline - The pipeline to run
+ * @param bytes - File contents
+ * @param file - VFile for the source, collecting messages
+ */
+export function tracePipeline(
+  pipeline: ConfiguredPipeline,
+  bytes: Uint8Array,
+  file: VFile
+): Effect.Effect<
+  ProcessTrace<string | Uint8Array, DocumentRoot>,
+  DocumentProcessingError
+> {
+  const traced: Effect.Effect<
+    ProcessTrace<string | Uint8Array, DocumentRoot>,
+    DocumentProcessingError
+  > = pipeline.binaryInput
+    ? pipeline.processor.processWithTrace(bytes, file)
+    : Effect.flatMap(decodeUtf8(bytes, pipeline.from), (text) =>
+        pipeline.processor.processWithTrace(text, file)
+      );
+
+  return Effect.mapError(traced, inPipeline(pipeline, file));
+}
@@ -0,0 +1,232 @@
+/**
+ * Plugins configuration files can refer to: the parsers, transformers and
+ * compilers shipped with ndoctrinate-tools, and plugin modules a
+ * configuration lists
+ */
+
+import { type } from "arktype";
+import { Effect } from "effect";
+import { dirname, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import {
+  PluginRegistry,
+  createDocumentValidator,
+  createPluginError,
+  documentTreeType,
+  type AnyPluginDefinition,
+  type PluginError,
+} from "ndoctrinate-core";
+import packageJson from "../../package.json" with { type: "json" };
+import type { ProjectConfig } from "./types.js";
+import { createMarkdownParser } from "../parsers/markdown-parser.js";
+import { createAsciiDocParser } from "../parsers/asciidoc-parser.js";
+import { createDocxParser } from "../parsers/docx-parser.js";
+import { createMarkdownCompiler } from "../compilers/markdown-compiler.js";
+import { createTextCompiler } from "../compilers/text-compiler.js";
+import { createDocxCompiler } from "../compilers/docx-compiler.js";
+
+// Shared by every built-in manifest
+const builtin = {
+  version: packageJson.version,
+  treeType: documentTreeType,
+  core: "^0.1.0",
+};
+
+const MarkdownOptions = type({ "gfm?": "boolean", "frontmatter?": "boolean" });
+const AsciiDocOptions = type({
+  "includes?": "boolean",
+  "includeRoot?": "string",
+});
+
+/**
+ * The parsers, transformers and compilers shipped with ndoctrinate-tools
+ */
+export const builtinPlugins: readonly AnyPluginDefinition[] = [
+  {
+    manifest: {
+      ...builtin,
+      name: "markdown",
+      kind: "parser",
+      description: "CommonMark with GFM and front matter",
+      inputFormats: ["markdown"],
+      extensions: [".md", ".markdown"],
+      options: MarkdownOptions,
+    },
+    create: (options) =>
+      createMarkdownParser(options as typeof MarkdownOptions.infer),
+  },
+  {
+    manifest: {
+      ...builtin,
+      name: "asciidoc",
+      kind: "parser",
+      description: "AsciiDoc documents",
+      inputFormats: ["asciidoc"],
+      extensions: [".adoc", ".asciidoc", ".asc"],
+      options: AsciiDocOptions,
+    },
+    create: (options) =>
+      createAsciiDocParser(options as typeof AsciiDocOptions.infer),
+  },
+  {
+    manifest: {
+      ...builtin,
+      name: "docx",
+      kind: "parser",
+      description: "Word documents (Office Open XML)",
+      inputFormats: ["docx"],
+      extensions: [".docx"],
+      binary: true,
+    },
+    create: () => createDocxParser(),
+  },
+  {
+    manifest: {
+      ...builtin,
+      name: "validate-document",
+      kind: "transformer",
+      description: "Check the tree against the document schema",
+    },
+    create: () => createDocumentValidator(),
+  },
+  {
+    manifest: {
+      ...builtin,
+      name: "markdown",
+      kind: "compiler",
+      description: "CommonMark with GFM and front matter",
+      outputFormats: ["markdown"],
+      extensions: [".md"],
+      options: MarkdownOptions,
+    },
+    create: (options) =>
+      createMarkdownCompiler(options as typeof MarkdownOptions.infer),
+  },
+  {
+    manifest: {
+      ...builtin,
+      name: "text",
+      kind: "compiler",
+      description: "Plain text, without markup",
+      outputFormats: ["text"],
+      extensions: [".txt"],
+    },
+    create: () => createTextCompiler(),
+  },
+  {
+    manifest: {
+      ...builtin,
+      name: "docx",
+      kind: "compiler",
+      description: "Word documents (Office Open XML)",
+      outputFormats: ["docx"],
+      extensions: [".docx"],
+      binary: true,
+    },
+    create: () => createDocxCompiler(),
+  },
+];
+
+/**
+ * Register plugins, stopping at the first one that is rejected
+ *
+ * @returns The registry, or the PluginError for the rejected plugin
+ */
+export function registerPlugins(
+  registry: PluginRegistry,
+  plugins: readonly AnyPluginDefinition[]
+): Effect.Effect<PluginRegistry, PluginError> {
+  return Effect.as(
+    Effect.forEach(plugins, (plugin) => {
+      const result = registry.register(plugin);
+      return result.success ? Effect.void : Effect.fail(result.error);
+    }),
+    registry
+  );
+}
+
+/**
+ * Create a registry holding the built-in plugins
+ */
+export function createBuiltinRegistry(): PluginRegistry {
+  return Effect.runSync(registerPlugins(new PluginRegistry(), builtinPlugins));
+}
+
+/**
+ * Import plugin modules and register their definitions
+ * A module provides a definition, or a list of them, as its default export
+ *
+ * @param registry - Registry to add the plugins to
+ * @param modules - Module paths, relative to `root`, or package names
+ * @param root - Directory of the configuration file listing the modules
+ * @returns The registry, or a PluginError when a module cannot be imported,
+ * exports no definition or holds a plugin the registry rejects
+ */
+export function loadPlugins(
+  registry: PluginRegistry,
+  modules: readonly string[],
+  root: string
+): Effect.Effect<PluginRegistry, PluginError> {
+  return Effect.as(
+    Effect.forEach(modules, (specifier) => {
+      const relative = specifier.startsWith(".") || specifier.startsWith("/");
+      return Effect.tryPromise({
+        try: async () => {
+          const module = (await import(
+            relative ? pathToFileURL(resolve(root, specifier)).href : specifier
+          )) as { default?: unknown };
+          return module.default;
+        },
+        catch: (error) =>
+          createPluginError(
+            `Failed to load plugin module: ${specifier}`,
+            specifier,
+            error
+          ),
+      }).pipe(
+        Effect.flatMap((exported) => {
+          const definitions = Array.isArray(exported) ? exported : [exported];
+          return definitions.every(isPluginDefinition)
+            ? registerPlugins(registry, definitions)
+            : Effect.fail(
+                createPluginError(
+                  `Plugin module ${specifier} does not export a plugin definition`,
+                  specifier
+                )
+              );
+        })
+      );
+    }),
+    registry
+  );
+}
+
+/**
+ * Create a registry holding the built-in plugins and those a configuration
+ * lists
+ *
+ * @param config - The loaded configuration
+ * @param path - Path of the configuration file, which module paths are
+ * relative to
+ */
+export function createProjectRegistry(
+  config: ProjectConfig,
+  path: string
+): Effect.Effect<PluginRegistry, PluginError> {
+  return loadPlugins(
+    createBuiltinRegistry(),
+    config.plugins ?? [],
+    dirname(resolve(path))
+  );
+}
+
+function isPluginDefinition(value: unknown): value is AnyPluginDefinition {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "manifest" in value &&
+    typeof value.manifest === "object" &&
+    "create" in value &&
+    typeof value.create === "function"
+  );
+}
@@ -0,0 +1,76 @@
+/**
+ * Runtime schema for project configuration files
+ */
+
+import { scope, type } from "arktype";
+import {
+  createValidationError,
+  type Result,
+  type ValidationError,
+} from "ndoctrinate-core";
+import type { ProjectConfig } from "./types.js";
+
+const configScope = scope({
+  component: [
+    "string > 0",
+    "|",
+    { name: "string > 0", "version?": "string > 0", "options?": "object" },
+  ],
+  pipeline: {
+    "description?": "string",
+    parser: "component",
+    "transformers?": "component[]",
+    compiler: "component",
+    "input?": "string | string[]",
+    "output?": "string",
+  },
+  defaults: {
+    "pipeline?": "string",
+    "concurrency?": "number.integer >= 1",
+  },
+  config: {
+    "$schema?": "string",
+    "plugins?": "string[]",
+    "defaults?": "defaults",
+    pipelines: { "[string]": "pipeline" },
+  },
+}).export();
+
+/**
+ * Schema for a complete configuration file
+ */
+export const ProjectConfigSchema = configScope.config;
+
+/**
+ * Check a value against the configuration schema
+ *
+ * @param value - The default export of a config module, or parsed JSON
+ * @returns The value typed as a ProjectConfig, or a ValidationError listing
+ * every problem found
+ */
+export function validateConfig(
+  value: unknown
+): Result<ProjectConfig, ValidationError> {
+  const result = ProjectConfigSchema(value);
+  if (result instanceof type.errors) {
+    return {
+      success: false,
+      error: createValidationError(
+        "Invalid configuration",
+        result.map((issue) => issue.message)
+      ),
+    };
+  }
+
+  const config = result as ProjectConfig;
+  const fallback = config.defaults?.pipeline;
+  if (fallback !== undefined && !(fallback in config.pipelines)) {
+    return {
+      success: false,
+      error: createValidationError("Invalid configuration", [
+        `defaults.pipeline names unknown pipeline "${fallback}"`,
+      ]),
+    };
+  }
+  return { success: true, value: config };
+}
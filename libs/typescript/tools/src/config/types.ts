@@ -0,0 +1,55 @@
+/**
+ * Types for the project configuration file (`ndoctrinate.config.*`)
+ */
+
+/**
+ * A parser, transformer or compiler named in a pipeline, either by name
+ * alone or with options passed to its factory
+ * A version range restricts which registered version is used; in a string
+ * it follows `@`, as in `toc@^1.2`
+ */
+export type ComponentReference =
+  | string
+  | { name: string; version?: string; options?: Record<string, unknown> };
+
+/**
+ * A named conversion recipe: parser |> transformers |> compiler
+ */
+export interface PipelineConfig {
+  /** Human-readable summary, shown when listing pipelines */
+  description?: string;
+  parser: ComponentReference;
+  /** Applied in order between parsing and compiling */
+  transformers?: ComponentReference[];
+  compiler: ComponentReference;
+  /** Files, directories or globs converted when no input is given */
+  input?: string | string[];
+  /** Output directory used when no output is given */
+  output?: string;
+}
+
+/**
+ * Settings applied when a command does not specify them
+ */
+export interface ConfigDefaults {
+  /** Pipeline used when none is named */
+  pipeline?: string;
+  /** Maximum conversions in flight */
+  concurrency?: number;
+}
+
+/**
+ * Contents of a project configuration file
+ */
+export interface ProjectConfig {
+  /** JSON schema reference for editors; ignored */
+  $schema?: string;
+  /**
+   * Plugin modules to register alongside the built-in plugins: paths
+   * relative to the config file, or package names. Each module's default
+   * export is a plugin definition or a list of them
+   */
+  plugins?: string[];
+  defaults?: ConfigDefaults;
+  pipelines: Record<string, PipelineConfig>;
+}
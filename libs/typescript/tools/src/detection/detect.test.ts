@@ -0,0 +1,132 @@
+/**
+ * Tests for format detection and processor selection
+ */
+
+import { describe, it, expect } from "bun:test";
+import { Effect } from "effect";
+import { strToU8, zipSync } from "fflate";
+import { detectFormat, FormatDetectorLayer } from "./detect.js";
+import { selectProcessor } from "../processors/select.js";
+
+const markdown = `---
+title: Guide
+---
+
+# Guide
+
+See [the docs](https://example.com).
+
+\`\`\`ts
+const x = 1;
+\`\`\`
+`;
+
+const asciidoc = `= Guide
+:toc:
+:icons: font
+
+== Install
+
+NOTE: Requires Bun.
+
+[source,ts]
+----
+const x = 1;
+----
+
+include::chapters/usage.adoc[]
+`;
+
+function best(...args: Parameters<typeof detectFormat>): string | undefined {
+  return detectFormat(...args)[0]?.format;
+}
+
+describe("detectFormat", () => {
+  it("should tell Markdown from AsciiDoc by content", () => {
+    expect(best(markdown)).toBe("markdown");
+    expect(best(asciidoc)).toBe("asciidoc");
+    expect(best(new TextEncoder().encode(asciidoc))).toBe("asciidoc");
+  });
+
+  it("should let content outweigh a misleading extension", () => {
+    const candidates = detectFormat(asciidoc, { path: "notes.md" });
+
+    expect(candidates[0].format).toBe("asciidoc");
+    expect(candidates[1]).toMatchObject({
+      format: "markdown",
+      reasons: ["extension .md"],
+    });
+    expect(candidates[0].confidence).toBeGreaterThan(candidates[1].confidence);
+  });
+
+  it("should identify containers by their magic bytes", () => {
+    const docx = zipSync({
+      "[Content_Types].xml": strToU8("<Types/>"),
+      "word/document.xml": strToU8("<w:document/>"),
+    });
+    const odt = zipSync({
+      mimetype: strToU8("application/vnd.oasis.opendocument.text"),
+      "content.xml": strToU8("<office:document-content/>"),
+    });
+    const zip = zipSync({ "readme.txt": strToU8("hello") });
+    const pdf = strToU8("%PDF-1.7\n%âã\n");
+
+    expect(detectFormat(docx)[0]).toMatchObject({
+      format: "docx",
+      confidence: 0.99,
+      reasons: ["OOXML part word/document.xml"],
+    });
+    expect(best(odt)).toBe("odt");
+    expect(best(zip)).toBe("zip");
+    expect(best(pdf, { path: "report.docx" })).toBe("pdf");
+  });
+
+  it("should not inflate a mimetype entry larger than a media type", () => {
+    const padded = zipSync({
+      mimetype: strToU8(
+        `application/vnd.oasis.opendocument.text${" ".repeat(1024 * 1024)}`
+      ),
+    });
+
+    expect(best(padded)).toBe("zip");
+  });
+
+  it("should decode text after a byte order mark", () => {
+    const bytes = new Uint8Array([0xef, 0xbb, 0xbf, ...strToU8(markdown)]);
+    const [candidate] = detectFormat(bytes);
+
+    expect(candidate.format).toBe("markdown");
+    expect(
+      detectFormat(bytes).find(({ format }) => format === "text")?.reasons
+    ).toContain("utf-8 byte order mark");
+  });
+
+  it("should ignore a byte order mark at the start of a string", () => {
+    expect(best("\uFEFF# Title\n\nSome *text*.\n")).toBe("markdown");
+  });
+
+  it("should use the media type and fall back to plain text", () => {
+    expect(
+      best("Just a sentence.", { mimeType: "text/markdown; charset=utf-8" })
+    ).toBe("markdown");
+    expect(detectFormat("Just a sentence.")).toEqual([
+      { format: "text", confidence: 0.1, reasons: ["decodes as text"] },
+    ]);
+    expect(best('{"title": "Guide"}')).toBe("json");
+    expect(detectFormat(new Uint8Array([0x00, 0x01, 0x02]))).toEqual([]);
+  });
+});
+
+describe("selectProcessor", () => {
+  it("should pick the processor for the most likely supported format", async () => {
+    const select = (source: string, path?: string) =>
+      Effect.runPromise(
+        Effect.provide(selectProcessor(source, { path }), FormatDetectorLayer)
+      );
+
+    expect((await select(asciidoc))?.format).toBe("asciidoc");
+    // JSON ranks first but has no processor
+    expect((await select('["a"]', "list.md"))?.format).toBe("markdown");
+    expect(await select("{}")).toBeUndefined();
+  });
+});
@@ -0,0 +1,347 @@
+/**
+ * Format detection from magic bytes, byte order marks, file extensions,
+ * media types and content heuristics
+ *
+ * Each piece of evidence gives a format a confidence; evidence for the same
+ * format is combined as independent probabilities, so agreeing signals
+ * reinforce each other and no amount of weak evidence reaches certainty.
+ */
+
+import { Effect, Layer } from "effect";
+import { unzipSync } from "fflate";
+import { extname } from "node:path";
+import {
+  FormatDetectorService,
+  type DetectionHints,
+  type FormatCandidate,
+  type Source,
+} from "ndoctrinate-core";
+
+type Evidence = Map<string, { miss: number; reasons: string[] }>;
+
+function add(
+  evidence: Evidence,
+  format: string,
+  confidence: number,
+  reason: string
+): void {
+  const entry = evidence.get(format) ?? { miss: 1, reasons: [] };
+  entry.miss *= 1 - confidence;
+  entry.reasons.push(reason);
+  evidence.set(format, entry);
+}
+
+const extensionFormats: Record<string, string> = {
+  ".md": "markdown",
+  ".markdown": "markdown",
+  ".mdown": "markdown",
+  ".mkd": "markdown",
+  ".adoc": "asciidoc",
+  ".asciidoc": "asciidoc",
+  ".asc": "asciidoc",
+  ".docx": "docx",
+  ".doc": "doc",
+  ".odt": "odt",
+  ".pdf": "pdf",
+  ".html": "html",
+  ".htm": "html",
+  ".json": "json",
+  ".txt": "text",
+};
+
+const mimeFormats: Record<string, string> = {
+  "text/markdown": "markdown",
+  "text/x-markdown": "markdown",
+  "text/asciidoc": "asciidoc",
+  "text/x-asciidoc": "asciidoc",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document":
+    "docx",
+  "application/msword": "doc",
+  "application/vnd.oasis.opendocument.text": "odt",
+  "application/pdf": "pdf",
+  "text/html": "html",
+  "application/json": "json",
+  "text/plain": "text",
+};
+
+// ODF packages store their media type uncompressed in a first `mimetype`
+// entry
+const odfFormats: Record<string, string> = {
+  "application/vnd.oasis.opendocument.text": "odt",
+  "application/vnd.oasis.opendocument.spreadsheet": "ods",
+  "application/vnd.oasis.opendocument.presentation": "odp",
+  "application/epub+zip": "epub",
+};
+
+// The main part of each OOXML document type
+const ooxmlParts: Record<string, string> = {
+  "word/document.xml": "docx",
+  "xl/workbook.xml": "xlsx",
+  "ppt/presentation.xml": "pptx",
+};
+
+function startsWith(bytes: Uint8Array, signature: readonly number[]): boolean {
+  return signature.every((byte, index) => bytes[index] === byte);
+}
+
+function detectZip(bytes: Uint8Array, evidence: Evidence): void {
+  const names: string[] = [];
+  let entries: Record<string, Uint8Array>;
+  try {
+    // Only a `mimetype` entry the size of a media type is decompressed; the
+    // rest are just listed
+    entries = unzipSync(bytes, {
+      filter: (file) => {
+        names.push(file.name);
+        return file.name === "mimetype" && file.originalSize <= 256;
+      },
+    });
+  } catch {
+    add(evidence, "zip", 0.5, "zip signature");
+    return;
+  }
+
+  const mimetype =
+    entries.mimetype && new TextDecoder().decode(entries.mimetype);
+  const odf = mimetype && odfFormats[mimetype.trim()];
+  if (odf) {
+    add(evidence, odf, 0.99, `package media type ${mimetype.trim()}`);
+    return;
+  }
+  const part = names.find((name) => Object.hasOwn(ooxmlParts, name));
+  if (part && names.includes("[Content_Types].xml")) {
+    add(evidence, ooxmlParts[part], 0.99, `OOXML part ${part}`);
+    return;
+  }
+  add(evidence, "zip", 0.8, "zip archive");
+}
+
+/**
+ * Identify binary containers by their leading bytes
+ *
+ * @returns Whether the bytes are a binary format, so not worth decoding as
+ * text
+ */
+function detectMagic(bytes: Uint8Array, evidence: Evidence): boolean {
+  if (startsWith(bytes, [0x25, 0x50, 0x44, 0x46, 0x2d])) {
+    add(evidence, "pdf", 0.99, "PDF signature");
+    return true;
+  }
+  if (
+    startsWith(bytes, [0x50, 0x4b, 0x03, 0x04]) ||
+    startsWith(bytes, [0x50, 0x4b, 0x05, 0x06])
+  ) {
+    detectZip(bytes, evidence);
+    return true;
+  }
+  if (startsWith(bytes, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) {
+    add(evidence, "doc", 0.7, "OLE2 compound document signature");
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Decode bytes that look like text, honouring a byte order mark
+ */
+function decodeText(bytes: Uint8Array, evidence: Evidence): string | undefined {
+  const boms: [readonly number[], string][] = [
+    [[0xef, 0xbb, 0xbf], "utf-8"],
+    [[0xff, 0xfe], "utf-16le"],
+    [[0xfe, 0xff], "utf-16be"],
+  ];
+  for (const [bom, encoding] of boms) {
+    if (startsWith(bytes, bom)) {
+      add(evidence, "text", 0.2, `${encoding} byte order mark`);
+      // Bun decodes every WHATWG label, but its types list only a few
+      const label = encoding as ConstructorParameters<typeof TextDecoder>[0];
+      return new TextDecoder(label).decode(bytes.subarray(bom.length));
+    }
+  }
+  // NUL bytes do not occur in UTF-8 text
+  if (bytes.subarray(0, 8192).includes(0)) {
+    return undefined;
+  }
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+  } catch {
+    return undefined;
+  }
+}
+
+interface TextRule {
+  format: string;
+  pattern: RegExp;
+  confidence: number;
+  reason: string;
+}
+
+// Line-level signals; each counts at most three times
+const textRules: readonly TextRule[] = [
+  {
+    format: "asciidoc",
+    pattern: /^={2,6} \S/,
+    confidence: 0.3,
+    reason: "AsciiDoc section titles",
+  },
+  {
+    format: "asciidoc",
+    pattern: /^:!?[\w-]+!?:(\s|$)/,
+    confidence: 0.35,
+    reason: "AsciiDoc attribute entries",
+  },
+  {
+    format: "asciidoc",
+    pattern: /^(include|image|video|audio|toc)::\S*\[/,
+    confidence: 0.4,
+    reason: "AsciiDoc block macros",
+  },
+  {
+    format: "asciidoc",
+    pattern:
+      /^\[(source|listing|literal|quote|verse|example|sidebar|NOTE|TIP|IMPORTANT|WARNING|CAUTION|cols=|#|\.)/,
+    confidence: 0.3,
+    reason: "AsciiDoc block attributes",
+  },
+  {
+    format: "asciidoc",
+    pattern: /^(NOTE|TIP|IMPORTANT|WARNING|CAUTION): \S/,
+    confidence: 0.3,
+    reason: "AsciiDoc admonitions",
+  },
+  {
+    format: "markdown",
+    pattern: /^#{1,6}\s+\S/,
+    confidence: 0.35,
+    reason: "Markdown ATX headings",
+  },
+  {
+    format: "markdown",
+    pattern: /^(```|~~~)/,
+    confidence: 0.35,
+    reason: "Markdown fenced code",
+  },
+  {
+    format: "markdown",
+    pattern: /\[[^\]]+\]\([^)\s]+\)/,
+    confidence: 0.3,
+    reason: "Markdown inline links",
+  },
+  {
+    format: "markdown",
+    pattern: /^\[[^\]]+\]:\s+\S/,
+    confidence: 0.3,
+    reason: "Markdown link definitions",
+  },
+  {
+    format: "markdown",
+    pattern: /^\s{0,3}>\s/,
+    confidence: 0.15,
+    reason: "Markdown block quotes",
+  },
+];
+
+// Enough of a document to judge it by
+const sampleLines = 500;
+
+function detectText(text: string, evidence: Evidence): void {
+  const trimmed = text.trimStart();
+  if (/^[[{]/.test(trimmed)) {
+    try {
+      JSON.parse(text);
+      add(evidence, "json", 0.95, "valid JSON");
+      return;
+    } catch {
+      // Markdown may start with a link, AsciiDoc with a block attribute
+    }
+  }
+  if (/^(<!doctype html|<html[\s>])/i.test(trimmed)) {
+    add(evidence, "html", 0.9, "HTML document element");
+    return;
+  }
+
+  const lines = text.split(/\r?\n/, sampleLines);
+  // The document title is the first line that is not a comment
+  const first = lines.find((line) => line !== "" && !line.startsWith("//"));
+  if (first && /^= \S/.test(first)) {
+    add(evidence, "asciidoc", 0.6, "AsciiDoc document title");
+  }
+  if (lines[0] === "---" || lines[0] === "+++") {
+    add(evidence, "markdown", 0.3, "Markdown front matter");
+  }
+  for (const rule of textRules) {
+    const matches = lines.filter((line) => rule.pattern.test(line)).length;
+    for (let count = 0; count < Math.min(matches, 3); count++) {
+      add(evidence, rule.format, rule.confidence, rule.reason);
+    }
+  }
+  add(evidence, "text", 0.1, "decodes as text");
+}
+
+/**
+ * Rank the formats a source may be in
+ *
+ * @param source - Document content: text, raw bytes or JSON
+ * @param hints - File name and media type, when known
+ * @returns Candidates, most likely first, with the evidence for each
+ */
+export function detectFormat(
+  source: Source,
+  hints: DetectionHints = {}
+): FormatCandidate[] {
+  const evidence: Evidence = new Map();
+
+  if (hints.path !== undefined) {
+    const extension = extname(hints.path).toLowerCase();
+    if (Object.hasOwn(extensionFormats, extension)) {
+      add(evidence, extensionFormats[extension], 0.6, `extension ${extension}`);
+    }
+  }
+  if (hints.mimeType !== undefined) {
+    const mimeType = hints.mimeType.split(";")[0].trim().toLowerCase();
+    if (Object.hasOwn(mimeFormats, mimeType)) {
+      add(
+        evidence,
+        mimeFormats[mimeType],
+        mimeType === "text/plain" ? 0.3 : 0.7,
+        `media type ${mimeType}`
+      );
+    }
+  }
+
+  if (source instanceof Uint8Array) {
+    if (!detectMagic(source, evidence)) {
+      const text = decodeText(source, evidence);
+      if (text !== undefined) {
+        detectText(text, evidence);
+      }
+    }
+  } else if (typeof source === "string") {
+    // Text read without decoding can still start with the byte order mark
+    if (source.startsWith("\uFEFF")) {
+      add(evidence, "text", 0.2, "byte order mark");
+      detectText(source.slice(1), evidence);
+    } else {
+      detectText(source, evidence);
+    }
+  } else if (typeof source === "object" && source !== null) {
+    add(evidence, "json", 1, "JSON value");
+  }
+
+  return [...evidence]
+    .map(([format, { miss, reasons }]) => ({
+      format,
+      confidence: Math.round((1 - miss) * 100) / 100,
+      reasons: [...new Set(reasons)],
+    }))
+    .sort(
+      (a, b) => b.confidence - a.confidence || a.format.localeCompare(b.format)
+    );
+}
+
+/**
+ * FormatDetectorLayer - Provides `detectFormat` as FormatDetectorService
+ */
+export const FormatDetectorLayer = Layer.succeed(FormatDetectorService, {
+  detect: (source, hints) => Effect.sync(() => detectFormat(source, hints)),
+});
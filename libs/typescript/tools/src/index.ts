@@ -6,3 +6,47 @@
 export { MarkdownProcessorLayer } from "./processors/markdown-processor.js";
 export { AsciiDocProcessorLayer } from "./processors/asciidoc-processor.js";
 export { DocxProcessorLayer } from "./processors/docx-processor.js";
+export {
+  processorLayers,
+  selectProcessor,
+  type SelectedProcessor,
+} from "./processors/select.js";
+export {
+  makeProcessorRegistryLayer,
+  ProcessorRegistryLayer,
+  RoutingProcessorLayer,
+} from "./processors/registry.js";
+
+// Export format detection
+export { detectFormat, FormatDetectorLayer } from "./detection/detect.js";
+
+// Export parsers
+export {
+  createMarkdownParser,
+  type MarkdownParserOptions,
+} from "./parsers/markdown-parser.js";
+export {
+  createAsciiDocParser,
+  type AsciiDocParserOptions,
+} from "./parsers/asciidoc-parser.js";
+export { createDocxParser } from "./parsers/docx-parser.js";
+
+// Export compilers
+export {
+  createMarkdownCompiler,
+  type MarkdownCompilerOptions,
+} from "./compilers/markdown-compiler.js";
+export { createTextCompiler } from "./compilers/text-compiler.js";
+export { createDocxCompiler } from "./compilers/docx-compiler.js";
+
+// Export result caching
+export {
+  createDiskCacheStore,
+  type DiskCacheOptions,
+} from "./cache/disk-store.js";
+
+// Export shared helpers
+export { decodeUtf8 } from "./processors/decode.js";
+
+// Export project configuration
+export * from "./config/index.js";
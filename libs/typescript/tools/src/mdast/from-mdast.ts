@@ -0,0 +1,148 @@
+/**
+ * Conversion from mdast to the intermediate document model
+ *
+ * mdast is already close to the model; this resolves link and image
+ * references against their definitions, lifts front matter onto the root,
+ * marks table header rows and drops `null` placeholders.
+ */
+
+import type { Root as MdastRoot } from "mdast";
+import {
+  DOCUMENT_MODEL_VERSION,
+  type DocumentRoot,
+  type FlowContent,
+  type Frontmatter,
+  type Node,
+} from "ndoctrinate-core";
+
+type MdastNode = Node & {
+  children?: MdastNode[];
+  [key: string]: unknown;
+};
+
+interface Definition {
+  url: string;
+  title?: string;
+}
+
+/**
+ * Copy a node without its children, dropping `null` fields
+ */
+function copy(node: MdastNode): MdastNode {
+  const result: MdastNode = { type: node.type };
+  for (const [key, value] of Object.entries(node)) {
+    if (key !== "children" && value !== null && value !== undefined) {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+/**
+ * Collect `[label]: url` definitions, keyed by normalized identifier
+ */
+function collectDefinitions(
+  node: MdastNode,
+  definitions: Map<string, Definition>
+): Map<string, Definition> {
+  if (node.type === "definition") {
+    const identifier = String(node.identifier);
+    // The first definition wins, as in CommonMark
+    if (!definitions.has(identifier)) {
+      definitions.set(identifier, {
+        url: String(node.url),
+        ...(typeof node.title === "string" ? { title: node.title } : {}),
+      });
+    }
+  }
+  for (const child of node.children ?? []) {
+    collectDefinitions(child, definitions);
+  }
+  return definitions;
+}
+
+function convert(
+  node: MdastNode,
+  definitions: Map<string, Definition>
+): Node[] {
+  const convertAll = (nodes: MdastNode[] = []) =>
+    nodes.flatMap((child) => convert(child, definitions));
+
+  switch (node.type) {
+    case "definition":
+    case "yaml":
+    case "toml":
+      return [];
+    case "linkReference": {
+      const definition = definitions.get(String(node.identifier));
+      // Unresolved references are plain text in CommonMark
+      return definition
+        ? [
+            {
+              type: "link",
+              ...definition,
+              children: convertAll(node.children),
+              ...(node.position ? { position: node.position } : {}),
+            } as Node,
+          ]
+        : convertAll(node.children);
+    }
+    case "imageReference": {
+      const definition = definitions.get(String(node.identifier));
+      return definition
+        ? [
+            {
+              type: "image",
+              ...definition,
+              alt: typeof node.alt === "string" ? node.alt : "",
+              ...(node.position ? { position: node.position } : {}),
+            } as Node,
+          ]
+        : [{ type: "text", value: String(node.alt ?? "") } as Node];
+    }
+    case "table": {
+      const rows = convertAll(node.children);
+      // GFM tables always start with a header row
+      if (rows[0]) {
+        (rows[0] as Node & { header?: boolean }).header = true;
+      }
+      return [{ ...copy(node), children: rows } as Node];
+    }
+    default:
+      return [
+        (node.children
+          ? { ...copy(node), children: convertAll(node.children) }
+          : copy(node)) as Node,
+      ];
+  }
+}
+
+/**
+ * Convert an mdast tree into a document tree
+ *
+ * @param tree - Root produced by mdast-util-from-markdown
+ * @returns The equivalent document root
+ */
+export function fromMdast(tree: MdastRoot): DocumentRoot {
+  const root = tree as unknown as MdastNode;
+  const definitions = collectDefinitions(root, new Map());
+  const matter = (root.children ?? []).find(
+    (child) => child.type === "yaml" || child.type === "toml"
+  );
+  const frontmatter: Frontmatter | undefined = matter
+    ? {
+        format: matter.type as Frontmatter["format"],
+        value: String(matter.value),
+      }
+    : undefined;
+
+  return {
+    type: "root",
+    version: DOCUMENT_MODEL_VERSION,
+    children: (root.children ?? []).flatMap((child) =>
+      convert(child, definitions)
+    ) as FlowContent[],
+    data: { format: "markdown", ...(frontmatter ? { frontmatter } : {}) },
+    ...(root.position ? { position: root.position } : {}),
+  };
+}
@@ -0,0 +1,173 @@
+/**
+ * Conversion from the intermediate document model to mdast
+ *
+ * Constructs Markdown has no syntax for are lowered to the closest
+ * equivalent: sections and other containers are flattened, admonitions
+ * become labelled block quotes, cross references become fragment links and
+ * inline marks without Markdown syntax are written as HTML.
+ */
+
+import type { Root as MdastRoot } from "mdast";
+import { isFlowContent, type DocumentRoot, type Node } from "ndoctrinate-core";
+
+type ModelNode = Node & {
+  children?: ModelNode[];
+  [key: string]: unknown;
+};
+
+const htmlMarks: Record<string, string> = {
+  underline: "u",
+  superscript: "sup",
+  subscript: "sub",
+};
+
+function text(value: string): Node {
+  return { type: "text", value } as Node;
+}
+
+function html(value: string): Node {
+  return { type: "html", value } as Node;
+}
+
+function strongParagraph(value: string): Node {
+  return {
+    type: "paragraph",
+    children: [{ type: "strong", children: [text(value)] }],
+  } as Node;
+}
+
+/**
+ * Flatten block content into phrasing content for table cells, which
+ * Markdown restricts to a single line
+ */
+function toPhrasing(nodes: ModelNode[]): Node[] {
+  const blocks = nodes.flatMap((node) => convert(node)) as ModelNode[];
+  return blocks.flatMap((node, index) => {
+    const content =
+      node.type === "paragraph" || node.type === "heading"
+        ? (node.children ?? [])
+        : [node];
+    return index > 0 ? [{ type: "break" } as Node, ...content] : content;
+  });
+}
+
+function convert(node: ModelNode): Node[] {
+  const children = () => (node.children ?? []).flatMap(convert);
+  // Block titles have no Markdown syntax; keep them as a bold line
+  const title =
+    isFlowContent(node) && node.type !== "heading" ? node.title : undefined;
+  const titled = (nodes: Node[]) =>
+    typeof title === "string" ? [strongParagraph(title), ...nodes] : nodes;
+
+  switch (node.type) {
+    case "section":
+    case "example":
+    case "sidebar":
+      return titled(children());
+    case "figure":
+      return titled(
+        (node.children ?? []).flatMap((child) =>
+          child.type === "caption"
+            ? [
+                {
+                  type: "paragraph",
+                  children: [
+                    {
+                      type: "emphasis",
+                      children: (child.children ?? []).flatMap(convert),
+                    },
+                  ],
+                } as Node,
+              ]
+            : convert(child)
+        )
+      );
+    case "admonition": {
+      const kind = String(node.kind);
+      const label = `${kind.charAt(0).toUpperCase()}${kind.slice(1)}:`;
+      return [
+        {
+          type: "blockquote",
+          children: [strongParagraph(label), ...children()],
+        } as Node,
+      ];
+    }
+    case "blockquote":
+      return titled([
+        {
+          type: "blockquote",
+          children: [
+            ...children(),
+            ...(typeof node.attribution === "string"
+              ? [
+                  {
+                    type: "paragraph",
+                    children: [text(`— ${node.attribution}`)],
+                  } as Node,
+                ]
+              : []),
+          ],
+        } as Node,
+      ]);
+    case "pageBreak":
+      return [{ type: "thematicBreak" } as Node];
+    case "caption":
+      return children();
+    case "crossReference": {
+      const content = children();
+      return [
+        {
+          type: "link",
+          url: `#${String(node.identifier)}`,
+          children: content.length ? content : [text(String(node.identifier))],
+        } as Node,
+      ];
+    }
+    case "citation": {
+      // Pandoc citation syntax, as raw text so brackets are not escaped
+      const keys = (node.keys as string[]).map((key) => `@${key}`).join("; ");
+      const locator =
+        typeof node.locator === "string" ? `, ${node.locator}` : "";
+      return [html(`[${keys}${locator}]`)];
+    }
+    case "underline":
+    case "superscript":
+    case "subscript": {
+      const tag = htmlMarks[node.type];
+      return [html(`<${tag}>`), ...children(), html(`</${tag}>`)];
+    }
+    case "tableCell":
+      return [
+        {
+          type: "tableCell",
+          children: toPhrasing(node.children ?? []),
+        } as Node,
+      ];
+    default: {
+      const result = { ...node } as ModelNode;
+      if (node.children) {
+        result.children = children() as ModelNode[];
+      }
+      return titled([result]);
+    }
+  }
+}
+
+/**
+ * Convert a document tree into mdast for serialization
+ *
+ * @param tree - Document root
+ * @returns An mdast root, with front matter restored as the first child
+ */
+export function toMdast(tree: DocumentRoot): MdastRoot {
+  const frontmatter = tree.data?.frontmatter;
+  return {
+    type: "root",
+    children: [
+      ...(frontmatter
+        ? [{ type: frontmatter.format, value: frontmatter.value }]
+        : []),
+      ...tree.children.flatMap((child) => convert(child as ModelNode)),
+    ],
+  } as MdastRoot;
+}
@@ -0,0 +1,107 @@
+/**
+ * Image inspection for embedding media in OOXML packages
+ */
+
+/**
+ * English Metric Units per pixel at 96 DPI, the unit drawing extents are
+ * given in
+ */
+export const EMU_PER_PIXEL = 9525;
+
+/**
+ * Image formats Word renders natively
+ */
+export interface ImageInfo {
+  extension: "png" | "jpeg" | "gif" | "bmp";
+  contentType: string;
+  /**
+   * Intrinsic size in pixels, when the header could be read
+   */
+  width?: number;
+  height?: number;
+}
+
+function startsWith(bytes: Uint8Array, signature: number[]): boolean {
+  return signature.every((byte, index) => bytes[index] === byte);
+}
+
+function uint16(bytes: Uint8Array, offset: number, littleEndian: boolean) {
+  return new DataView(bytes.buffer, bytes.byteOffset).getUint16(
+    offset,
+    littleEndian
+  );
+}
+
+function uint32(bytes: Uint8Array, offset: number, littleEndian: boolean) {
+  return new DataView(bytes.buffer, bytes.byteOffset).getUint32(
+    offset,
+    littleEndian
+  );
+}
+
+/**
+ * Read the pixel size from a JPEG start-of-frame segment
+ */
+function jpegSize(
+  bytes: Uint8Array
+): { width: number; height: number } | undefined {
+  let offset = 2;
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) {
+      return undefined;
+    }
+    const marker = bytes[offset + 1];
+    const length = uint16(bytes, offset + 2, false);
+    // SOF0..SOF15, excluding DHT (C4), JPG (C8) and DAC (CC)
+    if (
+      marker >= 0xc0 &&
+      marker <= 0xcf &&
+      ![0xc4, 0xc8, 0xcc].includes(marker)
+    ) {
+      return {
+        height: uint16(bytes, offset + 5, false),
+        width: uint16(bytes, offset + 7, false),
+      };
+    }
+    offset += 2 + length;
+  }
+  return undefined;
+}
+
+/**
+ * Identify an image from its magic bytes and read its pixel size
+ *
+ * @returns Image information, or undefined for unsupported formats
+ */
+export function inspectImage(bytes: Uint8Array): ImageInfo | undefined {
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47]) && bytes.length >= 24) {
+    return {
+      extension: "png",
+      contentType: "image/png",
+      width: uint32(bytes, 16, false),
+      height: uint32(bytes, 20, false),
+    };
+  }
+  if (startsWith(bytes, [0xff, 0xd8])) {
+    return { extension: "jpeg", contentType: "image/jpeg", ...jpegSize(bytes) };
+  }
+  if (startsWith(bytes, [0x47, 0x49, 0x46]) && bytes.length >= 10) {
+    return {
+      extension: "gif",
+      contentType: "image/gif",
+      width: uint16(bytes, 6, true),
+      height: uint16(bytes, 8, true),
+    };
+  }
+  if (startsWith(bytes, [0x42, 0x4d]) && bytes.length >= 26) {
+    return {
+      extension: "bmp",
+      contentType: "image/bmp",
+      width: uint32(bytes, 18, true),
+      height: Math.abs(
+        new DataView(bytes.buffer, bytes.byteOffset).getInt32(22, true)
+      ),
+    };
+  }
+  return undefined;
+}
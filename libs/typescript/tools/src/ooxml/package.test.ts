@@ -0,0 +1,45 @@
+/**
+ * Tests for OOXML package access
+ */
+
+import { describe, it, expect } from "bun:test";
+import { strFromU8, strToU8, zipSync } from "fflate";
+import { readOoxmlPackage, writeOoxmlPackage } from "./package.js";
+
+/**
+ * Claim a size for every entry of a zip archive, in its local and central
+ * directory headers, as a zip bomb's headers would
+ */
+function declareSize(zip: Uint8Array, size: number): Uint8Array {
+  const bytes = zip.slice();
+  const view = new DataView(bytes.buffer);
+  for (let offset = 0; offset + 4 <= bytes.length; offset++) {
+    const signature = view.getUint32(offset, true);
+    if (signature === 0x04034b50) {
+      view.setUint32(offset + 22, size, true);
+    } else if (signature === 0x02014b50) {
+      view.setUint32(offset + 24, size, true);
+    }
+  }
+  return bytes;
+}
+
+describe("readOoxmlPackage", () => {
+  it("should read the parts of a package it wrote", () => {
+    const pkg = readOoxmlPackage(
+      writeOoxmlPackage({ "word/document.xml": "<w:document/>" })
+    );
+
+    expect(strFromU8(pkg.read("word/document.xml")!)).toBe("<w:document/>");
+    expect(pkg.read("missing.xml")).toBeUndefined();
+  });
+
+  it("should refuse parts larger than the limit before inflating them", () => {
+    const zip = zipSync({ "word/document.xml": strToU8("<w:document/>") });
+
+    expect(() => readOoxmlPackage(zip, 1024)).not.toThrow();
+    expect(() => readOoxmlPackage(declareSize(zip, 2 ** 31))).toThrow(
+      `Package parts take ${2 ** 31} bytes unzipped, more than ${512 * 1024 * 1024}`
+    );
+  });
+});
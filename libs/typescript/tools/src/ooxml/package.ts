@@ -0,0 +1,193 @@
+/**
+ * OOXML package (Open Packaging Conventions) access
+ *
+ * A .docx file is a zip archive of XML parts linked together by
+ * relationship parts (`_rels/*.rels`).
+ */
+
+import { strFromU8, strToU8, unzipSync, zipSync } from "fflate";
+import type { Document } from "@xmldom/xmldom";
+import { attribute, elements, parseXml } from "./xml.js";
+
+/**
+ * A relationship from one part to another part or external resource
+ */
+export interface Relationship {
+  id: string;
+  type: string;
+  target: string;
+  external: boolean;
+}
+
+/**
+ * Read-only view of an unzipped OOXML package
+ */
+export interface OoxmlPackage {
+  /**
+   * Raw bytes of a part, or undefined if the part does not exist
+   */
+  read(path: string): Uint8Array | undefined;
+  /**
+   * Parsed XML of a part, or undefined if the part does not exist
+   */
+  readXml(path: string): Document | undefined;
+  /**
+   * Relationships declared by a part, keyed by relationship id
+   * Internal targets are resolved to package paths
+   */
+  relationships(path: string): Map<string, Relationship>;
+}
+
+/**
+ * Relationship type suffixes used by WordprocessingML documents
+ */
+export const RelationshipTypes = {
+  officeDocument: "/officeDocument",
+  styles: "/styles",
+  numbering: "/numbering",
+  footnotes: "/footnotes",
+  image: "/image",
+  hyperlink: "/hyperlink",
+} as const;
+
+/**
+ * Resolve a relationship target against the directory of its source part
+ */
+function resolveTarget(sourcePath: string, target: string): string {
+  if (target.startsWith("/")) {
+    return target.slice(1);
+  }
+  const segments = sourcePath.split("/").slice(0, -1);
+  for (const segment of target.split("/")) {
+    if (segment === "..") {
+      segments.pop();
+    } else if (segment !== ".") {
+      segments.push(segment);
+    }
+  }
+  return segments.join("/");
+}
+
+/**
+ * Path of the relationships part that belongs to a source part
+ */
+function relationshipsPath(path: string): string {
+  const slash = path.lastIndexOf("/");
+  return slash === -1
+    ? `_rels/${path}.rels`
+    : `${path.slice(0, slash)}/_rels/${path.slice(slash + 1)}.rels`;
+}
+
+/**
+ * Largest total size of a package's parts once unzipped, in bytes
+ * A few megabytes of zip can otherwise inflate to gigabytes
+ */
+export const maxPackageSize = 512 * 1024 * 1024;
+
+/**
+ * Unzip an OOXML package
+ *
+ * @param maxSize - Largest total size of the parts, checked against the
+ * sizes the archive declares before any part is inflated
+ * @throws If the bytes are not a valid zip archive, the parts are larger
+ * than `maxSize` or a part is not valid XML
+ */
+export function readOoxmlPackage(
+  bytes: Uint8Array,
+  maxSize = maxPackageSize
+): OoxmlPackage {
+  // fflate inflates each part into a buffer of its declared size, so the
+  // declared sizes bound what unzipping allocates
+  let size = 0;
+  unzipSync(bytes, {
+    filter: (file) => {
+      size += file.originalSize;
+      return false;
+    },
+  });
+  if (size > maxSize) {
+    throw new Error(
+      `Package parts take ${size} bytes unzipped, more than ${maxSize}`
+    );
+  }
+  const files = unzipSync(bytes);
+  const xmlCache = new Map<string, Document>();
+
+  const read = (path: string) => files[path];
+
+  const readXml = (path: string) => {
+    const cached = xmlCache.get(path);
+    if (cached) {
+      return cached;
+    }
+    const data = read(path);
+    if (!data) {
+      return undefined;
+    }
+    const document = parseXml(strFromU8(data));
+    xmlCache.set(path, document);
+    return document;
+  };
+
+  const relationships = (path: string) => {
+    const result = new Map<string, Relationship>();
+    const rels = readXml(relationshipsPath(path));
+    const root = rels?.documentElement;
+    if (!root) {
+      return result;
+    }
+    for (const rel of elements(root, "Relationship")) {
+      const id = attribute(rel, "Id");
+      const target = attribute(rel, "Target");
+      if (!id || target === undefined) {
+        continue;
+      }
+      const external = attribute(rel, "TargetMode") === "External";
+      result.set(id, {
+        id,
+        type: attribute(rel, "Type") ?? "",
+        target: external ? target : resolveTarget(path, target),
+        external,
+      });
+    }
+    return result;
+  };
+
+  return { read, readXml, relationships };
+}
+
+/**
+ * Find the first relationship of a given type
+ */
+export function findRelationship(
+  relationships: Map<string, Relationship>,
+  typeSuffix: string
+): Relationship | undefined {
+  for (const rel of relationships.values()) {
+    if (rel.type.endsWith(typeSuffix)) {
+      return rel;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Zip parts into an OOXML package
+ * String parts are encoded as UTF-8; `[Content_Types].xml` is stored first
+ * as the Open Packaging Conventions recommend
+ */
+export function writeOoxmlPackage(
+  parts: Record<string, string | Uint8Array>
+): Uint8Array {
+  const ordered = Object.keys(parts).sort((a, b) =>
+    a === "[Content_Types].xml" ? -1 : b === "[Content_Types].xml" ? 1 : 0
+  );
+  return zipSync(
+    Object.fromEntries(
+      ordered.map((path) => {
+        const part = parts[path];
+        return [path, typeof part === "string" ? strToU8(part) : part];
+      })
+    )
+  );
+}
@@ -0,0 +1,240 @@
+/**
+ * WordprocessingML part templates used when writing .docx packages
+ */
+
+import { escapeXml } from "./xml.js";
+
+const XML_DECLARATION =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+const RELATIONSHIP_BASE =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+
+/**
+ * Namespace declarations for document and footnote parts
+ */
+export const WORDPROCESSING_NAMESPACES = [
+  'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"',
+  `xmlns:r="${RELATIONSHIP_BASE}"`,
+  'xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing"',
+  'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"',
+  'xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture"',
+].join(" ");
+
+const W_NAMESPACE =
+  'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+
+/**
+ * A relationship to be written to a `.rels` part
+ */
+export interface RelationshipEntry {
+  id: string;
+  type: "styles" | "numbering" | "footnotes" | "image" | "hyperlink";
+  target: string;
+  external?: boolean;
+}
+
+/**
+ * `[Content_Types].xml` for a document with the given media extensions
+ */
+export function contentTypesXml(
+  media: Array<{ extension: string; contentType: string }>
+): string {
+  const defaults = new Map<string, string>([
+    ["rels", "application/vnd.openxmlformats-package.relationships+xml"],
+    ["xml", "application/xml"],
+  ]);
+  for (const { extension, contentType } of media) {
+    defaults.set(extension, contentType);
+  }
+  const wordml =
+    "application/vnd.openxmlformats-officedocument.wordprocessingml";
+  return (
+    XML_DECLARATION +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    [...defaults]
+      .map(
+        ([extension, type]) =>
+          `<Default Extension="${extension}" ContentType="${type}"/>`
+      )
+      .join("") +
+    `<Override PartName="/word/document.xml" ContentType="${wordml}.document.main+xml"/>` +
+    `<Override PartName="/word/styles.xml" ContentType="${wordml}.styles+xml"/>` +
+    `<Override PartName="/word/numbering.xml" ContentType="${wordml}.numbering+xml"/>` +
+    `<Override PartName="/word/footnotes.xml" ContentType="${wordml}.footnotes+xml"/>` +
+    "</Types>"
+  );
+}
+
+/**
+ * `_rels/.rels` pointing at the main document part
+ */
+export function packageRelationshipsXml(): string {
+  return (
+    XML_DECLARATION +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    `<Relationship Id="rId1" Type="${RELATIONSHIP_BASE}/officeDocument" Target="word/document.xml"/>` +
+    "</Relationships>"
+  );
+}
+
+/**
+ * A `.rels` part for the given relationships
+ */
+export function relationshipsXml(entries: RelationshipEntry[]): string {
+  return (
+    XML_DECLARATION +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    entries
+      .map(
+        (entry) =>
+          `<Relationship Id="${entry.id}" Type="${RELATIONSHIP_BASE}/${entry.type}" Target="${escapeXml(entry.target)}"${entry.external ? ' TargetMode="External"' : ""}/>`
+      )
+      .join("") +
+    "</Relationships>"
+  );
+}
+
+/**
+ * `word/document.xml` around rendered body content
+ */
+export function documentXml(body: string): string {
+  return (
+    XML_DECLARATION +
+    `<w:document ${WORDPROCESSING_NAMESPACES}><w:body>${body}` +
+    '<w:sectPr><w:pgSz w:w="12240" w:h="15840"/>' +
+    '<w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/>' +
+    "</w:sectPr></w:body></w:document>"
+  );
+}
+
+/**
+ * `word/footnotes.xml` with the separator footnotes Word expects
+ */
+export function footnotesXml(footnotes: string[]): string {
+  return (
+    XML_DECLARATION +
+    `<w:footnotes ${WORDPROCESSING_NAMESPACES}>` +
+    '<w:footnote w:type="separator" w:id="-1"><w:p><w:r><w:separator/></w:r></w:p></w:footnote>' +
+    '<w:footnote w:type="continuationSeparator" w:id="0"><w:p><w:r><w:continuationSeparator/></w:r></w:p></w:footnote>' +
+    footnotes.join("") +
+    "</w:footnotes>"
+  );
+}
+
+/**
+ * Abstract numbering ids for the two list kinds the compiler emits
+ */
+export const AbstractNumbering = {
+  bullet: 0,
+  decimal: 1,
+} as const;
+
+const bulletGlyphs = ["•", "◦", "▪"];
+const decimalFormats = ["decimal", "lowerLetter", "lowerRoman"];
+
+function abstractNumXml(kind: keyof typeof AbstractNumbering): string {
+  const levels = Array.from({ length: 9 }, (_, ilvl) => {
+    const indent = 720 * (ilvl + 1);
+    const format =
+      kind === "bullet"
+        ? "bullet"
+        : decimalFormats[ilvl % decimalFormats.length];
+    const text =
+      kind === "bullet"
+        ? bulletGlyphs[ilvl % bulletGlyphs.length]
+        : `%${ilvl + 1}.`;
+    return (
+      `<w:lvl w:ilvl="${ilvl}"><w:start w:val="1"/><w:numFmt w:val="${format}"/>` +
+      `<w:lvlText w:val="${text}"/><w:lvlJc w:val="left"/>` +
+      `<w:pPr><w:ind w:left="${indent}" w:hanging="360"/></w:pPr></w:lvl>`
+    );
+  }).join("");
+  return (
+    `<w:abstractNum w:abstractNumId="${AbstractNumbering[kind]}">` +
+    '<w:multiLevelType w:val="hybridMultilevel"/>' +
+    levels +
+    "</w:abstractNum>"
+  );
+}
+
+/**
+ * A concrete list instance: one `w:num` per rendered list so ordered lists
+ * restart their numbering
+ */
+export interface NumberingInstance {
+  numId: number;
+  kind: keyof typeof AbstractNumbering;
+  level: number;
+  start: number;
+}
+
+/**
+ * `word/numbering.xml` with bullet and decimal definitions and one
+ * numbering instance per list
+ */
+export function numberingXml(instances: NumberingInstance[]): string {
+  return (
+    XML_DECLARATION +
+    `<w:numbering ${W_NAMESPACE}>` +
+    abstractNumXml("bullet") +
+    abstractNumXml("decimal") +
+    instances
+      .map(
+        ({ numId, kind, level, start }) =>
+          `<w:num w:numId="${numId}"><w:abstractNumId w:val="${AbstractNumbering[kind]}"/>` +
+          `<w:lvlOverride w:ilvl="${level}"><w:startOverride w:val="${start}"/></w:lvlOverride></w:num>`
+      )
+      .join("") +
+    "</w:numbering>"
+  );
+}
+
+function headingStyle(level: number): string {
+  const sizes = [32, 28, 26, 24, 22, 22];
+  return (
+    `<w:style w:type="paragraph" w:styleId="Heading${level}">` +
+    `<w:name w:val="heading ${level}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>` +
+    `<w:pPr><w:keepNext/><w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="${level - 1}"/></w:pPr>` +
+    `<w:rPr><w:b/><w:sz w:val="${sizes[level - 1]}"/></w:rPr></w:style>`
+  );
+}
+
+/**
+ * `word/styles.xml` with the paragraph, character and table styles the
+ * compiler references
+ */
+export function stylesXml(): string {
+  return (
+    XML_DECLARATION +
+    `<w:styles ${W_NAMESPACE}>` +
+    '<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:sz w:val="22"/></w:rPr></w:rPrDefault>' +
+    '<w:pPrDefault><w:pPr><w:spacing w:after="160" w:line="259" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>' +
+    '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>' +
+    [1, 2, 3, 4, 5, 6].map(headingStyle).join("") +
+    '<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/>' +
+    '<w:pPr><w:ind w:left="720" w:right="720"/></w:pPr><w:rPr><w:i/></w:rPr></w:style>' +
+    '<w:style w:type="paragraph" w:styleId="Code"><w:name w:val="Code"/><w:basedOn w:val="Normal"/>' +
+    '<w:pPr><w:spacing w:after="0" w:line="240" w:lineRule="auto"/><w:shd w:val="clear" w:color="auto" w:fill="F2F2F2"/></w:pPr>' +
+    '<w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:sz w:val="20"/></w:rPr></w:style>' +
+    '<w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/>' +
+    '<w:pPr><w:ind w:left="720"/><w:contextualSpacing/></w:pPr></w:style>' +
+    '<w:style w:type="paragraph" w:styleId="Caption"><w:name w:val="caption"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/>' +
+    '<w:pPr><w:keepNext/><w:spacing w:after="120"/></w:pPr><w:rPr><w:b/><w:sz w:val="20"/></w:rPr></w:style>' +
+    '<w:style w:type="paragraph" w:styleId="FootnoteText"><w:name w:val="footnote text"/><w:basedOn w:val="Normal"/>' +
+    '<w:pPr><w:spacing w:after="0"/></w:pPr><w:rPr><w:sz w:val="20"/></w:rPr></w:style>' +
+    '<w:style w:type="character" w:styleId="FootnoteReference"><w:name w:val="footnote reference"/><w:rPr><w:vertAlign w:val="superscript"/></w:rPr></w:style>' +
+    '<w:style w:type="character" w:styleId="CodeChar"><w:name w:val="Code Char"/>' +
+    '<w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/></w:rPr></w:style>' +
+    '<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/><w:rPr><w:color w:val="0563C1"/><w:u w:val="single"/></w:rPr></w:style>' +
+    '<w:style w:type="table" w:styleId="TableGrid"><w:name w:val="Table Grid"/><w:tblPr><w:tblBorders>' +
+    ["top", "left", "bottom", "right", "insideH", "insideV"]
+      .map(
+        (side) =>
+          `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="auto"/>`
+      )
+      .join("") +
+    "</w:tblBorders></w:tblPr></w:style>" +
+    "</w:styles>"
+  );
+}
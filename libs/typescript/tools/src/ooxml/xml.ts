@@ -0,0 +1,125 @@
+/**
+ * Small DOM helpers for walking OOXML parts
+ *
+ * WordprocessingML qualifies everything with namespace prefixes; these helpers
+ * match on local names so callers can ignore the prefix a producer chose.
+ */
+
+import { DOMParser, type Document, type Element } from "@xmldom/xmldom";
+
+/**
+ * Parse an XML string into a DOM document
+ *
+ * @throws If the XML is not well-formed
+ */
+export function parseXml(xml: string): Document {
+  return new DOMParser({
+    onError: (level, message) => {
+      if (level !== "warning") {
+        throw new Error(message);
+      }
+    },
+  }).parseFromString(xml, "application/xml");
+}
+
+/**
+ * Element children of a node, optionally filtered by local name
+ */
+export function elements(
+  parent: Element | Document,
+  localName?: string
+): Element[] {
+  const result: Element[] = [];
+  for (let node = parent.firstChild; node; node = node.nextSibling) {
+    if (
+      node.nodeType === node.ELEMENT_NODE &&
+      (localName === undefined || (node as Element).localName === localName)
+    ) {
+      result.push(node as Element);
+    }
+  }
+  return result;
+}
+
+/**
+ * First element child with the given local name
+ */
+export function element(
+  parent: Element | Document | undefined,
+  localName: string
+): Element | undefined {
+  return parent ? elements(parent, localName)[0] : undefined;
+}
+
+/**
+ * Follow a path of local names down the element tree
+ */
+export function elementPath(
+  parent: Element | Document | undefined,
+  ...localNames: string[]
+): Element | undefined {
+  return localNames.reduce<Element | Document | undefined>(
+    (current, name) => element(current, name),
+    parent
+  ) as Element | undefined;
+}
+
+/**
+ * All descendant elements with the given local name, in document order
+ */
+export function descendants(parent: Element, localName: string): Element[] {
+  const result: Element[] = [];
+  for (const child of elements(parent)) {
+    if (child.localName === localName) {
+      result.push(child);
+    }
+    result.push(...descendants(child, localName));
+  }
+  return result;
+}
+
+/**
+ * Read an attribute by local name, ignoring its prefix
+ */
+export function attribute(
+  el: Element | undefined,
+  localName: string
+): string | undefined {
+  if (!el) {
+    return undefined;
+  }
+  for (let i = 0; i < el.attributes.length; i++) {
+    const attr = el.attributes.item(i);
+    if (attr && (attr.localName ?? attr.name) === localName) {
+      return attr.value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Read a WordprocessingML on/off property such as `<w:b/>` or
+ * `<w:i w:val="false"/>`
+ */
+export function toggle(
+  properties: Element | undefined,
+  localName: string
+): boolean {
+  const el = element(properties, localName);
+  if (!el) {
+    return false;
+  }
+  const value = attribute(el, "val");
+  return value === undefined || !["0", "false", "off"].includes(value);
+}
+
+/**
+ * Escape text for inclusion in XML content or attribute values
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
@@ -0,0 +1,209 @@
+/**
+ * AsciiDoc inline parsing
+ * Converts paragraph text into phrasing nodes (text, strong, emphasis,
+ * code, links, cross references, inline images and footnotes)
+ */
+
+import type { Node } from "ndoctrinate-core";
+
+/**
+ * Built-in character replacement attributes
+ */
+const builtinAttributes: Record<string, string> = {
+  empty: "",
+  sp: " ",
+  nbsp: " ",
+  zwsp: "​",
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  startsb: "[",
+  endsb: "]",
+  vbar: "|",
+  caret: "^",
+  asterisk: "*",
+  tilde: "~",
+  backslash: "\\",
+  backtick: "`",
+};
+
+/**
+ * Replace `{name}` attribute references
+ * Unknown references are left untouched, matching Asciidoctor's default
+ */
+export function substituteAttributes(
+  text: string,
+  attributes: Record<string, string>
+): string {
+  return text.replace(/(\\)?\{([\w-]+)\}/g, (match, escaped, name) => {
+    if (escaped) {
+      return match.slice(1);
+    }
+    const value = attributes[name] ?? builtinAttributes[name];
+    return value ?? match;
+  });
+}
+
+/**
+ * State collected while parsing inlines, shared across a document
+ */
+export interface InlineContext {
+  /**
+   * Footnote definitions created by `footnote:[...]`, in order of appearance
+   */
+  footnotes: Node[];
+}
+
+/**
+ * Inline syntax, tried at each position in order
+ * Constrained marks must not be surrounded by word characters
+ */
+const inlinePatterns: Array<{
+  pattern: RegExp;
+  build: (match: RegExpExecArray, ctx: InlineContext) => Node;
+}> = [
+  {
+    // Unconstrained marks first so `**a**` is not read as `*` + `*a*` + `*`
+    pattern: /\*\*(.+?)\*\*/y,
+    build: (m, ctx) => parent("strong", parseInline(m[1], ctx)),
+  },
+  {
+    pattern: /__(.+?)__/y,
+    build: (m, ctx) => parent("emphasis", parseInline(m[1], ctx)),
+  },
+  {
+    pattern: /``(.+?)``/y,
+    build: (m) => ({ type: "inlineCode", value: m[1] }) as Node,
+  },
+  {
+    pattern: /(?<![\w*])\*(\S|\S.*?\S)\*(?![\w*])/y,
+    build: (m, ctx) => parent("strong", parseInline(m[1], ctx)),
+  },
+  {
+    pattern: /(?<![\w_])_(\S|\S.*?\S)_(?![\w_])/y,
+    build: (m, ctx) => parent("emphasis", parseInline(m[1], ctx)),
+  },
+  {
+    pattern: /(?<![\w`])`(\S|\S.*?\S)`(?![\w`])/y,
+    build: (m) => ({ type: "inlineCode", value: m[1] }) as Node,
+  },
+  {
+    pattern: /\^(\S+?)\^/y,
+    build: (m, ctx) => parent("superscript", parseInline(m[1], ctx)),
+  },
+  {
+    pattern: /~(\S+?)~/y,
+    build: (m, ctx) => parent("subscript", parseInline(m[1], ctx)),
+  },
+  {
+    pattern: /footnote:(?:[\w-]*)\[((?:\\\]|[^\]])*)\]/y,
+    build: (m, ctx) => {
+      const identifier = String(ctx.footnotes.length + 1);
+      ctx.footnotes.push({
+        type: "footnoteDefinition",
+        identifier,
+        children: [
+          parent("paragraph", parseInline(unescapeBrackets(m[1]), ctx)),
+        ],
+      } as Node);
+      return { type: "footnoteReference", identifier } as Node;
+    },
+  },
+  {
+    pattern: /image:(?!:)([^\s[]+)\[([^\]]*)\]/y,
+    build: (m) => ({ type: "image", url: m[1], alt: m[2] }) as Node,
+  },
+  {
+    pattern: /<<([\w:.-]+)(?:,\s*([^>]+))?>>/y,
+    build: (m, ctx) => crossReference(m[1], m[2], ctx),
+  },
+  {
+    pattern: /xref:([\w:.#/-]+)\[([^\]]*)\]/y,
+    build: (m, ctx) => crossReference(m[1], m[2] || undefined, ctx),
+  },
+  {
+    pattern: /link:([^\s[]+)\[([^\]]*)\]/y,
+    build: (m, ctx) => link(m[1], m[2], ctx),
+  },
+  {
+    // Bare URL, optionally followed by `[label]`
+    pattern:
+      /((?:https?|ftp|irc|mailto):[^\s[<>]*[^\s[<>.,;:!?)])(?:\[([^\]]*)\])?/y,
+    build: (m, ctx) => link(m[1], m[2] ?? "", ctx),
+  },
+];
+
+function parent(type: string, children: Node[]): Node {
+  return { type, children } as Node;
+}
+
+function unescapeBrackets(text: string): string {
+  return text.replace(/\\\]/g, "]");
+}
+
+function link(url: string, label: string, ctx: InlineContext): Node {
+  return {
+    type: "link",
+    url,
+    children: label ? parseInline(label, ctx) : [{ type: "text", value: url }],
+  } as Node;
+}
+
+function crossReference(
+  target: string,
+  label: string | undefined,
+  ctx: InlineContext
+): Node {
+  return {
+    type: "crossReference",
+    identifier: target.replace(/^#/, ""),
+    children: label ? parseInline(label, ctx) : [],
+  } as Node;
+}
+
+/**
+ * Parse a run of AsciiDoc inline text
+ * Hard line breaks (` +` at the end of a line) become break nodes
+ */
+export function parseInline(text: string, ctx: InlineContext): Node[] {
+  const result: Node[] = [];
+  let buffer = "";
+  const flush = () => {
+    if (buffer) {
+      result.push({ type: "text", value: buffer } as Node);
+      buffer = "";
+    }
+  };
+
+  let index = 0;
+  outer: while (index < text.length) {
+    // Hard line break
+    if (text.startsWith(" +\n", index)) {
+      flush();
+      result.push({ type: "break" } as Node);
+      index += 3;
+      continue;
+    }
+    // Backslash escapes the next inline mark
+    if (text[index] === "\\" && /[*_`^~<{\\[]/.test(text[index + 1] ?? "")) {
+      buffer += text[index + 1];
+      index += 2;
+      continue;
+    }
+    for (const { pattern, build } of inlinePatterns) {
+      pattern.lastIndex = index;
+      const match = pattern.exec(text);
+      if (match) {
+        flush();
+        const node = build(match, ctx);
+        result.push(node);
+        index += match[0].length;
+        continue outer;
+      }
+    }
+    buffer += text[index];
+    index++;
+  }
+  flush();
+  return result;
+}
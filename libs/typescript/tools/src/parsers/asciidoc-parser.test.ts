@@ -0,0 +1,401 @@
+/**
+ * Tests for the AsciiDoc parser
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { Chunk, Effect, Exit, Stream } from "effect";
+import { mkdtemp, mkdir, rm, symlink, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { VFile } from "vfile";
+import {
+  DOCUMENT_MODEL_VERSION,
+  Processor,
+  validateDocument,
+} from "ndoctrinate-core";
+import { asciidocBlocks, createAsciiDocParser } from "./asciidoc-parser.js";
+import { createTextCompiler } from "../compilers/text-compiler.js";
+
+describe("createAsciiDocParser", () => {
+  const parser = createAsciiDocParser();
+  const parse = (input: string, file?: VFile) =>
+    Effect.runPromise(parser.parse(input, file));
+
+  it("should read the document title, header attributes and sections", async () => {
+    const tree = await parse(
+      [
+        "= Guide",
+        "Jane Doe",
+        ":product: Widget",
+        "",
+        "Intro about {product}.",
+        "",
+        "== First",
+        "",
+        "Text.",
+        "",
+        "=== Nested",
+        "",
+        "== Second",
+      ].join("\n")
+    );
+
+    expect(tree.version).toBe(DOCUMENT_MODEL_VERSION);
+    expect(tree.data).toEqual({
+      format: "asciidoc",
+      attributes: { doctitle: "Guide", author: "Jane Doe", product: "Widget" },
+    });
+    expect(tree.children).toMatchObject([
+      { type: "heading", depth: 1 },
+      {
+        type: "paragraph",
+        children: [{ type: "text", value: "Intro about Widget." }],
+      },
+      {
+        type: "section",
+        depth: 2,
+        id: "_first",
+        children: [
+          { type: "heading", depth: 2 },
+          { type: "paragraph" },
+          { type: "section", depth: 3, id: "_nested" },
+        ],
+      },
+      { type: "section", depth: 2, id: "_second" },
+    ]);
+  });
+
+  it("should attach positions to blocks", async () => {
+    const tree = await parse("First\nparagraph\n\nSecond");
+    expect(tree.children[0].position).toEqual({
+      start: { line: 1, column: 1, offset: 0 },
+      end: { line: 2, column: 10, offset: 15 },
+    });
+    expect(tree.children[1].position?.start.line).toBe(4);
+  });
+
+  it("should parse delimited blocks", async () => {
+    const tree = await parse(
+      [
+        "[source,ts]",
+        ".Example code",
+        "----",
+        "const a = 1;",
+        "----",
+        "",
+        "[NOTE]",
+        "====",
+        "Admonition block.",
+        "====",
+        "",
+        "====",
+        "Example.",
+        "====",
+        "",
+        "****",
+        "Sidebar.",
+        "****",
+        "",
+        "TIP: Paragraph admonition.",
+      ].join("\n")
+    );
+
+    expect(tree.children).toMatchObject([
+      {
+        type: "code",
+        lang: "ts",
+        value: "const a = 1;",
+        title: "Example code",
+      },
+      { type: "admonition", kind: "note", children: [{ type: "paragraph" }] },
+      { type: "example", children: [{ type: "paragraph" }] },
+      { type: "sidebar", children: [{ type: "paragraph" }] },
+      { type: "admonition", kind: "tip" },
+    ]);
+  });
+
+  it("should read titled block images as figures", async () => {
+    const tree = await parse(
+      ["[#arch]", ".System overview", "image::arch.png[Architecture]"].join(
+        "\n"
+      )
+    );
+
+    expect(tree.children).toMatchObject([
+      {
+        type: "figure",
+        id: "arch",
+        children: [
+          {
+            type: "paragraph",
+            children: [{ type: "image", url: "arch.png", alt: "Architecture" }],
+          },
+          {
+            type: "caption",
+            children: [{ type: "text", value: "System overview" }],
+          },
+        ],
+      },
+    ]);
+    expect(validateDocument(tree).success).toBe(true);
+  });
+
+  it("should parse inline formatting, links and footnotes", async () => {
+    const tree = await parse(
+      "A *bold* _em_ `code` https://example.com[site] <<sec,see>>.footnote:[Note.]"
+    );
+
+    expect(tree.children[0]).toMatchObject({
+      type: "paragraph",
+      children: [
+        { type: "text", value: "A " },
+        { type: "strong", children: [{ type: "text", value: "bold" }] },
+        { type: "text", value: " " },
+        { type: "emphasis" },
+        { type: "text", value: " " },
+        { type: "inlineCode", value: "code" },
+        { type: "text", value: " " },
+        { type: "link", url: "https://example.com" },
+        { type: "text", value: " " },
+        { type: "crossReference", identifier: "sec" },
+        { type: "text", value: "." },
+        { type: "footnoteReference", identifier: "1" },
+      ],
+    });
+    expect(tree.children[1]).toMatchObject({
+      type: "footnoteDefinition",
+      identifier: "1",
+    });
+  });
+
+  it("should parse nested lists with continuations", async () => {
+    const tree = await parse(
+      ["* one", "** nested", "* [x] two", "+", "continued"].join("\n")
+    );
+
+    expect(tree.children).toMatchObject([
+      {
+        type: "list",
+        ordered: false,
+        children: [
+          {
+            type: "listItem",
+            children: [{ type: "paragraph" }, { type: "list" }],
+          },
+          {
+            type: "listItem",
+            checked: true,
+            children: [{ type: "paragraph" }, { type: "paragraph" }],
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("should parse ordered lists", async () => {
+    const tree = await parse(". first\n. second");
+    expect(tree.children).toMatchObject([
+      { type: "list", ordered: true, children: [{}, {}] },
+    ]);
+  });
+
+  it("should parse tables with an implicit header row", async () => {
+    const tree = await parse(
+      ["|===", "| Name | Value", "", "| a | 1", "| b | 2", "|==="].join("\n")
+    );
+
+    expect(tree.children[0]).toMatchObject({
+      type: "table",
+      children: [
+        { type: "tableRow", header: true, children: [{}, {}] },
+        { type: "tableRow", children: [{}, {}] },
+        { type: "tableRow", children: [{}, {}] },
+      ],
+    });
+  });
+
+  it("should fail with a positioned ParseError for unterminated blocks", async () => {
+    const exit = await Effect.runPromiseExit(
+      parser.parse("Intro\n\n----\ncode")
+    );
+    expect(Exit.isFailure(exit)).toBe(true);
+    if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+      expect(exit.cause.error).toMatchObject({
+        _tag: "ParseError",
+        message: "Unterminated listing block",
+        position: { line: 3, column: 1 },
+      });
+    }
+  });
+
+  describe("includes", () => {
+    let dir: string;
+
+    beforeAll(async () => {
+      dir = await mkdtemp(join(tmpdir(), "asciidoc-parser-"));
+      await mkdir(join(dir, "partials"));
+      await writeFile(
+        join(dir, "partials", "chapter.adoc"),
+        "= Chapter\n\ninclude::snippet.adoc[]\n"
+      );
+      await writeFile(join(dir, "partials", "snippet.adoc"), "Snippet text.\n");
+    });
+
+    afterAll(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it("should resolve includes relative to the VFile path", async () => {
+      const file = new VFile({ path: join(dir, "main.adoc") });
+      const tree = await parse(
+        "Intro.\n\ninclude::partials/chapter.adoc[leveloffset=+1]\n",
+        file
+      );
+
+      expect(tree.children).toMatchObject([
+        { type: "paragraph" },
+        {
+          type: "section",
+          depth: 2,
+          children: [
+            { type: "heading" },
+            {
+              type: "paragraph",
+              children: [{ type: "text", value: "Snippet text." }],
+            },
+          ],
+        },
+      ]);
+      expect(file.data.includes).toEqual([
+        join(dir, "partials", "chapter.adoc"),
+        join(dir, "partials", "snippet.adoc"),
+      ]);
+    });
+
+    it("should fail with the include line for missing files", async () => {
+      const file = new VFile({ path: join(dir, "main.adoc") });
+      const exit = await Effect.runPromiseExit(
+        parser.parse("Intro.\n\ninclude::missing.adoc[]", file)
+      );
+      expect(Exit.isFailure(exit)).toBe(true);
+      if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+        expect(exit.cause.error).toMatchObject({
+          _tag: "ParseError",
+          message: "Unresolved include: missing.adoc",
+          position: { line: 3 },
+        });
+      }
+    });
+
+    it("should skip missing optional includes", async () => {
+      const file = new VFile({ path: join(dir, "main.adoc") });
+      const tree = await parse("include::missing.adoc[opts=optional]", file);
+      expect(tree.children).toEqual([]);
+    });
+
+    it("should not read includes when they are off", async () => {
+      const off = createAsciiDocParser({ includes: false });
+      const file = new VFile({ path: join(dir, "main.adoc") });
+      const exit = await Effect.runPromiseExit(
+        off.parse("Intro.\n\ninclude::partials/snippet.adoc[]\n", file)
+      );
+
+      expect(exit).toMatchObject({
+        _tag: "Failure",
+        cause: {
+          error: {
+            _tag: "ParseError",
+            message: "Includes are disabled: partials/snippet.adoc",
+            position: { line: 3 },
+          },
+        },
+      });
+      const tree = await Effect.runPromise(
+        off.parse("include::partials/snippet.adoc[opts=optional]", file)
+      );
+      expect(tree.children).toEqual([]);
+      expect(file.data.includes).toEqual([]);
+    });
+
+    it("should only read includes inside the include root", async () => {
+      await writeFile(join(dir, "secret.adoc"), "Secret.\n");
+      await symlink(
+        join(dir, "secret.adoc"),
+        join(dir, "partials", "link.adoc")
+      );
+      const confined = createAsciiDocParser({
+        includeRoot: join(dir, "partials"),
+      });
+      const file = new VFile({ path: join(dir, "partials", "main.adoc") });
+      const failure = (input: string) =>
+        Effect.runPromise(Effect.flip(confined.parse(input, file)));
+
+      await Effect.runPromise(
+        confined.parse("include::chapter.adoc[]\n", file)
+      );
+      expect(file.data.includes).toHaveLength(2);
+      expect(await failure("include::../secret.adoc[]")).toMatchObject({
+        message: "Include outside the include root: ../secret.adoc",
+      });
+      // A link inside the root is followed to where it points
+      expect(await failure("include::link.adoc[]")).toMatchObject({
+        message: "Include outside the include root: link.adoc",
+      });
+      expect(await failure("include::/etc/hostname[]")).toMatchObject({
+        _tag: "ParseError",
+        position: { line: 1 },
+      });
+    });
+  });
+});
+
+describe("asciidocBlocks", () => {
+  const document = [
+    "= Guide",
+    ":product: Widget",
+    "",
+    "Intro about {product}.",
+    "",
+    "== Install",
+    "",
+    "----",
+    "bun install",
+    "",
+    "bun test",
+    "----",
+    "",
+    "* one",
+    "+",
+    "More about one.",
+    "",
+    ":product: Gadget",
+    "",
+    "Outro about {product}.",
+    "",
+  ].join("\n");
+
+  it("should not cut through delimited blocks", () => {
+    // Ends inside the listing block, after its blank line
+    const text = document.slice(0, document.indexOf("bun test\n") + 9);
+
+    expect(asciidocBlocks.boundary(text)).toBe(document.indexOf("----"));
+  });
+
+  it("should stream with attributes from earlier chunks", async () => {
+    const processor = new Processor(
+      createAsciiDocParser(),
+      createTextCompiler()
+    );
+    const pieces = document.match(/[^]{1,5}/g) ?? [];
+
+    const streamed = await Effect.runPromise(
+      Stream.runCollect(processor.stream(Stream.fromIterable(pieces)))
+    );
+    const whole = await Effect.runPromise(processor.process(document));
+
+    expect(Chunk.size(streamed)).toBeGreaterThan(1);
+    expect(Chunk.join(streamed, "")).toBe(whole);
+    expect(whole).toContain("Intro about Widget.");
+    expect(whole).toContain("Outro about Gadget.");
+  });
+});
@@ -0,0 +1,1158 @@
+/**
+ * AsciiDoc parser
+ * Parses AsciiDoc source into a document tree of sections, delimited blocks,
+ * lists and tables, resolving `include::[]` directives relative to the
+ * VFile path, optionally only within a root directory
+ */
+
+import { Effect, pipe } from "effect";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import type { VFile } from "vfile";
+import {
+  createParseError,
+  DOCUMENT_MODEL_VERSION,
+  isParseError,
+  type DocumentRoot,
+  type FlowContent,
+  type BlockSyntax,
+  type Node,
+  type Parent,
+  type ParseError,
+  type Parser,
+  type Position,
+} from "ndoctrinate-core";
+import {
+  parseInline,
+  substituteAttributes,
+  type InlineContext,
+} from "./asciidoc-inline.js";
+
+declare module "vfile" {
+  interface DataMap {
+    /**
+     * Absolute paths of every file pulled in by `include::[]` directives,
+     * including nested includes
+     */
+    includes: string[];
+  }
+}
+
+/**
+ * Options for the AsciiDoc parser
+ */
+export interface AsciiDocParserOptions {
+  /**
+   * Read the files `include::[]` directives name; when off, an include
+   * fails the parse unless it is optional
+   * @default true
+   */
+  includes?: boolean;
+  /**
+   * Only read included files inside this directory, after following
+   * symbolic links; relative to the working directory
+   */
+  includeRoot?: string;
+}
+
+/**
+ * How includes are resolved while expanding a document
+ */
+interface IncludeState {
+  attributes: Record<string, string>;
+  includes: string[];
+  enabled: boolean;
+  /** Real path of the include root, if there is one */
+  root?: string;
+}
+
+/**
+ * Maximum nesting of include directives before the parser assumes a cycle
+ */
+const MAX_INCLUDE_DEPTH = 64;
+
+/**
+ * Admonition labels, usable as `NOTE:` paragraphs or `[NOTE]` block styles
+ */
+const admonitionKinds = ["NOTE", "TIP", "IMPORTANT", "CAUTION", "WARNING"];
+
+const attributeEntryPattern = /^:(!)?([\w][\w-]*)(!)?:(?:\s+(.*))?$/;
+const includePattern = /^include::(\S[^[]*)\[(.*)\]$/;
+const sectionPattern = /^(={1,6})\s+(\S.*?)(?:\s+=+)?$/;
+const listItemPattern = /^\s*(\*{1,5}|-|\.{1,5}|\d+\.)\s+(.*)$/;
+const blockImagePattern = /^image::(\S[^[]*)\[(.*)\]$/;
+const admonitionParagraphPattern = new RegExp(
+  `^(${admonitionKinds.join("|")}):\\s+(.*)$`
+);
+
+/**
+ * A source line with its location in the file it came from
+ * `file` is set for lines read from an included file
+ */
+interface SourceLine {
+  text: string;
+  line: number;
+  offset: number;
+  file?: string;
+}
+
+/**
+ * Attributes applied to the next block by `[...]`, `[[id]]` and `.Title`
+ */
+interface BlockAttributes {
+  style?: string;
+  positional: string[];
+  named: Record<string, string>;
+  options: string[];
+  id?: string;
+  title?: string;
+}
+
+/**
+ * State shared while parsing one document
+ */
+interface BlockContext {
+  lines: SourceLine[];
+  attributes: Record<string, string>;
+  inline: InlineContext;
+  sectionHeadings: WeakSet<Node>;
+  atDocumentStart: boolean;
+}
+
+type DelimitedKind =
+  | "listing"
+  | "literal"
+  | "example"
+  | "sidebar"
+  | "quote"
+  | "pass"
+  | "comment"
+  | "open"
+  | "table";
+
+const delimiterKinds: Record<string, DelimitedKind> = {
+  "-": "listing",
+  ".": "literal",
+  "=": "example",
+  "*": "sidebar",
+  _: "quote",
+  "+": "pass",
+  "/": "comment",
+};
+
+/**
+ * Split text into source lines, tracking line numbers and offsets
+ */
+function splitLines(text: string, file?: string): SourceLine[] {
+  const lines: SourceLine[] = [];
+  let offset = 0;
+  text.split("\n").forEach((raw, index) => {
+    lines.push({
+      text: raw.endsWith("\r") ? raw.slice(0, -1) : raw,
+      line: index + 1,
+      offset,
+      file,
+    });
+    offset += raw.length + 1;
+  });
+  return lines;
+}
+
+/**
+ * Point of the first column of a source line
+ */
+function pointOf(line: SourceLine): Position {
+  return { line: line.line, column: 1, offset: line.offset };
+}
+
+/**
+ * Fail parsing at a source line
+ * Lines from included files name the file in the message
+ */
+function syntaxError(message: string, line: SourceLine): ParseError {
+  return createParseError(
+    line.file ? `${message} (in ${line.file})` : message,
+    undefined,
+    pointOf(line)
+  );
+}
+
+/**
+ * Attach a unist position spanning the given lines
+ * Nodes built from included files carry no position, since positions are
+ * relative to the file being parsed
+ */
+function at<T extends Node>(node: T, first: SourceLine, last: SourceLine): T {
+  if (first.file === undefined && last.file === undefined) {
+    node.position = {
+      start: { line: first.line, column: 1, offset: first.offset },
+      end: {
+        line: last.line,
+        column: last.text.length + 1,
+        offset: last.offset + last.text.length,
+      },
+    };
+  }
+  return node;
+}
+
+/**
+ * Apply an attribute entry (`:name: value`, `:name!:`) to an attribute map
+ */
+function applyAttributeEntry(
+  attributes: Record<string, string>,
+  match: RegExpExecArray
+): void {
+  const name = match[2];
+  if (match[1] || match[3]) {
+    delete attributes[name];
+  } else {
+    attributes[name] = substituteAttributes(match[4] ?? "", attributes);
+  }
+}
+
+/**
+ * Split an attribute list on commas outside of quotes
+ */
+function parseAttributeList(text: string): {
+  positional: string[];
+  named: Record<string, string>;
+} {
+  const parts: string[] = [];
+  let current = "";
+  let quote: string | undefined;
+  for (const char of text) {
+    if (quote) {
+      if (char === quote) quote = undefined;
+      current += char;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      current += char;
+    } else if (char === ",") {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  const unquote = (value: string) =>
+    /^(["']).*\1$/.test(value) ? value.slice(1, -1) : value;
+  const positional: string[] = [];
+  const named: Record<string, string> = {};
+  for (const part of parts.map((p) => p.trim())) {
+    const pair = /^([\w-]+)\s*=\s*(.*)$/.exec(part);
+    if (pair) {
+      named[pair[1]] = unquote(pair[2].trim());
+    } else {
+      positional.push(unquote(part));
+    }
+  }
+  return { positional, named };
+}
+
+/**
+ * Parse a block attribute line such as `[source#id.role%linenums,ts]`
+ */
+function parseBlockAttributes(text: string): BlockAttributes {
+  const { positional, named } = parseAttributeList(text);
+  const attrs: BlockAttributes = {
+    positional,
+    named,
+    options: (named.options ?? named.opts ?? "")
+      .split(",")
+      .map((option) => option.trim())
+      .filter(Boolean),
+  };
+  if (named.id) attrs.id = named.id;
+
+  // The first positional attribute may use the shorthand style#id.role%option
+  const first = positional[0] ?? "";
+  const shorthand = /^([^#.%]*)((?:[#.%][^#.%]+)*)$/.exec(first);
+  if (shorthand && first) {
+    attrs.style = shorthand[1] || undefined;
+    for (const [, sigil, value] of shorthand[2].matchAll(/([#.%])([^#.%]+)/g)) {
+      if (sigil === "#") attrs.id = value;
+      if (sigil === "%") attrs.options.push(value);
+    }
+    positional[0] = shorthand[1];
+  }
+  return attrs;
+}
+
+function mergeAttributes(
+  target: BlockAttributes,
+  source: BlockAttributes
+): BlockAttributes {
+  return {
+    style: source.style ?? target.style,
+    positional: source.positional.length
+      ? source.positional
+      : target.positional,
+    named: { ...target.named, ...source.named },
+    options: [...target.options, ...source.options],
+    id: source.id ?? target.id,
+    title: target.title,
+  };
+}
+
+function emptyAttributes(): BlockAttributes {
+  return { positional: [], named: {}, options: [] };
+}
+
+function isWithin(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return (
+    relative !== "" && !relative.startsWith("..") && !path.isAbsolute(relative)
+  );
+}
+
+/**
+ * Expand include directives, reading included files relative to the
+ * including file
+ */
+function preprocess(
+  lines: SourceLine[],
+  baseDir: string,
+  state: IncludeState,
+  depth: number
+): Effect.Effect<SourceLine[], ParseError, never> {
+  return Effect.gen(function* () {
+    const result: SourceLine[] = [];
+    for (const line of lines) {
+      const entry = attributeEntryPattern.exec(line.text);
+      if (entry) {
+        applyAttributeEntry(state.attributes, entry);
+      }
+
+      const include = includePattern.exec(line.text);
+      if (!include) {
+        result.push(line);
+        continue;
+      }
+
+      const { named } = parseAttributeList(include[2]);
+      const optional = (named.opts ?? named.options ?? "")
+        .split(",")
+        .includes("optional");
+      const target = substituteAttributes(include[1], state.attributes);
+      let resolved = path.resolve(baseDir, target);
+
+      if (!state.enabled) {
+        if (optional) {
+          continue;
+        }
+        return yield* Effect.fail(
+          syntaxError(`Includes are disabled: ${target}`, line)
+        );
+      }
+
+      if (depth >= MAX_INCLUDE_DEPTH) {
+        return yield* Effect.fail(
+          syntaxError(
+            `Maximum include depth exceeded while including ${target}`,
+            line
+          )
+        );
+      }
+
+      if (state.root !== undefined) {
+        // Missing files are reported when they are read below
+        const real = yield* Effect.either(
+          Effect.tryPromise(() => fs.realpath(resolved))
+        );
+        if (real._tag === "Right") {
+          if (!isWithin(state.root, real.right)) {
+            if (optional) {
+              continue;
+            }
+            return yield* Effect.fail(
+              syntaxError(`Include outside the include root: ${target}`, line)
+            );
+          }
+          resolved = real.right;
+        }
+      }
+
+      const content = yield* Effect.either(
+        Effect.tryPromise(() => fs.readFile(resolved, "utf-8"))
+      );
+      if (content._tag === "Left") {
+        if (optional) {
+          continue;
+        }
+        return yield* Effect.fail(
+          createParseError(
+            `Unresolved include: ${target}${line.file ? ` (in ${line.file})` : ""}`,
+            content.left.error,
+            pointOf(line)
+          )
+        );
+      }
+
+      state.includes.push(resolved);
+      let included = splitLines(content.right, resolved);
+
+      // Shift section levels by leveloffset=+n / -n / n
+      const levelOffset = named.leveloffset;
+      if (levelOffset) {
+        const shift = Number(levelOffset);
+        included = included.map((includedLine) => {
+          const section = /^(=+)(\s.*)$/.exec(includedLine.text);
+          if (!section) return includedLine;
+          const level = Math.max(1, section[1].length + shift);
+          return { ...includedLine, text: "=".repeat(level) + section[2] };
+        });
+      }
+
+      result.push(
+        ...(yield* preprocess(
+          included,
+          path.dirname(resolved),
+          state,
+          depth + 1
+        ))
+      );
+    }
+    return result;
+  });
+}
+
+/**
+ * Identify a delimited block opening line
+ */
+function delimiterOf(text: string): DelimitedKind | undefined {
+  if (text === "--") return "open";
+  if (/^[|,:!]={3,}$/.test(text)) return "table";
+  const match = /^([-.=*_+/])\1{3,}$/.exec(text);
+  return match ? delimiterKinds[match[1]] : undefined;
+}
+
+/**
+ * Generate a section id the way Asciidoctor does (`_section_title`)
+ */
+function sectionId(title: string): string {
+  return (
+    "_" +
+    title
+      .toLowerCase()
+      .replace(/<[^>]+>/g, "")
+      .replace(/[^\w]+/g, "_")
+      .replace(/^_+|_+$/g, "")
+  );
+}
+
+/**
+ * Parse phrasing content, substituting attribute references first
+ */
+function inlines(text: string, ctx: BlockContext): Node[] {
+  return parseInline(substituteAttributes(text, ctx.attributes), ctx.inline);
+}
+
+/**
+ * Remove the common leading indentation of literal lines
+ */
+function dedent(lines: string[]): string {
+  const indent = Math.min(
+    ...lines
+      .filter((line) => line.trim())
+      .map((line) => /^\s*/.exec(line)![0].length)
+  );
+  return lines.map((line) => line.slice(indent)).join("\n");
+}
+
+/**
+ * Add block id and title attributes to a node
+ */
+function decorate<T extends Node>(node: T, attrs: BlockAttributes): T {
+  const extra = node as T & { id?: string; title?: string };
+  if (attrs.id) extra.id = attrs.id;
+  if (attrs.title) extra.title = attrs.title;
+  return node;
+}
+
+/**
+ * Number of columns declared by a `cols` attribute (`1,2,3`, `3*`, `2*,1`)
+ */
+function columnCount(cols: string): number {
+  return cols
+    .split(/[,;]/)
+    .map((spec) => /^\s*(\d+)\*/.exec(spec))
+    .reduce(
+      (count, multiplier) => count + (multiplier ? Number(multiplier[1]) : 1),
+      0
+    );
+}
+
+/**
+ * Build a table node from the lines between `|===` delimiters
+ */
+function parseTable(
+  content: SourceLine[],
+  attrs: BlockAttributes,
+  ctx: BlockContext
+): Node {
+  const cells: string[] = [];
+  let firstRowCells: number | undefined;
+  let implicitHeader = false;
+  let firstLineIndex: number | undefined;
+
+  content.forEach((line, index) => {
+    if (line.text.trim() === "") {
+      if (firstLineIndex !== undefined && index === firstLineIndex + 1) {
+        implicitHeader = true;
+      }
+      return;
+    }
+    const parts = line.text.split(/(?<!\\)\|/);
+    // Text before the first separator continues the previous cell
+    if (parts[0].trim() && cells.length > 0) {
+      cells[cells.length - 1] += "\n" + parts[0];
+    }
+    const lineCells = parts.slice(1).map((cell) => cell.replace(/\\\|/g, "|"));
+    cells.push(...lineCells);
+    if (firstLineIndex === undefined) {
+      firstLineIndex = index;
+      firstRowCells = lineCells.length;
+    }
+  });
+
+  const cols = attrs.named.cols
+    ? columnCount(attrs.named.cols)
+    : Math.max(firstRowCells ?? 1, 1);
+  implicitHeader &&= firstRowCells === cols;
+  const header =
+    attrs.options.includes("header") ||
+    (implicitHeader && !attrs.options.includes("noheader"));
+
+  const rows: Node[] = [];
+  for (let start = 0; start < cells.length; start += cols) {
+    rows.push({
+      type: "tableRow",
+      ...(header && start === 0 ? { header: true } : {}),
+      children: cells.slice(start, start + cols).map((cell) => ({
+        type: "tableCell",
+        children: cell.trim()
+          ? [{ type: "paragraph", children: inlines(cell.trim(), ctx) }]
+          : [],
+      })),
+    } as Node);
+  }
+  return { type: "table", children: rows } as Node;
+}
+
+/**
+ * Build the node for a delimited block
+ */
+function parseDelimited(
+  kind: DelimitedKind,
+  start: number,
+  end: number,
+  attrs: BlockAttributes,
+  ctx: BlockContext
+): Node[] {
+  const content = ctx.lines.slice(start, end);
+  const raw = content.map((line) => line.text).join("\n");
+  const admonition = admonitionKinds.includes(attrs.style ?? "");
+
+  switch (kind) {
+    case "comment":
+      return [];
+    case "listing":
+    case "literal": {
+      const lang =
+        attrs.style === "source" || kind === "listing"
+          ? (attrs.positional[1] ?? ctx.attributes["source-language"])
+          : undefined;
+      return [{ type: "code", ...(lang ? { lang } : {}), value: raw } as Node];
+    }
+    case "pass":
+      return [{ type: "html", value: raw } as Node];
+    case "table":
+      return [parseTable(content, attrs, ctx)];
+    case "quote":
+      return [
+        {
+          type: "blockquote",
+          ...(attrs.positional[1] ? { attribution: attrs.positional[1] } : {}),
+          ...(attrs.positional[2] ? { citation: attrs.positional[2] } : {}),
+          children: parseBlocks(start, end, ctx),
+        } as Node,
+      ];
+    case "example":
+    case "sidebar":
+    case "open": {
+      const children = parseBlocks(start, end, ctx);
+      if (admonition) {
+        return [
+          {
+            type: "admonition",
+            kind: attrs.style!.toLowerCase(),
+            children,
+          } as Node,
+        ];
+      }
+      // Open blocks only group their content
+      return kind === "open" ? children : [{ type: kind, children } as Node];
+    }
+  }
+}
+
+/**
+ * Parse a list starting at a list item line
+ */
+function parseList(
+  start: number,
+  end: number,
+  ctx: BlockContext
+): { nodes: Node[]; next: number } {
+  type ListNode = Parent & { children: Parent[] };
+  const lines = ctx.lines;
+  let root: ListNode | undefined;
+  const stack: Array<{ marker: string; list: ListNode }> = [];
+  let i = start;
+  let last = lines[start];
+
+  while (i < end) {
+    if (lines[i].text.trim() === "") {
+      // Blank lines may separate items of the same list
+      let j = i;
+      while (j < end && lines[j].text.trim() === "") j++;
+      if (j < end && listItemPattern.test(lines[j].text)) {
+        i = j;
+        continue;
+      }
+      break;
+    }
+
+    const match = listItemPattern.exec(lines[i].text);
+    if (!match) break;
+    const marker = /^\d/.test(match[1]) ? "." : match[1];
+
+    // Item text continues until a blank line, another item or a continuation
+    const itemStart = i;
+    const text = [match[2]];
+    i++;
+    while (
+      i < end &&
+      lines[i].text.trim() !== "" &&
+      lines[i].text !== "+" &&
+      !listItemPattern.test(lines[i].text) &&
+      !delimiterOf(lines[i].text)
+    ) {
+      text.push(lines[i].text.trim());
+      i++;
+    }
+
+    let body = text.join("\n");
+    const check = /^\[([ xX*])\]\s+/.exec(body);
+    if (check) body = body.slice(check[0].length);
+    const item = at(
+      {
+        type: "listItem",
+        ...(check ? { checked: check[1] !== " " } : {}),
+        children: [
+          at(
+            { type: "paragraph", children: inlines(body, ctx) } as Parent,
+            lines[itemStart],
+            lines[i - 1]
+          ),
+        ],
+      } as Parent,
+      lines[itemStart],
+      lines[i - 1]
+    );
+    last = lines[i - 1];
+
+    // Attach blocks joined with `+` list continuations
+    while (i < end && lines[i].text === "+") {
+      const { nodes, next } = parseBlock(i + 1, end, ctx, emptyAttributes());
+      item.children.push(...nodes);
+      last = lines[next - 1];
+      i = next;
+    }
+
+    const depth = stack.findIndex((entry) => entry.marker === marker);
+    if (depth >= 0) {
+      stack.length = depth + 1;
+    } else {
+      const list = {
+        type: "list",
+        ordered: marker.startsWith("."),
+        children: [],
+      } as unknown as ListNode;
+      if (stack.length === 0) {
+        root = list;
+      } else {
+        const parentList = stack[stack.length - 1].list;
+        parentList.children[parentList.children.length - 1].children.push(list);
+      }
+      stack.push({ marker, list });
+    }
+    stack[stack.length - 1].list.children.push(item);
+  }
+
+  return { nodes: root ? [at(root, lines[start], last)] : [], next: i };
+}
+
+/**
+ * Parse the document header following the document title:
+ * attribute entries plus optional author and revision lines
+ */
+function parseHeader(start: number, ctx: BlockContext): number {
+  let i = start;
+  let implicitLines = 0;
+  while (i < ctx.lines.length && ctx.lines[i].text.trim() !== "") {
+    const text = ctx.lines[i].text;
+    const entry = attributeEntryPattern.exec(text);
+    if (entry) {
+      applyAttributeEntry(ctx.attributes, entry);
+    } else if (!text.startsWith("//")) {
+      if (implicitLines === 0) ctx.attributes.author = text.trim();
+      if (implicitLines === 1) ctx.attributes.revnumber = text.trim();
+      implicitLines++;
+    }
+    i++;
+  }
+  return i;
+}
+
+/**
+ * Parse the block starting at line `start`
+ */
+function parseBlock(
+  start: number,
+  end: number,
+  ctx: BlockContext,
+  attrs: BlockAttributes
+): { nodes: Node[]; next: number } {
+  const lines = ctx.lines;
+  const line = lines[start];
+  const text = line.text;
+
+  // Section titles and the document title
+  const section = sectionPattern.exec(text);
+  if (section) {
+    const level = section[1].length;
+    const isDocumentTitle = level === 1 && ctx.atDocumentStart;
+    const id = attrs.id ?? sectionId(section[2]);
+    const heading = at(
+      {
+        type: "heading",
+        depth: level,
+        ...(isDocumentTitle ? {} : { id }),
+        children: inlines(section[2], ctx),
+      } as Node,
+      line,
+      line
+    );
+    if (isDocumentTitle) {
+      ctx.attributes.doctitle = section[2];
+      return { nodes: [heading], next: parseHeader(start + 1, ctx) };
+    }
+    if (attrs.style !== "discrete" && attrs.style !== "float") {
+      ctx.sectionHeadings.add(heading);
+    }
+    return { nodes: [heading], next: start + 1 };
+  }
+
+  // Delimited blocks
+  const kind = delimiterOf(text);
+  if (kind) {
+    let close = start + 1;
+    while (close < end && lines[close].text !== text) close++;
+    if (close >= end) {
+      throw syntaxError(`Unterminated ${kind} block`, line);
+    }
+    const nodes = parseDelimited(kind, start + 1, close, attrs, ctx);
+    if (kind === "open" && nodes.every((node) => node.type !== "admonition")) {
+      return { nodes, next: close + 1 };
+    }
+    return {
+      nodes: nodes.map((node) => decorate(at(node, line, lines[close]), attrs)),
+      next: close + 1,
+    };
+  }
+
+  if (text === "'''") {
+    return {
+      nodes: [at({ type: "thematicBreak" }, line, line)],
+      next: start + 1,
+    };
+  }
+  if (text === "<<<") {
+    return { nodes: [at({ type: "pageBreak" }, line, line)], next: start + 1 };
+  }
+
+  const image = blockImagePattern.exec(text);
+  if (image) {
+    const { positional } = parseAttributeList(image[2]);
+    const paragraph = {
+      type: "paragraph",
+      children: [
+        {
+          type: "image",
+          url: substituteAttributes(image[1], ctx.attributes),
+          alt: positional[0] ?? "",
+        },
+      ],
+    } as Node;
+    // A titled image is a figure, with the title as its caption
+    const node = attrs.title
+      ? ({
+          type: "figure",
+          children: [
+            paragraph,
+            { type: "caption", children: inlines(attrs.title, ctx) },
+          ],
+        } as Node)
+      : paragraph;
+    return {
+      nodes: [decorate(at(node, line, line), { ...attrs, title: undefined })],
+      next: start + 1,
+    };
+  }
+
+  if (listItemPattern.test(text)) {
+    const result = parseList(start, end, ctx);
+    result.nodes = result.nodes.map((node) => decorate(node, attrs));
+    return result;
+  }
+
+  // Paragraphs run until a blank line or a block delimiter
+  let next = start + 1;
+  while (
+    next < end &&
+    lines[next].text.trim() !== "" &&
+    !delimiterOf(lines[next].text)
+  ) {
+    next++;
+  }
+  const paragraphLines = lines.slice(start, next).map((l) => l.text);
+  const last = lines[next - 1];
+
+  // Indented paragraphs and listing/literal styles are preformatted
+  if (
+    /^\s/.test(text) ||
+    attrs.style === "literal" ||
+    attrs.style === "listing" ||
+    attrs.style === "source"
+  ) {
+    const lang =
+      attrs.style === "source"
+        ? (attrs.positional[1] ?? ctx.attributes["source-language"])
+        : undefined;
+    const node = {
+      type: "code",
+      ...(lang ? { lang } : {}),
+      value: dedent(paragraphLines),
+    } as Node;
+    return { nodes: [decorate(at(node, line, last), attrs)], next };
+  }
+
+  const admonitionMatch = admonitionParagraphPattern.exec(text);
+  const admonitionKind =
+    admonitionMatch?.[1] ??
+    (admonitionKinds.includes(attrs.style ?? "") ? attrs.style : undefined);
+  if (admonitionKind) {
+    if (admonitionMatch) paragraphLines[0] = admonitionMatch[2];
+    const node = {
+      type: "admonition",
+      kind: admonitionKind.toLowerCase(),
+      children: [
+        at(
+          {
+            type: "paragraph",
+            children: inlines(paragraphLines.join("\n"), ctx),
+          } as Node,
+          line,
+          last
+        ),
+      ],
+    } as Node;
+    return { nodes: [decorate(at(node, line, last), attrs)], next };
+  }
+
+  const paragraph = at(
+    {
+      type: "paragraph",
+      children: inlines(paragraphLines.join("\n"), ctx),
+    } as Node,
+    line,
+    last
+  );
+  if (attrs.style === "quote" || attrs.style === "verse") {
+    const quote = {
+      type: "blockquote",
+      ...(attrs.positional[1] ? { attribution: attrs.positional[1] } : {}),
+      ...(attrs.positional[2] ? { citation: attrs.positional[2] } : {}),
+      children: [paragraph],
+    } as Node;
+    return { nodes: [decorate(at(quote, line, last), attrs)], next };
+  }
+  return { nodes: [decorate(paragraph, attrs)], next };
+}
+
+/**
+ * Parse the blocks between two line indexes
+ */
+function parseBlocks(start: number, end: number, ctx: BlockContext): Node[] {
+  const lines = ctx.lines;
+  const blocks: Node[] = [];
+  let pending = emptyAttributes();
+  let i = start;
+
+  while (i < end) {
+    const text = lines[i].text;
+
+    if (text.trim() === "") {
+      i++;
+      continue;
+    }
+
+    // Single-line comments
+    if (text.startsWith("//") && !/^\/{4,}$/.test(text)) {
+      i++;
+      continue;
+    }
+
+    const entry = attributeEntryPattern.exec(text);
+    if (entry) {
+      applyAttributeEntry(ctx.attributes, entry);
+      i++;
+      continue;
+    }
+
+    const anchor = /^\[\[([\w:.-]+)(?:,.*)?\]\]$/.exec(text);
+    if (anchor) {
+      pending.id = anchor[1];
+      i++;
+      continue;
+    }
+
+    const attributeLine = /^\[(.*)\]$/.exec(text);
+    if (attributeLine) {
+      pending = mergeAttributes(
+        pending,
+        parseBlockAttributes(attributeLine[1])
+      );
+      i++;
+      continue;
+    }
+
+    const title = /^\.([^.\s].*)$/.exec(text);
+    if (title) {
+      pending.title = substituteAttributes(title[1], ctx.attributes);
+      i++;
+      continue;
+    }
+
+    const { nodes, next } = parseBlock(i, end, ctx, pending);
+    ctx.atDocumentStart = false;
+    blocks.push(...nodes);
+    pending = emptyAttributes();
+    i = next;
+  }
+
+  return blocks;
+}
+
+/**
+ * Nest blocks under the section headings that precede them
+ */
+function nestSections(blocks: Node[], ctx: BlockContext): Node[] {
+  const result: Node[] = [];
+  const stack: Array<{ depth: number; section: Parent }> = [];
+
+  for (const block of blocks) {
+    if (ctx.sectionHeadings.has(block)) {
+      const { depth, id } = block as Node & { depth: number; id: string };
+      while (stack.length > 0 && stack[stack.length - 1].depth >= depth) {
+        stack.pop();
+      }
+      const section = {
+        type: "section",
+        depth,
+        id,
+        children: [block],
+        ...(block.position
+          ? {
+              position: {
+                start: block.position.start,
+                end: block.position.end,
+              },
+            }
+          : {}),
+      } as Parent;
+      (stack.length > 0
+        ? stack[stack.length - 1].section.children
+        : result
+      ).push(section);
+      stack.push({ depth, section });
+      continue;
+    }
+
+    const container =
+      stack.length > 0 ? stack[stack.length - 1].section.children : result;
+    container.push(block);
+    // Sections extend to cover their content
+    for (const { section } of stack) {
+      if (section.position && block.position) {
+        section.position.end = block.position.end;
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Parse preprocessed lines into a root node
+ *
+ * @throws ParseError for malformed block structure
+ */
+function buildTree(lines: SourceLine[]): DocumentRoot {
+  const ctx: BlockContext = {
+    lines,
+    attributes: {},
+    inline: { footnotes: [] },
+    sectionHeadings: new WeakSet(),
+    atDocumentStart: true,
+  };
+  const children = nestSections(parseBlocks(0, lines.length, ctx), ctx);
+  children.push(...ctx.inline.footnotes);
+
+  const root: DocumentRoot = {
+    type: "root",
+    version: DOCUMENT_MODEL_VERSION,
+    children: children as FlowContent[],
+    data: { format: "asciidoc", attributes: ctx.attributes },
+  };
+  if (lines.length > 0) {
+    at(root, lines[0], lines[lines.length - 1]);
+  }
+  return root;
+}
+
+/**
+ * Where AsciiDoc top-level blocks end: at a blank line outside delimited
+ * blocks, before a line that does not continue a list item
+ *
+ * Later chunks are parsed after the attribute entries earlier chunks set, so
+ * attribute references keep resolving. Sections are nested only within a
+ * chunk.
+ */
+export const asciidocBlocks: BlockSyntax = {
+  boundary(text) {
+    let boundary = 0;
+    let delimiter: string | undefined;
+    let blank = false;
+    for (
+      let start = 0, end = text.indexOf("\n");
+      end !== -1;
+      start = end + 1, end = text.indexOf("\n", start)
+    ) {
+      const line = text.slice(start, end).replace(/\r$/, "");
+      if (delimiter !== undefined) {
+        if (line === delimiter) {
+          delimiter = undefined;
+        }
+        continue;
+      }
+      if (line.trim() === "") {
+        blank = true;
+        continue;
+      }
+      // `+` attaches the next block to a list item; indented lines are
+      // literal paragraphs that may belong to one
+      if (blank && line !== "+" && !/^\s/.test(line)) {
+        boundary = start;
+      }
+      blank = false;
+      if (delimiterOf(line)) {
+        delimiter = line;
+      }
+    }
+    return boundary;
+  },
+
+  context(tree) {
+    const { attributes = {} } = (tree.data ?? {}) as {
+      attributes?: Record<string, string>;
+    };
+    return Object.entries(attributes)
+      .map(([name, value]) => `:${name}: ${value}`.trimEnd() + "\n")
+      .join("");
+  },
+};
+
+/**
+ * Create an AsciiDoc parser that produces a document tree
+ *
+ * Include targets resolve relative to the directory of `file.path` (or the
+ * working directory when the file has no path); the resolved paths are
+ * recorded in `file.data.includes`. Documents from untrusted sources should
+ * be parsed with includes off or confined to `includeRoot`. Document
+ * attributes are exposed on `tree.data.attributes`.
+ *
+ * @param options - Whether includes are read, and from where
+ * @returns A parser from AsciiDoc source to a document root
+ */
+export function createAsciiDocParser(
+  options: AsciiDocParserOptions = {}
+): Parser<string, DocumentRoot> {
+  const { includes: enabled = true, includeRoot } = options;
+
+  return {
+    blocks: asciidocBlocks,
+    parse(
+      input: string,
+      file?: VFile
+    ): Effect.Effect<DocumentRoot, ParseError, never> {
+      const baseDir = file?.dirname
+        ? path.resolve(file.cwd, file.dirname)
+        : process.cwd();
+      const includes: string[] = [];
+      const root: Effect.Effect<string | undefined, ParseError, never> =
+        enabled && includeRoot !== undefined
+          ? Effect.mapError(
+              Effect.tryPromise(() => fs.realpath(path.resolve(includeRoot))),
+              ({ error }) =>
+                createParseError(
+                  `Include root not found: ${includeRoot}`,
+                  error
+                )
+            )
+          : Effect.succeed(undefined);
+
+      return pipe(
+        root,
+        Effect.flatMap((root) =>
+          preprocess(
+            splitLines(input),
+            baseDir,
+            { attributes: {}, includes, enabled, root },
+            0
+          )
+        ),
+        Effect.flatMap((lines) =>
+          Effect.try({
+            try: () => buildTree(lines),
+            catch: (error) =>
+              isParseError(error)
+                ? error
+                : createParseError(
+                    "Failed to parse AsciiDoc document",
+                    error instanceof Error ? error : new Error(String(error))
+                  ),
+          })
+        ),
+        Effect.tap(() => {
+          if (file) {
+            file.data.includes = includes;
+          }
+        })
+      );
+    },
+  };
+}
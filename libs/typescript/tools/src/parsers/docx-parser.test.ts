@@ -0,0 +1,279 @@
+/**
+ * Tests for the DOCX parser
+ */
+
+import { describe, it, expect } from "bun:test";
+import { Effect, Exit } from "effect";
+import { strToU8, zipSync } from "fflate";
+import { VFile } from "vfile";
+import {
+  DOCUMENT_MODEL_VERSION,
+  DocumentProcessorService,
+  validateDocument,
+} from "ndoctrinate-core";
+import { createDocxParser } from "./docx-parser.js";
+import { DocxProcessorLayer } from "../processors/docx-processor.js";
+
+const W = `xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"`;
+const REL =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+
+/**
+ * Build a minimal .docx package around a document body
+ */
+function buildDocx(body: string, footnotes = ""): Uint8Array {
+  return zipSync({
+    "_rels/.rels": strToU8(
+      `<?xml version="1.0"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="${REL}/officeDocument" Target="word/document.xml"/></Relationships>`
+    ),
+    "word/_rels/document.xml.rels": strToU8(
+      `<?xml version="1.0"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+        <Relationship Id="rId1" Type="${REL}/styles" Target="styles.xml"/>
+        <Relationship Id="rId2" Type="${REL}/numbering" Target="numbering.xml"/>
+        <Relationship Id="rId3" Type="${REL}/footnotes" Target="footnotes.xml"/>
+        <Relationship Id="rId4" Type="${REL}/image" Target="media/image1.png"/>
+        <Relationship Id="rId5" Type="${REL}/hyperlink" Target="https://example.com" TargetMode="External"/>
+      </Relationships>`
+    ),
+    "word/document.xml": strToU8(
+      `<?xml version="1.0"?><w:document ${W}><w:body>${body}</w:body></w:document>`
+    ),
+    "word/styles.xml": strToU8(
+      `<?xml version="1.0"?><w:styles ${W}>
+        <w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/></w:style>
+        <w:style w:type="paragraph" w:styleId="Custom2"><w:name w:val="Chapter"/><w:basedOn w:val="Heading2"/></w:style>
+        <w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/></w:style>
+      </w:styles>`
+    ),
+    "word/numbering.xml": strToU8(
+      `<?xml version="1.0"?><w:numbering ${W}>
+        <w:abstractNum w:abstractNumId="0">
+          <w:lvl w:ilvl="0"><w:start w:val="3"/><w:numFmt w:val="decimal"/></w:lvl>
+          <w:lvl w:ilvl="1"><w:numFmt w:val="bullet"/></w:lvl>
+        </w:abstractNum>
+        <w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num>
+      </w:numbering>`
+    ),
+    "word/footnotes.xml": strToU8(
+      `<?xml version="1.0"?><w:footnotes ${W}>
+        <w:footnote w:type="separator" w:id="-1"><w:p><w:r><w:separator/></w:r></w:p></w:footnote>
+        ${footnotes}
+      </w:footnotes>`
+    ),
+    "word/media/image1.png": new Uint8Array([137, 80, 78, 71]),
+  });
+}
+
+const paragraph = (text: string, pPr = "") =>
+  `<w:p><w:pPr>${pPr}</w:pPr><w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+
+const listItem = (text: string, level: number) =>
+  paragraph(
+    text,
+    `<w:numPr><w:ilvl w:val="${level}"/><w:numId w:val="1"/></w:numPr>`
+  );
+
+describe("createDocxParser", () => {
+  const parser = createDocxParser();
+
+  it("should read headings from styles and paragraphs", async () => {
+    const tree = await Effect.runPromise(
+      parser.parse(
+        buildDocx(
+          paragraph("Title", `<w:pStyle w:val="Heading1"/>`) +
+            paragraph("Chapter", `<w:pStyle w:val="Custom2"/>`) +
+            paragraph("Body")
+        )
+      )
+    );
+
+    expect(tree).toMatchObject({
+      version: DOCUMENT_MODEL_VERSION,
+      data: { format: "docx" },
+    });
+    expect(tree.children).toMatchObject([
+      { type: "heading", depth: 1, data: { style: "Heading1" } },
+      { type: "heading", depth: 2, data: { style: "Custom2" } },
+      { type: "paragraph", children: [{ type: "text", value: "Body" }] },
+    ]);
+  });
+
+  it("should read run formatting as marks", async () => {
+    const tree = await Effect.runPromise(
+      parser.parse(
+        buildDocx(
+          `<w:p><w:r><w:rPr><w:b/><w:i w:val="0"/><w:u w:val="single"/></w:rPr><w:t>Bold</w:t><w:br/><w:t>next</w:t></w:r></w:p>`
+        )
+      )
+    );
+
+    expect(tree.children[0]).toEqual({
+      type: "paragraph",
+      children: [
+        {
+          type: "strong",
+          children: [
+            {
+              type: "underline",
+              children: [
+                { type: "text", value: "Bold" },
+                { type: "break" },
+                { type: "text", value: "next" },
+              ],
+            },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("should merge adjacent runs with the same formatting", async () => {
+    const tree = await Effect.runPromise(
+      parser.parse(
+        buildDocx(
+          `<w:p><w:r><w:rPr><w:b/></w:rPr><w:t>Sp</w:t></w:r><w:r><w:rPr><w:b/></w:rPr><w:t>lit</w:t></w:r><w:r><w:t xml:space="preserve"> up</w:t></w:r></w:p>`
+        )
+      )
+    );
+
+    expect(tree.children[0]).toEqual({
+      type: "paragraph",
+      children: [
+        { type: "strong", children: [{ type: "text", value: "Split" }] },
+        { type: "text", value: " up" },
+      ],
+    });
+    expect(validateDocument(tree).success).toBe(true);
+  });
+
+  it("should group numbered paragraphs into nested lists", async () => {
+    const tree = await Effect.runPromise(
+      parser.parse(
+        buildDocx(
+          listItem("One", 0) +
+            listItem("Nested", 1) +
+            listItem("Two", 0) +
+            paragraph("After")
+        )
+      )
+    );
+
+    expect(tree.children).toMatchObject([
+      {
+        type: "list",
+        ordered: true,
+        start: 3,
+        children: [
+          {
+            type: "listItem",
+            children: [
+              { type: "paragraph" },
+              { type: "list", ordered: false, children: [{}] },
+            ],
+          },
+          { type: "listItem", children: [{ type: "paragraph" }] },
+        ],
+      },
+      { type: "paragraph" },
+    ]);
+  });
+
+  it("should read tables with merged cells", async () => {
+    const cell = (text: string, tcPr = "") =>
+      `<w:tc><w:tcPr>${tcPr}</w:tcPr>${paragraph(text)}</w:tc>`;
+    const tree = await Effect.runPromise(
+      parser.parse(
+        buildDocx(
+          `<w:tbl>
+            <w:tr><w:trPr><w:tblHeader/></w:trPr>${cell("A", `<w:gridSpan w:val="2"/>`)}${cell("B", `<w:vMerge w:val="restart"/>`)}</w:tr>
+            <w:tr>${cell("C")}${cell("D")}${cell("", "<w:vMerge/>")}</w:tr>
+          </w:tbl>`
+        )
+      )
+    );
+
+    expect(tree.children[0]).toMatchObject({
+      type: "table",
+      children: [
+        {
+          type: "tableRow",
+          header: true,
+          children: [
+            { type: "tableCell", colSpan: 2 },
+            { type: "tableCell", rowSpan: 2 },
+          ],
+        },
+        { type: "tableRow", children: [{}, {}] },
+      ],
+    });
+  });
+
+  it("should read images, hyperlinks and footnotes", async () => {
+    const file = new VFile();
+    const tree = await Effect.runPromise(
+      parser.parse(
+        buildDocx(
+          `<w:p>
+            <w:hyperlink r:id="rId5"><w:r><w:t>link</w:t></w:r></w:hyperlink>
+            <w:r><w:drawing><wp:inline xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing"><wp:extent cx="952500" cy="476250"/><wp:docPr id="1" name="Picture 1" descr="A chart"/><a:graphic xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"><a:graphicData><a:blip r:embed="rId4"/></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>
+            <w:r><w:footnoteReference w:id="1"/></w:r>
+          </w:p>`,
+          `<w:footnote w:id="1">${paragraph("The note")}</w:footnote>`
+        ),
+        file
+      )
+    );
+
+    expect(tree.children).toMatchObject([
+      {
+        type: "paragraph",
+        children: [
+          { type: "link", url: "https://example.com" },
+          {
+            type: "image",
+            url: "word/media/image1.png",
+            alt: "A chart",
+            width: 100,
+            height: 50,
+          },
+          { type: "footnoteReference", identifier: "1" },
+        ],
+      },
+      {
+        type: "footnoteDefinition",
+        identifier: "1",
+        children: [{ type: "paragraph" }],
+      },
+    ]);
+    expect(file.data.media?.["word/media/image1.png"]).toHaveLength(4);
+  });
+
+  it("should fail with a ParseError for non-zip input", async () => {
+    const exit = await Effect.runPromiseExit(
+      parser.parse(strToU8("not a docx"))
+    );
+    expect(Exit.isFailure(exit)).toBe(true);
+    if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+      expect(exit.cause.error._tag).toBe("ParseError");
+    }
+  });
+});
+
+describe("DocxProcessorLayer", () => {
+  it("should fail with an IoError for a missing file", async () => {
+    const program = Effect.flatMap(DocumentProcessorService, (processor) =>
+      processor.process("/nonexistent/report.docx")
+    );
+
+    const error = await Effect.runPromise(
+      Effect.flip(Effect.provide(program, DocxProcessorLayer))
+    );
+
+    expect(error).toMatchObject({
+      _tag: "IoError",
+      operation: "read",
+      format: "docx",
+      path: "/nonexistent/report.docx",
+    });
+  });
+});
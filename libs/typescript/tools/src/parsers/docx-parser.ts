@@ -0,0 +1,724 @@
+/**
+ * DOCX parser
+ * Reads a WordprocessingML package into a document tree of headings,
+ * paragraphs, lists, tables, images and footnotes
+ */
+
+import { Effect } from "effect";
+import type { Element } from "@xmldom/xmldom";
+import type { VFile } from "vfile";
+import {
+  createParseError,
+  DOCUMENT_MODEL_VERSION,
+  type DocumentRoot,
+  type FlowContent,
+  type Node,
+  type Parent,
+  type ParseError,
+  type Parser,
+} from "ndoctrinate-core";
+import { EMU_PER_PIXEL } from "../ooxml/media.js";
+import {
+  findRelationship,
+  readOoxmlPackage,
+  RelationshipTypes,
+  type OoxmlPackage,
+  type Relationship,
+} from "../ooxml/package.js";
+import {
+  attribute,
+  descendants,
+  element,
+  elementPath,
+  elements,
+  toggle,
+} from "../ooxml/xml.js";
+
+declare module "vfile" {
+  interface DataMap {
+    /**
+     * Embedded media extracted from a binary document, keyed by the `url`
+     * of the image nodes that reference it
+     */
+    media: Record<string, Uint8Array>;
+  }
+}
+
+/**
+ * Character formatting carried by a run
+ */
+interface RunProperties {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strike?: boolean;
+  vertAlign?: "superscript" | "subscript";
+  style?: string;
+}
+
+/**
+ * Paragraph style information resolved from styles.xml
+ */
+interface StyleInfo {
+  name?: string;
+  basedOn?: string;
+  outlineLevel?: number;
+}
+
+/**
+ * Numbering level information resolved from numbering.xml
+ */
+interface NumberingLevel {
+  format: string;
+  start: number;
+}
+
+/**
+ * List membership of a paragraph, from its `w:numPr`
+ */
+interface ListInfo {
+  numId: string;
+  level: number;
+}
+
+/**
+ * A converted block, with list membership kept aside until lists are grouped
+ */
+interface Block {
+  node: Node;
+  list?: ListInfo;
+}
+
+/**
+ * State shared while converting one document
+ */
+interface ParseContext {
+  pkg: OoxmlPackage;
+  relationships: Map<string, Relationship>;
+  styles: Map<string, StyleInfo>;
+  numbering: Map<string, Map<number, NumberingLevel>>;
+  footnotes: Map<string, Element>;
+  footnoteOrder: string[];
+  media: Record<string, Uint8Array>;
+}
+
+/**
+ * Inline node types that may appear inside a run
+ */
+type RunContent = { type: "text"; value: string } | { type: "break" };
+
+/**
+ * Mark nodes that adjacent runs with the same formatting can share
+ */
+const markTypes = new Set([
+  "strong",
+  "emphasis",
+  "underline",
+  "delete",
+  "superscript",
+  "subscript",
+]);
+
+/**
+ * Load paragraph styles, keyed by style id
+ */
+function loadStyles(pkg: OoxmlPackage, path?: string): Map<string, StyleInfo> {
+  const styles = new Map<string, StyleInfo>();
+  const root = path ? pkg.readXml(path)?.documentElement : undefined;
+  if (!root) {
+    return styles;
+  }
+  for (const style of elements(root, "style")) {
+    const id = attribute(style, "styleId");
+    if (!id || attribute(style, "type") !== "paragraph") {
+      continue;
+    }
+    const outline = attribute(elementPath(style, "pPr", "outlineLvl"), "val");
+    styles.set(id, {
+      name: attribute(element(style, "name"), "val"),
+      basedOn: attribute(element(style, "basedOn"), "val"),
+      outlineLevel: outline === undefined ? undefined : Number(outline),
+    });
+  }
+  return styles;
+}
+
+/**
+ * Load numbering definitions, keyed by `w:numId` and then by level
+ */
+function loadNumbering(
+  pkg: OoxmlPackage,
+  path?: string
+): Map<string, Map<number, NumberingLevel>> {
+  const numbering = new Map<string, Map<number, NumberingLevel>>();
+  const root = path ? pkg.readXml(path)?.documentElement : undefined;
+  if (!root) {
+    return numbering;
+  }
+
+  const abstracts = new Map<string, Map<number, NumberingLevel>>();
+  for (const abstract of elements(root, "abstractNum")) {
+    const levels = new Map<number, NumberingLevel>();
+    for (const lvl of elements(abstract, "lvl")) {
+      levels.set(Number(attribute(lvl, "ilvl") ?? 0), {
+        format: attribute(element(lvl, "numFmt"), "val") ?? "decimal",
+        start: Number(attribute(element(lvl, "start"), "val") ?? 1),
+      });
+    }
+    abstracts.set(attribute(abstract, "abstractNumId") ?? "", levels);
+  }
+
+  for (const num of elements(root, "num")) {
+    const abstractId = attribute(element(num, "abstractNumId"), "val");
+    const levels = abstractId ? abstracts.get(abstractId) : undefined;
+    const numId = attribute(num, "numId");
+    if (numId && levels) {
+      numbering.set(numId, levels);
+    }
+  }
+  return numbering;
+}
+
+/**
+ * Load footnote bodies, keyed by footnote id
+ * Separator footnotes are skipped
+ */
+function loadFootnotes(pkg: OoxmlPackage, path?: string): Map<string, Element> {
+  const footnotes = new Map<string, Element>();
+  const root = path ? pkg.readXml(path)?.documentElement : undefined;
+  if (!root) {
+    return footnotes;
+  }
+  for (const footnote of elements(root, "footnote")) {
+    const id = attribute(footnote, "id");
+    const type = attribute(footnote, "type");
+    if (id && (type === undefined || type === "normal")) {
+      footnotes.set(id, footnote);
+    }
+  }
+  return footnotes;
+}
+
+/**
+ * Resolve the heading depth for a paragraph, following the style chain
+ */
+function headingDepth(
+  pPr: Element | undefined,
+  styleId: string | undefined,
+  ctx: ParseContext
+): number | undefined {
+  const outline = attribute(element(pPr, "outlineLvl"), "val");
+  if (outline !== undefined && Number(outline) < 9) {
+    return Number(outline) + 1;
+  }
+
+  const seen = new Set<string>();
+  let id = styleId;
+  while (id && !seen.has(id)) {
+    seen.add(id);
+    const style = ctx.styles.get(id);
+    const name = (style?.name ?? id).toLowerCase();
+    const match = /^heading\s*(\d)$/.exec(name);
+    if (match) {
+      return Number(match[1]);
+    }
+    if (name === "title") {
+      return 1;
+    }
+    if (style?.outlineLevel !== undefined && style.outlineLevel < 9) {
+      return style.outlineLevel + 1;
+    }
+    id = style?.basedOn;
+  }
+  return undefined;
+}
+
+/**
+ * Read character formatting from `w:rPr`
+ */
+function runProperties(rPr: Element | undefined): RunProperties {
+  const properties: RunProperties = {};
+  if (toggle(rPr, "b")) properties.bold = true;
+  if (toggle(rPr, "i")) properties.italic = true;
+  if (toggle(rPr, "strike") || toggle(rPr, "dstrike")) {
+    properties.strike = true;
+  }
+  const underline = attribute(element(rPr, "u"), "val");
+  if (element(rPr, "u") && underline !== "none") {
+    properties.underline = true;
+  }
+  const vertAlign = attribute(element(rPr, "vertAlign"), "val");
+  if (vertAlign === "superscript" || vertAlign === "subscript") {
+    properties.vertAlign = vertAlign;
+  }
+  const style = attribute(element(rPr, "rStyle"), "val");
+  if (style) properties.style = style;
+  return properties;
+}
+
+/**
+ * Convert a `w:drawing` into an image node
+ */
+function convertDrawing(drawing: Element, ctx: ParseContext): Node | undefined {
+  const blip = descendants(drawing, "blip")[0];
+  const rel = ctx.relationships.get(attribute(blip, "embed") ?? "");
+  if (!rel) {
+    return undefined;
+  }
+
+  if (!rel.external) {
+    const data = ctx.pkg.read(rel.target);
+    if (data) {
+      ctx.media[rel.target] = data;
+    }
+  }
+
+  const docPr = descendants(drawing, "docPr")[0];
+  const extent = descendants(drawing, "extent")[0];
+  const width = attribute(extent, "cx");
+  const height = attribute(extent, "cy");
+  return {
+    type: "image",
+    url: rel.target,
+    alt: attribute(docPr, "descr") ?? attribute(docPr, "name") ?? "",
+    ...(attribute(docPr, "title") ? { title: attribute(docPr, "title") } : {}),
+    ...(width && height
+      ? {
+          width: Math.round(Number(width) / EMU_PER_PIXEL),
+          height: Math.round(Number(height) / EMU_PER_PIXEL),
+        }
+      : {}),
+  } as Node;
+}
+
+/**
+ * Wrap run content in mark nodes for its character formatting
+ * A character style is kept on the outermost node as `data.style`
+ */
+function applyProperties(content: Node[], properties: RunProperties): Node[] {
+  const marks = [
+    properties.vertAlign,
+    properties.strike && "delete",
+    properties.underline && "underline",
+    properties.italic && "emphasis",
+    properties.bold && "strong",
+  ].filter((mark): mark is string => Boolean(mark));
+
+  let nodes = content;
+  for (const type of marks) {
+    nodes = [{ type, children: nodes } as Node];
+  }
+  if (properties.style) {
+    nodes = nodes.map((node) => ({
+      ...node,
+      data: { style: properties.style },
+    }));
+  }
+  return nodes;
+}
+
+/**
+ * Join adjacent text nodes and adjacent marks of the same type, which Word
+ * splits across runs for editing history rather than formatting
+ */
+function mergeAdjacent(nodes: Node[]): Node[] {
+  const result: Node[] = [];
+  for (const node of nodes) {
+    const last = result[result.length - 1] as
+      | (Node & { value?: string; children?: Node[] })
+      | undefined;
+    const current = node as Node & { value?: string; children?: Node[] };
+    if (last && !last.data && !current.data && last.type === current.type) {
+      if (current.type === "text") {
+        last.value = (last.value ?? "") + (current.value ?? "");
+        continue;
+      }
+      if (markTypes.has(current.type)) {
+        last.children = mergeAdjacent([
+          ...(last.children ?? []),
+          ...(current.children ?? []),
+        ]);
+        continue;
+      }
+    }
+    result.push(
+      current.children
+        ? ({ ...current, children: mergeAdjacent(current.children) } as Node)
+        : current
+    );
+  }
+  return result;
+}
+
+/**
+ * Convert a `w:r` into inline nodes
+ * Text and breaks are wrapped in marks for the run formatting; drawings and
+ * footnote references are lifted out as siblings
+ */
+function convertRun(run: Element, ctx: ParseContext): Node[] {
+  const properties = runProperties(element(run, "rPr"));
+  const result: Node[] = [];
+  let content: RunContent[] = [];
+
+  const flush = () => {
+    if (content.length > 0) {
+      result.push(...applyProperties(content as Node[], properties));
+      content = [];
+    }
+  };
+  const pushText = (value: string) => {
+    const last = content[content.length - 1];
+    if (last?.type === "text") {
+      last.value += value;
+    } else {
+      content.push({ type: "text", value });
+    }
+  };
+
+  for (const child of elements(run)) {
+    switch (child.localName) {
+      case "t":
+        pushText(child.textContent ?? "");
+        break;
+      case "tab":
+        pushText("\t");
+        break;
+      case "noBreakHyphen":
+        pushText("‑");
+        break;
+      case "br":
+      case "cr":
+        content.push({ type: "break" });
+        break;
+      case "drawing": {
+        const image = convertDrawing(child, ctx);
+        if (image) {
+          flush();
+          result.push(image);
+        }
+        break;
+      }
+      case "footnoteReference": {
+        const id = attribute(child, "id");
+        if (id && ctx.footnotes.has(id)) {
+          flush();
+          if (!ctx.footnoteOrder.includes(id)) {
+            ctx.footnoteOrder.push(id);
+          }
+          result.push({ type: "footnoteReference", identifier: id } as Node);
+        }
+        break;
+      }
+    }
+  }
+  flush();
+  return result;
+}
+
+/**
+ * Convert the inline content of a paragraph or hyperlink
+ */
+function convertInlines(parent: Element, ctx: ParseContext): Node[] {
+  const result: Node[] = [];
+  for (const child of elements(parent)) {
+    switch (child.localName) {
+      case "r":
+        result.push(...convertRun(child, ctx));
+        break;
+      case "hyperlink": {
+        const rel = ctx.relationships.get(attribute(child, "id") ?? "");
+        const anchor = attribute(child, "anchor");
+        const url = rel?.target ?? (anchor ? `#${anchor}` : undefined);
+        const children = convertInlines(child, ctx);
+        if (url) {
+          result.push({ type: "link", url, children } as Node);
+        } else {
+          result.push(...children);
+        }
+        break;
+      }
+      // Containers whose runs belong to the paragraph text
+      case "ins":
+      case "smartTag":
+      case "fldSimple":
+      case "customXml":
+        result.push(...convertInlines(child, ctx));
+        break;
+      case "sdt": {
+        const content = element(child, "sdtContent");
+        if (content) result.push(...convertInlines(content, ctx));
+        break;
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Convert a `w:p` into a heading or paragraph block
+ */
+function convertParagraph(p: Element, ctx: ParseContext): Block | undefined {
+  const pPr = element(p, "pPr");
+  const styleId = attribute(element(pPr, "pStyle"), "val");
+  const children = mergeAdjacent(convertInlines(p, ctx));
+
+  const numPr = element(pPr, "numPr");
+  const numId = attribute(element(numPr, "numId"), "val");
+  const list =
+    numId && numId !== "0" && ctx.numbering.has(numId)
+      ? { numId, level: Number(attribute(element(numPr, "ilvl"), "val") ?? 0) }
+      : undefined;
+
+  if (children.length === 0 && !list) {
+    return undefined;
+  }
+
+  const depth = list ? undefined : headingDepth(pPr, styleId, ctx);
+  const node = {
+    ...(depth !== undefined
+      ? { type: "heading", depth: Math.min(depth, 6) }
+      : { type: "paragraph" }),
+    ...(styleId ? { data: { style: styleId } } : {}),
+    children,
+  } as Parent;
+  return { node, list };
+}
+
+/**
+ * Grid column span of a table cell
+ */
+function gridSpan(tc: Element): number {
+  return Number(attribute(elementPath(tc, "tcPr", "gridSpan"), "val") ?? 1);
+}
+
+/**
+ * Vertical merge state of a table cell
+ */
+function verticalMerge(tc: Element): "restart" | "continue" | undefined {
+  const vMerge = elementPath(tc, "tcPr", "vMerge");
+  if (!vMerge) {
+    return undefined;
+  }
+  return attribute(vMerge, "val") === "restart" ? "restart" : "continue";
+}
+
+/**
+ * Convert a `w:tbl` into a table node
+ * Horizontally merged cells get a `colSpan`; vertically merged cells are
+ * folded into the first cell of the merge with a `rowSpan`
+ */
+function convertTable(tbl: Element, ctx: ParseContext): Node {
+  const rows = elements(tbl, "tr").map((tr) => {
+    let column = 0;
+    const cells = elements(tr, "tc").map((tc) => {
+      const cell = { tc, column, span: gridSpan(tc), merge: verticalMerge(tc) };
+      column += cell.span;
+      return cell;
+    });
+    return { tr, cells };
+  });
+
+  const children = rows.map(({ tr, cells }, rowIndex) => {
+    const rowChildren = cells
+      .filter((cell) => cell.merge !== "continue")
+      .map((cell) => {
+        let rowSpan = 1;
+        if (cell.merge === "restart") {
+          while (
+            rows[rowIndex + rowSpan]?.cells.some(
+              (below) =>
+                below.column === cell.column && below.merge === "continue"
+            )
+          ) {
+            rowSpan++;
+          }
+        }
+        return {
+          type: "tableCell",
+          ...(cell.span > 1 ? { colSpan: cell.span } : {}),
+          ...(rowSpan > 1 ? { rowSpan } : {}),
+          children: convertBlocks(cell.tc, ctx),
+        } as Node;
+      });
+    const header = toggle(element(tr, "trPr"), "tblHeader");
+    return {
+      type: "tableRow",
+      ...(header ? { header } : {}),
+      children: rowChildren,
+    } as Node;
+  });
+
+  return { type: "table", children } as Node;
+}
+
+/**
+ * Group consecutive list paragraphs into nested list nodes
+ */
+function groupLists(blocks: Block[], ctx: ParseContext): Node[] {
+  type ListNode = Node & { children: Array<Node & { children: Node[] }> };
+  const result: Node[] = [];
+  let stack: Array<{ list: ListNode; numId: string; level: number }> = [];
+
+  for (const { node, list } of blocks) {
+    if (!list) {
+      stack = [];
+      result.push(node);
+      continue;
+    }
+
+    // Close lists that are deeper, or siblings from another numbering
+    while (stack.length > 0) {
+      const top = stack[stack.length - 1];
+      if (
+        top.level > list.level ||
+        (top.level === list.level && top.numId !== list.numId)
+      ) {
+        stack.pop();
+      } else {
+        break;
+      }
+    }
+
+    let top = stack[stack.length - 1];
+    if (!top || top.level < list.level) {
+      const level = ctx.numbering.get(list.numId)?.get(list.level);
+      const ordered =
+        level !== undefined && !["bullet", "none"].includes(level.format);
+      const listNode = {
+        type: "list",
+        ordered,
+        ...(ordered ? { start: level.start } : {}),
+        children: [],
+      } as unknown as ListNode;
+
+      if (top) {
+        if (top.list.children.length === 0) {
+          top.list.children.push({ type: "listItem", children: [] });
+        }
+        top.list.children[top.list.children.length - 1].children.push(listNode);
+      } else {
+        result.push(listNode);
+      }
+      top = { list: listNode, numId: list.numId, level: list.level };
+      stack.push(top);
+    }
+
+    top.list.children.push({ type: "listItem", children: [node] });
+  }
+
+  return result;
+}
+
+/**
+ * Convert the block content of a body, table cell or footnote
+ */
+function convertBlocks(parent: Element, ctx: ParseContext): Node[] {
+  const blocks: Block[] = [];
+  const visit = (container: Element) => {
+    for (const child of elements(container)) {
+      switch (child.localName) {
+        case "p": {
+          const block = convertParagraph(child, ctx);
+          if (block) blocks.push(block);
+          break;
+        }
+        case "tbl":
+          blocks.push({ node: convertTable(child, ctx) });
+          break;
+        case "sdt": {
+          const content = element(child, "sdtContent");
+          if (content) visit(content);
+          break;
+        }
+        case "customXml":
+          visit(child);
+          break;
+      }
+    }
+  };
+  visit(parent);
+  return groupLists(blocks, ctx);
+}
+
+/**
+ * Convert a DOCX package into a document tree
+ *
+ * @throws If the package is not a readable WordprocessingML document
+ */
+function docxToTree(bytes: Uint8Array, file?: VFile): DocumentRoot {
+  const pkg = readOoxmlPackage(bytes);
+  const main =
+    findRelationship(pkg.relationships(""), RelationshipTypes.officeDocument)
+      ?.target ?? "word/document.xml";
+  const body = elementPath(pkg.readXml(main), "document", "body");
+  if (!body) {
+    throw new Error(`Missing document body in ${main}`);
+  }
+
+  const relationships = pkg.relationships(main);
+  const part = (type: string) => findRelationship(relationships, type)?.target;
+  const footnotesPart = part(RelationshipTypes.footnotes);
+
+  const ctx: ParseContext = {
+    pkg,
+    relationships,
+    styles: loadStyles(pkg, part(RelationshipTypes.styles)),
+    numbering: loadNumbering(pkg, part(RelationshipTypes.numbering)),
+    footnotes: loadFootnotes(pkg, footnotesPart),
+    footnoteOrder: [],
+    media: {},
+  };
+
+  const children = convertBlocks(body, ctx);
+
+  // Footnote bodies resolve their own relationships (images, hyperlinks)
+  const footnoteCtx: ParseContext = footnotesPart
+    ? { ...ctx, relationships: pkg.relationships(footnotesPart) }
+    : ctx;
+  for (let i = 0; i < ctx.footnoteOrder.length; i++) {
+    const id = ctx.footnoteOrder[i];
+    children.push({
+      type: "footnoteDefinition",
+      identifier: id,
+      children: convertBlocks(ctx.footnotes.get(id)!, footnoteCtx),
+    } as Node);
+  }
+
+  if (file) {
+    file.data.media = { ...file.data.media, ...ctx.media };
+  }
+
+  return {
+    type: "root",
+    version: DOCUMENT_MODEL_VERSION,
+    children: children as FlowContent[],
+    data: { format: "docx" },
+  };
+}
+
+/**
+ * Create a DOCX parser that produces a document tree
+ *
+ * Image nodes reference media by package path in `url`; the bytes are
+ * collected in `file.data.media` when a VFile is supplied. Paragraph and
+ * character style ids are kept as `data.style`.
+ *
+ * @returns A parser from DOCX bytes to a document root
+ */
+export function createDocxParser(): Parser<Uint8Array, DocumentRoot> {
+  return {
+    parse(
+      input: Uint8Array,
+      file?: VFile
+    ): Effect.Effect<DocumentRoot, ParseError, never> {
+      return Effect.try({
+        try: () => docxToTree(input, file),
+        catch: (error) =>
+          createParseError(
+            `Failed to read DOCX document: ${error instanceof Error ? error.message : String(error)}`,
+            error instanceof Error ? error : new Error(String(error))
+          ),
+      });
+    },
+  };
+}
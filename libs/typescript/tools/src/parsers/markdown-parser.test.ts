@@ -0,0 +1,242 @@
+/**
+ * Tests for the Markdown parser
+ */
+
+import { describe, it, expect } from "bun:test";
+import { Chunk, Effect, Stream } from "effect";
+import {
+  DOCUMENT_MODEL_VERSION,
+  DocumentProcessorService,
+  Processor,
+  validateDocument,
+} from "ndoctrinate-core";
+import { createMarkdownParser, markdownBlocks } from "./markdown-parser.js";
+import { createMarkdownCompiler } from "../compilers/markdown-compiler.js";
+import { MarkdownProcessorLayer } from "../processors/markdown-processor.js";
+
+describe("createMarkdownParser", () => {
+  const parser = createMarkdownParser();
+
+  it("should parse CommonMark into a document tree", async () => {
+    const tree = await Effect.runPromise(
+      parser.parse("# Title\n\nSome *emphasis*.")
+    );
+
+    expect(tree).toMatchObject({
+      type: "root",
+      version: DOCUMENT_MODEL_VERSION,
+      data: { format: "markdown" },
+    });
+    expect(tree.children[0]).toMatchObject({ type: "heading", depth: 1 });
+    expect(tree.children[1]).toMatchObject({
+      type: "paragraph",
+      children: [
+        { type: "text", value: "Some " },
+        { type: "emphasis" },
+        { type: "text", value: "." },
+      ],
+    });
+  });
+
+  it("should attach position information", async () => {
+    const tree = await Effect.runPromise(parser.parse("a\n\nb"));
+    expect(tree.children[1].position?.start).toMatchObject({
+      line: 3,
+      column: 1,
+    });
+  });
+
+  it("should parse GFM tables", async () => {
+    const tree = await Effect.runPromise(
+      parser.parse("| a | b |\n| :- | -: |\n| 1 | 2 |")
+    );
+    expect(tree.children[0]).toMatchObject({
+      type: "table",
+      align: ["left", "right"],
+      children: [{ header: true }, {}],
+    });
+  });
+
+  it("should parse GFM task lists", async () => {
+    const tree = await Effect.runPromise(
+      parser.parse("- [x] done\n- [ ] todo")
+    );
+    expect(tree.children[0]).toMatchObject({
+      type: "list",
+      children: [
+        { type: "listItem", checked: true },
+        { type: "listItem", checked: false },
+      ],
+    });
+  });
+
+  it("should parse GFM footnotes", async () => {
+    const tree = await Effect.runPromise(
+      parser.parse("Text[^1].\n\n[^1]: The note.")
+    );
+    expect(tree.children.map((node) => node.type)).toEqual([
+      "paragraph",
+      "footnoteDefinition",
+    ]);
+  });
+
+  it("should lift YAML front matter onto the root", async () => {
+    const tree = await Effect.runPromise(
+      parser.parse("---\ntitle: Hello\n---\n\n# Hello")
+    );
+    expect(tree.data?.frontmatter).toEqual({
+      format: "yaml",
+      value: "title: Hello",
+    });
+    expect(tree.children.map((node) => node.type)).toEqual(["heading"]);
+  });
+
+  it("should resolve link references", async () => {
+    const tree = await Effect.runPromise(
+      parser.parse('[docs][1] and [missing]\n\n[1]: https://example.com "Docs"')
+    );
+    expect(tree.children).toHaveLength(1);
+    expect(tree.children[0]).toMatchObject({
+      type: "paragraph",
+      children: [
+        { type: "link", url: "https://example.com", title: "Docs" },
+        { type: "text", value: " and [missing]" },
+      ],
+    });
+    expect(validateDocument(tree).success).toBe(true);
+  });
+
+  it("should leave GFM syntax as text when disabled", async () => {
+    const plain = createMarkdownParser({ gfm: false, frontmatter: false });
+    const tree = await Effect.runPromise(plain.parse("- [x] done"));
+    expect(tree.children[0]).toMatchObject({
+      type: "list",
+      children: [{ type: "listItem" }],
+    });
+    expect(tree.children[0]).not.toHaveProperty("children.0.checked");
+  });
+
+  it("should round-trip through the Markdown compiler", async () => {
+    const processor = new Processor(parser, createMarkdownCompiler());
+    const source =
+      "---\ntitle: Hello\n---\n\n# Title\n\n| a | b |\n| - | - |\n| 1 | 2 |\n";
+    const output = await Effect.runPromise(processor.process(source));
+    expect(output).toBe(source);
+  });
+});
+
+describe("MarkdownProcessorLayer", () => {
+  it("should return the document tree and front matter", async () => {
+    const program = Effect.flatMap(DocumentProcessorService, (processor) =>
+      processor.process("---\ntitle: Hello\n---\n\n# Hello\n")
+    );
+
+    const [document] = await Effect.runPromise(
+      Effect.provide(program, MarkdownProcessorLayer)
+    );
+
+    expect(document.tree?.type).toBe("root");
+    expect(document.metadata).toEqual({
+      format: "markdown",
+      frontmatter: { format: "yaml", value: "title: Hello" },
+    });
+  });
+
+  it("should fail with a DecodeError for invalid UTF-8", async () => {
+    const program = Effect.flatMap(DocumentProcessorService, (processor) =>
+      processor.process(new Uint8Array([0x23, 0x20, 0xff, 0xfe]))
+    );
+
+    const error = await Effect.runPromise(
+      Effect.flip(Effect.provide(program, MarkdownProcessorLayer))
+    );
+
+    expect(error).toMatchObject({
+      _tag: "DecodeError",
+      encoding: "utf-8",
+      format: "markdown",
+    });
+  });
+});
+
+describe("markdownBlocks", () => {
+  const document = [
+    "---",
+    "title: Guide",
+    "",
+    "draft: true",
+    "---",
+    "",
+    "# Guide",
+    "",
+    "```sh",
+    "bun install",
+    "",
+    "bun test",
+    "```",
+    "",
+    "- one",
+    "",
+    "  more about one",
+    "- two",
+    "",
+    "<pre>",
+    "",
+    "</pre>",
+    "",
+    "Last paragraph.",
+    "",
+  ].join("\n");
+
+  it("should only cut between top-level blocks", () => {
+    const cuts: string[] = [];
+    // The last boundary of ever shorter prefixes
+    for (let text = document; ; ) {
+      const end = markdownBlocks.boundary(text);
+      if (end === 0) break;
+      cuts.push(text.slice(end).split("\n")[0]);
+      text = text.slice(0, end);
+    }
+
+    expect(cuts.reverse()).toEqual([
+      "# Guide",
+      "```sh",
+      "- one",
+      "<pre>",
+      "Last paragraph.",
+    ]);
+  });
+
+  it("should stream to the same Markdown as processing at once", async () => {
+    const processor = new Processor(
+      createMarkdownParser(),
+      createMarkdownCompiler()
+    );
+    // Pieces that cut through blocks and lines
+    const pieces = document.match(/[^]{1,7}/g) ?? [];
+
+    const streamed = await Effect.runPromise(
+      Stream.runCollect(processor.stream(Stream.fromIterable(pieces)))
+    );
+    const whole = await Effect.runPromise(processor.process(document));
+
+    expect(Chunk.size(streamed)).toBeGreaterThan(1);
+    expect(Chunk.join(streamed, "")).toBe(whole);
+  });
+
+  it("should only read front matter at the start of a stream", async () => {
+    const processor = new Processor(
+      createMarkdownParser(),
+      createMarkdownCompiler()
+    );
+    const pieces = ["x\n\n---\n", "\nfoo\n---\n\nend\n"];
+
+    const streamed = await Effect.runPromise(
+      Stream.runCollect(processor.stream(Stream.fromIterable(pieces)))
+    );
+    const whole = await Effect.runPromise(processor.process(pieces.join("")));
+
+    expect(whole).toBe("x\n\n***\n\n## foo\n\nend\n");
+    expect(Chunk.join(streamed, "")).toBe(whole);
+  });
+});
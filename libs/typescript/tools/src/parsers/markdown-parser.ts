@@ -0,0 +1,130 @@
+/**
+ * Markdown parser
+ * Parses CommonMark (with optional GFM and front matter) into a document tree
+ */
+
+import { fromMarkdown } from "mdast-util-from-markdown";
+import { frontmatterFromMarkdown } from "mdast-util-frontmatter";
+import { gfmFromMarkdown } from "mdast-util-gfm";
+import { frontmatter } from "micromark-extension-frontmatter";
+import { gfm } from "micromark-extension-gfm";
+import {
+  adaptUnifiedParser,
+  type BlockSyntax,
+  type DocumentRoot,
+  type Parser,
+} from "ndoctrinate-core";
+import { fromMdast } from "../mdast/from-mdast.js";
+
+/**
+ * Front matter flavours recognised by the parser
+ */
+export const frontmatterPresets = ["yaml", "toml"] as const;
+
+/**
+ * Options for the Markdown parser
+ */
+export interface MarkdownParserOptions {
+  /**
+   * Enable GitHub Flavored Markdown (tables, task lists, footnotes,
+   * strikethrough and autolink literals)
+   * @default true
+   */
+  gfm?: boolean;
+  /**
+   * Enable YAML (`---`) and TOML (`+++`) front matter
+   * @default true
+   */
+  frontmatter?: boolean;
+}
+
+/**
+ * Where Markdown top-level blocks end: at a blank line outside fenced code,
+ * raw HTML blocks and front matter, before a line that is not indented into
+ * a list item or code block
+ *
+ * Link reference definitions and footnote definitions only apply within the
+ * chunk they are in. Chunks after the first are parsed behind a blank line,
+ * so a `---` at their start is not taken for front matter.
+ */
+export const markdownBlocks: BlockSyntax = {
+  boundary(text) {
+    let boundary = 0;
+    let start = 0;
+    // Front matter, which may hold blank lines, stays with the first block
+    const frontmatter = /^(---|\+\+\+)\r?\n[^]*?\n\1\r?\n/.exec(text);
+    if (frontmatter) {
+      start = frontmatter[0].length;
+    }
+
+    let closing: RegExp | undefined;
+    let blank = false;
+    for (
+      let end = text.indexOf("\n", start);
+      end !== -1;
+      start = end + 1, end = text.indexOf("\n", start)
+    ) {
+      const line = text.slice(start, end).replace(/\r$/, "");
+      if (closing) {
+        if (closing.test(line)) {
+          closing = undefined;
+        }
+        continue;
+      }
+      if (line.trim() === "") {
+        blank = true;
+        continue;
+      }
+      if (blank && !/^\s/.test(line)) {
+        boundary = start;
+      }
+      blank = false;
+
+      const fence = /^ {0,3}(`{3,}|~{3,})/.exec(line);
+      const html = /^ {0,3}<(script|pre|style|textarea|!--)/i.exec(line);
+      if (fence) {
+        closing = new RegExp(`^ {0,3}${fence[1][0]}{${fence[1].length},}\\s*$`);
+      } else if (html) {
+        const close =
+          html[1] === "!--" ? /-->/ : new RegExp(`</${html[1]}>`, "i");
+        closing = close.test(line.slice(html[0].length)) ? undefined : close;
+      }
+    }
+    return boundary;
+  },
+  // Front matter only opens a document, and a blank line starts no block
+  context: () => "\n",
+};
+
+/**
+ * Create a Markdown parser that produces a document tree
+ * Front matter is lifted onto `tree.data.frontmatter` and link references
+ * are resolved against their definitions
+ *
+ * @param options - Syntax extensions to enable
+ * @returns A parser from Markdown source to a document root
+ */
+export function createMarkdownParser(
+  options: MarkdownParserOptions = {}
+): Parser<string, DocumentRoot> {
+  const enableGfm = options.gfm ?? true;
+  const enableFrontmatter = options.frontmatter ?? true;
+
+  const extensions = [
+    ...(enableGfm ? [gfm()] : []),
+    ...(enableFrontmatter ? [frontmatter([...frontmatterPresets])] : []),
+  ];
+  const mdastExtensions = [
+    ...(enableGfm ? gfmFromMarkdown() : []),
+    ...(enableFrontmatter
+      ? [frontmatterFromMarkdown([...frontmatterPresets])]
+      : []),
+  ];
+
+  return {
+    ...adaptUnifiedParser<DocumentRoot>((input) =>
+      fromMdast(fromMarkdown(String(input), { extensions, mdastExtensions }))
+    ),
+    blocks: markdownBlocks,
+  };
+}
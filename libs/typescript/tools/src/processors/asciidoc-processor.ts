@@ -1,30 +1,59 @@
-import { Effect, Layer } from "effect";
+import { Effect, Layer, pipe } from "effect";
 import {
   DocumentProcessorService,
+  Processor,
+  createUnsupportedSourceError,
+  withErrorContext,
   type DocumentProcessor,
+  type DocumentRoot,
   type Source,
   type StructuredDocument,
   type DocumentProcessingError,
 } from "ndoctrinate-core";
+import { createAsciiDocParser } from "../parsers/asciidoc-parser.js";
+import { decodeUtf8 } from "./decode.js";
+import { createTextCompiler } from "../compilers/text-compiler.js";
 
 /**
  * AsciiDoc document processor
- * Stub implementation for processing AsciiDoc documents
+ * Parses AsciiDoc source into a tree of sections and blocks through the
+ * core pipeline
  */
 class AsciiDocProcessor implements DocumentProcessor {
+  private readonly processor = new Processor<string, string, DocumentRoot>(
+    createAsciiDocParser(),
+    createTextCompiler()
+  );
+
   process(
     source: Source
   ): Effect.Effect<StructuredDocument[], DocumentProcessingError, never> {
-    // For now, handle string input
+    // Decode raw bytes as UTF-8 text
+    if (source instanceof Uint8Array) {
+      return pipe(
+        decodeUtf8(source, "asciidoc"),
+        Effect.flatMap((text) => this.process(text))
+      );
+    }
+
+    // Parse string input as AsciiDoc source
     if (typeof source === "string") {
-      return Effect.succeed([
-        {
-          content: source,
-          metadata: {
-            format: "asciidoc",
+      return pipe(
+        this.processor.processWithTree(source),
+        Effect.mapError((error) =>
+          withErrorContext(error, { format: "asciidoc" })
+        ),
+        Effect.map(([content, tree]) => [
+          {
+            content,
+            tree,
+            metadata: {
+              format: tree.data?.format,
+              attributes: tree.data?.attributes,
+            },
           },
-        },
-      ]);
+        ])
+      );
     }
 
     // Handle JSON input
@@ -42,7 +71,7 @@ class AsciiDocProcessor implements DocumentProcessor {
     }
 
     return Effect.fail(
-      "Unsupported source type for asciidoc processor" as DocumentProcessingError
+      createUnsupportedSourceError(source, { format: "asciidoc" })
     );
   }
 }
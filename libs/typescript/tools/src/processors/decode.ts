@@ -0,0 +1,23 @@
+/**
+ * Text decoding shared by the text-based processors
+ */
+
+import { Effect } from "effect";
+import { createDecodeError, type DecodeError } from "ndoctrinate-core";
+
+/**
+ * Decode raw bytes as UTF-8, failing on malformed sequences rather than
+ * substituting replacement characters
+ */
+export function decodeUtf8(
+  bytes: Uint8Array,
+  format: string
+): Effect.Effect<string, DecodeError, never> {
+  return Effect.try({
+    try: () => new TextDecoder("utf-8", { fatal: true }).decode(bytes),
+    catch: (error) =>
+      createDecodeError(`Source is not valid UTF-8`, "utf-8", error, {
+        format,
+      }),
+  });
+}
@@ -1,30 +1,54 @@
-import { Effect, Layer } from "effect";
+import { Effect, Layer, pipe } from "effect";
+import * as fs from "node:fs/promises";
 import {
   DocumentProcessorService,
+  Processor,
+  createIoError,
+  createUnsupportedSourceError,
+  createVFile,
+  withErrorContext,
   type DocumentProcessor,
+  type DocumentRoot,
   type Source,
   type StructuredDocument,
   type DocumentProcessingError,
 } from "ndoctrinate-core";
+import { createDocxParser } from "../parsers/docx-parser.js";
+import { createTextCompiler } from "../compilers/text-compiler.js";
 
 /**
  * DOCX document processor
- * Stub implementation for processing DOCX documents
+ * Reads WordprocessingML packages from a file path or raw bytes
  */
 class DocxProcessor implements DocumentProcessor {
+  private readonly processor = new Processor<Uint8Array, string, DocumentRoot>(
+    createDocxParser(),
+    createTextCompiler()
+  );
+
   process(
     source: Source
   ): Effect.Effect<StructuredDocument[], DocumentProcessingError, never> {
-    // For now, handle string input (could be file path or content)
+    // Raw package bytes
+    if (source instanceof Uint8Array) {
+      return this.processBytes(source);
+    }
+
+    // A string source is the path of a .docx file
     if (typeof source === "string") {
-      return Effect.succeed([
-        {
-          content: source,
-          metadata: {
-            format: "docx",
-          },
-        },
-      ]);
+      return pipe(
+        Effect.tryPromise({
+          try: () => fs.readFile(source),
+          catch: (error) =>
+            createIoError(`Failed to read file: ${source}`, "read", error, {
+              format: "docx",
+              path: source,
+            }),
+        }),
+        Effect.flatMap((buffer) =>
+          this.processBytes(new Uint8Array(buffer), source)
+        )
+      );
     }
 
     // Handle JSON input
@@ -42,7 +66,30 @@ class DocxProcessor implements DocumentProcessor {
     }
 
     return Effect.fail(
-      "Unsupported source type for docx processor" as DocumentProcessingError
+      createUnsupportedSourceError(source, { format: "docx" })
+    );
+  }
+
+  private processBytes(
+    bytes: Uint8Array,
+    path?: string
+  ): Effect.Effect<StructuredDocument[], DocumentProcessingError, never> {
+    const file = createVFile(bytes, path ? { path } : undefined);
+    return pipe(
+      this.processor.processWithTree(bytes, file),
+      Effect.mapError((error) =>
+        withErrorContext(error, { format: "docx", path })
+      ),
+      Effect.map(([content, tree]) => [
+        {
+          content,
+          tree,
+          metadata: {
+            format: tree.data?.format,
+            ...(path ? { path } : {}),
+          },
+        },
+      ])
     );
   }
 }
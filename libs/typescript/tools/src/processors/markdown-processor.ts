@@ -1,30 +1,65 @@
-import { Effect, Layer } from "effect";
+import { Effect, Layer, pipe } from "effect";
 import {
   DocumentProcessorService,
+  Processor,
+  createUnsupportedSourceError,
+  withErrorContext,
   type DocumentProcessor,
+  type DocumentRoot,
   type Source,
   type StructuredDocument,
   type DocumentProcessingError,
 } from "ndoctrinate-core";
+import {
+  createMarkdownParser,
+  type MarkdownParserOptions,
+} from "../parsers/markdown-parser.js";
+import { createMarkdownCompiler } from "../compilers/markdown-compiler.js";
+import { decodeUtf8 } from "./decode.js";
 
 /**
  * Markdown document processor
- * Stub implementation for processing Markdown documents
+ * Parses CommonMark/GFM source into a document tree through the core pipeline
  */
 class MarkdownProcessor implements DocumentProcessor {
+  private readonly processor: Processor<string, string, DocumentRoot>;
+
+  constructor(options: MarkdownParserOptions = {}) {
+    this.processor = new Processor(
+      createMarkdownParser(options),
+      createMarkdownCompiler(options)
+    );
+  }
+
   process(
     source: Source
   ): Effect.Effect<StructuredDocument[], DocumentProcessingError, never> {
-    // For now, handle string input
+    // Decode raw bytes as UTF-8 text
+    if (source instanceof Uint8Array) {
+      return pipe(
+        decodeUtf8(source, "markdown"),
+        Effect.flatMap((text) => this.process(text))
+      );
+    }
+
+    // Parse string input as Markdown source
     if (typeof source === "string") {
-      return Effect.succeed([
-        {
-          content: source,
-          metadata: {
-            format: "markdown",
-          },
-        },
-      ]);
+      return pipe(
+        this.processor.processWithTree(source),
+        Effect.mapError((error) =>
+          withErrorContext(error, { format: "markdown" })
+        ),
+        Effect.map(([content, tree]) => {
+          const { format, frontmatter } = tree.data ?? {};
+          return [
+            {
+              content,
+              tree,
+              metadata: { format, ...(frontmatter ? { frontmatter } : {}) },
+            },
+          ];
+        })
+      );
     }
 
     // Handle JSON input
@@ -42,7 +77,7 @@ class MarkdownProcessor implements DocumentProcessor {
     }
 
     return Effect.fail(
-      "Unsupported source type for markdown processor" as DocumentProcessingError
+      createUnsupportedSourceError(source, { format: "markdown" })
     );
   }
 }
@@ -0,0 +1,109 @@
+/**
+ * Tests for routing sources to processors by format
+ */
+
+import { describe, it, expect } from "bun:test";
+import { Effect, Layer } from "effect";
+import {
+  DocumentProcessorService,
+  ProcessorRegistryService,
+  createVFile,
+} from "ndoctrinate-core";
+import { createDocxCompiler } from "../compilers/docx-compiler.js";
+import { createMarkdownParser } from "../parsers/markdown-parser.js";
+import { FormatDetectorLayer } from "../detection/detect.js";
+import { MarkdownProcessorLayer } from "./markdown-processor.js";
+import {
+  ProcessorRegistryLayer,
+  RoutingProcessorLayer,
+  makeProcessorRegistryLayer,
+} from "./registry.js";
+
+const docx = Effect.runSync(
+  Effect.flatMap(createMarkdownParser().parse("# Report\n"), (tree) =>
+    createDocxCompiler().compile(tree, createVFile(""))
+  )
+);
+
+describe("ProcessorRegistryLayer", () => {
+  it("should route mixed sources within one program", async () => {
+    const formats = await Effect.runPromise(
+      Effect.gen(function* () {
+        const registry = yield* ProcessorRegistryService;
+        const results = yield* Effect.all([
+          registry.process("# Notes\n\nSee [docs](https://example.com).\n"),
+          registry.process("= Guide\n\n== Install\n\nNOTE: Requires Bun.\n"),
+          registry.process(docx, { path: "report.docx" }),
+        ]);
+        return results.map(([document]) => document.metadata?.format);
+      }).pipe(Effect.provide(ProcessorRegistryLayer))
+    );
+
+    expect(formats).toEqual(["markdown", "asciidoc", "docx"]);
+  });
+
+  it("should prefer a declared format over detection", async () => {
+    const [document] = await Effect.runPromise(
+      Effect.flatMap(ProcessorRegistryService, (registry) =>
+        registry.process("= Not a title\n", {
+          format: "markdown",
+          path: "notes.adoc",
+        })
+      ).pipe(Effect.provide(ProcessorRegistryLayer))
+    );
+
+    expect(document.metadata?.format).toBe("markdown");
+  });
+
+  it("should list the alternatives for unsupported formats", async () => {
+    const pdf = new TextEncoder().encode("%PDF-1.7\n");
+    const [detected, declared] = await Effect.runPromise(
+      Effect.flatMap(ProcessorRegistryService, (registry) =>
+        Effect.all([
+          Effect.flip(registry.process(pdf, { path: "paper.pdf" })),
+          Effect.flip(registry.process("text", { format: "rtf" })),
+        ])
+      ).pipe(Effect.provide(ProcessorRegistryLayer))
+    );
+
+    expect(detected).toMatchObject({
+      _tag: "UnsupportedFormatError",
+      format: "pdf",
+      path: "paper.pdf",
+      supported: ["asciidoc", "docx", "markdown"],
+    });
+    expect(declared.message).toBe(
+      "No processor for format rtf (supported: asciidoc, docx, markdown)"
+    );
+  });
+
+  it("should only route to registered processors", async () => {
+    const layer = makeProcessorRegistryLayer({
+      markdown: MarkdownProcessorLayer,
+    }).pipe(Layer.provide(FormatDetectorLayer));
+
+    const error = await Effect.runPromise(
+      Effect.flatMap(ProcessorRegistryService, (registry) =>
+        Effect.flip(registry.process("= Guide\n\n== Install\n"))
+      ).pipe(Effect.provide(layer))
+    );
+
+    expect(error).toMatchObject({
+      _tag: "UnsupportedFormatError",
+      format: "asciidoc",
+      supported: ["markdown"],
+    });
+  });
+});
+
+describe("RoutingProcessorLayer", () => {
+  it("should detect formats behind DocumentProcessorService", async () => {
+    const [document] = await Effect.runPromise(
+      Effect.flatMap(DocumentProcessorService, (processor) =>
+        processor.process(docx)
+      ).pipe(Effect.provide(RoutingProcessorLayer))
+    );
+
+    expect(document.metadata?.format).toBe("docx");
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Routing sources to the processor for their declared or detected format,
+ * so one program can process Markdown, AsciiDoc and DOCX side by side
+ */
+
+import { Effect, Layer, pipe } from "effect";
+import {
+  DocumentProcessorService,
+  FormatDetectorService,
+  ProcessorRegistryService,
+  createUnsupportedFormatError,
+  withErrorContext,
+  type DocumentProcessingError,
+  type DocumentProcessor,
+  type FormatDetector,
+  type ProcessingHints,
+  type ProcessorRegistry,
+  type Source,
+  type StructuredDocument,
+} from "ndoctrinate-core";
+import { FormatDetectorLayer } from "../detection/detect.js";
+import { processorLayers } from "./select.js";
+
+/**
+ * Processors by format, with the detector used for sources without a
+ * declared format
+ */
+class RoutingProcessorRegistry implements ProcessorRegistry {
+  private readonly processors = new Map<string, DocumentProcessor>();
+
+  constructor(private readonly detector: FormatDetector) {}
+
+  register(format: string, processor: DocumentProcessor): this {
+    this.processors.set(format, processor);
+    return this;
+  }
+
+  formats(): string[] {
+    return [...this.processors.keys()].sort();
+  }
+
+  process(
+    source: Source,
+    hints: ProcessingHints = {}
+  ): Effect.Effect<StructuredDocument[], DocumentProcessingError, never> {
+    if (hints.format !== undefined) {
+      return this.dispatch(hints.format, source, hints);
+    }
+
+    return pipe(
+      this.detector.detect(source, hints),
+      Effect.flatMap((candidates) => {
+        // The most likely format that has a processor, even if a format
+        // without one ranks higher
+        const match = candidates.find(({ format }) =>
+          this.processors.has(format)
+        );
+        return match
+          ? this.dispatch(match.format, source, hints)
+          : Effect.fail(
+              createUnsupportedFormatError(
+                candidates[0]?.format,
+                this.formats(),
+                { path: hints.path }
+              )
+            );
+      })
+    );
+  }
+
+  private dispatch(
+    format: string,
+    source: Source,
+    hints: ProcessingHints
+  ): Effect.Effect<StructuredDocument[], DocumentProcessingError, never> {
+    const processor = this.processors.get(format);
+    if (!processor) {
+      return Effect.fail(
+        createUnsupportedFormatError(format, this.formats(), {
+          path: hints.path,
+        })
+      );
+    }
+    return Effect.mapError(processor.process(source), (error) =>
+      withErrorContext(error, { format, path: hints.path })
+    );
+  }
+}
+
+/**
+ * Build a ProcessorRegistryService layer from one processor layer per format
+ *
+ * @param layers - Processor layers by format; the built-in processors by
+ * default
+ * @returns A layer that needs a FormatDetectorService for sources without a
+ * declared format
+ */
+export function makeProcessorRegistryLayer(
+  layers: Record<string, Layer.Layer<DocumentProcessor>> = processorLayers
+): Layer.Layer<ProcessorRegistry, never, FormatDetector> {
+  return Layer.effect(
+    ProcessorRegistryService,
+    Effect.gen(function* () {
+      const registry = new RoutingProcessorRegistry(
+        yield* FormatDetectorService
+      );
+      for (const [format, layer] of Object.entries(layers)) {
+        registry.register(
+          format,
+          yield* Effect.provide(DocumentProcessorService, layer)
+        );
+      }
+      return registry;
+    })
+  );
+}
+
+/**
+ * ProcessorRegistryLayer - Provides the built-in processors and format
+ * detection as ProcessorRegistryService
+ */
+export const ProcessorRegistryLayer = makeProcessorRegistryLayer().pipe(
+  Layer.provide(FormatDetectorLayer)
+);
+
+/**
+ * RoutingProcessorLayer - Provides ProcessorRegistryLayer as
+ * DocumentProcessorService, detecting the format of every source
+ */
+export const RoutingProcessorLayer = Layer.effect(
+  DocumentProcessorService,
+  ProcessorRegistryService
+).pipe(Layer.provide(ProcessorRegistryLayer));
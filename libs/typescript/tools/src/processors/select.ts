@@ -0,0 +1,65 @@
+/**
+ * Choosing the DocumentProcessorService layer for a source by its
+ * detected format
+ */
+
+import { Effect, type Layer } from "effect";
+import {
+  FormatDetectorService,
+  type DetectionHints,
+  type DocumentProcessor,
+  type FormatCandidate,
+  type FormatDetector,
+  type Source,
+} from "ndoctrinate-core";
+import { MarkdownProcessorLayer } from "./markdown-processor.js";
+import { AsciiDocProcessorLayer } from "./asciidoc-processor.js";
+import { DocxProcessorLayer } from "./docx-processor.js";
+
+/**
+ * The processor layer for each format with a built-in processor
+ */
+export const processorLayers: Record<string, Layer.Layer<DocumentProcessor>> = {
+  markdown: MarkdownProcessorLayer,
+  asciidoc: AsciiDocProcessorLayer,
+  docx: DocxProcessorLayer,
+};
+
+/**
+ * A processor chosen for a source
+ */
+export interface SelectedProcessor {
+  format: string;
+  layer: Layer.Layer<DocumentProcessor>;
+  /** Every detected candidate, most likely first */
+  candidates: FormatCandidate[];
+}
+
+/**
+ * Detect a source's format and pick the processor layer for the most likely
+ * format that has one
+ *
+ * @param source - The source to be processed
+ * @param hints - File name and media type, when known
+ * @returns The chosen layer, or undefined when no candidate format has a
+ * processor
+ */
+export function selectProcessor(
+  source: Source,
+  hints?: DetectionHints
+): Effect.Effect<SelectedProcessor | undefined, never, FormatDetector> {
+  return Effect.gen(function* () {
+    const detector = yield* FormatDetectorService;
+    const candidates = yield* detector.detect(source, hints);
+    const best = candidates.find(({ format }) =>
+      Object.hasOwn(processorLayers, format)
+    );
+    return (
+      best && {
+        format: best.format,
+        layer: processorLayers[best.format],
+        candidates,
+      }
+    );
+  });
+}